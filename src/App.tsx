@@ -7,6 +7,7 @@ import { useAppConfig } from './hooks/useAppConfig';
 import { PlayListsPage } from './pages/PlayListsPage';
 import { PlaylistDetailPage } from './pages/PlaylistDetailPage';
 import { TrackDetailPage } from "./pages/TrackDetailPage";
+import { HealthPage } from "./pages/HealthPage";
 import { PlaylistRefreshProvider } from "./components/Providers/PlaylistRefreshProvider";
 
 const ProtectedRoute = ({ children }: { children: ReactNode }) => {
@@ -62,7 +63,7 @@ function App() {
             />
 
             <Route
-              path="/track/:trackPath"
+              path="/track/:trackRef"
               element={
                 <ProtectedRoute>
                   <TrackDetailPage />
@@ -70,6 +71,15 @@ function App() {
               }
             />
 
+            <Route
+              path="/health"
+              element={
+                <ProtectedRoute>
+                  <HealthPage />
+                </ProtectedRoute>
+              }
+            />
+
             <Route path="/settings" element={<SetupPage />} />
 
             {/* Redirect unknown routes */}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { librarySong as song } from '../test/library';
+import type { AutoPlaylistSettings } from '../server/services/AutoPlaylistService';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/ConfigService', () => ({
+  ConfigService: { getConfig: vi.fn() },
+}));
+vi.mock('../server/services/JournalService', () => ({
+  JournalService: { run: vi.fn() },
+}));
+
+import { AutoPlaylistService } from '../server/services/AutoPlaylistService';
+import { ConfigService } from '../server/services/ConfigService';
+import { JournalService } from '../server/services/JournalService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import fs from 'fs-extra';
+
+describe('AutoPlaylistService', () => {
+  const libraryPath = '/library';
+  const playlistDir = '/library/Playlists';
+  const day = 24 * 60 * 60 * 1000;
+
+  const inventory = [
+    song('Radiohead/OK Computer/01 - Airbag.flac', { artist: 'Radiohead', year: 1997, addedAt: Date.now() - 2 * day }),
+    song('Various Artists/Hits/01 - Song.mp3', {
+      artist: 'Someone',
+      albumArtist: 'Various Artists',
+      genre: ['Otros'],
+      format: '.mp3',
+      codec: 'MPEG 1 Layer 3',
+      year: 2004,
+      addedAt: Date.now() - 60 * day,
+    }),
+  ];
+
+  const written = () =>
+    vi.mocked(fs.outputFile).mock.calls.map(([filePath]) => String(filePath).slice(playlistDir.length + 1));
+
+  const useSettings = (autoPlaylists?: AutoPlaylistSettings) =>
+    vi.mocked(ConfigService.getConfig).mockResolvedValue(
+      autoPlaylists ? { inboxPath: '/inbox', libraryPath, autoPlaylists } : null,
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readdir).mockResolvedValue([] as never);
+  });
+
+  it('should generate only genre playlists without settings', async () => {
+    useSettings();
+
+    await AutoPlaylistService.generate(inventory, libraryPath);
+
+    expect(written()).toEqual(['Genre_Rock.m3u8', 'Genre_Otros.m3u8']);
+  });
+
+  it('should generate every enabled family and skip excluded genres', async () => {
+    useSettings({
+      families: ['genre', 'artist', 'decade', 'format', 'recent'],
+      excludedGenres: ['otros'],
+      recentDays: 7,
+    });
+
+    await AutoPlaylistService.generate(inventory, libraryPath);
+
+    expect(written()).toEqual([
+      'Genre_Rock.m3u8',
+      'Artist_Radiohead.m3u8',
+      'Artist_Various Artists.m3u8',
+      'Decade_1990s.m3u8',
+      'Decade_2000s.m3u8',
+      'Format_FLAC.m3u8',
+      'Format_MPEG 1 Layer 3.m3u8',
+      'Recent_Last_7_Days.m3u8',
+    ]);
+    const recent = vi.mocked(fs.outputFile).mock.calls.find(([filePath]) =>
+      String(filePath).endsWith('Recent_Last_7_Days.m3u8'),
+    )![1] as string;
+    expect(recent).toContain('../Radiohead/OK Computer/01 - Airbag.flac');
+    expect(recent).not.toContain('Hits');
+  });
+
+  it('should remove playlists of disabled families and empty groups', async () => {
+    useSettings({ families: ['genre'], excludedGenres: ['Otros'] });
+    vi.mocked(fs.readJson).mockResolvedValue([
+      'Genre_Rock.m3u8',
+      'Genre_Otros.m3u8',
+      'Artist_Radiohead.m3u8',
+    ] as never);
+    const journal = { capture: vi.fn() };
+
+    await AutoPlaylistService.generate(inventory, libraryPath, journal as never);
+
+    expect(vi.mocked(fs.remove).mock.calls.map(([filePath]) => filePath)).toEqual([
+      `${playlistDir}/Genre_Otros.m3u8`,
+      `${playlistDir}/Artist_Radiohead.m3u8`,
+    ]);
+    expect(journal.capture).toHaveBeenCalledWith(`${playlistDir}/Artist_Radiohead.m3u8`);
+    expect(journal.capture).toHaveBeenCalledWith(`${playlistDir}/.auto_playlists.json`);
+    expect(fs.outputJson).toHaveBeenCalledWith(
+      `${playlistDir}/.auto_playlists.json`,
+      ['Genre_Rock.m3u8'],
+      { spaces: 2 },
+    );
+  });
+
+  it('should leave user playlists that share a prefix alone', async () => {
+    useSettings();
+    vi.mocked(fs.readdir).mockResolvedValue(['Artist_Picks.m3u8', 'Recent_Buys.m3u8'] as never);
+    vi.mocked(fs.readJson).mockResolvedValue(['Genre_Rock.m3u8', '../Recent_Buys.m3u8', 'Favorites.m3u8'] as never);
+
+    await AutoPlaylistService.generate(inventory, libraryPath);
+
+    expect(fs.remove).not.toHaveBeenCalled();
+  });
+
+  it('should regenerate from the database as an operation that can be undone', async () => {
+    useSettings();
+    const journal = { capture: vi.fn() };
+    vi.spyOn(LibraryStore, 'read').mockResolvedValue(inventory);
+    vi.mocked(JournalService.run).mockImplementation((async (
+      _type: string,
+      _libraryPath: string,
+      _description: string,
+      work: (journal: unknown) => Promise<unknown>,
+    ) => work(journal)) as never);
+
+    await AutoPlaylistService.regenerate(libraryPath);
+
+    expect(JournalService.run).toHaveBeenCalledWith('auto-playlists', libraryPath, expect.any(String), expect.any(Function));
+    expect(journal.capture).toHaveBeenCalledWith(`${playlistDir}/Genre_Rock.m3u8`);
+  });
+
+  it('should tell automatic playlists apart', () => {
+    expect(AutoPlaylistService.isAutoPlaylist('Decade_1980s')).toBe(true);
+    expect(AutoPlaylistService.isAutoPlaylist('Road Trip')).toBe(false);
+    expect(AutoPlaylistService.isAutoPlaylist('Smart_Lossless')).toBe(false);
+  });
+
+  it('should validate settings', () => {
+    expect(AutoPlaylistService.validateSettings({ families: ['artist'], recentDays: 90 })).toEqual([]);
+    expect(AutoPlaylistService.validateSettings({ excludedGenres: 'Otros' })).toEqual([
+      'excludedGenres must be a list of genres',
+    ]);
+    expect(AutoPlaylistService.validateSettings(null)).toEqual(['autoPlaylists must be an object']);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ScanResult, SongMetadata } from '../server/services/OrganizerService';
+
+vi.mock('fs-extra');
+vi.mock('music-metadata');
+
+import { DuplicateDetectionService } from '../server/services/DuplicateDetectionService';
+import fs from 'fs-extra';
+import * as mm from 'music-metadata';
+
+describe('DuplicateDetectionService', () => {
+  const mockLibraryPath = '/mock/library';
+
+  const makeSong = (overrides: Partial<SongMetadata> = {}): SongMetadata => ({
+    title: 'Song',
+    artist: 'Artist',
+    album: 'Album',
+    trackNo: '01',
+    genre: ['Rock'],
+    format: '.flac',
+    absPath: '/mock/inbox/song.flac',
+    playlists: [],
+    duration: 200,
+    ...overrides,
+  });
+
+  const makeResult = (file: string, overrides: Partial<SongMetadata> = {}): ScanResult => ({
+    file,
+    metadata: makeSong({ absPath: file, ...overrides }),
+    proposedPath: `/mock/library/${file}`,
+    playlists: [],
+  });
+
+  // Serves reads from an in-memory file through the mocked fs-extra API
+  const mockFile = (content: Buffer) => {
+    vi.mocked(fs.stat).mockResolvedValue({ size: content.length } as never);
+    vi.mocked(fs.open).mockResolvedValue(3 as never);
+    vi.mocked(fs.close).mockResolvedValue(undefined as never);
+    vi.mocked(fs.read).mockImplementation((async (
+      _fd: number,
+      buffer: Buffer,
+      offset: number,
+      length: number,
+      position: number,
+    ) => {
+      const bytesRead = content.copy(buffer, offset, position, position + length);
+      return { bytesRead, buffer };
+    }) as never);
+    vi.mocked(fs.createReadStream).mockImplementation(((
+      _path: string,
+      options: { start: number; end: number },
+    ) => Readable.from([content.subarray(options.start, options.end + 1)])) as never);
+  };
+
+  const sha1 = (data: Buffer) => `sha1:${crypto.createHash('sha1').update(data).digest('hex')}`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mm.parseFile).mockResolvedValue({ format: {} } as never);
+  });
+
+  describe('computeAudioHash', () => {
+    it('should use the FLAC STREAMINFO MD5 when present', async () => {
+      const md5 = new Uint8Array([0xab, 0xcd, 0x01]);
+
+      expect(await DuplicateDetectionService.computeAudioHash('/song.flac', md5)).toBe('md5:abcd01');
+      expect(fs.stat).not.toHaveBeenCalled();
+    });
+
+    it('should read the STREAMINFO MD5 of FLAC files the caller has not parsed', async () => {
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: { audioMD5: new Uint8Array([0xab, 0xcd, 0x01]) },
+      } as never);
+
+      expect(await DuplicateDetectionService.computeAudioHash('/library/song.flac')).toBe('md5:abcd01');
+      expect(fs.stat).not.toHaveBeenCalled();
+    });
+
+    it('should hash only the audio between ID3v2 and ID3v1 tags', async () => {
+      const audio = Buffer.from('audio-frames');
+      const id3v2 = Buffer.concat([
+        Buffer.from('ID3'),
+        Buffer.from([3, 0, 0, 0, 0, 0, 4]),
+        Buffer.from('tags'),
+      ]);
+      const id3v1 = Buffer.concat([Buffer.from('TAG'), Buffer.alloc(125)]);
+      mockFile(Buffer.concat([id3v2, audio, id3v1]));
+
+      expect(await DuplicateDetectionService.computeAudioHash('/song.mp3')).toBe(sha1(audio));
+    });
+
+    it('should skip FLAC metadata blocks', async () => {
+      const audio = Buffer.from('flac-frames');
+      const lastBlock = Buffer.from([0x84, 0, 0, 2, 0xff, 0xff]);
+      mockFile(Buffer.concat([Buffer.from('fLaC'), lastBlock, audio]));
+
+      expect(await DuplicateDetectionService.computeAudioHash('/song.flac')).toBe(sha1(audio));
+    });
+
+    it('should return null when the file cannot be read', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fs.stat).mockRejectedValue(new Error('ENOENT') as never);
+
+      expect(await DuplicateDetectionService.computeAudioHash('/missing.mp3')).toBeNull();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('flagDuplicates', () => {
+    it('should flag exact duplicates of library tracks by audio hash', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        makeSong({ title: 'Other Name', absPath: '/mock/library/a.flac', audioHash: 'sha1:aaa' }),
+      ] as never);
+
+      const results = await DuplicateDetectionService.flagDuplicates(
+        [makeResult('/mock/inbox/renamed.flac', { audioHash: 'sha1:aaa' })],
+        mockLibraryPath,
+      );
+
+      expect(results[0].duplicate).toEqual({
+        status: 'exact',
+        source: 'library',
+        matchPath: '/mock/library/a.flac',
+      });
+    });
+
+    it('should flag probable duplicates by artist, title and duration', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        makeSong({ title: 'Canción', absPath: '/mock/library/a.mp3', audioHash: 'sha1:aaa', duration: 201 }),
+      ] as never);
+
+      const results = await DuplicateDetectionService.flagDuplicates(
+        [
+          makeResult('/mock/inbox/1.flac', { title: 'cancion', audioHash: 'sha1:bbb' }),
+          makeResult('/mock/inbox/2.flac', { title: 'Canción', audioHash: 'sha1:ccc', duration: 260 }),
+        ],
+        mockLibraryPath,
+      );
+
+      expect(results[0].duplicate).toEqual({
+        status: 'probable',
+        source: 'library',
+        matchPath: '/mock/library/a.mp3',
+      });
+      expect(results[1].duplicate).toEqual({ status: 'new' });
+    });
+
+    it('should hash library tracks without a stored hash when the tags match', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        makeSong({ absPath: '/mock/library/a.flac', duration: 100 }),
+      ] as never);
+      const spy = vi
+        .spyOn(DuplicateDetectionService, 'computeAudioHash')
+        .mockResolvedValue('sha1:aaa');
+
+      const results = await DuplicateDetectionService.flagDuplicates(
+        [makeResult('/mock/inbox/song.flac', { audioHash: 'sha1:aaa' })],
+        mockLibraryPath,
+      );
+
+      expect(spy).toHaveBeenCalledWith('/mock/library/a.flac');
+      expect(results[0].duplicate?.status).toBe('exact');
+      spy.mockRestore();
+    });
+
+    it('should flag duplicates within the inbox itself', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      const results = await DuplicateDetectionService.flagDuplicates(
+        [
+          makeResult('/mock/inbox/a.flac', { audioHash: 'sha1:aaa' }),
+          makeResult('/mock/inbox/Copy/a.flac', { title: 'Different', audioHash: 'sha1:aaa' }),
+          makeResult('/mock/inbox/a.mp3', { format: '.mp3', audioHash: 'sha1:bbb', duration: 199 }),
+        ],
+        mockLibraryPath,
+      );
+
+      expect(results.map((r) => r.duplicate)).toEqual([
+        { status: 'new' },
+        { status: 'exact', source: 'inbox', matchPath: '/mock/inbox/a.flac' },
+        { status: 'probable', source: 'inbox', matchPath: '/mock/inbox/a.flac' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ScanResult } from '../server/services/OrganizerService';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/ConfigService');
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isSupportedFormat: (filePath: string) => /\.(flac|mp3)$/i.test(filePath),
+    scanFolder: vi.fn(),
+    organize: vi.fn(),
+  },
+}));
+
+import { InboxWatcherService } from '../server/services/InboxWatcherService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import { ConfigService } from '../server/services/ConfigService';
+import fs from 'fs-extra';
+
+const dirent = (name: string, isDirectory: boolean) => ({
+  name,
+  isDirectory: () => isDirectory,
+  isFile: () => !isDirectory,
+});
+
+describe('InboxWatcherService', () => {
+  const SETTLE_MS = 30000;
+  // Folder name -> file name -> size
+  let inbox: Record<string, Record<string, number>>;
+
+  const scanResult = (file: string, status: 'new' | 'exact' = 'new'): ScanResult => ({
+    file,
+    metadata: {
+      title: 'Song',
+      artist: 'Artist',
+      album: 'Album',
+      trackNo: '01',
+      genre: ['Rock'],
+      format: '.flac',
+      absPath: file,
+      playlists: [],
+    },
+    proposedPath: `/library/Artist/Album/01 - Song.flac`,
+    playlists: [],
+    duplicate: { status },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    InboxWatcherService.reset();
+    inbox = {};
+
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+      if (dir === '/inbox') {
+        return Object.keys(inbox).map((name) => dirent(name, true));
+      }
+      const files = inbox[dir.replace('/inbox/', '')] || {};
+      return Object.keys(files).map((name) => dirent(name, false));
+    }) as never);
+    vi.mocked(fs.stat).mockImplementation((async (filePath: string) => {
+      const [folder, file] = filePath.replace('/inbox/', '').split('/');
+      return { size: inbox[folder][file], mtimeMs: 1000 };
+    }) as never);
+    vi.mocked(ConfigService.getConfig).mockResolvedValue({
+      inboxPath: '/inbox',
+      libraryPath: '/library',
+      watchInbox: true,
+      watchRules: [{ folder: 'auto-*', action: 'organize', policy: 'rename' }],
+    });
+    vi.mocked(OrganizerService.scanFolder).mockImplementation(async (folder) => [
+      scanResult(`${folder}/01.flac`),
+    ]);
+    vi.mocked(OrganizerService.organize).mockResolvedValue({
+      operationId: 'op-1',
+      summary: { moved: 1, renamed: 0, replaced: 0, 'skipped-duplicate': 0, failed: 0 },
+      files: [],
+    });
+
+    InboxWatcherService.start('/inbox', 60 * 60 * 1000);
+  });
+
+  afterEach(() => {
+    InboxWatcherService.reset();
+  });
+
+  it('should ignore folders that were already in the inbox when it started', async () => {
+    inbox = { 'Old Album': { '01.flac': 100 } };
+
+    await InboxWatcherService.poll(0);
+    await InboxWatcherService.poll(SETTLE_MS + 1);
+
+    expect(OrganizerService.scanFolder).not.toHaveBeenCalled();
+  });
+
+  it('should scan a new folder once its files stop changing and queue it for review', async () => {
+    await InboxWatcherService.poll(0);
+
+    inbox = { 'New Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(1000);
+    // Still being copied
+    inbox = { 'New Album': { '01.flac': 200, '02.flac': 50 } };
+    await InboxWatcherService.poll(5000);
+    await InboxWatcherService.poll(5000 + SETTLE_MS - 1);
+    expect(OrganizerService.scanFolder).not.toHaveBeenCalled();
+
+    await InboxWatcherService.poll(5000 + SETTLE_MS);
+    await InboxWatcherService.poll(5000 + SETTLE_MS * 2);
+
+    expect(OrganizerService.scanFolder).toHaveBeenCalledTimes(1);
+    expect(OrganizerService.scanFolder).toHaveBeenCalledWith(
+      '/inbox/New Album',
+      '/library',
+      { template: undefined, variousArtists: undefined },
+      { concurrency: undefined },
+    );
+    expect(OrganizerService.organize).not.toHaveBeenCalled();
+
+    const { queue } = InboxWatcherService.getStatus();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({
+      folder: '/inbox/New Album',
+      action: 'review',
+      status: 'pending-review',
+    });
+    expect(queue[0].results).toHaveLength(1);
+  });
+
+  it('should keep polling other folders when one cannot be read', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const readdir = vi.mocked(fs.readdir).getMockImplementation() as unknown as (dir: string) => Promise<unknown>;
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+      if (dir === '/inbox/Gone') throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return readdir(dir);
+    }) as never);
+
+    inbox = { Gone: {}, 'Old Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(0);
+
+    inbox = { Gone: {}, 'Old Album': { '01.flac': 100 }, 'New Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(1000);
+    await InboxWatcherService.poll(1000 + SETTLE_MS);
+
+    // The first poll still counted even though a folder failed
+    expect(OrganizerService.scanFolder).toHaveBeenCalledTimes(1);
+    expect(OrganizerService.scanFolder).toHaveBeenCalledWith(
+      '/inbox/New Album',
+      '/library',
+      expect.anything(),
+      expect.anything(),
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('should organize folders matching an organize rule', async () => {
+    await InboxWatcherService.poll(0);
+    inbox = { 'auto-Bandcamp Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(1000);
+    await InboxWatcherService.poll(1000 + SETTLE_MS);
+
+    expect(OrganizerService.organize).toHaveBeenCalledWith(
+      [expect.objectContaining({ file: '/inbox/auto-Bandcamp Album/01.flac' })],
+      '/library',
+      'rename',
+    );
+    expect(InboxWatcherService.getStatus().queue[0]).toMatchObject({
+      status: 'organized',
+      results: [],
+      organize: { operationId: 'op-1' },
+    });
+  });
+
+  it('should leave possible duplicates for review even with an organize rule', async () => {
+    vi.mocked(OrganizerService.scanFolder).mockResolvedValue([
+      scanResult('/inbox/auto-Album/01.flac', 'exact'),
+    ]);
+
+    await InboxWatcherService.poll(0);
+    inbox = { 'auto-Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(1000);
+    await InboxWatcherService.poll(1000 + SETTLE_MS);
+
+    expect(OrganizerService.organize).not.toHaveBeenCalled();
+    expect(InboxWatcherService.getStatus().queue[0]).toMatchObject({
+      status: 'pending-review',
+      reason: '1 possible duplicate(s) need review',
+    });
+  });
+
+  it('should skip folders without audio files', async () => {
+    await InboxWatcherService.poll(0);
+    inbox = { Artwork: { 'cover.jpg': 100 } };
+    await InboxWatcherService.poll(1000);
+    await InboxWatcherService.poll(1000 + SETTLE_MS);
+
+    expect(OrganizerService.scanFolder).not.toHaveBeenCalled();
+  });
+
+  it('should dismiss queued items', async () => {
+    await InboxWatcherService.poll(0);
+    inbox = { 'New Album': { '01.flac': 100 } };
+    await InboxWatcherService.poll(1000);
+    await InboxWatcherService.poll(1000 + SETTLE_MS);
+
+    const [item] = InboxWatcherService.getStatus().queue;
+    expect(InboxWatcherService.dismiss(item.id)).toBe(true);
+    expect(InboxWatcherService.dismiss(item.id)).toBe(false);
+    expect(InboxWatcherService.getStatus().queue).toEqual([]);
+  });
+
+  describe('matchRule', () => {
+    it('should match folder names with wildcards, case-insensitively', () => {
+      const rules = [
+        { folder: 'bandcamp - *', action: 'organize' as const },
+        { folder: '*', action: 'review' as const },
+      ];
+
+      expect(InboxWatcherService.matchRule('Bandcamp - Artist (2020)', rules)?.action).toBe('organize');
+      expect(InboxWatcherService.matchRule('Other', rules)?.action).toBe('review');
+      expect(InboxWatcherService.matchRule('Other', [])).toBeUndefined();
+    });
+  });
+});
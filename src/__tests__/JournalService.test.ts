@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { JournalEntry } from '../server/services/JournalService';
+
+vi.mock('fs-extra');
+
+import { JournalService } from '../server/services/JournalService';
+import fs from 'fs-extra';
+
+describe('JournalService', () => {
+  const libraryPath = '/library';
+  const operationsDir = '/library/.operations';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.ensureDir).mockResolvedValue(undefined as never);
+    vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+    vi.mocked(fs.move).mockResolvedValue(undefined as never);
+    vi.mocked(fs.copy).mockResolvedValue(undefined as never);
+    vi.mocked(fs.remove).mockResolvedValue(undefined as never);
+    vi.mocked(fs.readdir).mockResolvedValue([] as never);
+  });
+
+  const lastSavedEntry = (): JournalEntry =>
+    vi.mocked(fs.writeJson).mock.calls.at(-1)![1] as JournalEntry;
+
+  describe('run', () => {
+    it('should record moves and snapshots and mark the operation completed', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+        p === '/library/library_db.json') as never);
+
+      const result = await JournalService.run('organize', libraryPath, 'Organize 1 files', async (journal) => {
+        await journal.move('/inbox/a.flac', '/library/A/a.flac');
+        await journal.capture('/library/library_db.json');
+        await journal.capture('/library/Playlists/New.m3u8');
+        return journal.id;
+      });
+
+      expect(fs.move).toHaveBeenCalledWith('/inbox/a.flac', '/library/A/a.flac');
+      const entry = lastSavedEntry();
+      expect(entry.id).toBe(result);
+      expect(entry.status).toBe('completed');
+      expect(entry.moves).toEqual([{ from: '/inbox/a.flac', to: '/library/A/a.flac' }]);
+      expect(entry.snapshots).toEqual([
+        { path: '/library/library_db.json', copy: `${operationsDir}/${result}/snapshots/0.json` },
+        { path: '/library/Playlists/New.m3u8', copy: null },
+      ]);
+      expect(fs.copy).toHaveBeenCalledWith(
+        '/library/library_db.json',
+        `${operationsDir}/${result}/snapshots/0.json`,
+      );
+    });
+
+    it('should roll back and rethrow when the work fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onDisk = new Set(['/library/library_db.json']);
+      vi.mocked(fs.pathExists).mockImplementation((async (p: string) => onDisk.has(p)) as never);
+      vi.mocked(fs.move).mockImplementation((async (from: string, to: string) => {
+        onDisk.delete(from);
+        onDisk.add(to);
+      }) as never);
+
+      await expect(
+        JournalService.run('organize', libraryPath, 'Organize', async (journal) => {
+          await journal.move('/inbox/a.flac', '/library/A/a.flac');
+          await journal.capture('/library/library_db.json');
+          throw new Error('Disk full');
+        }),
+      ).rejects.toThrow('Disk full');
+
+      expect(fs.move).toHaveBeenLastCalledWith('/library/A/a.flac', '/inbox/a.flac');
+      expect(fs.copy).toHaveBeenLastCalledWith(
+        expect.stringContaining('snapshots/0.json'),
+        '/library/library_db.json',
+        { overwrite: true },
+      );
+      expect(lastSavedEntry()).toMatchObject({ status: 'rolled-back', error: 'Disk full' });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('undo', () => {
+    const entry: JournalEntry = {
+      id: '1700000000000-abcd',
+      type: 'organize',
+      libraryPath,
+      description: 'Organize 2 files',
+      status: 'completed',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      moves: [
+        { from: '/library/A/a.flac', to: `${operationsDir}/1700000000000-abcd/backups/0.flac` },
+        { from: '/inbox/a.flac', to: '/library/A/a.flac' },
+      ],
+      snapshots: [
+        { path: '/library/library_db.json', copy: `${operationsDir}/1700000000000-abcd/snapshots/0.json` },
+        { path: '/library/Playlists/Genre_Rock.m3u8', copy: null },
+      ],
+    };
+
+    it('should throw if the operation does not exist', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      await expect(JournalService.undo(libraryPath, 'missing')).rejects.toThrow(
+        'Operation missing not found',
+      );
+    });
+
+    it('should refuse to undo an operation twice', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({ ...entry, status: 'undone' } as never);
+
+      await expect(JournalService.undo(libraryPath, entry.id)).rejects.toThrow(
+        'has already been undone',
+      );
+    });
+
+    it('should refuse to undo an operation before newer ones', async () => {
+      const newer = { ...entry, id: '1700000000999-ef01', moves: [], snapshots: [] };
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([entry.id, newer.id] as never);
+      vi.mocked(fs.readJson).mockImplementation((async (p: string) =>
+        structuredClone(p.includes(newer.id) ? newer : entry)) as never);
+
+      await expect(JournalService.undo(libraryPath, entry.id)).rejects.toThrow('undo those first');
+      expect(fs.move).not.toHaveBeenCalled();
+      expect(fs.copy).not.toHaveBeenCalled();
+
+      // Once the newer operation is undone, the older one can be
+      vi.mocked(fs.readJson).mockImplementation((async (p: string) =>
+        structuredClone(p.includes(newer.id) ? { ...newer, status: 'undone' } : entry)) as never);
+      const result = await JournalService.undo(libraryPath, entry.id);
+      expect(result.operation.status).toBe('undone');
+    });
+
+    it('should move files back in reverse order and restore snapshots', async () => {
+      const onDisk = new Set([
+        `${operationsDir}/${entry.id}/journal.json`,
+        `${operationsDir}/${entry.id}/backups/0.flac`,
+        '/library/A/a.flac',
+        '/library/Playlists/Genre_Rock.m3u8',
+      ]);
+      vi.mocked(fs.pathExists).mockImplementation((async (p: string) => onDisk.has(p)) as never);
+      vi.mocked(fs.move).mockImplementation((async (from: string, to: string) => {
+        onDisk.delete(from);
+        onDisk.add(to);
+      }) as never);
+      vi.mocked(fs.readJson).mockResolvedValue(structuredClone(entry) as never);
+      vi.mocked(fs.readdir).mockResolvedValue(['other.flac'] as never);
+
+      const result = await JournalService.undo(libraryPath, entry.id);
+
+      expect(vi.mocked(fs.move).mock.calls).toEqual([
+        ['/library/A/a.flac', '/inbox/a.flac'],
+        [`${operationsDir}/${entry.id}/backups/0.flac`, '/library/A/a.flac'],
+      ]);
+      expect(fs.copy).toHaveBeenCalledWith(
+        `${operationsDir}/${entry.id}/snapshots/0.json`,
+        '/library/library_db.json',
+        { overwrite: true },
+      );
+      expect(fs.remove).toHaveBeenCalledWith('/library/Playlists/Genre_Rock.m3u8');
+      expect(result.restoredFiles).toBe(2);
+      expect(result.failures).toEqual([]);
+      expect(result.operation.status).toBe('undone');
+    });
+
+    it('should report files that can no longer be restored', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+        p.endsWith('journal.json')) as never);
+      vi.mocked(fs.readJson).mockResolvedValue(structuredClone(entry) as never);
+
+      const result = await JournalService.undo(libraryPath, entry.id);
+
+      expect(fs.move).not.toHaveBeenCalled();
+      expect(result.failures).toHaveLength(2);
+      expect(result.failures[0]).toBe('Missing /library/A/a.flac');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { librarySong } from '../test/library';
+
+vi.mock('fs-extra');
+vi.mock('music-metadata');
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isSupportedFormat: (filePath: string) => /\.(flac|mp3)$/i.test(filePath),
+    isInternalEntry: (name: string) => ['.operations', '.transcode-cache'].includes(name) || name.startsWith('._'),
+    applyLibraryChanges: vi.fn(),
+    removePlaylistEntries: vi.fn(),
+  },
+}));
+vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore()));
+
+import { LibraryHealthService } from '../server/services/LibraryHealthService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import * as mm from 'music-metadata';
+import fs from 'fs-extra';
+
+describe('LibraryHealthService', () => {
+  const libraryPath = '/library';
+  // Absolute file path -> { size, mtimeMs }
+  let disk: Map<string, { size: number; mtimeMs: number }>;
+  let playlists: Record<string, string>;
+
+  const song = (relPath: string, overrides: Partial<SongMetadata> = {}): SongMetadata =>
+    librarySong(relPath, { title: relPath.split('/').pop()!, fileSize: 100, modifiedAt: 1, ...overrides });
+
+  const listDir = (dir: string) => {
+    const names = new Map<string, boolean>(); // name -> isDirectory
+    for (const filePath of disk.keys()) {
+      if (!filePath.startsWith(`${dir}/`)) continue;
+      const [name, ...rest] = filePath.slice(dir.length + 1).split('/');
+      names.set(name, rest.length > 0);
+    }
+    return [...names].map(([name, isDirectory]) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    }));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    disk = new Map([
+      ['/library/Artist/Album/01.flac', { size: 100, mtimeMs: 1 }],
+      ['/library/Artist/Album/02.flac', { size: 100, mtimeMs: 1 }],
+      ['/library/.operations/op/backups/0.flac', { size: 1, mtimeMs: 1 }],
+    ]);
+    playlists = {};
+
+    vi.mocked(LibraryStore.read).mockResolvedValue([
+      song('Artist/Album/01.flac'),
+      song('Artist/Album/02.flac'),
+    ]);
+    vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+      filePath === libraryPath ||
+      filePath === '/library/Playlists' ||
+      disk.has(filePath)) as never);
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string, options?: unknown) => {
+      if (dir === '/library/Playlists') {
+        return Object.keys(playlists).map((name) => ({ name, isDirectory: () => false, isFile: () => true }));
+      }
+      const entries = listDir(dir);
+      if (dir === libraryPath && Object.keys(playlists).length > 0) {
+        entries.push({ name: 'Playlists', isDirectory: () => true, isFile: () => false });
+      }
+      return options ? entries : entries.map((entry) => entry.name);
+    }) as never);
+    vi.mocked(fs.stat).mockImplementation((async (filePath: string) => disk.get(filePath)) as never);
+    vi.mocked(fs.readFile).mockImplementation((async (filePath: string) =>
+      playlists[filePath.slice('/library/Playlists/'.length)]) as never);
+    vi.mocked(mm.parseFile).mockResolvedValue({} as never);
+    vi.mocked(OrganizerService.applyLibraryChanges).mockResolvedValue(undefined);
+    vi.mocked(OrganizerService.removePlaylistEntries).mockResolvedValue(undefined);
+  });
+
+  describe('check', () => {
+    it('should report nothing for a healthy library', async () => {
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report).toMatchObject({
+        libraryPath,
+        trackCount: 2,
+        missingFiles: [],
+        untrackedFiles: [],
+        brokenPlaylistEntries: [],
+        placeholderMetadata: [],
+        unreadableFiles: [],
+      });
+      // Unchanged tracks are not parsed again
+      expect(mm.parseFile).not.toHaveBeenCalled();
+    });
+
+    it('should report missing and untracked files', async () => {
+      disk.delete('/library/Artist/Album/02.flac');
+      disk.set('/library/New/Album/01.mp3', { size: 50, mtimeMs: 2 });
+
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report.missingFiles).toEqual([
+        { trackId: 'Artist/Album/02.flac', path: '/library/Artist/Album/02.flac', title: '02.flac', artist: 'Artist' },
+      ]);
+      expect(report.untrackedFiles).toEqual(['/library/New/Album/01.mp3']);
+    });
+
+    it('should not report tracks in dot-leading folders as missing', async () => {
+      disk.set('/library/.38 Special/...And More/01.flac', { size: 100, mtimeMs: 1 });
+      vi.mocked(LibraryStore.read).mockResolvedValue([
+        song('Artist/Album/01.flac'),
+        song('Artist/Album/02.flac'),
+        song('.38 Special/...And More/01.flac'),
+      ]);
+
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report.missingFiles).toEqual([]);
+      expect(report.untrackedFiles).toEqual([]);
+    });
+
+    it('should report files that fail to parse', async () => {
+      disk.set('/library/New/broken.flac', { size: 5, mtimeMs: 2 });
+      disk.set('/library/Artist/Album/01.flac', { size: 80, mtimeMs: 3 });
+      vi.mocked(mm.parseFile).mockRejectedValue(new Error('Invalid FLAC preamble'));
+
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report.unreadableFiles).toEqual([
+        { path: '/library/Artist/Album/01.flac', error: 'Invalid FLAC preamble' },
+        { path: '/library/New/broken.flac', error: 'Invalid FLAC preamble' },
+      ]);
+      expect(report.untrackedFiles).toEqual([]);
+    });
+
+    it('should report playlist entries that do not resolve', async () => {
+      playlists = {
+        'Favorites.m3u8': '#EXTM3U\n../Artist/Album/01.flac\n..\\Gone\\Song.flac\n',
+        '00_Master_Library.m3u8': '#EXTM3U\n../Old/Song.flac\n',
+      };
+
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report.brokenPlaylistEntries).toEqual([
+        { playlist: 'Favorites', entry: '../Gone/Song.flac', resolvedPath: '/library/Gone/Song.flac' },
+      ]);
+    });
+
+    it('should report tracks with placeholder metadata', async () => {
+      vi.mocked(LibraryStore.read).mockResolvedValue([
+        song('Artist/Album/01.flac', { artist: 'Unknown Artist', trackNo: '00' }),
+        song('Artist/Album/02.flac', { genre: ['Otros'] }),
+      ]);
+
+      const report = await LibraryHealthService.check(libraryPath);
+
+      expect(report.placeholderMetadata.map((issue) => issue.fields)).toEqual([
+        ['artist', 'trackNo'],
+        ['genre'],
+      ]);
+    });
+  });
+
+  describe('fix', () => {
+    it('should drop missing tracks from the database', async () => {
+      disk.delete('/library/Artist/Album/02.flac');
+
+      await LibraryHealthService.fix(libraryPath, 'remove-missing');
+
+      expect(OrganizerService.applyLibraryChanges).toHaveBeenCalledWith(libraryPath, {
+        added: [],
+        removed: ['/library/Artist/Album/02.flac'],
+        modified: [],
+        renamed: [],
+      }, {});
+    });
+
+    it('should add untracked files to the database', async () => {
+      disk.set('/library/New/01.flac', { size: 50, mtimeMs: 2 });
+
+      await LibraryHealthService.fix(libraryPath, 'add-untracked', { concurrency: 2 });
+
+      expect(OrganizerService.applyLibraryChanges).toHaveBeenCalledWith(libraryPath, {
+        added: ['/library/New/01.flac'],
+        removed: [],
+        modified: [],
+        renamed: [],
+      }, { concurrency: 2 });
+    });
+
+    it('should remove broken playlist entries once', async () => {
+      playlists = {
+        'Favorites.m3u8': '#EXTM3U\n../Gone/Song.flac\n',
+        'Workout.m3u8': '#EXTM3U\n../Gone/Song.flac\n',
+      };
+
+      const report = await LibraryHealthService.fix(libraryPath, 'remove-broken-entries');
+
+      expect(OrganizerService.removePlaylistEntries).toHaveBeenCalledWith(libraryPath, ['../Gone/Song.flac']);
+      expect(report.libraryPath).toBe(libraryPath);
+    });
+
+    it('should remove broken entries of playlists in subfolders by their path from the Playlists folder', async () => {
+      playlists = { 'Road Trips/Summer.m3u8': '#EXTM3U\n../../Gone/Song.flac\n' };
+
+      await LibraryHealthService.fix(libraryPath, 'remove-broken-entries');
+
+      expect(OrganizerService.removePlaylistEntries).toHaveBeenCalledWith(libraryPath, ['../Gone/Song.flac']);
+    });
+  });
+});
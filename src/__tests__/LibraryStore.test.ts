@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+
+vi.mock('fs-extra');
+
+import { LibraryStore } from '../server/services/LibraryStore';
+import fs from 'fs-extra';
+
+describe('LibraryStore', () => {
+  const libraryPath = '/library';
+  const dbPath = '/library/library_db.json';
+  // In-memory files: path -> JSON content
+  let files: Map<string, unknown>;
+  let mtime: number;
+
+  const song = (title: string): SongMetadata => ({
+    title,
+    artist: 'Artist',
+    album: 'Album',
+    trackNo: '01',
+    genre: ['Rock'],
+    format: '.flac',
+    absPath: `/library/Artist/Album/${title}.flac`,
+    playlists: [],
+  });
+
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    LibraryStore.invalidate();
+    files = new Map([[dbPath, [song('One')]]]);
+    mtime = 1;
+
+    vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+      files.has(filePath)) as never);
+    vi.mocked(fs.stat).mockImplementation((async (filePath: string) => ({
+      size: JSON.stringify(files.get(filePath)).length,
+      mtimeMs: mtime,
+    })) as never);
+    vi.mocked(fs.readJson).mockImplementation((async (filePath: string) => {
+      await tick();
+      return structuredClone(files.get(filePath));
+    }) as never);
+    vi.mocked(fs.outputJson).mockImplementation((async (filePath: string, data: unknown) => {
+      await tick();
+      files.set(filePath, structuredClone(data));
+    }) as never);
+    vi.mocked(fs.rename).mockImplementation((async (from: string, to: string) => {
+      files.set(to, files.get(from));
+      files.delete(from);
+      mtime++;
+    }) as never);
+  });
+
+  describe('read', () => {
+    it('should return null when the library has no database', async () => {
+      files.clear();
+      expect(await LibraryStore.read(libraryPath)).toBeNull();
+    });
+
+    it('should cache the database until the file changes', async () => {
+      const first = await LibraryStore.read(libraryPath);
+      first![0].title = 'Changed by caller';
+      const second = await LibraryStore.read(libraryPath);
+
+      expect(second).toEqual([song('One')]);
+      expect(fs.readJson).toHaveBeenCalledTimes(1);
+
+      // Edited outside the app
+      files.set(dbPath, [song('One'), song('Two')]);
+      mtime++;
+      expect(await LibraryStore.read(libraryPath)).toHaveLength(2);
+      expect(fs.readJson).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a database that is not a list of tracks', async () => {
+      files.set(dbPath, { tracks: [] });
+      await expect(LibraryStore.read(libraryPath)).rejects.toThrow(
+        'library_db.json is not a list of tracks',
+      );
+    });
+  });
+
+  describe('getTrack', () => {
+    it('should return a copy of the track from the cached database', async () => {
+      files.set(dbPath, [{ ...song('One'), id: 'a' }, { ...song('Two'), id: 'b' }]);
+
+      const track = await LibraryStore.getTrack(libraryPath, 'b');
+      track!.title = 'Changed by caller';
+
+      expect(await LibraryStore.getTrack(libraryPath, 'b')).toEqual({ ...song('Two'), id: 'b' });
+      expect(await LibraryStore.getTrack(libraryPath, 'c')).toBeNull();
+      expect(fs.readJson).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('write', () => {
+    it('should write to a temp file and rename it over the database', async () => {
+      await LibraryStore.write(libraryPath, [song('Two')]);
+
+      const [tempPath] = vi.mocked(fs.outputJson).mock.calls[0];
+      expect(tempPath).not.toBe(dbPath);
+      expect(fs.rename).toHaveBeenCalledWith(tempPath, dbPath);
+      expect(files.get(dbPath)).toEqual([{ ...song('Two'), id: expect.any(String), addedAt: expect.any(Number) }]);
+      expect(files.has(tempPath as string)).toBe(false);
+
+      // Served from the cache
+      expect(await LibraryStore.read(libraryPath)).toEqual(files.get(dbPath));
+      expect(fs.readJson).not.toHaveBeenCalled();
+    });
+
+    it('should give new tracks an id and keep existing ones', async () => {
+      await LibraryStore.write(libraryPath, [{ ...song('One'), id: 'kept' }, song('Two')]);
+
+      const [one, two] = files.get(dbPath) as SongMetadata[];
+      expect(one.id).toBe('kept');
+      expect(two.id).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should date new tracks and keep the date of existing ones', async () => {
+      await LibraryStore.write(libraryPath, [
+        { ...song('One'), addedAt: 1000 },
+        { ...song('Two'), modifiedAt: 2000 },
+        song('Three'),
+      ]);
+
+      const [one, two, three] = files.get(dbPath) as SongMetadata[];
+      expect(one.addedAt).toBe(1000);
+      expect(two.addedAt).toBe(2000);
+      expect(three.addedAt).toBeGreaterThan(2000);
+    });
+
+    it('should capture the previous file in the journal first', async () => {
+      const journal = { capture: vi.fn() };
+
+      await LibraryStore.write(libraryPath, [], journal as never);
+
+      expect(journal.capture).toHaveBeenCalledWith(dbPath);
+      expect(journal.capture.mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(fs.rename).mock.invocationCallOrder[0],
+      );
+    });
+  });
+
+  describe('ensureTrackIds', () => {
+    it('should save ids for tracks written before ids existed', async () => {
+      await LibraryStore.ensureTrackIds(libraryPath);
+
+      expect((files.get(dbPath) as SongMetadata[])[0].id).toEqual(expect.any(String));
+    });
+
+    it('should not rewrite a database that already has ids', async () => {
+      files.set(dbPath, [{ ...song('One'), id: 'abc' }]);
+
+      await LibraryStore.ensureTrackIds(libraryPath);
+
+      expect(fs.outputJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should not lose changes made at the same time', async () => {
+      await Promise.all([
+        LibraryStore.update(libraryPath, (inventory) => {
+          inventory.push(song('Two'));
+        }),
+        LibraryStore.update(libraryPath, (inventory) => {
+          inventory.push(song('Three'));
+        }),
+      ]);
+
+      const titles = (files.get(dbPath) as SongMetadata[]).map((s) => s.title);
+      expect(titles).toEqual(['One', 'Two', 'Three']);
+    });
+
+    it('should do nothing without a database', async () => {
+      files.clear();
+      const mutate = vi.fn();
+
+      expect(await LibraryStore.update(libraryPath, mutate)).toBeNull();
+      expect(mutate).not.toHaveBeenCalled();
+      expect(fs.outputJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withLock', () => {
+    it('should run work on the same library one at a time', async () => {
+      const order: string[] = [];
+      const work = (name: string) => async () => {
+        order.push(`${name}:start`);
+        await tick();
+        order.push(`${name}:end`);
+      };
+
+      await Promise.all([
+        LibraryStore.withLock(libraryPath, work('a')),
+        LibraryStore.withLock(libraryPath, work('b')),
+      ]);
+
+      expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+
+    it('should let locked work take the lock again', async () => {
+      const result = await LibraryStore.withLock(libraryPath, () =>
+        LibraryStore.withLock(libraryPath, async () => 'nested'),
+      );
+      expect(result).toBe('nested');
+    });
+
+    it('should release the lock when work fails', async () => {
+      await expect(
+        LibraryStore.withLock(libraryPath, async () => {
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      expect(await LibraryStore.withLock(libraryPath, async () => 'next')).toBe('next');
+    });
+  });
+});
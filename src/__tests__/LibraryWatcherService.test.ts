@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isSupportedFormat: (filePath: string) => /\.(flac|mp3)$/i.test(filePath),
+    isInternalEntry: (name: string) => ['.operations', '.transcode-cache'].includes(name) || name.startsWith('._'),
+    applyLibraryChanges: vi.fn(),
+  },
+}));
+
+import { LibraryWatcherService } from '../server/services/LibraryWatcherService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import type { AppConfig } from '../server/services/ConfigService';
+import fs from 'fs-extra';
+
+describe('LibraryWatcherService', () => {
+  // Absolute file path -> { size, mtimeMs, ino }
+  let disk: Map<string, { size: number; mtimeMs: number; ino: number }>;
+
+  const listDir = (dir: string) => {
+    const names = new Map<string, boolean>(); // name -> isDirectory
+    for (const filePath of disk.keys()) {
+      if (!filePath.startsWith(`${dir}/`)) continue;
+      const [name, ...rest] = filePath.slice(dir.length + 1).split('/');
+      names.set(name, rest.length > 0);
+    }
+    return [...names].map(([name, isDirectory]) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    }));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    LibraryWatcherService.reset();
+    disk = new Map([
+      ['/library/Artist/Album/01 - Song.flac', { size: 100, mtimeMs: 1, ino: 11 }],
+      ['/library/Artist/Album/02 - Other.flac', { size: 200, mtimeMs: 1, ino: 12 }],
+      ['/library/Playlists/Favorites.flac', { size: 1, mtimeMs: 1, ino: 13 }],
+      ['/library/.operations/op/backups/0.flac', { size: 1, mtimeMs: 1, ino: 14 }],
+    ]);
+
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string) => listDir(dir)) as never);
+    vi.mocked(fs.stat).mockImplementation((async (filePath: string) => {
+      const state = disk.get(filePath);
+      if (!state) throw new Error('ENOENT');
+      return state;
+    }) as never);
+    vi.mocked(OrganizerService.applyLibraryChanges).mockResolvedValue(undefined);
+
+    LibraryWatcherService.start('/library', 60 * 60 * 1000);
+  });
+
+  afterEach(() => {
+    LibraryWatcherService.reset();
+  });
+
+  it('should only record the files on the first poll', async () => {
+    expect(await LibraryWatcherService.poll()).toBeNull();
+    expect(await LibraryWatcherService.poll()).toBeNull();
+    expect(OrganizerService.applyLibraryChanges).not.toHaveBeenCalled();
+  });
+
+  it('should detect a rename once it has been seen on two polls', async () => {
+    await LibraryWatcherService.poll();
+
+    const state = disk.get('/library/Artist/Album/01 - Song.flac')!;
+    disk.delete('/library/Artist/Album/01 - Song.flac');
+    disk.set('/library/Artist/Album/01 - Song (Remastered).flac', state);
+
+    expect(await LibraryWatcherService.poll()).toBeNull();
+    const changes = await LibraryWatcherService.poll();
+
+    expect(changes).toEqual({
+      added: [],
+      removed: [],
+      modified: [],
+      renamed: [
+        {
+          from: '/library/Artist/Album/01 - Song.flac',
+          to: '/library/Artist/Album/01 - Song (Remastered).flac',
+        },
+      ],
+    });
+    expect(OrganizerService.applyLibraryChanges).toHaveBeenCalledWith('/library', changes, { concurrency: 8 });
+    expect(LibraryWatcherService.getStatus().lastChanges).toMatchObject({ renamed: changes!.renamed });
+
+    // Nothing left to apply
+    expect(await LibraryWatcherService.poll()).toBeNull();
+  });
+
+  it('should report added, removed and modified files', async () => {
+    await LibraryWatcherService.poll();
+
+    disk.delete('/library/Artist/Album/02 - Other.flac');
+    disk.set('/library/Artist/Album/01 - Song.flac', { size: 150, mtimeMs: 2, ino: 11 });
+    disk.set('/library/New/Album/01 - New.mp3', { size: 300, mtimeMs: 2, ino: 20 });
+    disk.set('/library/New/Album/cover.jpg', { size: 10, mtimeMs: 2, ino: 21 });
+
+    await LibraryWatcherService.poll();
+    const changes = await LibraryWatcherService.poll();
+
+    expect(changes).toEqual({
+      added: ['/library/New/Album/01 - New.mp3'],
+      removed: ['/library/Artist/Album/02 - Other.flac'],
+      modified: ['/library/Artist/Album/01 - Song.flac'],
+      renamed: [],
+    });
+  });
+
+  it('should wait while a file is still being written', async () => {
+    await LibraryWatcherService.poll();
+
+    disk.set('/library/New/01.flac', { size: 10, mtimeMs: 2, ino: 20 });
+    await LibraryWatcherService.poll();
+    disk.set('/library/New/01.flac', { size: 20, mtimeMs: 3, ino: 20 });
+    expect(await LibraryWatcherService.poll()).toBeNull();
+
+    const changes = await LibraryWatcherService.poll();
+    expect(changes?.added).toEqual(['/library/New/01.flac']);
+  });
+
+  it('should retry changes that could not be applied', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await LibraryWatcherService.poll();
+    disk.delete('/library/Artist/Album/02 - Other.flac');
+    await LibraryWatcherService.poll();
+
+    vi.mocked(OrganizerService.applyLibraryChanges).mockRejectedValueOnce(new Error('DB locked'));
+    await expect(LibraryWatcherService.poll()).rejects.toThrow('DB locked');
+
+    const changes = await LibraryWatcherService.poll();
+    expect(changes?.removed).toEqual(['/library/Artist/Album/02 - Other.flac']);
+    consoleSpy.mockRestore();
+  });
+
+  it('should apply changes with the configured concurrency', async () => {
+    LibraryWatcherService.syncWithConfig({ libraryPath: '/library', watchLibrary: true, concurrency: 2 } as AppConfig);
+    await LibraryWatcherService.poll();
+    disk.set('/library/New/01.flac', { size: 50, mtimeMs: 9, ino: 20 });
+    await LibraryWatcherService.poll();
+
+    await LibraryWatcherService.poll();
+
+    expect(OrganizerService.applyLibraryChanges).toHaveBeenCalledWith(
+      '/library',
+      expect.objectContaining({ added: ['/library/New/01.flac'] }),
+      { concurrency: 2 },
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { M3uService } from '../server/services/M3uService';
+
+describe('M3uService', () => {
+  const song = (overrides: Partial<SongMetadata> = {}): SongMetadata => ({
+    title: 'Song',
+    artist: 'Artist',
+    album: 'Album',
+    trackNo: '01',
+    genre: ['Rock'],
+    format: '.flac',
+    absPath: '/library/Artist/Album/01 - Song.flac',
+    playlists: [],
+    duration: 215.6,
+    ...overrides,
+  });
+
+  describe('describe', () => {
+    it('should write the duration, artist, title and album', () => {
+      expect(M3uService.describe(song({ albumArtist: 'Various Artists' }))).toEqual([
+        '#EXTINF:216,Artist - Song',
+        '#EXTART:Various Artists',
+        '#EXTALB:Album',
+      ]);
+    });
+
+    it('should leave out unknown values', () => {
+      expect(
+        M3uService.describe(song({ album: 'Unknown Album', duration: undefined, title: 'Two\nLines' })),
+      ).toEqual(['#EXTINF:-1,Artist - Two Lines']);
+    });
+  });
+
+  describe('build', () => {
+    it('should write each entry after its directives', () => {
+      const content = M3uService.build([
+        { path: '../Artist/Album/01 - Song.flac', song: song() },
+        { path: '../Other/Track.mp3' },
+      ]);
+
+      expect(content).toBe(
+        '#EXTM3U\n#EXTINF:216,Artist - Song\n#EXTALB:Album\n../Artist/Album/01 - Song.flac\n../Other/Track.mp3',
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('should read plain and extended entries alike', () => {
+      const plain = M3uService.parse('#EXTM3U\n../A.mp3\n..\\B.mp3\n');
+      const extended = M3uService.parse('#EXTM3U\n#EXTINF:10,X - A\n../A.mp3\n#EXTINF:-1,B\n..\\B.mp3\n');
+
+      expect(plain.blocks.map((block) => block.entry)).toEqual(['../A.mp3', '../B.mp3']);
+      expect(extended.blocks.map((block) => block.entry)).toEqual(['../A.mp3', '../B.mp3']);
+      expect(extended.blocks[0].lines).toEqual(['#EXTINF:10,X - A', '../A.mp3']);
+    });
+
+    it('should round-trip a playlist', () => {
+      const content = '#EXTM3U\n#EXTINF:10,X - A\n../A.mp3\n\n# note\n../B.mp3\n';
+
+      expect(M3uService.serialize(M3uService.parse(content))).toBe(content);
+    });
+  });
+
+  describe('append', () => {
+    it('should add new tracks and keep the directives of existing ones', () => {
+      const { content, existing } = M3uService.append(
+        '#EXTM3U\n#EXTINF:10,X - A\n../A.mp3\n',
+        [
+          { path: '../A.mp3', song: song() },
+          { path: '../Artist/Album/01 - Song.flac', song: song() },
+        ],
+      );
+
+      expect([...existing]).toEqual(['../A.mp3']);
+      expect(content).toBe(
+        '#EXTM3U\n#EXTINF:10,X - A\n../A.mp3\n#EXTINF:216,Artist - Song\n#EXTALB:Album\n../Artist/Album/01 - Song.flac',
+      );
+    });
+  });
+
+  describe('readInfo', () => {
+    it('should split the display text into artist and title', () => {
+      const [block] = M3uService.parse('#EXTINF:185,AC/DC - Back In Black - Live\n../A.mp3').blocks;
+
+      expect(M3uService.readInfo(block)).toEqual({
+        duration: 185,
+        artist: 'AC/DC',
+        title: 'Back In Black - Live',
+      });
+    });
+
+    it('should return undefined for entries without #EXTINF', () => {
+      const [block] = M3uService.parse('../A.mp3').blocks;
+
+      expect(M3uService.readInfo(block)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { NamingTemplateService } from '../server/services/NamingTemplateService';
+
+describe('NamingTemplateService', () => {
+  const song: SongMetadata = {
+    title: 'Song: Part 1',
+    artist: 'AC/DC',
+    album: 'Album',
+    year: 1980,
+    trackNo: '05',
+    genre: ['Rock'],
+    format: '.flac',
+    absPath: '/inbox/song.flac',
+    playlists: [],
+  };
+
+  describe('validate', () => {
+    it('should accept the default template', () => {
+      expect(NamingTemplateService.validate(NamingTemplateService.DEFAULT_TEMPLATE)).toEqual([]);
+    });
+
+    it('should reject empty templates', () => {
+      expect(NamingTemplateService.validate('  ')).toEqual(['Template cannot be empty']);
+    });
+
+    it('should reject unknown fields', () => {
+      expect(NamingTemplateService.validate('{artist}/{foo}')).toContain('Unknown field "foo"');
+    });
+
+    it('should reject unbalanced braces and brackets', () => {
+      expect(NamingTemplateService.validate('{artist/{title}')).toContain('Unbalanced or nested braces');
+      expect(NamingTemplateService.validate('[{year} /{title}')).toContain(
+        'Unbalanced or nested conditional brackets',
+      );
+    });
+
+    it('should require a file name segment', () => {
+      expect(NamingTemplateService.validate('{artist}/')).toContain(
+        'Template must end with a file name segment',
+      );
+    });
+
+    it('should reject "." and ".." folders', () => {
+      const error = 'Template cannot contain "." or ".." folders';
+      expect(NamingTemplateService.validate('../{artist}/{title}')).toContain(error);
+      expect(NamingTemplateService.validate('{artist}/ . /{title}')).toContain(error);
+      expect(NamingTemplateService.validate('{artist}/...{album}/{title}')).toEqual([]);
+    });
+  });
+
+  describe('render', () => {
+    it('should reproduce the historic layout with the default template', () => {
+      expect(NamingTemplateService.render(NamingTemplateService.DEFAULT_TEMPLATE, song)).toBe(
+        'AC-DC/(1980) Album/05 - Song- Part 1.flac',
+      );
+    });
+
+    it('should drop conditional segments with missing values', () => {
+      const withoutYear = { ...song, year: undefined };
+
+      expect(NamingTemplateService.render(NamingTemplateService.DEFAULT_TEMPLATE, withoutYear)).toBe(
+        'AC-DC/Album/05 - Song- Part 1.flac',
+      );
+    });
+
+    it('should use fallbacks and literal defaults', () => {
+      const withoutYear = { ...song, year: undefined, genre: [] };
+
+      expect(NamingTemplateService.render('{genre|Misc}/{year|album}/{title}', withoutYear)).toBe(
+        'Misc/Album/Song- Part 1.flac',
+      );
+    });
+
+    it('should prefix tracks with the disc number on multi-disc releases', () => {
+      const secondDisc = { ...song, discNo: 2, discTotal: 2 };
+
+      expect(NamingTemplateService.render(NamingTemplateService.DEFAULT_TEMPLATE, secondDisc)).toBe(
+        'AC-DC/(1980) Album/2-05 - Song- Part 1.flac',
+      );
+      expect(NamingTemplateService.render('{artist}/{album}/[Disc {disc}/]{track} {title}', secondDisc)).toBe(
+        'AC-DC/Album/Disc 2/05 Song- Part 1.flac',
+      );
+    });
+
+    it('should ignore the disc number on single-disc releases', () => {
+      const singleDisc = { ...song, discNo: 1, discTotal: 1 };
+
+      expect(NamingTemplateService.render(NamingTemplateService.DEFAULT_TEMPLATE, singleDisc)).toBe(
+        'AC-DC/(1980) Album/05 - Song- Part 1.flac',
+      );
+    });
+
+    it('should group by album artist and fall back to the track artist', () => {
+      const withAlbumArtist = { ...song, artist: 'AC/DC feat. Guest', albumArtist: 'AC/DC' };
+
+      expect(NamingTemplateService.render('{albumartist}/{title}', withAlbumArtist)).toBe(
+        'AC-DC/Song- Part 1.flac',
+      );
+      expect(NamingTemplateService.render('{albumartist}/{title}', song)).toBe('AC-DC/Song- Part 1.flac');
+    });
+
+    it('should use the various artists name for compilations', () => {
+      const compilation = { ...song, albumArtist: 'AC/DC', compilation: true };
+
+      expect(NamingTemplateService.render('{albumartist}/{title}', compilation)).toBe(
+        'Various Artists/Song- Part 1.flac',
+      );
+      expect(NamingTemplateService.render('{albumartist}/{title}', compilation, 'VA')).toBe(
+        'VA/Song- Part 1.flac',
+      );
+    });
+
+    it('should allow conditional folders', () => {
+      expect(NamingTemplateService.render('[{genre}/]{artist}/{title}', song)).toBe(
+        'Rock/AC-DC/Song- Part 1.flac',
+      );
+      expect(NamingTemplateService.render('[{genre}/]{artist}/{title}', { ...song, genre: [] })).toBe(
+        'AC-DC/Song- Part 1.flac',
+      );
+    });
+  });
+
+  describe('buildPath', () => {
+    it('should resolve the rendered path against the library root', () => {
+      expect(NamingTemplateService.buildPath('/library', '{artist}/{title}', song)).toBe(
+        '/library/AC-DC/Song- Part 1.flac',
+      );
+    });
+
+    it('should keep tags of "." or ".." inside the library', () => {
+      const dots = { ...song, artist: '..', album: '.' };
+
+      expect(NamingTemplateService.buildPath('/library', '{artist}/{album}/{title}', dots)).toBe(
+        '/library/Song- Part 1.flac',
+      );
+      expect(NamingTemplateService.buildPath('/library', '{artist}/{title}', { ...dots, artist: '...And More' })).toBe(
+        '/library/...And More/Song- Part 1.flac',
+      );
+    });
+  });
+
+  describe('withDefaults', () => {
+    it('should fill in missing options', () => {
+      expect(NamingTemplateService.withDefaults({ variousArtists: '  ' })).toEqual({
+        template: NamingTemplateService.DEFAULT_TEMPLATE,
+        variousArtists: 'Various Artists',
+      });
+    });
+  });
+
+  describe('preview', () => {
+    it('should fall back to built-in samples', () => {
+      const result = NamingTemplateService.preview('{artist}/{title}');
+
+      expect(result.errors).toEqual([]);
+      expect(result.previews.length).toBeGreaterThan(0);
+      expect(result.previews[0].proposedPath).toBe('Miles Davis/So What.flac');
+    });
+
+    it('should return errors without previews for invalid templates', () => {
+      const result = NamingTemplateService.preview('{nope}', [song]);
+
+      expect(result.errors).toEqual(['Unknown field "nope"']);
+      expect(result.previews).toEqual([]);
+    });
+  });
+});
@@ -4,7 +4,25 @@ import type { ScanResult, SongMetadata } from '../server/services/OrganizerServi
 vi.mock('fs-extra');
 vi.mock('music-metadata');
 
+// Runs journaled work inline; moves still go through the mocked fs.move
+const mockJournal = vi.hoisted(() => ({
+  id: 'op-1',
+  move: vi.fn(),
+  backup: vi.fn(),
+  capture: vi.fn(),
+}));
+vi.mock('../server/services/JournalService', () => ({
+  JournalService: {
+    run: vi.fn((_type: string, _libraryPath: string, _description: string, work: (journal: unknown) => unknown) =>
+      work(mockJournal)),
+  },
+}));
+
 import { OrganizerService } from '../server/services/OrganizerService';
+import { PlaylistIndexService } from '../server/services/PlaylistIndexService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import { AutoPlaylistService } from '../server/services/AutoPlaylistService';
+import { TranscodeService } from '../server/services/TranscodeService';
 import fs from 'fs-extra';
 import * as mm from 'music-metadata';
 
@@ -13,8 +31,17 @@ describe('OrganizerService', () => {
   const mockLibraryPath = '/mock/library';
   const mockPlaylistDir = '/mock/library/Playlists';
 
+  // Playlists folder entries as returned by readdir withFileTypes
+  const playlistEntries = (...names: string[]) =>
+    names.map((name) => ({ name, isDirectory: () => !name.includes('.'), isFile: () => name.includes('.') }));
+
   beforeEach(() => {
     vi.clearAllMocks();
+    PlaylistIndexService.invalidate();
+    LibraryStore.invalidate();
+    mockJournal.move.mockImplementation((from: string, to: string, options?: object) =>
+      options ? fs.move(from, to, options as never) : fs.move(from, to));
+    vi.mocked(fs.readdir).mockResolvedValue([] as never);
   });
 
   describe('scanInbox', () => {
@@ -33,6 +60,7 @@ describe('OrganizerService', () => {
       ] as never);
 
       const mockMetadata = {
+        format: {},
         common: {
           title: 'Test Song',
           artist: 'Test Artist',
@@ -62,6 +90,7 @@ describe('OrganizerService', () => {
       vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => false } as never);
 
       const mockMetadata = {
+        format: {},
         common: {
           title: 'Workout Song',
           artist: 'Fitness Artist',
@@ -99,6 +128,7 @@ describe('OrganizerService', () => {
       ] as never);
 
       const mockMetadata = {
+        format: {},
         common: {
           track: {},
         },
@@ -116,6 +146,148 @@ describe('OrganizerService', () => {
       expect(results[0].metadata.genre).toEqual(['Otros']);
     });
 
+    it('should compute proposedPath from the naming template', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'song.flac', isDirectory: () => false, isFile: () => true },
+      ] as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: {
+          title: 'Test Song',
+          artist: 'Test Artist',
+          album: 'Test Album',
+          year: 2023,
+          track: { no: 7 },
+          genre: ['Rock'],
+        },
+      } as never);
+
+      const results = await OrganizerService.scanInbox(
+        mockInboxPath,
+        mockLibraryPath,
+        { template: '{genre}/{artist} - {album}/{track} {title}' },
+      );
+
+      expect(results[0].proposedPath).toBe(
+        '/mock/library/Rock/Test Artist - Test Album/07 Test Song.flac',
+      );
+    });
+
+    it('should read disc number and total from metadata', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'song.flac', isDirectory: () => false, isFile: () => true },
+      ] as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: {
+          title: 'Box Song',
+          artist: 'Box Artist',
+          album: 'Box Set',
+          track: { no: 1 },
+          disk: { no: 3, of: 4 },
+          genre: ['Rock'],
+        },
+      } as never);
+
+      const results = await OrganizerService.scanInbox(mockInboxPath, mockLibraryPath);
+
+      expect(results[0].metadata.discNo).toBe(3);
+      expect(results[0].metadata.discTotal).toBe(4);
+      expect(results[0].proposedPath).toBe(
+        '/mock/library/Box Artist/Box Set/3-01 - Box Song.flac',
+      );
+    });
+
+    it('should group compilations under the configured various artists folder', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'song.mp3', isDirectory: () => false, isFile: () => true },
+      ] as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: {
+          title: 'Hit',
+          artist: 'Singer feat. Guest',
+          albumartist: 'Singer',
+          album: 'Summer Hits',
+          track: { no: 2 },
+          compilation: true,
+          genre: ['Pop'],
+        },
+      } as never);
+
+      const results = await OrganizerService.scanInbox(mockInboxPath, mockLibraryPath, {
+        variousArtists: 'Compilations',
+      });
+
+      expect(results[0].metadata.albumArtist).toBe('Singer');
+      expect(results[0].metadata.compilation).toBe(true);
+      expect(results[0].proposedPath).toBe('/mock/library/Compilations/Summer Hits/02 - Hit.mp3');
+    });
+
+    it('should group by album artist instead of track artist', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'song.mp3', isDirectory: () => false, isFile: () => true },
+      ] as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: {
+          title: 'Duet',
+          artist: 'Singer feat. Guest',
+          albumartist: 'Singer',
+          album: 'Solo Album',
+          track: { no: 5 },
+          genre: ['Pop'],
+        },
+      } as never);
+
+      const results = await OrganizerService.scanInbox(mockInboxPath, mockLibraryPath);
+
+      expect(results[0].proposedPath).toBe('/mock/library/Singer/Solo Album/05 - Duet.mp3');
+    });
+
+    it('should flag inbox files already present in the library', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'song.flac', isDirectory: () => false, isFile: () => true },
+      ] as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        {
+          title: 'Old Name',
+          artist: 'Someone',
+          absPath: '/mock/library/Someone/old.flac',
+          audioHash: 'md5:0102',
+        },
+      ] as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: { duration: 180, audioMD5: new Uint8Array([1, 2]) },
+        common: {
+          title: 'Test Song',
+          artist: 'Test Artist',
+          track: { no: 1 },
+        },
+      } as never);
+
+      const results = await OrganizerService.scanInbox(mockInboxPath, mockLibraryPath);
+
+      expect(results[0].metadata.duration).toBe(180);
+      expect(results[0].metadata.audioHash).toBe('md5:0102');
+      expect(results[0].duplicate).toEqual({
+        status: 'exact',
+        source: 'library',
+        matchPath: '/mock/library/Someone/old.flac',
+      });
+    });
+
+    it('should throw error if naming template is invalid', async () => {
+      await expect(
+        OrganizerService.scanInbox(mockInboxPath, mockLibraryPath, { template: '{nope}/{title}' })
+      ).rejects.toThrow('Invalid naming template: Unknown field "nope"');
+    });
+
     it('should skip unsupported file formats', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
       vi.mocked(fs.readdir).mockResolvedValue([
@@ -129,6 +301,48 @@ describe('OrganizerService', () => {
     });
   });
 
+  describe('scanFolder', () => {
+    it('should scan only the given folder and read its playlist tags', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.readdir).mockResolvedValueOnce(['01.flac', 'cover.jpg'] as never);
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => false } as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: { title: 'Song', artist: 'Artist', album: 'Album', track: { no: 1 } },
+      } as never);
+
+      const results = await OrganizerService.scanFolder(
+        `${mockInboxPath}/[Favorites] Album`,
+        mockLibraryPath,
+      );
+
+      expect(fs.readdir).toHaveBeenCalledWith(`${mockInboxPath}/[Favorites] Album`);
+      expect(results).toHaveLength(1);
+      expect(results[0].file).toBe(`${mockInboxPath}/[Favorites] Album/01.flac`);
+      expect(results[0].playlists).toEqual(['Favorites']);
+      expect(results[0].duplicate).toEqual({ status: 'new' });
+    });
+
+    it('should skip the journal and AppleDouble files but walk other dot-leading folders', async () => {
+      const folder = `${mockInboxPath}/Metallica`;
+      const album = `${folder}/...And Justice for All`;
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) =>
+        dir === folder ? ['.operations', '._01.flac', '...And Justice for All'] : ['01.flac']) as never);
+      vi.mocked(fs.stat).mockImplementation((async (p: string) => ({ isDirectory: () => p === album })) as never);
+      vi.mocked(mm.parseFile).mockResolvedValue({
+        format: {},
+        common: { title: 'Blackened', artist: 'Metallica', album: '...And Justice for All', track: { no: 1 } },
+      } as never);
+
+      const results = await OrganizerService.scanFolder(folder, mockLibraryPath);
+
+      expect(fs.stat).not.toHaveBeenCalledWith(`${folder}/.operations`);
+      expect(fs.stat).not.toHaveBeenCalledWith(`${folder}/._01.flac`);
+      expect(results.map((result) => result.file)).toEqual([`${album}/01.flac`]);
+    });
+  });
+
   describe('organize', () => {
     it('should create library and playlist directories', async () => {
       vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
@@ -176,6 +390,180 @@ describe('OrganizerService', () => {
       expect(fs.move).toHaveBeenCalledWith('/inbox/song.mp3', mockResults[0].proposedPath);
       expect(fs.outputJson).toHaveBeenCalled();
     });
+
+    it('should report failed moves and playlist assignments per file', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+      vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+        p.endsWith('Favorites.m3u8')) as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../Old/Old/01 - Old.mp3\n../B/B/01 - B.mp3' as never);
+      vi.mocked(fs.move).mockImplementation((async (from: string) => {
+        if (from === '/inbox/missing.mp3') throw new Error('ENOENT: no such file');
+      }) as never);
+      vi.mocked(fs.outputJson).mockResolvedValue(undefined);
+      vi.mocked(fs.outputFile).mockResolvedValue(undefined);
+
+      const song = (name: string): ScanResult => ({
+        file: `/inbox/${name}.mp3`,
+        metadata: {
+          title: name,
+          artist: name,
+          album: name,
+          trackNo: '01',
+          genre: ['Pop'],
+          format: '.mp3',
+          absPath: `/inbox/${name}.mp3`,
+          playlists: [],
+        },
+        proposedPath: `/mock/library/${name}/${name}/01 - ${name}.mp3`,
+        playlists: ['Favorites'],
+      });
+
+      const result = await OrganizerService.organize(
+        [song('A'), song('missing'), song('B')],
+        mockLibraryPath,
+      );
+
+      expect(result.summary).toEqual({
+        moved: 2,
+        renamed: 0,
+        replaced: 0,
+        'skipped-duplicate': 0,
+        failed: 1,
+      });
+      expect(result.files[1]).toMatchObject({
+        file: '/inbox/missing.mp3',
+        action: 'failed',
+        error: 'ENOENT: no such file',
+        playlists: [{ name: 'Favorites', status: 'not-assigned' }],
+      });
+      expect(result.files[0].playlists).toEqual([{ name: 'Favorites', status: 'added' }]);
+      expect(result.files[2].playlists).toEqual([{ name: 'Favorites', status: 'already-present' }]);
+      const inventory = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(inventory.map((s) => s.title)).toEqual(['A', 'B']);
+      consoleSpy.mockRestore();
+    });
+
+    describe('conflict policies', () => {
+      const incoming: ScanResult = {
+        file: '/inbox/song.flac',
+        metadata: {
+          title: 'Song',
+          artist: 'Artist',
+          album: 'Album',
+          trackNo: '01',
+          genre: ['Rock'],
+          format: '.flac',
+          absPath: '/inbox/song.flac',
+          playlists: [],
+          sampleRate: 44100,
+          bitsPerSample: 16,
+          lossless: true,
+        },
+        proposedPath: '/mock/library/Artist/Album/01 - Song.flac',
+        playlists: [],
+      };
+      const existingPath = incoming.proposedPath;
+
+      // The destination exists; the library DB holds the given entry
+      const mockCollision = (existing: Partial<SongMetadata>) => {
+        vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+        vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+          p === existingPath || p.endsWith('library_db.json')) as never);
+        vi.mocked(fs.readJson).mockResolvedValue([
+          { ...incoming.metadata, absPath: existingPath, title: 'Existing', ...existing },
+        ] as never);
+        vi.mocked(fs.move).mockResolvedValue(undefined);
+        vi.mocked(fs.outputJson).mockResolvedValue(undefined);
+        vi.mocked(fs.outputFile).mockResolvedValue(undefined);
+        vi.mocked(fs.readdir).mockResolvedValue([] as never);
+      };
+
+      it('should leave the inbox file in place by default', async () => {
+        mockCollision({});
+
+        const { files: reports } = await OrganizerService.organize([incoming], mockLibraryPath);
+
+        expect(fs.move).not.toHaveBeenCalled();
+        expect(reports).toEqual([
+          { file: incoming.file, destination: existingPath, action: 'skipped-duplicate', policy: 'skip', playlists: [] },
+        ]);
+        const inventory = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(inventory).toHaveLength(1);
+        expect(inventory[0].title).toBe('Existing');
+      });
+
+      it('should describe a skipped destination missing from the database from the file on disk', async () => {
+        mockCollision({});
+        vi.mocked(fs.readJson).mockResolvedValue([] as never);
+        vi.mocked(mm.parseFile).mockResolvedValue({
+          format: { duration: 200 },
+          common: { title: 'On Disk', artist: 'Artist', album: 'Album', track: { no: 1 } },
+        } as never);
+
+        await OrganizerService.organize([incoming], mockLibraryPath);
+
+        expect(mm.parseFile).toHaveBeenCalledWith(existingPath, { duration: true });
+        const inventory = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(inventory).toHaveLength(1);
+        expect(inventory[0]).toMatchObject({
+          title: 'On Disk',
+          absPath: existingPath,
+          relPath: 'Artist/Album/01 - Song.flac',
+        });
+      });
+
+      it('should rename with a numeric suffix', async () => {
+        mockCollision({});
+
+        const { files: reports } = await OrganizerService.organize([incoming], mockLibraryPath, 'rename');
+
+        const renamed = '/mock/library/Artist/Album/01 - Song (1).flac';
+        expect(fs.move).toHaveBeenCalledWith(incoming.file, renamed);
+        expect(reports[0]).toEqual({
+          file: incoming.file,
+          destination: renamed,
+          action: 'renamed',
+          policy: 'rename',
+          playlists: [],
+        });
+        const inventory = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(inventory.map((s) => s.absPath)).toEqual([existingPath, renamed]);
+      });
+
+      it('should overwrite and update the inventory entry on replace', async () => {
+        mockCollision({});
+
+        const { files: reports } = await OrganizerService.organize([incoming], mockLibraryPath, 'replace');
+
+        expect(mockJournal.backup).toHaveBeenCalledWith(existingPath);
+        expect(fs.move).toHaveBeenCalledWith(incoming.file, existingPath);
+        expect(reports[0].action).toBe('replaced');
+        const inventory = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(inventory).toHaveLength(1);
+        expect(inventory[0].title).toBe('Song');
+      });
+
+      it('should replace a lossy file with a lossless one', async () => {
+        mockCollision({ format: '.mp3', lossless: false, bitsPerSample: undefined, bitrate: 320 });
+
+        const { files: reports } = await OrganizerService.organize([incoming], mockLibraryPath, 'replace-if-better');
+
+        expect(mockJournal.backup).toHaveBeenCalledWith(existingPath);
+        expect(fs.move).toHaveBeenCalledWith(incoming.file, existingPath);
+        expect(reports[0]).toMatchObject({ action: 'replaced', policy: 'replace-if-better' });
+      });
+
+      it('should keep the library file when it is of equal or better quality', async () => {
+        mockCollision({ bitsPerSample: 24, sampleRate: 96000 });
+
+        const { files: reports } = await OrganizerService.organize([incoming], mockLibraryPath, 'replace-if-better');
+
+        expect(fs.move).not.toHaveBeenCalled();
+        expect(mockJournal.backup).not.toHaveBeenCalled();
+        expect(reports[0]).toMatchObject({ action: 'skipped-duplicate', policy: 'replace-if-better' });
+      });
+    });
   });
 
   describe('addToPlaylist', () => {
@@ -194,6 +582,25 @@ describe('OrganizerService', () => {
       );
     });
 
+    it('should write #EXTINF lines for tracks in the database', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../Old.mp3\n' as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.mp3', absPath: '/mock/library/Artist/Album/Song.mp3', playlists: [], duration: 181 },
+      ] as never);
+      vi.spyOn(OrganizerService, 'getPlaylistsForTrack').mockResolvedValueOnce(['MyPlaylist']);
+
+      await OrganizerService.addToPlaylist(
+        'MyPlaylist',
+        ['/mock/library/Artist/Album/Song.mp3'],
+        mockLibraryPath
+      );
+
+      expect(vi.mocked(fs.outputFile).mock.calls[0][1]).toBe(
+        '#EXTM3U\n../Old.mp3\n#EXTINF:181,Artist - Song\n#EXTALB:Album\n../Artist/Album/Song.mp3'
+      );
+    });
+
     it("should sync playlists field in database after adding tracks", async () => {
       vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
@@ -213,7 +620,7 @@ describe('OrganizerService', () => {
           playlists: [],
         },
       ];
-      vi.mocked(fs.readJson).mockResolvedValueOnce(mockInventory as never);
+      vi.mocked(fs.readJson).mockResolvedValue(mockInventory as never);
       vi.spyOn(OrganizerService, "getPlaylistsForTrack").mockResolvedValueOnce([
         "MyPlaylist",
       ]);
@@ -250,6 +657,16 @@ describe('OrganizerService', () => {
       ).rejects.toThrow('Cannot modify the Master Library playlist');
     });
 
+    it('should refuse to edit a smart playlist by hand', async () => {
+      await expect(
+        OrganizerService.removeFromPlaylist('Smart_70s Rock', '/track.mp3', mockLibraryPath)
+      ).rejects.toThrow('Smart_70s Rock is a smart playlist; edit its rules instead');
+      await expect(
+        OrganizerService.addToPlaylist('Smart_70s Rock', ['/track.mp3'], mockLibraryPath)
+      ).rejects.toThrow('Smart_70s Rock is a smart playlist; edit its rules instead');
+      expect(fs.outputFile).not.toHaveBeenCalled();
+    });
+
     it('should throw error if playlist does not exist', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(false as never);
 
@@ -296,6 +713,24 @@ describe('OrganizerService', () => {
       expect(content).toContain('Song2.mp3');
     });
 
+    it('should remove the #EXTINF lines of the track and keep the others', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        '#EXTM3U\n#EXTINF:100,Artist - Song1\n../Artist/Album/Song1.mp3\n#EXTINF:200,Artist - Song2\n../Artist/Album/Song2.mp3\n' as never
+      );
+      vi.mocked(fs.readJson).mockResolvedValue([] as never);
+
+      await OrganizerService.removeFromPlaylist(
+        'MyPlaylist',
+        '/mock/library/Artist/Album/Song1.mp3',
+        mockLibraryPath
+      );
+
+      expect(vi.mocked(fs.outputFile).mock.calls[0][1]).toBe(
+        '#EXTM3U\n#EXTINF:200,Artist - Song2\n../Artist/Album/Song2.mp3'
+      );
+    });
+
     it('should sync playlists field in database after removing track', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
       vi.mocked(fs.readFile).mockResolvedValue(
@@ -356,6 +791,180 @@ describe('OrganizerService', () => {
         expect.stringContaining('MyPlaylist.m3u8')
       );
     });
+
+    it('should drop the rule set of a smart playlist', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { name: '70s Rock', match: 'all', rules: [{ field: 'year', min: 1970, max: 1979 }] },
+        { name: 'Jazz', match: 'any', rules: [{ field: 'genre', values: ['Jazz'] }] },
+      ] as never);
+
+      await OrganizerService.deletePlaylist('Smart_70s Rock', mockLibraryPath);
+
+      expect(fs.remove).toHaveBeenCalledWith(`${mockPlaylistDir}/Smart_70s Rock.m3u8`);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        `${mockLibraryPath}/smart_playlists.json`,
+        [{ name: 'Jazz', match: 'any', rules: [{ field: 'genre', values: ['Jazz'] }] }],
+        { spaces: 2 },
+      );
+    });
+  });
+
+  describe('renamePlaylist', () => {
+    beforeEach(() => {
+      vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+        !filePath.endsWith('Road Trip.m3u8') && !filePath.endsWith('Road Trip.m3u')) as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.mp3', absPath: '/mock/library/Song.mp3', playlists: ['Favorites', 'Workout'] },
+      ] as never);
+    });
+
+    it('should rename the file and the playlist in the database', async () => {
+      const result = await OrganizerService.renamePlaylist('Favorites', ' Road Trip ', mockLibraryPath);
+
+      expect(result).toEqual({ name: 'Road Trip', operationId: 'op-1' });
+      expect(fs.move).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Favorites.m3u8`,
+        `${mockPlaylistDir}/Road Trip.m3u8`,
+      );
+      const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(saved[0].playlists).toEqual(['Road Trip', 'Workout']);
+      expect(mockJournal.capture).toHaveBeenCalledWith(`${mockLibraryPath}/library_db.json`);
+    });
+
+    it('should refuse system playlist names', async () => {
+      await expect(
+        OrganizerService.renamePlaylist('00_Master_Library', 'Everything', mockLibraryPath),
+      ).rejects.toThrow('00_Master_Library is a system playlist name');
+      await expect(
+        OrganizerService.renamePlaylist('Favorites', 'Genre_Rock', mockLibraryPath),
+      ).rejects.toThrow('Genre_Rock is a system playlist name');
+      expect(fs.move).not.toHaveBeenCalled();
+    });
+
+    it('should refuse names that are taken or not valid file names', async () => {
+      await expect(
+        OrganizerService.renamePlaylist('Favorites', 'Workout', mockLibraryPath),
+      ).rejects.toThrow('Playlist Workout already exists');
+      await expect(
+        OrganizerService.renamePlaylist('Favorites', '../Escape', mockLibraryPath),
+      ).rejects.toThrow('Invalid playlist name');
+      expect(fs.move).not.toHaveBeenCalled();
+    });
+
+    it('should allow changing only the case of the name', async () => {
+      await OrganizerService.renamePlaylist('Favorites', 'FAVORITES', mockLibraryPath);
+
+      expect(fs.move).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Favorites.m3u8`,
+        `${mockPlaylistDir}/FAVORITES.m3u8`,
+      );
+    });
+  });
+
+  describe('playlist folders', () => {
+    it('should move a playlist into a folder and rewrite its entries', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+        !filePath.startsWith(`${mockPlaylistDir}/Road Trips/Favorites`)) as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        '#EXTM3U\n#EXTINF:180,Artist - Song\n../Artist/Album/Song.mp3\n' as never,
+      );
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.mp3', absPath: '/mock/library/Artist/Album/Song.mp3', playlists: ['Favorites'] },
+      ] as never);
+
+      const operationId = await OrganizerService.movePlaylist('Favorites', 'Road Trips', mockLibraryPath);
+
+      expect(operationId).toBe('op-1');
+      const [filePath, content] = vi.mocked(fs.outputFile).mock.calls[0];
+      expect(filePath).toBe(`${mockPlaylistDir}/Road Trips/Favorites.m3u8`);
+      expect(content).toContain('#EXTINF:180,Artist - Song\n../../Artist/Album/Song.mp3');
+      expect(mockJournal.capture).toHaveBeenCalledWith(`${mockPlaylistDir}/Road Trips/Favorites.m3u8`);
+      expect(mockJournal.capture).toHaveBeenCalledWith(`${mockPlaylistDir}/Favorites.m3u8`);
+      expect(fs.remove).toHaveBeenCalledWith(`${mockPlaylistDir}/Favorites.m3u8`);
+      const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(saved[0].playlists).toEqual(['Road Trips/Favorites']);
+    });
+
+    it('should refuse to move into a folder that does not exist', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+        !filePath.startsWith(`${mockPlaylistDir}/Missing`)) as never);
+
+      await expect(
+        OrganizerService.movePlaylist('Favorites', 'Missing', mockLibraryPath),
+      ).rejects.toThrow('Playlist folder Missing not found');
+      expect(fs.outputFile).not.toHaveBeenCalled();
+    });
+
+    it('should read the entries of a playlist in a folder relative to it', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../../Artist/Album/Song.mp3\n' as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.mp3', absPath: '/mock/library/Artist/Album/Song.mp3', playlists: [] },
+      ] as never);
+
+      const result = await OrganizerService.getPlaylistDetails('Road Trips/Summer', mockLibraryPath);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ title: 'Song', absPath: '/mock/library/Artist/Album/Song.mp3' });
+    });
+
+    it('should list the playlists as a tree with empty folders', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+        if (dir === mockPlaylistDir) return playlistEntries('Road Trips', 'Workout.m3u8', 'Empty', '00_Master_Library.m3u8');
+        if (dir === `${mockPlaylistDir}/Road Trips`) return playlistEntries('Winter.m3u8', 'Summer.m3u8');
+        return [];
+      }) as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\ntrack1.mp3\n' as never);
+
+      const tree = await OrganizerService.getPlaylistTree(mockLibraryPath);
+
+      expect(tree.playlists.map((p) => p.name)).toEqual(['Workout']);
+      expect(tree.folders.map((f) => [f.relPath, f.playlists.map((p) => p.name)])).toEqual([
+        ['Empty', []],
+        ['Road Trips', ['Road Trips/Summer', 'Road Trips/Winter']],
+      ]);
+    });
+
+    it('should build the tree from playlists the caller already listed', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) =>
+        dir === mockPlaylistDir ? playlistEntries('Road Trips') : []) as never);
+      const summary = {
+        name: 'Road Trips/Summer',
+        count: 1,
+        path: `${mockPlaylistDir}/Road Trips/Summer.m3u8`,
+        createdAt: 1000,
+        updatedAt: 1000,
+        customCover: false,
+      };
+
+      const tree = await OrganizerService.getPlaylistTree(mockLibraryPath, [summary]);
+
+      expect(tree.folders[0].playlists).toEqual([summary]);
+      expect(fs.readFile).not.toHaveBeenCalled();
+    });
+
+    it('should create folders and only delete empty ones', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+        filePath !== `${mockPlaylistDir}/Road Trips/Summer`) as never);
+      vi.mocked(fs.readdir).mockResolvedValue(['Favorites.m3u8'] as never);
+
+      await OrganizerService.createPlaylistFolder('Road Trips/Summer', mockLibraryPath);
+      expect(fs.ensureDir).toHaveBeenCalledWith(`${mockPlaylistDir}/Road Trips/Summer`);
+
+      await expect(
+        OrganizerService.createPlaylistFolder('Smart_Folder', mockLibraryPath),
+      ).rejects.toThrow('Invalid playlist folder');
+      await expect(
+        OrganizerService.deletePlaylistFolder('Road Trips', mockLibraryPath),
+      ).rejects.toThrow('Playlist folder Road Trips is not empty');
+
+      vi.mocked(fs.readdir).mockResolvedValue(['.DS_Store'] as never);
+      await OrganizerService.deletePlaylistFolder('Road Trips', mockLibraryPath);
+      expect(fs.remove).toHaveBeenCalledWith(`${mockPlaylistDir}/Road Trips`);
+    });
   });
 
   describe('listPlaylists', () => {
@@ -369,17 +978,18 @@ describe('OrganizerService', () => {
 
     it('should list all playlists except Master Library', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
-      vi.mocked(fs.readdir).mockResolvedValue([
-        '00_Master_Library.m3u8',
-        'Favorites.m3u8',
-        'Workout.m3u',
-      ] as never);
+      vi.mocked(fs.readdir).mockResolvedValue(playlistEntries('00_Master_Library.m3u8', 'Favorites.m3u8', 'Workout.m3u') as never);
       vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\ntrack1.mp3\ntrack2.mp3\n' as never);
+      vi.mocked(fs.stat).mockResolvedValue({ birthtimeMs: 1000, mtimeMs: 2000 } as never);
 
       const result = await OrganizerService.listPlaylists(mockLibraryPath);
 
       expect(result).toHaveLength(2);
-      expect(result.find((p) => p.name === 'Favorites')).toBeDefined();
+      expect(result.find((p) => p.name === 'Favorites')).toMatchObject({
+        count: 2,
+        createdAt: 1000,
+        updatedAt: 2000,
+      });
       expect(result.find((p) => p.name === '00_Master_Library')).toBeUndefined();
     });
   });
@@ -420,6 +1030,128 @@ describe('OrganizerService', () => {
       expect(result[0].title).toBe('Song');
       expect(result[0].artist).toBe('Artist');
     });
+
+    it('should flag entries whose file no longer exists', async () => {
+      vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+        !filePath.endsWith('Gone.mp3')) as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../Artist/Album/Gone.mp3\n' as never);
+      vi.mocked(fs.readJson).mockResolvedValue([] as never);
+
+      const result = await OrganizerService.getPlaylistDetails('MyPlaylist', mockLibraryPath);
+
+      expect(result[0]).toMatchObject({ title: 'Gone', missing: true });
+    });
+
+    it('should read unknown tracks from their #EXTINF line', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        '#EXTM3U\n#EXTINF:200,Someone - Elsewhere\n../../Elsewhere.mp3\n' as never
+      );
+      vi.mocked(fs.readJson).mockResolvedValue([] as never);
+
+      const result = await OrganizerService.getPlaylistDetails('MyPlaylist', mockLibraryPath);
+
+      expect(result[0]).toMatchObject({ title: 'Elsewhere', artist: 'Someone', duration: 200 });
+    });
+  });
+
+  describe('reorderPlaylist', () => {
+    const content = [
+      '#EXTM3U',
+      '#EXTINF:180,Artist - One',
+      '../Artist/Album/01 - One.mp3',
+      '../Artist/Album/02 - Two.mp3',
+      '# Encore',
+      '#EXTINF:240,Artist - Three',
+      '../Artist/Album/03 - Three.mp3',
+      '',
+    ].join('\n');
+
+    beforeEach(() => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue(content as never);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+    });
+
+    it('should move an entry together with its comments', async () => {
+      await OrganizerService.reorderPlaylist('Set', { from: 2, to: 0 }, mockLibraryPath);
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Set.m3u8`,
+        [
+          '#EXTM3U',
+          '# Encore',
+          '#EXTINF:240,Artist - Three',
+          '../Artist/Album/03 - Three.mp3',
+          '#EXTINF:180,Artist - One',
+          '../Artist/Album/01 - One.mp3',
+          '../Artist/Album/02 - Two.mp3',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should apply a full order', async () => {
+      await OrganizerService.reorderPlaylist('Set', { order: [1, 2, 0] }, mockLibraryPath);
+
+      const written = vi.mocked(fs.writeFile).mock.calls[0][1] as string;
+      expect(written.split('\n').filter((l) => l && !l.startsWith('#'))).toEqual([
+        '../Artist/Album/02 - Two.mp3',
+        '../Artist/Album/03 - Three.mp3',
+        '../Artist/Album/01 - One.mp3',
+      ]);
+    });
+
+    it('should reject orders that are not a permutation of the entries', async () => {
+      for (const reorder of [{ order: [0, 1] }, { order: [0, 0, 1] }, { from: 0, to: 3 }]) {
+        await expect(
+          OrganizerService.reorderPlaylist('Set', reorder, mockLibraryPath),
+        ).rejects.toThrow('Invalid playlist order');
+      }
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to reorder generated playlists', async () => {
+      await expect(
+        OrganizerService.reorderPlaylist('Genre_Rock', { from: 0, to: 1 }, mockLibraryPath),
+      ).rejects.toThrow('Genre_Rock is generated from the library and cannot be reordered');
+    });
+  });
+
+  describe('relinkPlaylistEntries', () => {
+    it('should rewrite the confirmed entries and update the database', async () => {
+      const newPath = `${mockLibraryPath}/Artist/Album (Deluxe)/01 - Song.flac`;
+      let playlist = '#EXTM3U\n# From the old rip\n#EXTINF:200,Artist - Old Song\n#EXTALB:Old Album\n../Artist/Album/01 - Song.mp3\n..\\Other\\Track.mp3\n';
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockImplementation((async () => playlist) as never);
+      vi.mocked(fs.writeFile).mockImplementation((async (_file: string, data: string) => {
+        playlist = data;
+      }) as never);
+      vi.mocked(fs.readdir).mockResolvedValue(playlistEntries('Favorites.m3u8') as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album (Deluxe)', trackNo: '01', genre: [], format: '.flac', absPath: newPath, duration: 215, playlists: [] },
+      ] as never);
+
+      const relinked = await OrganizerService.relinkPlaylistEntries(
+        'Favorites',
+        [{ entry: '../Artist/Album/01 - Song.mp3', trackPath: newPath }],
+        mockLibraryPath,
+      );
+
+      expect(relinked).toBe(1);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Favorites.m3u8`,
+        '#EXTM3U\n# From the old rip\n#EXTINF:215,Artist - Song\n#EXTALB:Album (Deluxe)\n../Artist/Album (Deluxe)/01 - Song.flac\n..\\Other\\Track.mp3\n',
+      );
+      const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(saved[0].playlists).toEqual(['Favorites']);
+    });
+
+    it('should refuse to relink the Master Library playlist', async () => {
+      await expect(
+        OrganizerService.relinkPlaylistEntries('00_Master_Library', [], mockLibraryPath),
+      ).rejects.toThrow('Cannot modify the Master Library playlist');
+    });
   });
 
   describe('exportPlaylist', () => {
@@ -465,6 +1197,53 @@ describe('OrganizerService', () => {
       expect(result.FailCount).toBe(0);
       expect(fs.copy).toHaveBeenCalled();
     });
+
+    it('should write a playlist file of the exported tracks', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../Artist/Album/Song.mp3\n' as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.mp3', absPath: '/mock/library/Artist/Album/Song.mp3', relPath: 'Artist/Album/Song.mp3', playlists: [], duration: 61 },
+      ] as never);
+
+      const result = await OrganizerService.exportPlaylist('MyPlaylist', '/dest', 'copy', true, mockLibraryPath, 'pls');
+
+      expect(result.playlistFile).toBe('/dest/MyPlaylist.pls');
+      expect(fs.outputFile).toHaveBeenCalledWith(
+        '/dest/MyPlaylist.pls',
+        '[playlist]\nFile1=Artist/Album/Song.mp3\nTitle1=Artist - Song\nLength1=61\nNumberOfEntries=1\nVersion=2\n',
+      );
+    });
+
+    it('should copy transcoded tracks with the extension of the profile', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue('#EXTM3U\n../Artist/Album/Song.flac\n' as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { title: 'Song', artist: 'Artist', album: 'Album', trackNo: '01', genre: [], format: '.flac', absPath: '/mock/library/Artist/Album/Song.flac', relPath: 'Artist/Album/Song.flac', playlists: [] },
+      ] as never);
+      const transcode = vi.spyOn(TranscodeService, 'transcode').mockResolvedValue('/mock/library/.transcode-cache/opus-160/abc.opus');
+      const prune = vi.spyOn(TranscodeService, 'prune').mockResolvedValue(undefined);
+
+      const result = await OrganizerService.exportPlaylist('MyPlaylist', '/dest', 'copy', true, mockLibraryPath, 'm3u8', 'opus-160');
+
+      expect(result.SuccessCount).toBe(1);
+      expect(transcode).toHaveBeenCalledWith('/mock/library/Artist/Album/Song.flac', 'opus-160', mockLibraryPath);
+      expect(fs.copy).toHaveBeenCalledWith(
+        '/mock/library/.transcode-cache/opus-160/abc.opus',
+        '/dest/Artist/Album/Song.opus',
+        { overwrite: false },
+      );
+      expect(vi.mocked(fs.outputFile).mock.calls[0][1]).toContain('Artist/Album/Song.opus');
+      expect(prune).toHaveBeenCalledWith(mockLibraryPath, ['/mock/library/Artist/Album/Song.flac']);
+      transcode.mockRestore();
+      prune.mockRestore();
+    });
+
+    it('should not transcode a move', async () => {
+      await expect(
+        OrganizerService.exportPlaylist('MyPlaylist', '/dest', 'move', false, mockLibraryPath, undefined, 'mp3-320'),
+      ).rejects.toThrow('Transcoded exports can only copy');
+      expect(fs.move).not.toHaveBeenCalled();
+    });
   });
 
   describe('revealInFileExplorer', () => {
@@ -491,10 +1270,7 @@ describe('OrganizerService', () => {
 
     it('should find playlists containing the track', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
-      vi.mocked(fs.readdir).mockResolvedValue([
-        'Favorites.m3u8',
-        'Workout.m3u8',
-      ] as never);
+      vi.mocked(fs.readdir).mockResolvedValue(playlistEntries('Favorites.m3u8', 'Workout.m3u8') as never);
       vi.mocked(fs.readFile)
         .mockResolvedValueOnce('#EXTM3U\n../Artist/Album/Song.mp3\n' as never)
         .mockResolvedValueOnce('#EXTM3U\n../Other/Track.mp3\n' as never);
@@ -829,5 +1605,244 @@ describe('OrganizerService', () => {
         expect.anything(),
       );
     });
+
+    describe("incremental", () => {
+      const unchangedPath = "/library/Artist/Album/Unchanged.flac";
+      const changedPath = "/library/Artist/Album/Changed.flac";
+      const newPath = "/library/Artist/Album/New.flac";
+      const vanishedPath = "/library/Artist/Album/Vanished.flac";
+
+      const entry = (absPath: string, extra: Partial<SongMetadata> = {}): SongMetadata => ({
+        title: absPath.split("/").pop()!.replace(".flac", ""),
+        artist: "Artist",
+        album: "Album",
+        trackNo: "01",
+        genre: ["Rock"],
+        format: ".flac",
+        absPath,
+        playlists: [],
+        ...extra,
+      });
+
+      beforeEach(() => {
+        // @ts-expect-error - Mocking private method for testing
+        vi.spyOn(OrganizerService, "getFilesRecursive").mockResolvedValue([
+          unchangedPath,
+          changedPath,
+          newPath,
+        ]);
+        // @ts-expect-error - Mocking private method for testing
+        vi.spyOn(OrganizerService, "extractCompleteMetadata").mockImplementation(
+          (async (filePath: string) => entry(filePath, { title: "Fresh" })) as never,
+        );
+        vi.spyOn(OrganizerService, "getPlaylistsForTrack").mockResolvedValue([]);
+        vi.mocked(fs.outputJson).mockResolvedValue(undefined);
+        vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+        vi.mocked(fs.readJson).mockResolvedValue([
+          entry(unchangedPath, { fileSize: 100, modifiedAt: 1000, audioHash: "md5:abc" }),
+          entry(changedPath, { id: "changed-id", fileSize: 100, modifiedAt: 1000 }),
+          entry(vanishedPath, { fileSize: 100, modifiedAt: 1000 }),
+        ] as never);
+        vi.mocked(fs.stat).mockImplementation((async (filePath: string) => ({
+          size: 100,
+          mtimeMs: filePath === changedPath ? 2000 : 1000,
+        })) as never);
+      });
+
+      it("should only re-parse new or changed files and drop vanished ones", async () => {
+        const result = await OrganizerService.regenerateDatabase(mockLibraryPath);
+
+        expect(result).toMatchObject({
+          mode: "incremental",
+          totalFiles: 3,
+          successCount: 3,
+          reusedCount: 1,
+          parsedCount: 2,
+          removedCount: 1,
+        });
+        // @ts-expect-error - Accessing private method for testing
+        expect(OrganizerService.extractCompleteMetadata).not.toHaveBeenCalledWith(
+          unchangedPath,
+          mockLibraryPath,
+        );
+
+        const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(saved.map((s) => s.absPath)).toEqual([unchangedPath, changedPath, newPath]);
+        expect(saved[0]).toMatchObject({ title: "Unchanged", audioHash: "md5:abc" });
+        expect(saved[1]).toMatchObject({
+          id: "changed-id",
+          title: "Fresh",
+          fileSize: 100,
+          modifiedAt: 2000,
+        });
+      });
+
+      it("should re-parse every file when forced", async () => {
+        const result = await OrganizerService.regenerateDatabase(mockLibraryPath, {
+          force: true,
+        });
+
+        expect(result).toMatchObject({
+          mode: "full",
+          reusedCount: 0,
+          parsedCount: 3,
+          removedCount: 1,
+        });
+        // Track ids survive a full rebuild
+        const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(saved[1]).toMatchObject({ absPath: changedPath, id: "changed-id" });
+      });
+
+      it("should keep entries and ids when the library folder moved", async () => {
+        vi.mocked(fs.readJson).mockResolvedValue([
+          entry("/old/library/Artist/Album/Unchanged.flac", {
+            id: "unchanged-id",
+            relPath: "Artist/Album/Unchanged.flac",
+            fileSize: 100,
+            modifiedAt: 1000,
+          }),
+        ] as never);
+        // @ts-expect-error - Mocking private method for testing
+        vi.mocked(OrganizerService.getFilesRecursive).mockResolvedValue([
+          `${mockLibraryPath}/Artist/Album/Unchanged.flac`,
+        ]);
+
+        const result = await OrganizerService.regenerateDatabase(mockLibraryPath);
+
+        expect(result).toMatchObject({ reusedCount: 1, removedCount: 0 });
+        const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+        expect(saved[0]).toMatchObject({
+          id: "unchanged-id",
+          absPath: `${mockLibraryPath}/Artist/Album/Unchanged.flac`,
+        });
+      });
+    });
+  });
+
+  describe("applyLibraryChanges", () => {
+    const song = (absPath: string, extra: Partial<SongMetadata> = {}): SongMetadata => ({
+      title: "Song",
+      artist: "Artist",
+      album: "Album",
+      trackNo: "01",
+      genre: ["Rock"],
+      format: ".flac",
+      absPath,
+      relPath: absPath.replace(`${mockLibraryPath}/`, ""),
+      playlists: ["Favorites"],
+      fileSize: 100,
+      modifiedAt: 1000,
+      ...extra,
+    });
+
+    beforeEach(() => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.outputJson).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.readdir).mockResolvedValue(playlistEntries("Favorites.m3u8") as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        "#EXTM3U\n../Artist/Album/01 - Song.flac\n../Artist/Album/02 - Gone.flac\n" as never,
+      );
+      vi.mocked(fs.stat).mockResolvedValue({ size: 100, mtimeMs: 1000 } as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        song(`${mockLibraryPath}/Artist/Album/01 - Song.flac`),
+        song(`${mockLibraryPath}/Artist/Album/02 - Gone.flac`),
+      ] as never);
+      vi.spyOn(OrganizerService, "getPlaylistsForTrack").mockResolvedValue([]);
+      // @ts-expect-error - Mocking private method for testing
+      vi.spyOn(OrganizerService, "generateMasterPlaylist").mockResolvedValue(undefined);
+      vi.spyOn(AutoPlaylistService, "generate").mockResolvedValue(undefined);
+    });
+
+    it("should keep metadata for renamed files, drop removed ones and rewrite playlists", async () => {
+      const renamedPath = `${mockLibraryPath}/Artist/Album/01 - Song (Live).flac`;
+
+      await OrganizerService.applyLibraryChanges(mockLibraryPath, {
+        added: [],
+        removed: [`${mockLibraryPath}/Artist/Album/02 - Gone.flac`],
+        modified: [],
+        renamed: [{ from: `${mockLibraryPath}/Artist/Album/01 - Song.flac`, to: renamedPath }],
+      });
+
+      const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({
+        absPath: renamedPath,
+        relPath: "Artist/Album/01 - Song (Live).flac",
+        playlists: ["Favorites"],
+      });
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Favorites.m3u8`,
+        "#EXTM3U\n../Artist/Album/01 - Song (Live).flac\n../Artist/Album/02 - Gone.flac\n",
+      );
+    });
+
+    it("should parse added files", async () => {
+      const newPath = `${mockLibraryPath}/New/Album/01 - New.flac`;
+      // @ts-expect-error - Mocking private method for testing
+      vi.spyOn(OrganizerService, "extractCompleteMetadata").mockImplementation(
+        (async (filePath: string) => song(filePath, { title: "New", playlists: [] })) as never,
+      );
+
+      await OrganizerService.applyLibraryChanges(mockLibraryPath, {
+        added: [newPath],
+        removed: [],
+        modified: [],
+        renamed: [],
+      });
+
+      const saved = vi.mocked(fs.outputJson).mock.calls[0][1] as SongMetadata[];
+      expect(saved.map((s) => s.absPath)).toContain(newPath);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it("should do nothing without a database", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      await OrganizerService.applyLibraryChanges(mockLibraryPath, {
+        added: [],
+        removed: [`${mockLibraryPath}/Artist/Album/02 - Gone.flac`],
+        modified: [],
+        renamed: [],
+      });
+
+      expect(fs.outputJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removePlaylistEntries", () => {
+    it("should remove the entries from every custom playlist", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue(playlistEntries("Favorites.m3u8", "Genre_Rock.m3u8") as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        "#EXTM3U\n../Artist/Album/01 - Song.flac\n..\\Gone\\Song.flac\n" as never,
+      );
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+      await OrganizerService.removePlaylistEntries(mockLibraryPath, ["../Gone/Song.flac"]);
+
+      expect(fs.writeFile).toHaveBeenCalledTimes(1);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Favorites.m3u8`,
+        "#EXTM3U\n../Artist/Album/01 - Song.flac\n",
+      );
+    });
+
+    it("should match entries of playlists in subfolders by the file they point at", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) =>
+        dir === mockPlaylistDir ? playlistEntries("Road Trips") : playlistEntries("Summer.m3u8")) as never);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        "#EXTM3U\n../../Artist/Album/01 - Song.flac\n../../Gone/Song.flac\n" as never,
+      );
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+      await OrganizerService.removePlaylistEntries(mockLibraryPath, ["../Gone/Song.flac"]);
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        `${mockPlaylistDir}/Road Trips/Summer.m3u8`,
+        "#EXTM3U\n../../Artist/Album/01 - Song.flac\n",
+      );
+    });
   });
 });
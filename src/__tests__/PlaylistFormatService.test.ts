@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { PlaylistFormatService } from '../server/services/PlaylistFormatService';
+
+describe('PlaylistFormatService', () => {
+  const song: SongMetadata = {
+    title: 'Rock & Roll',
+    artist: 'Led Zeppelin',
+    album: 'IV',
+    trackNo: '02',
+    genre: ['Rock'],
+    format: '.flac',
+    absPath: '/library/Led Zeppelin/IV/02 - Rock & Roll.flac',
+    playlists: [],
+    duration: 220.4,
+  };
+  const tracks = [{ path: 'Led Zeppelin/IV/02 - Rock & Roll.flac', song }];
+
+  it('should detect formats by extension', () => {
+    expect(PlaylistFormatService.detectFormat('Mix.PLS')).toBe('pls');
+    expect(PlaylistFormatService.detectFormat('Mix.m3u')).toBe('m3u8');
+    expect(PlaylistFormatService.detectFormat('Mix.jspf')).toBe('jspf');
+    expect(PlaylistFormatService.detectFormat('Mix.wpl')).toBeNull();
+  });
+
+  describe('PLS', () => {
+    it('should write numbered entries', () => {
+      expect(PlaylistFormatService.serialize('pls', 'Mix', tracks)).toBe(
+        '[playlist]\nFile1=Led Zeppelin/IV/02 - Rock & Roll.flac\nTitle1=Led Zeppelin - Rock & Roll\nLength1=220\nNumberOfEntries=1\nVersion=2\n',
+      );
+    });
+
+    it('should read entries in number order', () => {
+      const file = PlaylistFormatService.parse(
+        '[playlist]\r\nFile2=C:\\Music\\B.mp3\r\nFile1=file:///music/A%20B.mp3\r\nTitle1=Artist - A\r\nLength1=-1\r\nNumberOfEntries=2\r\n',
+        'pls',
+      );
+
+      expect(file.entries).toEqual([
+        { location: '/music/A B.mp3', artist: 'Artist', title: 'A', duration: undefined },
+        { location: 'C:\\Music\\B.mp3', duration: undefined },
+      ]);
+    });
+
+    it('should reject files that are not PLS', () => {
+      expect(() => PlaylistFormatService.parse('hello', 'pls')).toThrow(
+        'PLS could not be read as a playlist',
+      );
+    });
+  });
+
+  describe('XSPF', () => {
+    it('should round-trip tracks', () => {
+      const content = PlaylistFormatService.serialize('xspf', 'Best & Loudest', tracks);
+
+      expect(content).toContain('<location>Led%20Zeppelin/IV/02%20-%20Rock%20%26%20Roll.flac</location>');
+      expect(content).toContain('<duration>220400</duration>');
+      expect(PlaylistFormatService.parse(content, 'xspf')).toEqual({
+        title: 'Best & Loudest',
+        entries: [
+          {
+            location: 'Led Zeppelin/IV/02 - Rock & Roll.flac',
+            title: 'Rock & Roll',
+            artist: 'Led Zeppelin',
+            album: 'IV',
+            duration: 220.4,
+          },
+        ],
+      });
+    });
+
+    it('should read file URIs and CDATA', () => {
+      const file = PlaylistFormatService.parse(
+        '<playlist><trackList><track><location>file:///music/Caf%C3%A9.mp3</location><title><![CDATA[Café]]></title></track></trackList></playlist>',
+        'xspf',
+      );
+
+      expect(file.entries[0]).toMatchObject({ location: '/music/Café.mp3', title: 'Café' });
+    });
+  });
+
+  describe('JSPF', () => {
+    it('should round-trip tracks', () => {
+      const content = PlaylistFormatService.serialize('jspf', 'Mix', tracks);
+
+      expect(JSON.parse(content).playlist.track[0]).toEqual({
+        location: ['Led%20Zeppelin/IV/02%20-%20Rock%20%26%20Roll.flac'],
+        title: 'Rock & Roll',
+        creator: 'Led Zeppelin',
+        album: 'IV',
+        duration: 220400,
+      });
+      expect(PlaylistFormatService.parse(content, 'jspf').entries[0].location).toBe(
+        'Led Zeppelin/IV/02 - Rock & Roll.flac',
+      );
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => PlaylistFormatService.parse('{ "playlist": ', 'jspf')).toThrow(
+        'JSPF could not be read as a playlist',
+      );
+    });
+  });
+
+  it('should read #EXTINF lines of M3U files', () => {
+    const file = PlaylistFormatService.parse('#EXTM3U\n#EXTINF:100,Artist - Song\n../Song.mp3\n', 'm3u8');
+
+    expect(file.entries).toEqual([
+      { location: '../Song.mp3', title: 'Song', artist: 'Artist', duration: 100 },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { librarySong } from '../test/library';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isValidPlaylistName: (name: string) => !!name && !/[\\/:*?"<>|]/.test(name),
+    addToPlaylist: vi.fn(),
+  },
+}));
+vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore()));
+
+import { PlaylistImportService } from '../server/services/PlaylistImportService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import fs from 'fs-extra';
+
+describe('PlaylistImportService', () => {
+  const libraryPath = '/library';
+
+  const song = (relPath: string, overrides: Partial<SongMetadata> = {}): SongMetadata =>
+    librarySong(relPath, { duration: 200, ...overrides });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+    vi.mocked(OrganizerService.addToPlaylist).mockResolvedValue(undefined);
+    vi.mocked(LibraryStore.read).mockResolvedValue([
+      song('Artist/Album/01 - Song.flac'),
+      song('Artist/Album/02 - Other.flac', { title: 'Other', duration: 300 }),
+      song('Artist/Live/02 - Other.flac', { title: 'Other', duration: 340 }),
+    ]);
+  });
+
+  it('should match entries by path, trailing folders and tags', async () => {
+    const content = [
+      '[playlist]',
+      'File1=../Artist/Album/01 - Song.flac',
+      'File2=D:\\Old Library\\Artist\\Live\\02 - Other.mp3',
+      'Title2=Artist - Other',
+      'Length2=339',
+      'File3=C:\\Music\\Unknown\\Track.mp3',
+      'Title3=Nobody - Nothing',
+      'NumberOfEntries=3',
+    ].join('\n');
+
+    const result = await PlaylistImportService.importPlaylist(libraryPath, {
+      fileName: 'Road Trip.pls',
+      content,
+    });
+
+    expect(result).toEqual({
+      name: 'Road Trip',
+      matched: 2,
+      unmatched: [{ location: 'C:\\Music\\Unknown\\Track.mp3', artist: 'Nobody', title: 'Nothing', duration: undefined }],
+    });
+    expect(OrganizerService.addToPlaylist).toHaveBeenCalledWith(
+      'Road Trip',
+      ['/library/Artist/Album/01 - Song.flac', '/library/Artist/Live/02 - Other.flac'],
+      libraryPath,
+    );
+  });
+
+  it('should match by trailing folders from another machine', async () => {
+    const content = JSON.stringify({
+      playlist: {
+        title: 'Shared',
+        track: [{ location: ['file:///home/someone/Music/Artist/Album/02%20-%20Other.flac'] }],
+      },
+    });
+
+    const result = await PlaylistImportService.importPlaylist(libraryPath, {
+      fileName: 'export.jspf',
+      content,
+    });
+
+    expect(result).toMatchObject({ name: 'Shared', matched: 1 });
+    expect(OrganizerService.addToPlaylist).toHaveBeenCalledWith(
+      'Shared',
+      ['/library/Artist/Album/02 - Other.flac'],
+      libraryPath,
+    );
+  });
+
+  it('should refuse to overwrite an existing playlist', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+
+    await expect(
+      PlaylistImportService.importPlaylist(libraryPath, {
+        fileName: 'Favorites.xspf',
+        content: '<playlist><trackList/></playlist>',
+      }),
+    ).rejects.toThrow('Playlist Favorites already exists');
+    expect(OrganizerService.addToPlaylist).not.toHaveBeenCalled();
+  });
+
+  it('should reject system playlist names and unknown formats', async () => {
+    await expect(
+      PlaylistImportService.importPlaylist(libraryPath, {
+        fileName: 'Genre_Rock.pls',
+        content: '[playlist]',
+      }),
+    ).rejects.toThrow('Invalid playlist name: "Genre_Rock"');
+    await expect(
+      PlaylistImportService.importPlaylist(libraryPath, { fileName: 'List.wpl', content: '' }),
+    ).rejects.toThrow('Unsupported playlist format: .wpl');
+  });
+});
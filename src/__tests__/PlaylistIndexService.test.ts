@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('fs-extra');
+
+import { PlaylistIndexService } from '../server/services/PlaylistIndexService';
+import fs from 'fs-extra';
+
+describe('PlaylistIndexService', () => {
+  const libraryPath = '/library';
+  const playlists: Record<string, string> = {
+    'Favorites.m3u8': '#EXTM3U\n../Artist/Album/Song.mp3\n../Other/Track.mp3\n',
+    'Workout.m3u': '#EXTM3U\n..\\Other\\Track.mp3\n',
+    '00_Master_Library.m3u8': '#EXTM3U\n../Artist/Album/Song.mp3\n',
+    'Genre_Rock.m3u8': '#EXTM3U\n../Artist/Album/Song.mp3\n',
+    'Road Trips/Summer.m3u8': '#EXTM3U\n../../Other/Track.mp3\n',
+  };
+
+  // readdir withFileTypes of the Playlists folder and its subfolders
+  const listDir = (dir: string) => {
+    const relDir = dir.replace(/^\/library\/Playlists\/?/, '');
+    const names = new Set<string>();
+    for (const file of [...Object.keys(playlists), 'cover.jpg', '.hidden/Old.m3u8']) {
+      const rest = relDir ? (file.startsWith(`${relDir}/`) ? file.slice(relDir.length + 1) : null) : file;
+      if (rest !== null) names.add(rest.split('/')[0] + (rest.includes('/') ? '/' : ''));
+    }
+    return [...names].map((name) => ({
+      name: name.replace(/\/$/, ''),
+      isDirectory: () => name.endsWith('/'),
+      isFile: () => !name.endsWith('/'),
+    }));
+  };
+  let mtime: number;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    PlaylistIndexService.invalidate();
+    mtime = 1000;
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string) => listDir(dir)) as never);
+    vi.mocked(fs.readFile).mockImplementation((async (filePath: string) =>
+      playlists[filePath.replace('/library/Playlists/', '')]) as never);
+    vi.mocked(fs.stat).mockImplementation((async () => ({ size: 10, mtimeMs: mtime })) as never);
+  });
+
+  it('should map tracks to the custom playlists that contain them', async () => {
+    const index = await PlaylistIndexService.get(libraryPath);
+
+    expect(index.playlistsFor('/library/Artist/Album/Song.mp3')).toEqual(['Favorites']);
+    expect(index.playlistsFor('/library/Other/Track.mp3')).toEqual(['Favorites', 'Workout', 'Road Trips/Summer']);
+    expect(index.playlistsFor('/library/Missing.mp3')).toEqual([]);
+    expect(fs.readFile).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return an empty index if there is no Playlists folder', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+    const index = await PlaylistIndexService.get(libraryPath);
+
+    expect(index.playlistsFor('/library/Artist/Album/Song.mp3')).toEqual([]);
+    expect(fs.readdir).not.toHaveBeenCalled();
+  });
+
+  it('should reuse the cached index while playlist files are unchanged', async () => {
+    const first = await PlaylistIndexService.get(libraryPath);
+    const second = await PlaylistIndexService.get(libraryPath);
+
+    expect(second).toBe(first);
+    expect(fs.readFile).toHaveBeenCalledTimes(3);
+  });
+
+  it('should rebuild the index when a playlist file changes', async () => {
+    const first = await PlaylistIndexService.get(libraryPath);
+    mtime = 2000;
+    const second = await PlaylistIndexService.get(libraryPath);
+
+    expect(second).not.toBe(first);
+    expect(fs.readFile).toHaveBeenCalledTimes(6);
+  });
+
+  it('should rebuild the index after invalidate', async () => {
+    const first = await PlaylistIndexService.get(libraryPath);
+    PlaylistIndexService.invalidate(libraryPath);
+    const second = await PlaylistIndexService.get(libraryPath);
+
+    expect(second).not.toBe(first);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { librarySong as song } from '../test/library';
+import type { OperationJournal } from '../server/services/JournalService';
+
+vi.mock('fs-extra');
+vi.mock('child_process', () => {
+  const execFile = vi.fn();
+  return { execFile, default: { execFile } };
+});
+vi.mock('ffmpeg-static', () => ({ default: '/bin/ffmpeg' }));
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isSystemPlaylistName: (name: string) => name.startsWith('Genre_') || name.startsWith('00_Master'),
+    getAlbumCover: vi.fn(),
+  },
+}));
+vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore()));
+
+import { PlaylistMetadataService } from '../server/services/PlaylistMetadataService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+
+describe('PlaylistMetadataService', () => {
+  const libraryPath = '/library';
+  const playlistPath = '/library/Playlists/Road Trips/Summer.m3u8';
+  const sidecarPath = '/library/Playlists/Road Trips/Summer.meta.json';
+  const collagePath = '/library/Playlists/.covers/Road Trips/Summer.jpg';
+
+  let existing: Set<string>;
+
+  const journal = () => ({
+    move: vi.fn(),
+    capture: vi.fn(),
+  }) as unknown as OperationJournal & { move: ReturnType<typeof vi.fn>; capture: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    existing = new Set([playlistPath]);
+    vi.mocked(fs.pathExists).mockImplementation(async (p: string) => existing.has(p));
+    vi.mocked(fs.stat).mockResolvedValue({ birthtimeMs: 1000, mtimeMs: 5000 } as never);
+    vi.mocked(fs.readJson).mockResolvedValue({});
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/playlist-cover-1' as never);
+    vi.mocked(LibraryStore.read).mockResolvedValue([]);
+  });
+
+  describe('get', () => {
+    it('should take the dates from the playlist file when there is no sidecar', async () => {
+      const metadata = await PlaylistMetadataService.get(libraryPath, 'Road Trips/Summer');
+
+      expect(metadata).toEqual({
+        description: undefined,
+        createdAt: 1000,
+        updatedAt: 5000,
+        customCover: false,
+      });
+    });
+
+    it('should read the description and dates of the sidecar', async () => {
+      existing.add(sidecarPath);
+      existing.add('/library/Playlists/Road Trips/Summer.cover.png');
+      vi.mocked(fs.readJson).mockResolvedValue({ description: 'Beach days', createdAt: 200, updatedAt: 9000 });
+
+      const metadata = await PlaylistMetadataService.get(libraryPath, 'Road Trips/Summer');
+
+      expect(metadata).toEqual({
+        description: 'Beach days',
+        createdAt: 200,
+        updatedAt: 9000,
+        customCover: true,
+      });
+    });
+
+    it('should fail for a missing playlist', async () => {
+      await expect(PlaylistMetadataService.get(libraryPath, 'Missing')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('update', () => {
+    it('should write the description to the sidecar', async () => {
+      await PlaylistMetadataService.update(libraryPath, 'Road Trips/Summer', { description: '  Beach days ' });
+
+      expect(fs.outputJson).toHaveBeenCalledWith(
+        sidecarPath,
+        { description: 'Beach days', createdAt: 1000, updatedAt: expect.any(Number) },
+        { spaces: 2 },
+      );
+    });
+
+    it('should refuse generated playlists and long descriptions', async () => {
+      await expect(
+        PlaylistMetadataService.update(libraryPath, 'Genre_Rock', { description: 'Rock' }),
+      ).rejects.toThrow('cannot be edited');
+      await expect(
+        PlaylistMetadataService.update(libraryPath, 'Road Trips/Summer', { description: 'x'.repeat(2001) }),
+      ).rejects.toThrow('Invalid playlist description');
+      expect(fs.outputJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setCover', () => {
+    it('should replace the cover with the uploaded image', async () => {
+      existing.add('/library/Playlists/Road Trips/Summer.cover.jpg');
+
+      await PlaylistMetadataService.setCover(
+        libraryPath,
+        'Road Trips/Summer',
+        `data:image/png;base64,${Buffer.from('png').toString('base64')}`,
+      );
+
+      expect(fs.remove).toHaveBeenCalledWith('/library/Playlists/Road Trips/Summer.cover.jpg');
+      expect(fs.outputFile).toHaveBeenCalledWith(
+        '/library/Playlists/Road Trips/Summer.cover.png',
+        Buffer.from('png'),
+      );
+      expect(fs.outputJson).toHaveBeenCalled();
+    });
+
+    it('should reject anything but a JPEG, PNG or WebP data URL', async () => {
+      await expect(
+        PlaylistMetadataService.setCover(libraryPath, 'Road Trips/Summer', 'data:image/gif;base64,R0lG'),
+      ).rejects.toThrow('Invalid playlist cover');
+      await expect(
+        PlaylistMetadataService.setCover(libraryPath, 'Road Trips/Summer', 'not an image'),
+      ).rejects.toThrow('Invalid playlist cover');
+      expect(fs.outputFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCover', () => {
+    it('should return the custom cover', async () => {
+      existing.add('/library/Playlists/Road Trips/Summer.cover.webp');
+      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('webp') as never);
+
+      const cover = await PlaylistMetadataService.getCover(libraryPath, 'Road Trips/Summer');
+
+      expect(cover).toEqual({ data: Buffer.from('webp'), mimeType: 'image/webp' });
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('should build a collage from the art of different albums', async () => {
+      vi.mocked(LibraryStore.read).mockResolvedValue([
+        song('A/One/01.flac', { album: 'One' }),
+        song('A/One/02.flac', { album: 'One' }),
+        song('B/Two/01.flac', { album: 'Two' }),
+      ]);
+      vi.mocked(fs.readFile).mockImplementation((async (p: string) =>
+        p === playlistPath
+          ? '../../A/One/01.flac\n../../A/One/02.flac\n../../B/Two/01.flac\n'
+          : Buffer.from('collage')) as never);
+      vi.mocked(OrganizerService.getAlbumCover).mockImplementation(async (trackPath: string) => ({
+        data: Buffer.from(trackPath),
+        mimeType: 'image/jpeg',
+      }));
+      vi.mocked(execFile).mockImplementation(((_file: string, _args: string[], callback: (error: Error | null) => void) =>
+        callback(null)) as never);
+
+      const cover = await PlaylistMetadataService.getCover(libraryPath, 'Road Trips/Summer');
+
+      expect(cover).toEqual({ data: Buffer.from('collage'), mimeType: 'image/jpeg' });
+      expect(OrganizerService.getAlbumCover).toHaveBeenCalledTimes(2);
+      const args = vi.mocked(execFile).mock.calls[0][1] as string[];
+      expect(args.filter((arg) => arg === '-i')).toHaveLength(4);
+      expect(args[args.length - 1]).toBe(collagePath);
+      expect(fs.remove).toHaveBeenCalledWith('/tmp/playlist-cover-1');
+    });
+
+    it('should reuse a collage newer than the playlist', async () => {
+      existing.add(collagePath);
+      vi.mocked(fs.stat).mockImplementation((async (p: string) =>
+        ({ birthtimeMs: 1000, mtimeMs: p === collagePath ? 6000 : 5000 })) as never);
+      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('cached') as never);
+
+      const cover = await PlaylistMetadataService.getCover(libraryPath, 'Road Trips/Summer');
+
+      expect(cover).toEqual({ data: Buffer.from('cached'), mimeType: 'image/jpeg' });
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('should return null when no track has art', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue('../../A/One/01.flac\n' as never);
+      vi.mocked(OrganizerService.getAlbumCover).mockResolvedValue(null);
+
+      expect(await PlaylistMetadataService.getCover(libraryPath, 'Road Trips/Summer')).toBeNull();
+    });
+  });
+
+  describe('move and remove', () => {
+    it('should move the sidecar and cover with the playlist', async () => {
+      existing.add(sidecarPath);
+      existing.add('/library/Playlists/Road Trips/Summer.cover.jpg');
+      const op = journal();
+
+      await PlaylistMetadataService.move(libraryPath, 'Road Trips/Summer', 'Summer', op);
+
+      expect(op.move).toHaveBeenCalledWith(sidecarPath, '/library/Playlists/Summer.meta.json');
+      expect(op.move).toHaveBeenCalledWith(
+        '/library/Playlists/Road Trips/Summer.cover.jpg',
+        '/library/Playlists/Summer.cover.jpg',
+      );
+      expect(fs.remove).toHaveBeenCalledWith(collagePath);
+    });
+
+    it('should capture the sidecar before removing it', async () => {
+      existing.add(sidecarPath);
+      const op = journal();
+
+      await PlaylistMetadataService.remove(libraryPath, 'Road Trips/Summer', op);
+
+      expect(op.capture).toHaveBeenCalledWith(sidecarPath);
+      expect(fs.remove).toHaveBeenCalledWith(sidecarPath);
+      expect(fs.remove).toHaveBeenCalledWith(collagePath);
+    });
+  });
+});
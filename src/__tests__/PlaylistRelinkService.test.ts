@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SongMetadata } from '../server/services/OrganizerService';
+import { librarySong } from '../test/library';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore()));
+
+import { PlaylistRelinkService } from '../server/services/PlaylistRelinkService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import fs from 'fs-extra';
+
+describe('PlaylistRelinkService', () => {
+  const libraryPath = '/library';
+  let existing: Set<string>;
+  let playlist: string;
+
+  const song = (relPath: string, overrides: Partial<SongMetadata> = {}): SongMetadata =>
+    librarySong(relPath, { duration: 200, ...overrides });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    existing = new Set(['/library/Playlists']);
+    playlist = '#EXTM3U\n../Artist/Album/01 - Song.mp3\n';
+
+    vi.mocked(fs.pathExists).mockImplementation((async (filePath: string) =>
+      existing.has(filePath)) as never);
+    vi.mocked(fs.readdir).mockResolvedValue(
+      ['Favorites.m3u8', '00_Master_Library.m3u8'].map((name) => ({ name, isDirectory: () => false, isFile: () => true })) as never,
+    );
+    vi.mocked(fs.readFile).mockImplementation((async () => playlist) as never);
+  });
+
+  const withLibrary = (songs: SongMetadata[]) => {
+    vi.mocked(LibraryStore.read).mockResolvedValue(songs);
+    songs.forEach((s) => existing.add(s.absPath));
+  };
+
+  it('should propose a re-encoded file by path similarity and tags', async () => {
+    withLibrary([
+      song('Artist/Album/01 - Song.flac'),
+      song('Someone Else/Record/05 - Different.flac', { title: 'Different', artist: 'Someone Else' }),
+    ]);
+
+    const [proposal] = await PlaylistRelinkService.findCandidates(libraryPath, 'Favorites');
+
+    expect(proposal).toMatchObject({
+      playlist: 'Favorites',
+      entry: '../Artist/Album/01 - Song.mp3',
+      resolvedPath: '/library/Artist/Album/01 - Song.mp3',
+    });
+    expect(proposal.candidates).toHaveLength(1);
+    expect(proposal.candidates[0]).toMatchObject({
+      path: '/library/Artist/Album/01 - Song.flac',
+      reasons: ['tags', 'path'],
+      score: 0.85,
+    });
+  });
+
+  it('should match by MBID when the database still has the old entry', async () => {
+    withLibrary([
+      song('Artist/Album/01 - Song.flac', { mbid: 'rec-1', title: 'Song (Remaster)', duration: 260 }),
+      song('Artist/Album/01 - Song (Live).flac', { title: 'Song', duration: 300 }),
+    ]);
+    // Stale entry of the old file, not on disk
+    vi.mocked(LibraryStore.read).mockResolvedValue([
+      song('Artist/Album/01 - Song.mp3', { mbid: 'rec-1' }),
+      song('Artist/Album/01 - Song.flac', { mbid: 'rec-1', title: 'Song (Remaster)', duration: 260 }),
+      song('Artist/Album/01 - Song (Live).flac', { title: 'Song', duration: 300 }),
+    ]);
+
+    const [proposal] = await PlaylistRelinkService.findCandidates(libraryPath, 'Favorites');
+
+    expect(proposal.candidates[0]).toMatchObject({
+      path: '/library/Artist/Album/01 - Song.flac',
+      score: 1,
+    });
+    expect(proposal.candidates[0].reasons).toContain('mbid');
+    // Same tags but a different duration
+    expect(proposal.candidates[1].reasons).not.toContain('tags');
+  });
+
+  it('should skip entries that still resolve', async () => {
+    withLibrary([song('Artist/Album/01 - Song.mp3')]);
+
+    expect(await PlaylistRelinkService.findCandidates(libraryPath, 'Favorites')).toEqual([]);
+  });
+
+  it('should not propose tracks whose file is gone too', async () => {
+    vi.mocked(LibraryStore.read).mockResolvedValue([song('Artist/Album/01 - Song.flac')]);
+
+    const [proposal] = await PlaylistRelinkService.findCandidates(libraryPath, 'Favorites');
+
+    expect(proposal.candidates).toEqual([]);
+  });
+
+  it('should reject generated and unknown playlists', async () => {
+    await expect(
+      PlaylistRelinkService.findCandidates(libraryPath, '00_Master_Library'),
+    ).rejects.toThrow('Playlist 00_Master_Library not found');
+  });
+});
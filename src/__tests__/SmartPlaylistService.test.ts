@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { librarySong as song } from '../test/library';
+import type { SmartPlaylist } from '../server/services/SmartPlaylistService';
+
+vi.mock('fs-extra');
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    isValidPlaylistName: (name: string) => !!name && !/[\\/:*?"<>|]/.test(name),
+  },
+}));
+vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore()));
+
+import { SmartPlaylistService } from '../server/services/SmartPlaylistService';
+import { LibraryStore } from '../server/services/LibraryStore';
+import fs from 'fs-extra';
+
+describe('SmartPlaylistService', () => {
+  const libraryPath = '/library';
+
+  const inventory = [
+    song('Led Zeppelin/IV/01 - Black Dog.flac', { artist: 'Led Zeppelin', year: 1971, bitrate: 900 }),
+    song('Muse/Drones/01 - Dead Inside.mp3', { artist: 'Muse', format: '.mp3', year: 2015, bitrate: 320 }),
+    song('Miles Davis/Kind of Blue/01 - So What.mp3', { artist: 'Miles Davis', genre: ['Jazz'], format: '.mp3', year: 1959, bitrate: 128 }),
+  ];
+
+  const seventiesRock: SmartPlaylist = {
+    name: '70s Rock',
+    match: 'all',
+    rules: [
+      { field: 'genre', values: ['rock'] },
+      { field: 'year', min: 1970, max: 1979 },
+      { field: 'lossless', value: true },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+    vi.mocked(LibraryStore.read).mockResolvedValue(inventory);
+  });
+
+  it('should match all or any of the rules', () => {
+    expect(inventory.map((s) => SmartPlaylistService.matches(s, seventiesRock))).toEqual([true, false, false]);
+    expect(
+      inventory.map((s) =>
+        SmartPlaylistService.matches(s, {
+          name: 'Mixed',
+          match: 'any',
+          rules: [
+            { field: 'bitrate', min: 320 },
+            { field: 'artist', contains: 'davis' },
+          ],
+        }),
+      ),
+    ).toEqual([true, true, true]);
+  });
+
+  it('should write the playlist file of every rule set', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue([seventiesRock, { name: 'Broken', match: 'all', rules: [] }] as never);
+
+    await SmartPlaylistService.generate(inventory, libraryPath);
+
+    expect(fs.outputFile).toHaveBeenCalledTimes(1);
+    const [filePath, content] = vi.mocked(fs.outputFile).mock.calls[0];
+    expect(filePath).toBe('/library/Playlists/Smart_70s Rock.m3u8');
+    expect(content).toContain('../Led Zeppelin/IV/01 - Black Dog.flac');
+    expect(content).not.toContain('Muse');
+  });
+
+  it('should save a new rule set and materialize it', async () => {
+    const saved = await SmartPlaylistService.save(libraryPath, { ...seventiesRock, name: ' 70s Rock ' });
+
+    expect(saved.name).toBe('70s Rock');
+    expect(fs.writeJson).toHaveBeenCalledWith('/library/smart_playlists.json', [saved], { spaces: 2 });
+    expect(fs.outputFile).toHaveBeenCalledWith('/library/Playlists/Smart_70s Rock.m3u8', expect.any(String));
+  });
+
+  it('should rename a rule set and remove its old playlist file', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue([seventiesRock] as never);
+
+    await SmartPlaylistService.save(libraryPath, { ...seventiesRock, name: 'Classic Rock' }, '70s Rock');
+
+    expect(fs.writeJson).toHaveBeenCalledWith(
+      '/library/smart_playlists.json',
+      [{ ...seventiesRock, name: 'Classic Rock' }],
+      { spaces: 2 },
+    );
+    expect(fs.remove).toHaveBeenCalledWith('/library/Playlists/Smart_70s Rock.m3u8');
+  });
+
+  it('should refuse duplicate names and unknown rule sets', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue([seventiesRock] as never);
+
+    await expect(SmartPlaylistService.save(libraryPath, { ...seventiesRock, name: '70S ROCK' })).rejects.toThrow(
+      'Playlist 70S ROCK already exists',
+    );
+    await expect(SmartPlaylistService.save(libraryPath, seventiesRock, 'Missing')).rejects.toThrow(
+      'Smart playlist Missing not found',
+    );
+    expect(fs.writeJson).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid rule sets', () => {
+    expect(() => SmartPlaylistService.validate({ name: 'A', match: 'all', rules: [] })).toThrow(
+      'Invalid smart playlist: at least one rule is required',
+    );
+    expect(() =>
+      SmartPlaylistService.validate({ name: 'A', match: 'all', rules: [{ field: 'year', min: 2000, max: 1990 }] }),
+    ).toThrow('year minimum is after its maximum');
+    expect(() =>
+      SmartPlaylistService.validate({ name: 'A', match: 'all', rules: [{ field: 'mood', value: 'happy' }] }),
+    ).toThrow('unknown field mood');
+    expect(() => SmartPlaylistService.validate({ name: 'A/B', match: 'all', rules: [] })).toThrow(
+      'Invalid playlist name',
+    );
+  });
+
+  it('should drop a rule set within the journal', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue([seventiesRock] as never);
+    const journal = { capture: vi.fn() };
+
+    await SmartPlaylistService.remove(libraryPath, '70s Rock', journal as never);
+
+    expect(journal.capture).toHaveBeenCalledWith('/library/smart_playlists.json');
+    expect(fs.writeJson).toHaveBeenCalledWith('/library/smart_playlists.json', [], { spaces: 2 });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('fs-extra');
+vi.mock('child_process', () => {
+  const execFile = vi.fn();
+  return { execFile, default: { execFile } };
+});
+vi.mock('ffmpeg-static', () => ({ default: '/bin/ffmpeg' }));
+vi.mock('../server/services/OrganizerService', () => ({
+  OrganizerService: {
+    getAlbumCover: vi.fn(),
+  },
+}));
+
+import { TranscodeService } from '../server/services/TranscodeService';
+import { OrganizerService } from '../server/services/OrganizerService';
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+
+describe('TranscodeService', () => {
+  const libraryPath = '/library';
+  const trackPath = '/library/Artist/Album/01 - Song.flac';
+
+  type ExecCallback = (error: Error | null, stdout: string, stderr: string) => void;
+  const ffmpegArgs = () => vi.mocked(execFile).mock.calls[0][1] as string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+    vi.mocked(fs.stat).mockResolvedValue({ size: 4000, mtimeMs: 1000 } as never);
+    vi.mocked(OrganizerService.getAlbumCover).mockResolvedValue(null);
+    vi.mocked(execFile).mockImplementation(((_file: string, _args: string[], callback: ExecCallback) =>
+      callback(null, '', '')) as never);
+  });
+
+  it('should recognise the export profiles', () => {
+    expect(TranscodeService.isProfile('mp3-v0')).toBe(true);
+    expect(TranscodeService.isProfile('flac-16-44')).toBe(true);
+    expect(TranscodeService.isProfile('wma-64')).toBe(false);
+    expect(TranscodeService.isProfile(undefined)).toBe(false);
+  });
+
+  it('should swap the extension for the one of the profile', () => {
+    expect(TranscodeService.withExtension('/dest/Artist/01 - Song.flac', 'aac-256')).toBe('/dest/Artist/01 - Song.m4a');
+    expect(TranscodeService.withExtension('/dest/Song.mp3', 'opus-160')).toBe('/dest/Song.opus');
+  });
+
+  it('should convert into the cache, keeping tags and the attached picture', async () => {
+    const cachePath = await TranscodeService.transcode(trackPath, 'mp3-v0', libraryPath);
+
+    expect(cachePath).toMatch(/^\/library\/\.transcode-cache\/mp3-v0\/[0-9a-f]{40}\.mp3$/);
+    expect(execFile).toHaveBeenCalledWith('/bin/ffmpeg', expect.any(Array), expect.any(Function));
+    const args = ffmpegArgs();
+    expect(args).toEqual(expect.arrayContaining(['-i', trackPath, '-map_metadata', '0', '-c:v', 'copy']));
+    expect(args.join(' ')).toContain('-c:a libmp3lame -q:a 0');
+    expect(args.slice(-3)).toEqual(['-f', 'mp3', `${cachePath}.tmp`]);
+    expect(fs.move).toHaveBeenCalledWith(`${cachePath}.tmp`, cachePath, { overwrite: true });
+    expect(fs.outputJson).toHaveBeenCalledWith(`${cachePath}.source.json`, { size: 4000, mtimeMs: 1000 });
+  });
+
+  it('should downsample FLAC to 16 bit and 44.1 kHz', async () => {
+    await TranscodeService.transcode(trackPath, 'flac-16-44', libraryPath);
+
+    expect(ffmpegArgs().join(' ')).toContain('-c:a flac -sample_fmt s16 -ar 44100');
+  });
+
+  it('should reuse a cached file made from the same size and mtime', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue({ size: 4000, mtimeMs: 1000 });
+
+    const cachePath = await TranscodeService.transcode(trackPath, 'aac-256', libraryPath);
+
+    expect(cachePath).toMatch(/\.m4a$/);
+    expect(fs.readJson).toHaveBeenCalledWith(`${cachePath}.source.json`);
+    expect(execFile).not.toHaveBeenCalled();
+  });
+
+  it('should convert again when the track was replaced, even by an older file', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockResolvedValue({ size: 5000, mtimeMs: 2000 });
+
+    await TranscodeService.transcode(trackPath, 'aac-256', libraryPath);
+
+    expect(execFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should convert again when the cached copy has no source record', async () => {
+    vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+    vi.mocked(fs.readJson).mockRejectedValue(new Error('ENOENT'));
+
+    await TranscodeService.transcode(trackPath, 'aac-256', libraryPath);
+
+    expect(execFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prune cached copies of tracks no longer in the library', async () => {
+    const cachePath = await TranscodeService.transcode(trackPath, 'mp3-v0', libraryPath);
+    const key = cachePath.split('/').pop()!.split('.')[0];
+    vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+      p === '/library/.transcode-cache' || p === '/library/.transcode-cache/mp3-v0') as never);
+    vi.mocked(fs.readdir).mockResolvedValue([`${key}.mp3`, `${key}.mp3.source.json`, 'gone.mp3', 'gone.mp3.source.json'] as never);
+    vi.mocked(fs.remove).mockClear();
+
+    await TranscodeService.prune(libraryPath, [trackPath]);
+
+    expect(fs.readdir).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fs.remove).mock.calls.map(([p]) => p)).toEqual([
+      '/library/.transcode-cache/mp3-v0/gone.mp3',
+      '/library/.transcode-cache/mp3-v0/gone.mp3.source.json',
+    ]);
+  });
+
+  it('should put the cover of Opus files in a picture tag', async () => {
+    vi.mocked(OrganizerService.getAlbumCover).mockResolvedValue({
+      data: Buffer.from('jpeg'),
+      mimeType: 'image/jpeg',
+    });
+
+    const cachePath = await TranscodeService.transcode(trackPath, 'opus-160', libraryPath);
+
+    const [metadataPath, contents] = vi.mocked(fs.outputFile).mock.calls[0] as unknown as [string, string];
+    expect(metadataPath).toBe(`${cachePath}.ffmetadata`);
+    expect(contents).toMatch(/^;FFMETADATA1\nMETADATA_BLOCK_PICTURE=/);
+
+    const encoded = contents.split('\n')[1].slice('METADATA_BLOCK_PICTURE='.length).replace(/\\(.)/g, '$1');
+    const block = Buffer.from(encoded, 'base64');
+    expect(block.readUInt32BE(0)).toBe(3);
+    expect(block.subarray(8, 18).toString()).toBe('image/jpeg');
+    expect(block.subarray(block.length - 4).toString()).toBe('jpeg');
+
+    const args = ffmpegArgs();
+    expect(args).toEqual(expect.arrayContaining(['-i', metadataPath, '-map_metadata:s:a:0', '1']));
+    expect(args).not.toContain('attached_pic');
+    expect(fs.remove).toHaveBeenCalledWith(metadataPath);
+  });
+
+  it('should clean up and fail when ffmpeg fails', async () => {
+    vi.mocked(execFile).mockImplementation(((_file: string, _args: string[], callback: ExecCallback) =>
+      callback(new Error('exit 1'), '', 'Invalid data found')) as never);
+
+    await expect(TranscodeService.transcode(trackPath, 'mp3-320', libraryPath)).rejects.toThrow(
+      'ffmpeg failed: Invalid data found',
+    );
+    expect(fs.move).not.toHaveBeenCalled();
+    expect(fs.remove).toHaveBeenCalledWith(expect.stringMatching(/\.mp3\.tmp$/));
+  });
+});
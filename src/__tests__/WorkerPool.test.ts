@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { WorkerPool } from '../server/services/WorkerPool';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('WorkerPool', () => {
+  describe('normalizeConcurrency', () => {
+    it('should fall back to the default for invalid values', () => {
+      expect(WorkerPool.normalizeConcurrency(undefined)).toBe(8);
+      expect(WorkerPool.normalizeConcurrency('4')).toBe(8);
+      expect(WorkerPool.normalizeConcurrency(2.5)).toBe(8);
+    });
+
+    it('should clamp to the allowed range', () => {
+      expect(WorkerPool.normalizeConcurrency(0)).toBe(1);
+      expect(WorkerPool.normalizeConcurrency(1000)).toBe(64);
+      expect(WorkerPool.normalizeConcurrency(16)).toBe(16);
+    });
+  });
+
+  describe('map', () => {
+    it('should never run more tasks than the concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await WorkerPool.map([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(1);
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should return results in input order even if they finish out of order', async () => {
+      const results = await WorkerPool.map([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return `${index}:${ms}`;
+      });
+
+      expect(results).toEqual(['0:30', '1:10', '2:20']);
+    });
+
+    it('should reject with the first worker error', async () => {
+      await expect(
+        WorkerPool.map([1, 2, 3], 2, async (n) => {
+          if (n === 2) throw new Error('Cannot read file');
+          return n;
+        }),
+      ).rejects.toThrow('Cannot read file');
+    });
+  });
+
+  describe('stream', () => {
+    it('should yield results in completion order and pull items lazily', async () => {
+      const pulled: number[] = [];
+      function* items() {
+        for (const ms of [30, 5, 10]) {
+          pulled.push(ms);
+          yield ms;
+        }
+      }
+
+      const stream = WorkerPool.stream(items(), 2, async (ms) => {
+        await delay(ms);
+        return ms;
+      });
+
+      const first = await stream.next();
+      expect(first.value?.result).toBe(5);
+
+      const rest: number[] = [];
+      for await (const { result } of stream) rest.push(result);
+      expect(rest).toEqual([10, 30]);
+      expect(pulled).toEqual([30, 5, 10]);
+    });
+  });
+});
@@ -5,11 +5,47 @@ import type { ScanResult } from '../server/services/OrganizerService';
 
 vi.mock('../server/services/OrganizerService');
 vi.mock("../server/services/AppleMusicSync");
+vi.mock('../server/services/JournalService');
+vi.mock('../server/services/InboxWatcherService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../server/services/InboxWatcherService')>();
+  return {
+    InboxWatcherService: {
+      validateRules: actual.InboxWatcherService.validateRules,
+      syncWithConfig: vi.fn(),
+      getStatus: vi.fn(),
+      dismiss: vi.fn(),
+    },
+  };
+});
+vi.mock('../server/services/LibraryWatcherService');
+vi.mock('../server/services/LibraryHealthService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../server/services/LibraryHealthService')>();
+  return {
+    LibraryHealthService: {
+      FIXES: actual.LibraryHealthService.FIXES,
+      check: vi.fn(),
+      fix: vi.fn(),
+    },
+  };
+});
+vi.mock('../server/services/PlaylistImportService');
+vi.mock('../server/services/SmartPlaylistService');
+vi.mock('../server/services/PlaylistMetadataService');
 vi.mock('fs-extra');
 
 import router from '../server/routes/api';
 import { OrganizerService } from '../server/services/OrganizerService';
 import { AppleMusicSync } from "../server/services/AppleMusicSync";
+import { JournalService } from '../server/services/JournalService';
+import type { JournalEntry } from '../server/services/JournalService';
+import { InboxWatcherService } from '../server/services/InboxWatcherService';
+import { LibraryWatcherService } from '../server/services/LibraryWatcherService';
+import { LibraryHealthService } from '../server/services/LibraryHealthService';
+import type { HealthReport } from '../server/services/LibraryHealthService';
+import { PlaylistImportService } from '../server/services/PlaylistImportService';
+import { SmartPlaylistService } from '../server/services/SmartPlaylistService';
+import { AutoPlaylistService } from '../server/services/AutoPlaylistService';
+import { PlaylistMetadataService } from '../server/services/PlaylistMetadataService';
 import fs from 'fs-extra';
 
 const app = express();
@@ -59,6 +95,7 @@ describe('API Routes', () => {
         },
       ];
 
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
       vi.mocked(OrganizerService.scanInbox).mockResolvedValue(mockResults);
 
       const response = await request(app)
@@ -67,7 +104,32 @@ describe('API Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ success: true, results: mockResults });
-      expect(OrganizerService.scanInbox).toHaveBeenCalledWith('/inbox', '/library');
+      expect(OrganizerService.scanInbox).toHaveBeenCalledWith('/inbox', '/library', {
+        template: '{albumartist}/[({year}) ]{album}/[{disc}-]{track} - {title}',
+        variousArtists: 'Various Artists',
+      }, { concurrency: undefined });
+    });
+
+    it('should use the naming template stored in config', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({
+        inboxPath: '/inbox',
+        libraryPath: '/library',
+        namingTemplate: '{artist}/{title}',
+        variousArtistsName: 'VA',
+        concurrency: 16,
+      } as never);
+      vi.mocked(OrganizerService.scanInbox).mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/scan')
+        .send({ inboxPath: '/inbox', libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(OrganizerService.scanInbox).toHaveBeenCalledWith('/inbox', '/library', {
+        template: '{artist}/{title}',
+        variousArtists: 'VA',
+      }, { concurrency: 16 });
     });
 
     it('should return 500 on error', async () => {
@@ -110,8 +172,14 @@ describe('API Routes', () => {
       expect(response.body).toEqual({ error: 'Invalid payload' });
     });
 
+    const emptySummary = { moved: 0, renamed: 0, replaced: 0, 'skipped-duplicate': 0, failed: 0 };
+
     it('should organize files successfully', async () => {
-      vi.mocked(OrganizerService.organize).mockResolvedValue(undefined);
+      vi.mocked(OrganizerService.organize).mockResolvedValue({
+        operationId: 'op-1',
+        summary: emptySummary,
+        files: [],
+      });
 
       const mockResults: ScanResult[] = [];
 
@@ -120,8 +188,59 @@ describe('API Routes', () => {
         .send({ results: mockResults, libraryPath: '/library' });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ success: true, message: 'Organization complete' });
-      expect(OrganizerService.organize).toHaveBeenCalledWith(mockResults, '/library');
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Organization complete',
+        operationId: 'op-1',
+        summary: emptySummary,
+        files: [],
+      });
+      expect(OrganizerService.organize).toHaveBeenCalledWith(mockResults, '/library', 'skip');
+    });
+
+    it('should pass the conflict policy and report it per file', async () => {
+      const files = [
+        { file: '/inbox/a.flac', destination: '/library/a (1).flac', action: 'renamed', policy: 'rename' },
+      ];
+      vi.mocked(OrganizerService.organize).mockResolvedValue({
+        operationId: 'op-1',
+        summary: { ...emptySummary, renamed: 1 },
+        files,
+      } as never);
+
+      const response = await request(app)
+        .post('/api/organize')
+        .send({ results: [], libraryPath: '/library', policy: 'rename' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.files).toEqual(files);
+      expect(OrganizerService.organize).toHaveBeenCalledWith([], '/library', 'rename');
+    });
+
+    it('should mention failed files in the message', async () => {
+      vi.mocked(OrganizerService.organize).mockResolvedValue({
+        operationId: 'op-1',
+        summary: { ...emptySummary, moved: 1, failed: 2 },
+        files: [],
+      });
+
+      const response = await request(app)
+        .post('/api/organize')
+        .send({ results: [], libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Organization completed with 2 failed file(s)');
+      expect(response.body.summary.failed).toBe(2);
+    });
+
+    it('should return 400 for an unknown conflict policy', async () => {
+      const response = await request(app)
+        .post('/api/organize')
+        .send({ results: [], libraryPath: '/library', policy: 'overwrite-all' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid conflict policy');
+      expect(OrganizerService.organize).not.toHaveBeenCalled();
     });
 
     it('should return 500 on error', async () => {
@@ -268,17 +387,29 @@ describe('API Routes', () => {
 
     it('should list playlists successfully', async () => {
       const mockPlaylists = [
-        { name: 'Favorites', count: 10, path: '/playlists/Favorites.m3u8' },
+        {
+          name: 'Favorites',
+          count: 10,
+          path: '/playlists/Favorites.m3u8',
+          createdAt: 1000,
+          updatedAt: 2000,
+          customCover: false,
+        },
       ];
 
+      const mockTree = { name: '', relPath: '', folders: [], playlists: mockPlaylists };
+
       vi.mocked(OrganizerService.listPlaylists).mockResolvedValue(mockPlaylists);
+      vi.mocked(OrganizerService.getPlaylistTree).mockResolvedValue(mockTree);
 
       const response = await request(app)
         .get('/api/playlists')
         .query({ libraryPath: '/library' });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ playlists: mockPlaylists });
+      expect(response.body).toEqual({ playlists: mockPlaylists, tree: mockTree });
+      expect(OrganizerService.getPlaylistTree).toHaveBeenCalledWith('/library', mockPlaylists);
+      expect(OrganizerService.listPlaylists).toHaveBeenCalledTimes(1);
     });
 
     it('should return 500 on error', async () => {
@@ -315,14 +446,17 @@ describe('API Routes', () => {
         },
       ];
 
+      const metadata = { description: 'Weekend', createdAt: 1000, updatedAt: 2000, customCover: false };
+
       vi.mocked(OrganizerService.getPlaylistDetails).mockResolvedValue(mockTracks);
+      vi.mocked(PlaylistMetadataService.get).mockResolvedValue(metadata);
 
       const response = await request(app)
         .get('/api/playlists/Favorites')
         .query({ libraryPath: '/library' });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ tracks: mockTracks });
+      expect(response.body).toEqual({ tracks: mockTracks, metadata });
     });
 
     it('should return 404 on error', async () => {
@@ -346,7 +480,7 @@ describe('API Routes', () => {
         .send({ trackPath: '/track.mp3' });
 
       expect(response.status).toBe(400);
-      expect(response.body).toEqual({ error: 'libraryPath, name and trackPath required' });
+      expect(response.body).toEqual({ error: 'libraryPath, name and trackId or trackPath required' });
     });
 
     it('should return 400 if trackPath is missing', async () => {
@@ -355,7 +489,39 @@ describe('API Routes', () => {
         .send({ libraryPath: '/library' });
 
       expect(response.status).toBe(400);
-      expect(response.body).toEqual({ error: 'libraryPath, name and trackPath required' });
+      expect(response.body).toEqual({ error: 'libraryPath, name and trackId or trackPath required' });
+    });
+
+    it('should look up the track path from a track id', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        { id: 'abc123', absPath: '/library/Artist/Album/Song.mp3' },
+      ] as never);
+      vi.mocked(OrganizerService.removeFromPlaylist).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .delete('/api/playlists/Favorites/tracks')
+        .send({ libraryPath: '/library', trackId: 'abc123' });
+
+      expect(response.status).toBe(200);
+      expect(OrganizerService.removeFromPlaylist).toHaveBeenCalledWith(
+        'Favorites',
+        '/library/Artist/Album/Song.mp3',
+        '/library'
+      );
+    });
+
+    it('should return 404 for an unknown track id', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([] as never);
+
+      const response = await request(app)
+        .delete('/api/playlists/Favorites/tracks')
+        .send({ libraryPath: '/library', trackId: 'missing' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Track missing not found' });
+      expect(OrganizerService.removeFromPlaylist).not.toHaveBeenCalled();
     });
 
     it('should remove track from playlist successfully', async () => {
@@ -397,14 +563,14 @@ describe('API Routes', () => {
     });
 
     it('should delete playlist successfully', async () => {
-      vi.mocked(OrganizerService.deletePlaylist).mockResolvedValue(undefined);
+      vi.mocked(OrganizerService.deletePlaylist).mockResolvedValue('op-1');
 
       const response = await request(app)
         .delete('/api/playlists/Favorites')
         .query({ libraryPath: '/library' });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ success: true });
+      expect(response.body).toEqual({ success: true, operationId: 'op-1' });
       expect(OrganizerService.deletePlaylist).toHaveBeenCalledWith('Favorites', '/library');
     });
 
@@ -420,6 +586,253 @@ describe('API Routes', () => {
     });
   });
 
+  describe('POST /api/playlists/:name/reorder', () => {
+    it('should move an entry and return the new track order', async () => {
+      vi.mocked(OrganizerService.reorderPlaylist).mockResolvedValue(undefined);
+      vi.mocked(OrganizerService.getPlaylistDetails).mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/playlists/Set/reorder')
+        .send({ libraryPath: '/library', from: 2, to: 0 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, tracks: [] });
+      expect(OrganizerService.reorderPlaylist).toHaveBeenCalledWith('Set', { from: 2, to: 0 }, '/library');
+    });
+
+    it('should accept a full order', async () => {
+      vi.mocked(OrganizerService.reorderPlaylist).mockResolvedValue(undefined);
+      vi.mocked(OrganizerService.getPlaylistDetails).mockResolvedValue([]);
+
+      await request(app)
+        .post('/api/playlists/Set/reorder')
+        .send({ libraryPath: '/library', order: [1, 0] });
+
+      expect(OrganizerService.reorderPlaylist).toHaveBeenCalledWith('Set', { order: [1, 0] }, '/library');
+    });
+
+    it('should return 400 for an invalid order', async () => {
+      vi.mocked(OrganizerService.reorderPlaylist).mockRejectedValue(new Error('Invalid playlist order'));
+
+      const response = await request(app)
+        .post('/api/playlists/Set/reorder')
+        .send({ libraryPath: '/library', from: 0, to: 9 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 without from/to or order', async () => {
+      const response = await request(app)
+        .post('/api/playlists/Set/reorder')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(400);
+      expect(OrganizerService.reorderPlaylist).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/playlists/:name', () => {
+    it('should rename a playlist', async () => {
+      vi.mocked(OrganizerService.renamePlaylist).mockResolvedValue({ name: 'Road Trips/Summer', operationId: 'op-2' });
+
+      const response = await request(app)
+        .patch('/api/playlists/Favorites')
+        .send({ libraryPath: '/library', newName: ' Road Trips / Summer ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, name: 'Road Trips/Summer', operationId: 'op-2' });
+      expect(OrganizerService.renamePlaylist).toHaveBeenCalledWith('Favorites', ' Road Trips / Summer ', '/library');
+    });
+
+    it('should return 400 if newName is missing', async () => {
+      const response = await request(app)
+        .patch('/api/playlists/Favorites')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(400);
+      expect(OrganizerService.renamePlaylist).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the new name is taken', async () => {
+      vi.mocked(OrganizerService.renamePlaylist).mockRejectedValue(new Error('Playlist Workout already exists'));
+
+      const response = await request(app)
+        .patch('/api/playlists/Favorites')
+        .send({ libraryPath: '/library', newName: 'Workout' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 400 for system playlist names', async () => {
+      vi.mocked(OrganizerService.renamePlaylist).mockRejectedValue(
+        new Error('Genre_Rock is a system playlist name and cannot be used in a rename'),
+      );
+
+      const response = await request(app)
+        .patch('/api/playlists/Favorites')
+        .send({ libraryPath: '/library', newName: 'Genre_Rock' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Playlist folders', () => {
+    const mockTree = {
+      name: '',
+      relPath: '',
+      folders: [{ name: 'Road Trips', relPath: 'Road Trips', folders: [], playlists: [] }],
+      playlists: [],
+    };
+
+    beforeEach(() => {
+      vi.mocked(OrganizerService.getPlaylistTree).mockResolvedValue(mockTree);
+    });
+
+    it('should move a playlist and return the updated tree', async () => {
+      vi.mocked(OrganizerService.movePlaylist).mockResolvedValue('op-3');
+
+      const response = await request(app)
+        .post(`/api/playlists/${encodeURIComponent('Road Trips/Summer')}/move`)
+        .send({ libraryPath: '/library', folder: '' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, operationId: 'op-3', tree: mockTree });
+      expect(OrganizerService.movePlaylist).toHaveBeenCalledWith('Road Trips/Summer', '', '/library');
+    });
+
+    it('should return 404 when the target folder does not exist', async () => {
+      vi.mocked(OrganizerService.movePlaylist).mockRejectedValue(new Error('Playlist folder Missing not found'));
+
+      const response = await request(app)
+        .post('/api/playlists/Favorites/move')
+        .send({ libraryPath: '/library', folder: 'Missing' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should create a folder', async () => {
+      vi.mocked(OrganizerService.createPlaylistFolder).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/api/playlist-folders')
+        .send({ libraryPath: '/library', path: 'Road Trips' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, tree: mockTree });
+      expect(OrganizerService.createPlaylistFolder).toHaveBeenCalledWith('Road Trips', '/library');
+    });
+
+    it('should return 400 for an invalid folder and 409 for a folder that exists', async () => {
+      vi.mocked(OrganizerService.createPlaylistFolder)
+        .mockRejectedValueOnce(new Error('Invalid playlist folder: "a:b"'))
+        .mockRejectedValueOnce(new Error('Playlist folder Road Trips already exists'));
+
+      const invalid = await request(app)
+        .post('/api/playlist-folders')
+        .send({ libraryPath: '/library', path: 'a:b' });
+      const taken = await request(app)
+        .post('/api/playlist-folders')
+        .send({ libraryPath: '/library', path: 'Road Trips' });
+
+      expect(invalid.status).toBe(400);
+      expect(taken.status).toBe(409);
+    });
+
+    it('should return 409 when deleting a folder that is not empty', async () => {
+      vi.mocked(OrganizerService.deletePlaylistFolder).mockRejectedValue(
+        new Error('Playlist folder Road Trips is not empty'),
+      );
+
+      const response = await request(app)
+        .delete('/api/playlist-folders')
+        .query({ libraryPath: '/library', path: 'Road Trips' });
+
+      expect(response.status).toBe(409);
+      expect(OrganizerService.deletePlaylistFolder).toHaveBeenCalledWith('Road Trips', '/library');
+    });
+  });
+
+  describe('Playlist descriptions and covers', () => {
+    const metadata = { description: 'Weekend', createdAt: 1000, updatedAt: 2000, customCover: true };
+
+    it('should send the cover image', async () => {
+      vi.mocked(PlaylistMetadataService.getCover).mockResolvedValue({
+        data: Buffer.from('jpeg'),
+        mimeType: 'image/jpeg',
+      });
+
+      const response = await request(app)
+        .get('/api/playlists/Road%20Trips%2FSummer/cover')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/jpeg');
+      expect(response.body).toEqual(Buffer.from('jpeg'));
+      expect(PlaylistMetadataService.getCover).toHaveBeenCalledWith('/library', 'Road Trips/Summer');
+    });
+
+    it('should return 404 when a playlist has no cover', async () => {
+      vi.mocked(PlaylistMetadataService.getCover).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/playlists/Empty/cover')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'No playlist cover found' });
+    });
+
+    it('should update the description', async () => {
+      vi.mocked(PlaylistMetadataService.update).mockResolvedValue(metadata);
+
+      const response = await request(app)
+        .patch('/api/playlists/Favorites/metadata')
+        .send({ libraryPath: '/library', description: 'Weekend' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, metadata });
+      expect(PlaylistMetadataService.update).toHaveBeenCalledWith('/library', 'Favorites', { description: 'Weekend' });
+    });
+
+    it('should set and remove the cover', async () => {
+      vi.mocked(PlaylistMetadataService.get).mockResolvedValue(metadata);
+      const image = 'data:image/png;base64,cG5n';
+
+      const set = await request(app)
+        .put('/api/playlists/Favorites/cover')
+        .send({ libraryPath: '/library', image });
+      const removed = await request(app)
+        .delete('/api/playlists/Favorites/cover')
+        .query({ libraryPath: '/library' });
+
+      expect(set.status).toBe(200);
+      expect(set.body).toEqual({ success: true, metadata });
+      expect(PlaylistMetadataService.setCover).toHaveBeenCalledWith('/library', 'Favorites', image);
+      expect(removed.status).toBe(200);
+      expect(PlaylistMetadataService.removeCover).toHaveBeenCalledWith('/library', 'Favorites');
+    });
+
+    it('should map errors to 400 and 404', async () => {
+      vi.mocked(PlaylistMetadataService.update)
+        .mockRejectedValueOnce(new Error('Playlist Genre_Rock is generated from the library and its details cannot be edited'))
+        .mockRejectedValueOnce(new Error('Playlist Missing not found'));
+      vi.mocked(PlaylistMetadataService.setCover)
+        .mockRejectedValueOnce(new Error('Invalid playlist cover: use a JPEG, PNG or WebP image'));
+
+      const system = await request(app)
+        .patch('/api/playlists/Genre_Rock/metadata')
+        .send({ libraryPath: '/library', description: 'Rock' });
+      const missing = await request(app)
+        .patch('/api/playlists/Missing/metadata')
+        .send({ libraryPath: '/library', description: 'Gone' });
+      const invalid = await request(app)
+        .put('/api/playlists/Favorites/cover')
+        .send({ libraryPath: '/library', image: 'not an image' });
+
+      expect([system.status, missing.status, invalid.status]).toEqual([400, 404, 400]);
+    });
+  });
+
   describe('POST /api/playlists/:name/export', () => {
     it('should return 400 if required fields are missing', async () => {
       const response = await request(app)
@@ -449,6 +862,61 @@ describe('API Routes', () => {
       expect(response.body).toEqual({ success: true, SuccessCount: 5, FailCount: 0 });
     });
 
+    it('should pass the playlist format on', async () => {
+      vi.mocked(OrganizerService.exportPlaylist).mockResolvedValue({
+        SuccessCount: 1,
+        FailCount: 0,
+        playlistFile: '/export/Favorites.xspf',
+      });
+
+      const response = await request(app)
+        .post('/api/playlists/Favorites/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', format: 'xspf' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.playlistFile).toBe('/export/Favorites.xspf');
+      expect(OrganizerService.exportPlaylist).toHaveBeenCalledWith(
+        'Favorites', '/export', 'copy', undefined, '/library', 'xspf', undefined,
+      );
+    });
+
+    it('should pass the export profile on', async () => {
+      vi.mocked(OrganizerService.exportPlaylist).mockResolvedValue({ SuccessCount: 1, FailCount: 0 });
+
+      const response = await request(app)
+        .post('/api/playlists/Favorites/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', profile: 'opus-160' });
+
+      expect(response.status).toBe(200);
+      expect(OrganizerService.exportPlaylist).toHaveBeenCalledWith(
+        'Favorites', '/export', 'copy', undefined, '/library', undefined, 'opus-160',
+      );
+    });
+
+    it('should reject an unknown profile and transcoded moves', async () => {
+      const unknown = await request(app)
+        .post('/api/playlists/Favorites/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', profile: 'wma-64' });
+      const move = await request(app)
+        .post('/api/playlists/Favorites/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'move', profile: 'mp3-v0' });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body).toEqual({ error: 'Unsupported export profile: wma-64' });
+      expect(move.status).toBe(400);
+      expect(move.body).toEqual({ error: 'Transcoded exports can only copy; the originals stay in the library' });
+      expect(OrganizerService.exportPlaylist).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown playlist format', async () => {
+      const response = await request(app)
+        .post('/api/playlists/Favorites/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', format: 'wpl' });
+
+      expect(response.status).toBe(400);
+      expect(OrganizerService.exportPlaylist).not.toHaveBeenCalled();
+    });
+
     it('should return 500 on error', async () => {
       vi.mocked(OrganizerService.exportPlaylist).mockRejectedValue(new Error('Export failed'));
 
@@ -537,6 +1005,7 @@ describe('API Routes', () => {
     });
 
     it('should save configuration successfully', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
       vi.mocked(fs.writeJson).mockResolvedValue(undefined);
 
       const response = await request(app)
@@ -548,48 +1017,261 @@ describe('API Routes', () => {
       expect(fs.writeJson).toHaveBeenCalled();
     });
 
-    it('should return 500 on error', async () => {
-      vi.mocked(fs.writeJson).mockRejectedValue(new Error('Write failed'));
+    it('should keep the stored naming template when saving paths', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({
+        inboxPath: '/old-inbox',
+        libraryPath: '/old-library',
+        namingTemplate: '{artist}/{title}',
+      } as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined);
 
       const response = await request(app)
         .post('/api/config')
         .send({ inboxPath: '/inbox', libraryPath: '/library' });
 
-      expect(response.status).toBe(500);
-      expect(response.body).toEqual({ error: 'Write failed' });
+      expect(response.status).toBe(200);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining('config.json'),
+        expect.objectContaining({
+          inboxPath: '/inbox',
+          libraryPath: '/library',
+          namingTemplate: '{artist}/{title}',
+        }),
+        { spaces: 2 },
+      );
     });
-  });
 
-  describe('GET /api/config', () => {
-    it('should return null if config does not exist', async () => {
+    it('should save the scan concurrency', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined);
 
-      const response = await request(app).get('/api/config');
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library', concurrency: 16 });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ config: null });
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining('config.json'),
+        expect.objectContaining({ concurrency: 16 }),
+        { spaces: 2 },
+      );
     });
 
-    it('should return config successfully', async () => {
-      const mockConfig = {
-        inboxPath: '/inbox',
-        libraryPath: '/library',
-        updatedAt: '2024-01-01T00:00:00.000Z',
-      };
+    it('should return 400 if concurrency is out of range', async () => {
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library', concurrency: 0 });
 
-      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
-      vi.mocked(fs.readJson).mockResolvedValue(mockConfig);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('concurrency must be an integer between 1 and 64');
+      expect(fs.writeJson).not.toHaveBeenCalled();
+    });
 
-      const response = await request(app).get('/api/config');
+    it('should save watch settings and restart the inbox watcher', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined);
+      const watchRules = [{ folder: 'Bandcamp*', action: 'organize', policy: 'rename' }];
+
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library', watchInbox: true, watchRules });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ config: mockConfig });
+      expect(InboxWatcherService.syncWithConfig).toHaveBeenCalledWith(
+        expect.objectContaining({ inboxPath: '/inbox', watchInbox: true, watchRules }),
+      );
+      expect(LibraryWatcherService.syncWithConfig).toHaveBeenCalled();
     });
 
-    it('should return 500 on error', async () => {
-      vi.mocked(fs.pathExists).mockRejectedValue(new Error('Read failed'));
-
-      const response = await request(app).get('/api/config');
+    it('should return 400 if watch rules are invalid', async () => {
+      const response = await request(app)
+        .post('/api/config')
+        .send({
+          inboxPath: '/inbox',
+          libraryPath: '/library',
+          watchRules: [{ folder: '', action: 'delete' }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid watch rules');
+      expect(response.body.details).toEqual([
+        'Rule 1: folder is required',
+        'Rule 1: action must be one of review, organize',
+      ]);
+      expect(fs.writeJson).not.toHaveBeenCalled();
+    });
+
+    it('should save auto playlist settings and regenerate the playlists', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      const regenerate = vi.spyOn(AutoPlaylistService, 'regenerate').mockResolvedValue(undefined);
+      const autoPlaylists = { families: ['genre', 'decade'], excludedGenres: ['Otros'], recentDays: 14 };
+
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library', autoPlaylists });
+
+      expect(response.status).toBe(200);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining('config.json'),
+        expect.objectContaining({ autoPlaylists }),
+        { spaces: 2 },
+      );
+      expect(regenerate).toHaveBeenCalledWith('/library');
+      regenerate.mockRestore();
+    });
+
+    it('should return 400 if auto playlist settings are invalid', async () => {
+      const response = await request(app)
+        .post('/api/config')
+        .send({
+          inboxPath: '/inbox',
+          libraryPath: '/library',
+          autoPlaylists: { families: ['mood'], recentDays: 0 },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        'families must be a list of genre, artist, decade, format, recent',
+        'recentDays must be an integer between 1 and 365',
+      ]);
+      expect(fs.writeJson).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if naming template is invalid', async () => {
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library', namingTemplate: '{unknown}/{title}' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid naming template');
+      expect(fs.writeJson).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 on error', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.writeJson).mockRejectedValue(new Error('Write failed'));
+
+      const response = await request(app)
+        .post('/api/config')
+        .send({ inboxPath: '/inbox', libraryPath: '/library' });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Write failed' });
+    });
+  });
+
+  describe('GET /api/naming', () => {
+    it('should return the default template when none is stored', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      const response = await request(app).get('/api/naming');
+
+      expect(response.status).toBe(200);
+      expect(response.body.template).toBe('{albumartist}/[({year}) ]{album}/[{disc}-]{track} - {title}');
+      expect(response.body.defaultTemplate).toBe(response.body.template);
+      expect(response.body.variousArtists).toBe('Various Artists');
+      expect(response.body.fields).toContain('title');
+    });
+
+    it('should return the stored template', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({
+        inboxPath: '/inbox',
+        libraryPath: '/library',
+        namingTemplate: '{artist}/{title}',
+      } as never);
+
+      const response = await request(app).get('/api/naming');
+
+      expect(response.status).toBe(200);
+      expect(response.body.template).toBe('{artist}/{title}');
+    });
+  });
+
+  describe('POST /api/naming/preview', () => {
+    it('should return 400 if template is missing', async () => {
+      const response = await request(app)
+        .post('/api/naming/preview')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'template is required' });
+    });
+
+    it('should preview the template against library tracks', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([
+        {
+          title: 'Song',
+          artist: 'Artist',
+          album: 'Album',
+          year: 2020,
+          trackNo: '03',
+          genre: ['Rock'],
+          format: '.flac',
+          absPath: '/library/Artist/(2020) Album/03 - Song.flac',
+          relPath: 'Artist/(2020) Album/03 - Song.flac',
+          playlists: [],
+        },
+      ] as never);
+
+      const response = await request(app)
+        .post('/api/naming/preview')
+        .send({ template: '{artist}/{year} - {album}/{track} {title}', libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toEqual([]);
+      expect(response.body.previews).toEqual([
+        {
+          source: 'Artist/(2020) Album/03 - Song.flac',
+          proposedPath: 'Artist/2020 - Album/03 Song.flac',
+        },
+      ]);
+    });
+
+    it('should return validation errors for invalid templates', async () => {
+      const response = await request(app)
+        .post('/api/naming/preview')
+        .send({ template: '{artist' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors.length).toBeGreaterThan(0);
+      expect(response.body.previews).toEqual([]);
+    });
+  });
+
+  describe('GET /api/config', () => {
+    it('should return null if config does not exist', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      const response = await request(app).get('/api/config');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ config: null });
+    });
+
+    it('should return config successfully', async () => {
+      const mockConfig = {
+        inboxPath: '/inbox',
+        libraryPath: '/library',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      };
+
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue(mockConfig);
+
+      const response = await request(app).get('/api/config');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ config: mockConfig });
+    });
+
+    it('should return 500 on error', async () => {
+      vi.mocked(fs.pathExists).mockRejectedValue(new Error('Read failed'));
+
+      const response = await request(app).get('/api/config');
 
       expect(response.status).toBe(500);
       expect(response.body).toEqual({ error: 'Read failed' });
@@ -751,6 +1433,21 @@ describe('API Routes', () => {
       expect(response.body).toEqual({ success: true, SuccessCount: 100, FailCount: 0 });
     });
 
+    it('should transcode the copies with an export profile', async () => {
+      vi.mocked(OrganizerService.exportLibrary).mockResolvedValue({ SuccessCount: 100, FailCount: 0 });
+
+      const response = await request(app)
+        .post('/api/library/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', profile: 'flac-16-44' });
+      const rejected = await request(app)
+        .post('/api/library/export')
+        .send({ libraryPath: '/library', destination: '/export', mode: 'copy', profile: 'flac-24-96' });
+
+      expect(response.status).toBe(200);
+      expect(OrganizerService.exportLibrary).toHaveBeenCalledWith('/export', 'copy', undefined, '/library', 'flac-16-44');
+      expect(rejected.status).toBe(400);
+    });
+
     it('should return 500 on error', async () => {
       vi.mocked(OrganizerService.exportLibrary).mockRejectedValue(new Error('Export failed'));
 
@@ -832,6 +1529,11 @@ describe('API Routes', () => {
   });
 
   describe("POST /api/library/regenerate", () => {
+    beforeEach(() => {
+      // No config.json: default concurrency
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+    });
+
     it("should return 400 if libraryPath is missing", async () => {
       const response = await request(app)
         .post("/api/library/regenerate")
@@ -846,6 +1548,10 @@ describe('API Routes', () => {
         totalFiles: 10,
         successCount: 10,
         failCount: 0,
+        reusedCount: 7,
+        parsedCount: 3,
+        removedCount: 1,
+        mode: "incremental" as const,
       };
 
       vi.mocked(OrganizerService.regenerateDatabase).mockResolvedValue(
@@ -863,9 +1569,37 @@ describe('API Routes', () => {
         totalFiles: 10,
         successCount: 10,
         failCount: 0,
+        reusedCount: 7,
+        parsedCount: 3,
+        removedCount: 1,
+        mode: "incremental",
+      });
+      expect(OrganizerService.regenerateDatabase).toHaveBeenCalledWith(
+        "/library",
+        expect.objectContaining({ force: false }),
+      );
+    });
+
+    it("should pass force through for a full rebuild", async () => {
+      vi.mocked(OrganizerService.regenerateDatabase).mockResolvedValue({
+        totalFiles: 10,
+        successCount: 10,
+        failCount: 0,
+        reusedCount: 0,
+        parsedCount: 10,
+        removedCount: 0,
+        mode: "full",
       });
+
+      const response = await request(app)
+        .post("/api/library/regenerate")
+        .send({ libraryPath: "/library", force: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.mode).toBe("full");
       expect(OrganizerService.regenerateDatabase).toHaveBeenCalledWith(
         "/library",
+        expect.objectContaining({ force: true }),
       );
     });
 
@@ -874,6 +1608,10 @@ describe('API Routes', () => {
         totalFiles: 10,
         successCount: 8,
         failCount: 2,
+        reusedCount: 0,
+        parsedCount: 10,
+        removedCount: 0,
+        mode: "incremental" as const,
       };
 
       vi.mocked(OrganizerService.regenerateDatabase).mockResolvedValue(
@@ -891,6 +1629,10 @@ describe('API Routes', () => {
         totalFiles: 10,
         successCount: 8,
         failCount: 2,
+        reusedCount: 0,
+        parsedCount: 10,
+        removedCount: 0,
+        mode: "incremental",
       });
     });
 
@@ -946,4 +1688,353 @@ describe('API Routes', () => {
       expect(response.body).toEqual({ error: "Sync failed" });
     });
   });
+
+  describe('GET /api/operations', () => {
+    it('should return 400 if libraryPath is missing', async () => {
+      const response = await request(app).get('/api/operations');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should list journaled operations', async () => {
+      const operations = [{ id: 'op-1', type: 'organize', status: 'completed' }];
+      vi.mocked(JournalService.list).mockResolvedValue(operations as JournalEntry[]);
+
+      const response = await request(app).get('/api/operations').query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ operations });
+      expect(JournalService.list).toHaveBeenCalledWith('/library');
+    });
+  });
+
+  describe('POST /api/operations/:id/undo', () => {
+    it('should return 400 for invalid operation ids', async () => {
+      const response = await request(app)
+        .post('/api/operations/..%2F..%2Fetc/undo')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(400);
+      expect(JournalService.undo).not.toHaveBeenCalled();
+    });
+
+    it('should undo the operation', async () => {
+      const operation = { id: 'op-1', type: 'organize', status: 'undone' } as JournalEntry;
+      vi.mocked(JournalService.undo).mockResolvedValue({ operation, restoredFiles: 3, failures: [] });
+
+      const response = await request(app)
+        .post('/api/operations/op-1/undo')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, operation, restoredFiles: 3, failures: [] });
+      expect(JournalService.undo).toHaveBeenCalledWith('/library', 'op-1');
+    });
+
+    it('should return 404 for unknown operations', async () => {
+      vi.mocked(JournalService.undo).mockRejectedValue(new Error('Operation op-9 not found'));
+
+      const response = await request(app)
+        .post('/api/operations/op-9/undo')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Operation op-9 not found' });
+    });
+
+    it('should return 409 while newer operations are in effect', async () => {
+      vi.mocked(JournalService.undo).mockRejectedValue(
+        new Error('Operation op-1 cannot be undone while newer operations on the library are still in effect; undo those first'),
+      );
+
+      const response = await request(app)
+        .post('/api/operations/op-1/undo')
+        .send({ libraryPath: '/library' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('GET /api/watch', () => {
+    it('should return the watcher status and queue', async () => {
+      const status = {
+        running: true,
+        inboxPath: '/inbox',
+        lastPollAt: '2024-01-01T00:00:00.000Z',
+        queue: [],
+      };
+      const library = {
+        running: true,
+        libraryPath: '/library',
+        lastPollAt: null,
+        lastChanges: null,
+      };
+      vi.mocked(InboxWatcherService.getStatus).mockReturnValue(status);
+      vi.mocked(LibraryWatcherService.getStatus).mockReturnValue(library);
+
+      const response = await request(app).get('/api/watch');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...status, library });
+    });
+  });
+
+  describe('DELETE /api/watch/queue/:id', () => {
+    it('should dismiss a queued folder', async () => {
+      vi.mocked(InboxWatcherService.dismiss).mockReturnValue(true);
+
+      const response = await request(app).delete('/api/watch/queue/item-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true });
+      expect(InboxWatcherService.dismiss).toHaveBeenCalledWith('item-1');
+    });
+
+    it('should return 404 for an unknown queue item', async () => {
+      vi.mocked(InboxWatcherService.dismiss).mockReturnValue(false);
+
+      const response = await request(app).delete('/api/watch/queue/missing');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Queue item missing not found' });
+    });
+  });
+
+  describe('Track ID routes', () => {
+    const track = {
+      id: 'abc123',
+      title: 'Song',
+      absPath: '/library/Artist/Album/Song.flac',
+      playlists: [],
+    };
+
+    beforeEach(() => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue([track] as never);
+    });
+
+    it('should return the metadata of a track by id', async () => {
+      const mockMetadata = { common: { title: 'Song' }, format: {} };
+      vi.mocked(OrganizerService.getTrackMetadata).mockResolvedValue(mockMetadata as never);
+
+      const response = await request(app)
+        .get('/api/tracks/abc123/metadata')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ track, metadata: mockMetadata });
+      expect(OrganizerService.getTrackMetadata).toHaveBeenCalledWith(track.absPath);
+    });
+
+    it('should return 404 for an unknown track id', async () => {
+      const response = await request(app)
+        .get('/api/tracks/missing')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Track missing not found' });
+    });
+
+    it('should return the playlists of a track by id', async () => {
+      vi.mocked(OrganizerService.getPlaylistsForTrack).mockResolvedValue(['Favorites']);
+
+      const response = await request(app)
+        .get('/api/tracks/abc123/playlists')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ playlists: ['Favorites'] });
+      expect(OrganizerService.getPlaylistsForTrack).toHaveBeenCalledWith(track.absPath, '/library');
+    });
+  });
+
+  describe('Library health routes', () => {
+    const report: HealthReport = {
+      libraryPath: '/library',
+      checkedAt: '2024-01-01T00:00:00.000Z',
+      trackCount: 1,
+      missingFiles: [],
+      untrackedFiles: ['/library/New/01.flac'],
+      brokenPlaylistEntries: [],
+      placeholderMetadata: [],
+      unreadableFiles: [],
+    };
+
+    it('should return the health report of a library', async () => {
+      vi.mocked(LibraryHealthService.check).mockResolvedValue(report);
+
+      const response = await request(app)
+        .get('/api/library/health')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(report);
+      expect(LibraryHealthService.check).toHaveBeenCalledWith('/library', expect.any(Object));
+    });
+
+    it('should require libraryPath', async () => {
+      const response = await request(app).get('/api/library/health');
+
+      expect(response.status).toBe(400);
+      expect(LibraryHealthService.check).not.toHaveBeenCalled();
+    });
+
+    it('should apply a fix and return the new report', async () => {
+      vi.mocked(LibraryHealthService.fix).mockResolvedValue({ ...report, untrackedFiles: [] });
+
+      const response = await request(app)
+        .post('/api/library/health/fix')
+        .send({ libraryPath: '/library', fix: 'add-untracked' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.untrackedFiles).toEqual([]);
+      expect(LibraryHealthService.fix).toHaveBeenCalledWith('/library', 'add-untracked', expect.any(Object));
+    });
+
+    it('should reject an unknown fix', async () => {
+      const response = await request(app)
+        .post('/api/library/health/fix')
+        .send({ libraryPath: '/library', fix: 'delete-everything' });
+
+      expect(response.status).toBe(400);
+      expect(LibraryHealthService.fix).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Playlist relink routes', () => {
+    it('should return 404 when looking for replacements in an unknown playlist', async () => {
+      const response = await request(app)
+        .get('/api/playlists/Favorites/relink')
+        .query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Playlist Favorites not found' });
+    });
+
+    it('should relink the confirmed entries', async () => {
+      vi.mocked(OrganizerService.relinkPlaylistEntries).mockResolvedValue(1);
+      const relinks = [{ entry: '../Artist/Album/01.mp3', trackPath: '/library/Artist/Album/01.flac' }];
+
+      const response = await request(app)
+        .post('/api/playlists/Favorites/relink')
+        .send({ libraryPath: '/library', relinks });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, relinked: 1 });
+      expect(OrganizerService.relinkPlaylistEntries).toHaveBeenCalledWith('Favorites', relinks, '/library');
+    });
+
+    it('should reject malformed relinks', async () => {
+      const response = await request(app)
+        .post('/api/playlists/Favorites/relink')
+        .send({ libraryPath: '/library', relinks: [{ entry: '../01.mp3' }] });
+
+      expect(response.status).toBe(400);
+      expect(OrganizerService.relinkPlaylistEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/playlists/import', () => {
+    it('should import a playlist file', async () => {
+      vi.mocked(PlaylistImportService.importPlaylist).mockResolvedValue({
+        name: 'Road Trip',
+        matched: 2,
+        unmatched: [{ location: '/elsewhere/Song.mp3' }],
+      });
+
+      const response = await request(app)
+        .post('/api/playlists/import')
+        .send({ libraryPath: '/library', fileName: 'Road Trip.pls', content: '[playlist]' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        name: 'Road Trip',
+        matched: 2,
+        unmatched: [{ location: '/elsewhere/Song.mp3' }],
+      });
+      expect(PlaylistImportService.importPlaylist).toHaveBeenCalledWith('/library', {
+        fileName: 'Road Trip.pls',
+        content: '[playlist]',
+        name: undefined,
+      });
+    });
+
+    it('should return 409 when the playlist already exists', async () => {
+      vi.mocked(PlaylistImportService.importPlaylist).mockRejectedValue(
+        new Error('Playlist Road Trip already exists'),
+      );
+
+      const response = await request(app)
+        .post('/api/playlists/import')
+        .send({ libraryPath: '/library', fileName: 'Road Trip.xspf', content: '<playlist/>' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 400 for an unsupported file', async () => {
+      vi.mocked(PlaylistImportService.importPlaylist).mockRejectedValue(
+        new Error('Unsupported playlist format: .wpl'),
+      );
+
+      const response = await request(app)
+        .post('/api/playlists/import')
+        .send({ libraryPath: '/library', fileName: 'List.wpl', content: '' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Smart playlists', () => {
+    const playlist = {
+      name: '70s Rock',
+      match: 'all' as const,
+      rules: [{ field: 'year' as const, min: 1970, max: 1979 }],
+    };
+
+    it('should list rule sets', async () => {
+      vi.mocked(SmartPlaylistService.list).mockResolvedValue([playlist]);
+
+      const response = await request(app).get('/api/smart-playlists').query({ libraryPath: '/library' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ playlists: [playlist] });
+    });
+
+    it('should create a rule set', async () => {
+      vi.mocked(SmartPlaylistService.save).mockResolvedValue(playlist);
+
+      const response = await request(app)
+        .post('/api/smart-playlists')
+        .send({ libraryPath: '/library', playlist });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, playlist });
+      expect(SmartPlaylistService.save).toHaveBeenCalledWith('/library', playlist);
+    });
+
+    it('should update a rule set by name', async () => {
+      vi.mocked(SmartPlaylistService.save).mockResolvedValue(playlist);
+
+      const response = await request(app)
+        .put('/api/smart-playlists/Old%20Name')
+        .send({ libraryPath: '/library', playlist });
+
+      expect(response.status).toBe(200);
+      expect(SmartPlaylistService.save).toHaveBeenCalledWith('/library', playlist, 'Old Name');
+    });
+
+    it('should map errors to 400, 404 and 409', async () => {
+      vi.mocked(SmartPlaylistService.save)
+        .mockRejectedValueOnce(new Error('Invalid smart playlist: at least one rule is required'))
+        .mockRejectedValueOnce(new Error('Smart playlist Old Name not found'))
+        .mockRejectedValueOnce(new Error('Playlist 70s Rock already exists'));
+
+      const invalid = await request(app).post('/api/smart-playlists').send({ libraryPath: '/library', playlist });
+      const missing = await request(app).put('/api/smart-playlists/Old%20Name').send({ libraryPath: '/library', playlist });
+      const duplicate = await request(app).post('/api/smart-playlists').send({ libraryPath: '/library', playlist });
+
+      expect([invalid.status, missing.status, duplicate.status]).toEqual([400, 404, 409]);
+    });
+  });
 });
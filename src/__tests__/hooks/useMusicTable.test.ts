@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
-import { useMusicTable, type ScanResult } from '../../hooks/useMusicTable';
+import { useMusicTable, formatTrackPosition, getAlbumArtist, type ScanResult } from '../../hooks/useMusicTable';
 
 describe('useMusicTable', () => {
   const mockData: ScanResult[] = [
@@ -320,6 +320,93 @@ describe('useMusicTable', () => {
         expect(result.current.data[0].metadata.album).toBe('Party Album');
         expect(result.current.data[3].metadata.album).toBe('Album One');
       });
+
+      it('should order tracks of the same album by disc and track number', () => {
+        const boxSet: ScanResult[] = [
+          { discNo: 2, trackNo: '01', title: 'D2T1' },
+          { discNo: 1, trackNo: '10', title: 'D1T10' },
+          { discNo: 1, trackNo: '02', title: 'D1T2' },
+        ].map(({ discNo, trackNo, title }) => ({
+          file: `/box/${title}.flac`,
+          metadata: {
+            title,
+            artist: 'Box Artist',
+            album: 'Box Set',
+            trackNo,
+            discNo,
+            discTotal: 2,
+            genre: ['Rock'],
+            format: '.flac',
+            absPath: `/box/${title}.flac`,
+            playlists: [],
+          },
+          proposedPath: `/library/${title}.flac`,
+          playlists: [],
+        }));
+
+        const { result } = renderHook(() => useMusicTable(boxSet));
+
+        act(() => {
+          result.current.handleSort('album');
+        });
+
+        expect(result.current.data.map(d => d.metadata.title)).toEqual(['D1T2', 'D1T10', 'D2T1']);
+      });
+    });
+
+    describe('Sort by album artist', () => {
+      it('should keep albums together under their album artist', () => {
+        const tracks: ScanResult[] = [
+          { artist: 'Guest B', albumArtist: 'Main', album: 'Second', trackNo: '01' },
+          { artist: 'Main feat. Guest', albumArtist: 'Main', album: 'First', trackNo: '02' },
+          { artist: 'Another', albumArtist: undefined, album: 'Solo', trackNo: '01' },
+          { artist: 'Main', albumArtist: 'Main', album: 'First', trackNo: '01' },
+        ].map(({ artist, albumArtist, album, trackNo }, i) => ({
+          file: `/t/${i}.mp3`,
+          metadata: {
+            title: `${album}-${trackNo}`,
+            artist,
+            albumArtist,
+            album,
+            trackNo,
+            genre: ['Pop'],
+            format: '.mp3',
+            absPath: `/t/${i}.mp3`,
+            playlists: [],
+          },
+          proposedPath: `/t/${i}.mp3`,
+          playlists: [],
+        }));
+
+        const { result } = renderHook(() => useMusicTable(tracks));
+
+        act(() => {
+          result.current.handleSort('albumArtist');
+        });
+
+        expect(result.current.data.map(d => d.metadata.title)).toEqual([
+          'Solo-01',
+          'First-01',
+          'First-02',
+          'Second-01',
+        ]);
+      });
+    });
+
+    describe('Sort by position', () => {
+      it('should keep the data order and reverse it when toggled', () => {
+        const reversed = [...mockData].reverse();
+        const { result } = renderHook(() => useMusicTable(reversed, 'position'));
+
+        expect(result.current.sortField).toBe('position');
+        expect(result.current.data).toEqual(reversed);
+
+        act(() => {
+          result.current.handleSort('position');
+        });
+
+        expect(result.current.data).toEqual(mockData);
+      });
     });
 
     describe('Sort by genre', () => {
@@ -534,4 +621,34 @@ describe('useMusicTable', () => {
       expect(result.current.data[0].metadata.title).toBe('Amazing Song');
     });
   });
+
+  describe('formatTrackPosition', () => {
+    it('should return the track number for single-disc releases', () => {
+      expect(formatTrackPosition({ ...mockData[0].metadata, discNo: 1, discTotal: 1 })).toBe('01');
+      expect(formatTrackPosition(mockData[0].metadata)).toBe('01');
+    });
+
+    it('should prefix the disc number for multi-disc releases', () => {
+      expect(formatTrackPosition({ ...mockData[0].metadata, discNo: 2, discTotal: 3 })).toBe('2-01');
+    });
+  });
+
+  describe('getAlbumArtist', () => {
+    it('should prefer the album artist', () => {
+      expect(getAlbumArtist({ ...mockData[0].metadata, albumArtist: 'Band' })).toBe('Band');
+    });
+
+    it('should use Various Artists for compilations without album artist', () => {
+      expect(getAlbumArtist({ ...mockData[0].metadata, compilation: true })).toBe('Various Artists');
+    });
+
+    it('should file compilations under the configured name before the album artist', () => {
+      const compilation = { ...mockData[0].metadata, albumArtist: 'DJ Mix', compilation: true };
+      expect(getAlbumArtist(compilation, 'Compilations')).toBe('Compilations');
+    });
+
+    it('should fall back to the track artist', () => {
+      expect(getAlbumArtist(mockData[0].metadata)).toBe('Artist A');
+    });
+  });
 });
@@ -12,6 +12,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox"
 import type { ScanResult } from "@/hooks/useMusicTable" // Type import
 import { useAppConfig } from "@/hooks/useAppConfig"
+import { trackApiUrl } from "@/lib/tracks"
 import { Loader2, Plus, Disc, Music } from "lucide-react"
 
 interface AddToPlaylistDialogProps {
@@ -60,7 +61,11 @@ export function AddToPlaylistDialog({
                 `${apiUrl}/api/playlists?libraryPath=${encodeURIComponent(config.libraryPath)}`,
               ),
               fetch(
-                `${apiUrl}/api/tracks/playlists?trackPath=${encodeURIComponent(track.file)}&libraryPath=${encodeURIComponent(config.libraryPath)}`,
+                trackApiUrl(
+                  { id: track.metadata.id, path: track.file },
+                  "playlists",
+                  { libraryPath: config.libraryPath },
+                ),
               ),
             ],
           );
@@ -74,7 +79,8 @@ export function AddToPlaylistDialog({
           const trackPlaylistsData = await trackPlaylistsResponse.json();
 
           const validPlaylists = playlistsData.playlists.filter(
-            (p: any) => !p.name.startsWith("00_Master"),
+            (p: any) =>
+              !p.name.startsWith("00_Master") && !p.name.startsWith("Smart_"),
           );
           setPlaylists(validPlaylists);
 
@@ -140,6 +146,7 @@ export function AddToPlaylistDialog({
                   headers: { "Content-Type": "application/json" },
                   body: JSON.stringify({
                     libraryPath: config.libraryPath,
+                    trackId: track.metadata.id,
                     trackPath: track.file,
                   }),
                 },
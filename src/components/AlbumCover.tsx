@@ -1,12 +1,13 @@
 import { useState } from "react"
 import { Music } from "lucide-react"
+import { trackApiUrl, type TrackRef } from "@/lib/tracks"
 
 interface AlbumCoverProps {
-  trackPath: string
+  track: TrackRef
   size?: "sm" | "md" | "lg"
 }
 
-export function AlbumCover({ trackPath, size = "sm" }: AlbumCoverProps) {
+export function AlbumCover({ track, size = "sm" }: AlbumCoverProps) {
   const [hasError, setHasError] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
 
@@ -22,8 +23,7 @@ export function AlbumCover({ trackPath, size = "sm" }: AlbumCoverProps) {
     lg: "h-12 w-12"
   }
 
-  const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
-  const coverUrl = `${apiUrl}/api/tracks/cover?trackPath=${encodeURIComponent(trackPath)}`
+  const coverUrl = trackApiUrl(track, "cover")
 
   const handleError = () => {
     setHasError(true)
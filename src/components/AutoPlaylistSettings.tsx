@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react"
+import { ListMusic } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { AutoPlaylistFamily } from "@/server/services/AutoPlaylistService"
+
+// Mismos valores por defecto y límites que AUTO_PLAYLIST_CONSTANTS en el servidor
+const DEFAULT_FAMILIES: AutoPlaylistFamily[] = ["genre"]
+const DEFAULT_RECENT_DAYS = 30
+const MIN_RECENT_DAYS = 1
+const MAX_RECENT_DAYS = 365
+
+const FAMILIES: { family: AutoPlaylistFamily; label: string; example: string }[] = [
+    { family: "genre", label: "Por género", example: "Genre_Rock" },
+    { family: "artist", label: "Por artista", example: "Artist_Radiohead" },
+    { family: "decade", label: "Por década", example: "Decade_1990s" },
+    { family: "format", label: "Por formato", example: "Format_FLAC" },
+    { family: "recent", label: "Agregadas recientemente", example: "Recent_Last_30_Days" },
+]
+
+interface AutoPlaylistSettingsProps {
+    inboxPath: string
+    libraryPath: string
+}
+
+const parseGenres = (value: string) =>
+    value.split(",").map((genre) => genre.trim()).filter(Boolean)
+
+export function AutoPlaylistSettings({ inboxPath, libraryPath }: AutoPlaylistSettingsProps) {
+    const [families, setFamilies] = useState<AutoPlaylistFamily[]>(DEFAULT_FAMILIES)
+    const [excludedGenres, setExcludedGenres] = useState("")
+    const [recentDays, setRecentDays] = useState(String(DEFAULT_RECENT_DAYS))
+    const [errors, setErrors] = useState<string[]>([])
+    const [isSaving, setIsSaving] = useState(false)
+    const [savedMessage, setSavedMessage] = useState<string | null>(null)
+
+    useEffect(() => {
+        const loadConfig = async () => {
+            try {
+                const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+                const response = await fetch(`${apiUrl}/api/config`)
+                if (!response.ok) throw new Error("Failed to load configuration")
+
+                const data = await response.json()
+                const settings = data.config?.autoPlaylists
+                if (settings) {
+                    setFamilies(settings.families ?? DEFAULT_FAMILIES)
+                    setExcludedGenres((settings.excludedGenres ?? []).join(", "))
+                    setRecentDays(String(settings.recentDays ?? DEFAULT_RECENT_DAYS))
+                }
+            } catch (err) {
+                console.error("Error loading auto playlist settings:", err)
+            }
+        }
+
+        loadConfig()
+    }, [])
+
+    const days = Number(recentDays)
+    const isValid = Number.isInteger(days) && days >= MIN_RECENT_DAYS && days <= MAX_RECENT_DAYS
+
+    const toggleFamily = (family: AutoPlaylistFamily, checked: boolean) => {
+        setFamilies((prev) =>
+            checked ? [...prev, family] : prev.filter((f) => f !== family),
+        )
+        setSavedMessage(null)
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setErrors([])
+        setSavedMessage(null)
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/config`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    inboxPath,
+                    libraryPath,
+                    autoPlaylists: {
+                        families,
+                        excludedGenres: parseGenres(excludedGenres),
+                        recentDays: days,
+                    },
+                }),
+            })
+
+            const data = await response.json()
+            if (!response.ok) {
+                setErrors(data.details || [data.error])
+                return
+            }
+
+            setSavedMessage("Guardado. Las playlists automáticas se regeneraron.")
+        } catch (err) {
+            console.error("Error saving auto playlist settings:", err)
+            setErrors([err instanceof Error ? err.message : "Unknown error"])
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="w-full flex flex-col items-start justify-center gap-8 border-t dark:border-slate-800 pt-12">
+            <div className="flex flex-col items-start gap-2">
+                <h2 className="flex items-start gap-2 text-xl font-semibold">
+                    <ListMusic />
+                    <span>Playlists automáticas</span>
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                    Playlists que se generan a partir de la biblioteca cada vez que cambia.
+                    Al desactivar un tipo se borran sus playlists.
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-4 w-full max-w-2xl">
+                {FAMILIES.map(({ family, label, example }) => (
+                    <div key={family} className="flex items-center justify-between max-w-md">
+                        <Label htmlFor={`auto-${family}`} className="flex flex-col items-start gap-1 font-medium">
+                            {label}
+                            <span className="text-xs font-normal text-muted-foreground">{example}</span>
+                        </Label>
+                        <Switch
+                            id={`auto-${family}`}
+                            checked={families.includes(family)}
+                            onCheckedChange={(checked) => toggleFamily(family, checked)}
+                        />
+                    </div>
+                ))}
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="excluded-genres">Géneros excluidos</Label>
+                    <Input
+                        id="excluded-genres"
+                        value={excludedGenres}
+                        placeholder="Otros, Podcast"
+                        disabled={!families.includes("genre")}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setExcludedGenres(e.target.value)
+                            setSavedMessage(null)
+                        }}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        Géneros separados por comas que no tendrán playlist. <code>Otros</code> es el género
+                        de las canciones sin género.
+                    </p>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="recent-days">Días recientes</Label>
+                    <Input
+                        id="recent-days"
+                        type="number"
+                        min={MIN_RECENT_DAYS}
+                        max={MAX_RECENT_DAYS}
+                        value={recentDays}
+                        disabled={!families.includes("recent")}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setRecentDays(e.target.value)
+                            setSavedMessage(null)
+                        }}
+                        className="max-w-[8rem]"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        Entre {MIN_RECENT_DAYS} y {MAX_RECENT_DAYS}. Por defecto: {DEFAULT_RECENT_DAYS}.
+                    </p>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button onClick={handleSave} disabled={isSaving || !isValid}>
+                        {isSaving ? "Guardando..." : "Guardar"}
+                    </Button>
+                </div>
+
+                {errors.length > 0 && (
+                    <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
+                        {errors.map((err) => (
+                            <p key={err} className="text-sm text-red-900 dark:text-red-100">{err}</p>
+                        ))}
+                    </div>
+                )}
+
+                {savedMessage && (
+                    <p className="text-sm text-green-700 dark:text-green-400">{savedMessage}</p>
+                )}
+            </div>
+        </div>
+    )
+}
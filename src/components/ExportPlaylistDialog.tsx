@@ -13,13 +13,41 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Checkbox } from "@/components/ui/checkbox"
 import { FolderPicker } from "@/components/FolderPicker"
 import { FolderOpen, Loader2, ArrowLeft } from "lucide-react"
+import type { PlaylistFormat } from "@/server/services/PlaylistFormatService"
+import type { ExportProfile } from "@/server/services/TranscodeService"
+
+const NO_PLAYLIST_FILE = "none"
+const ORIGINAL_FILES = "original"
+
+const PLAYLIST_FILE_OPTIONS: { value: PlaylistFormat | typeof NO_PLAYLIST_FILE; label: string }[] = [
+  { value: NO_PLAYLIST_FILE, label: "None" },
+  { value: "m3u8", label: "M3U8" },
+  { value: "pls", label: "PLS" },
+  { value: "xspf", label: "XSPF" },
+  { value: "jspf", label: "JSPF" },
+]
+
+const PROFILE_OPTIONS: { value: ExportProfile | typeof ORIGINAL_FILES; label: string }[] = [
+  { value: ORIGINAL_FILES, label: "Original files" },
+  { value: "mp3-v0", label: "MP3 V0" },
+  { value: "mp3-320", label: "MP3 320 kbps" },
+  { value: "aac-256", label: "AAC 256 kbps" },
+  { value: "opus-160", label: "Opus 160 kbps" },
+  { value: "flac-16-44", label: "FLAC 16-bit / 44.1 kHz" },
+]
 
 interface ExportPlaylistDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   playlistName: string
   trackCount: number
-  onConfirm: (destination: string, mode: 'copy' | 'move', preserveStructure: boolean) => Promise<void>
+  onConfirm: (
+    destination: string,
+    mode: 'copy' | 'move',
+    preserveStructure: boolean,
+    format?: PlaylistFormat,
+    profile?: ExportProfile,
+  ) => Promise<void>
 }
 
 export function ExportPlaylistDialog({ 
@@ -31,6 +59,8 @@ export function ExportPlaylistDialog({
 }: ExportPlaylistDialogProps) {
     const [mode, setMode] = useState<'copy' | 'move'>('copy')
     const [preserveStructure, setPreserveStructure] = useState(false)
+    const [playlistFile, setPlaylistFile] = useState<PlaylistFormat | typeof NO_PLAYLIST_FILE>(NO_PLAYLIST_FILE)
+    const [profile, setProfile] = useState<ExportProfile | typeof ORIGINAL_FILES>(ORIGINAL_FILES)
     const [destination, setDestination] = useState<string | null>(null)
     const [isPickingFolder, setIsPickingFolder] = useState(false)
     const [isProcessing, setIsProcessing] = useState(false)
@@ -39,7 +69,14 @@ export function ExportPlaylistDialog({
         if (!destination) return
         setIsProcessing(true)
         try {
-            await onConfirm(destination, mode, preserveStructure)
+            await onConfirm(
+                destination,
+                mode,
+                preserveStructure,
+                playlistFile === NO_PLAYLIST_FILE ? undefined : playlistFile,
+                // Only copies are transcoded; moves keep the original files
+                mode === 'copy' && profile !== ORIGINAL_FILES ? profile : undefined,
+            )
             onOpenChange(false)
         } catch (error) {
             console.error(error)
@@ -123,6 +160,49 @@ export function ExportPlaylistDialog({
                                 </div>
                             )}
 
+                            {/* Export Profile (Only for Copy) */}
+                            {mode === 'copy' && (
+                                <div className="flex flex-col gap-3">
+                                    <Label>Audio Format</Label>
+                                    <RadioGroup
+                                        value={profile}
+                                        onValueChange={(v) => setProfile(v as ExportProfile | typeof ORIGINAL_FILES)}
+                                        className="flex flex-wrap gap-4"
+                                    >
+                                        {PROFILE_OPTIONS.map((option) => (
+                                            <div key={option.value} className="flex items-center space-x-2">
+                                                <RadioGroupItem value={option.value} id={`p-${option.value}`} />
+                                                <Label htmlFor={`p-${option.value}`}>{option.label}</Label>
+                                            </div>
+                                        ))}
+                                    </RadioGroup>
+                                    <span className="text-xs text-muted-foreground">
+                                        Converts the copies for phones and portable players, keeping tags and cover art.
+                                        Converted tracks are cached, so exporting them again is fast.
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Playlist File Format */}
+                            <div className="flex flex-col gap-3">
+                                <Label>Playlist File</Label>
+                                <RadioGroup
+                                    value={playlistFile}
+                                    onValueChange={(v) => setPlaylistFile(v as PlaylistFormat | typeof NO_PLAYLIST_FILE)}
+                                    className="flex flex-wrap gap-4"
+                                >
+                                    {PLAYLIST_FILE_OPTIONS.map((option) => (
+                                        <div key={option.value} className="flex items-center space-x-2">
+                                            <RadioGroupItem value={option.value} id={`f-${option.value}`} />
+                                            <Label htmlFor={`f-${option.value}`}>{option.label}</Label>
+                                        </div>
+                                    ))}
+                                </RadioGroup>
+                                <span className="text-xs text-muted-foreground">
+                                    Writes a "{playlistName}" playlist file next to the exported tracks, for other players.
+                                </span>
+                            </div>
+
                             {/* Destination Selection */}
                             <div className="flex flex-col gap-3">
                                 <Label>Destination Folder</Label>
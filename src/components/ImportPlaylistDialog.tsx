@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+import type { PlaylistImportResult } from "@/server/services/PlaylistImportService"
+
+interface ImportPlaylistDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  libraryPath: string
+  onImported: (name: string) => void
+}
+
+const ACCEPTED_EXTENSIONS = ".pls,.xspf,.jspf,.m3u,.m3u8"
+
+/**
+ * Imports a PLS, XSPF, JSPF or M3U file from another player as a new
+ * playlist and lists the entries that matched no library track.
+ */
+export function ImportPlaylistDialog({
+  open,
+  onOpenChange,
+  libraryPath,
+  onImported,
+}: ImportPlaylistDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState("")
+  const [result, setResult] = useState<PlaylistImportResult | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setFile(null)
+      setName("")
+      setResult(null)
+      setError(null)
+    }
+  }, [open])
+
+  const handleImport = async () => {
+    if (!file) return
+    setIsImporting(true)
+    setError(null)
+    try {
+      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+      const response = await fetch(`${apiUrl}/api/playlists/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          libraryPath,
+          fileName: file.name,
+          content: await file.text(),
+          name: name.trim() || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to import playlist')
+
+      if (data.unmatched.length === 0) {
+        onImported(data.name)
+        onOpenChange(false)
+      } else {
+        // Keep the dialog open to show what was left out
+        setResult(data)
+      }
+    } catch (err) {
+      console.error(err)
+      setError(err instanceof Error ? err.message : 'Failed to import playlist')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Playlist</DialogTitle>
+          <DialogDescription>
+            PLS, XSPF, JSPF or M3U files from other players. Entries are matched to your library by path, then by title, artist and duration.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="flex flex-col gap-2 py-2">
+            <p className="text-sm">
+              {result.matched > 0
+                ? `"${result.name}" was created with ${result.matched} tracks.`
+                : "No entry matched a library track, so no playlist was created."}
+              {` ${result.unmatched.length} ${result.unmatched.length === 1 ? "entry was" : "entries were"} not found:`}
+            </p>
+            <ul className="flex flex-col gap-1 text-sm max-h-64 overflow-y-auto">
+              {result.unmatched.map((entry, i) => (
+                <li key={i} className="flex flex-col">
+                  {entry.title && (
+                    <span className="font-medium">{entry.artist ? `${entry.artist} - ${entry.title}` : entry.title}</span>
+                  )}
+                  <span className="text-xs text-muted-foreground break-all">{entry.location}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 py-2">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="import-file">Playlist file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept={ACCEPTED_EXTENSIONS}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="import-name">Name</Label>
+              <Input
+                id="import-name"
+                placeholder="Playlist title or file name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          {result ? (
+            <Button
+              onClick={() => {
+                if (result.matched > 0) onImported(result.name)
+                onOpenChange(false)
+              }}
+            >
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleImport} disabled={!file || isImporting}>
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react"
+import { Eye } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { WatchRule } from "@/server/services/InboxWatcherService"
+
+interface InboxWatchSettingsProps {
+    inboxPath: string
+    libraryPath: string
+}
+
+const parsePatterns = (value: string) =>
+    value.split(",").map((pattern) => pattern.trim()).filter(Boolean)
+
+export function InboxWatchSettings({ inboxPath, libraryPath }: InboxWatchSettingsProps) {
+    const [enabled, setEnabled] = useState(false)
+    const [watchLibrary, setWatchLibrary] = useState(false)
+    const [rules, setRules] = useState<WatchRule[]>([])
+    const [autoOrganize, setAutoOrganize] = useState("")
+    const [errors, setErrors] = useState<string[]>([])
+    const [isSaving, setIsSaving] = useState(false)
+    const [savedMessage, setSavedMessage] = useState<string | null>(null)
+
+    useEffect(() => {
+        const loadConfig = async () => {
+            try {
+                const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+                const response = await fetch(`${apiUrl}/api/config`)
+                if (!response.ok) throw new Error("Failed to load configuration")
+
+                const data = await response.json()
+                const storedRules: WatchRule[] = data.config?.watchRules || []
+                setEnabled(data.config?.watchInbox === true)
+                setWatchLibrary(data.config?.watchLibrary === true)
+                setRules(storedRules)
+                setAutoOrganize(
+                    storedRules
+                        .filter((rule) => rule.action === "organize")
+                        .map((rule) => rule.folder)
+                        .join(", "),
+                )
+            } catch (err) {
+                console.error("Error loading inbox watch settings:", err)
+            }
+        }
+
+        loadConfig()
+    }, [])
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setErrors([])
+        setSavedMessage(null)
+        try {
+            // Only organize rules are edited here; other rules are kept as they are
+            const organizeRules: WatchRule[] = parsePatterns(autoOrganize).map((folder) => {
+                const existing = rules.find((rule) => rule.action === "organize" && rule.folder === folder)
+                return existing || { folder, action: "organize" }
+            })
+            const watchRules = [...rules.filter((rule) => rule.action !== "organize"), ...organizeRules]
+
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/config`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ inboxPath, libraryPath, watchInbox: enabled, watchRules, watchLibrary }),
+            })
+
+            const data = await response.json()
+            if (!response.ok) {
+                setErrors(data.details || [data.error])
+                return
+            }
+
+            setRules(watchRules)
+            setSavedMessage(enabled || watchLibrary ? "Guardado. Vigilancia activada." : "Guardado. Vigilancia desactivada.")
+        } catch (err) {
+            console.error("Error saving inbox watch settings:", err)
+            setErrors([err instanceof Error ? err.message : "Unknown error"])
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="w-full flex flex-col items-start justify-center gap-8 border-t dark:border-slate-800 pt-12">
+            <div className="flex flex-col items-start gap-2">
+                <h2 className="flex items-start gap-2 text-xl font-semibold">
+                    <Eye />
+                    <span>Vigilancia de carpetas</span>
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                    Escanea las carpetas nuevas de la carpeta de descargas cuando terminan de copiarse
+                    y las deja listas para revisar en la biblioteca. También puede mantener la base de datos
+                    al día con los cambios hechos en la biblioteca fuera de la aplicación.
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-4 w-full max-w-2xl">
+                <div className="flex items-center justify-between max-w-md">
+                    <Label htmlFor="watch-inbox" className="font-medium">
+                        Vigilar carpeta de descargas
+                    </Label>
+                    <Switch
+                        id="watch-inbox"
+                        checked={enabled}
+                        onCheckedChange={(checked) => {
+                            setEnabled(checked)
+                            setSavedMessage(null)
+                        }}
+                    />
+                </div>
+
+                <div className="flex items-center justify-between max-w-md">
+                    <Label htmlFor="watch-library" className="font-medium">
+                        Vigilar biblioteca
+                    </Label>
+                    <Switch
+                        id="watch-library"
+                        checked={watchLibrary}
+                        onCheckedChange={(checked) => {
+                            setWatchLibrary(checked)
+                            setSavedMessage(null)
+                        }}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="auto-organize">Organizar automáticamente</Label>
+                    <Input
+                        id="auto-organize"
+                        value={autoOrganize}
+                        placeholder="Bandcamp - *, Qobuz*"
+                        disabled={!enabled}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setAutoOrganize(e.target.value)
+                            setErrors([])
+                            setSavedMessage(null)
+                        }}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        Nombres de carpeta separados por comas; <code>*</code> coincide con cualquier texto.
+                        Las carpetas con posibles duplicados siempre quedan para revisar.
+                    </p>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? "Guardando..." : "Guardar"}
+                    </Button>
+                </div>
+
+                {errors.length > 0 && (
+                    <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
+                        {errors.map((err) => (
+                            <p key={err} className="text-sm text-red-900 dark:text-red-100">{err}</p>
+                        ))}
+                    </div>
+                )}
+
+                {savedMessage && (
+                    <p className="text-sm text-green-700 dark:text-green-400">{savedMessage}</p>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,4 +1,5 @@
-import { ArrowUpDown, ArrowUp, ArrowDown, Search } from "lucide-react"
+import { ArrowUpDown, ArrowUp, ArrowDown, Search, GripVertical } from "lucide-react"
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Table,
@@ -11,9 +12,12 @@ import {
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
-import { useMusicTable, type ScanResult, type SortField } from "@/hooks/useMusicTable"
+import { Badge } from "@/components/ui/badge"
+import { useMusicTable, formatTrackPosition, getAlbumArtist, type ScanResult, type SortField } from "@/hooks/useMusicTable"
+import { useVariousArtistsName } from "@/hooks/useVariousArtistsName"
 import { TrackPlaylistsCell } from "@/components/TrackPlaylistsCell";
 import { AlbumCover } from "@/components/AlbumCover";
+import { trackRoute } from "@/lib/tracks";
 import { useIsMobile } from "@/hooks/useMediaQuery";
 
 interface MusicTableProps {
@@ -23,6 +27,25 @@ interface MusicTableProps {
   onSelectionChange?: (selected: Set<string>) => void;
   renderRowAction?: (track: ScanResult) => React.ReactNode;
   showPlaylistsColumn?: boolean;
+  showDuplicateColumn?: boolean; // Inbox review: show the duplicate flag from the scan
+  onReorder?: (from: number, to: number) => void; // Enables drag-and-drop in data order (positions in data)
+}
+
+function DuplicateBadge({ duplicate }: { duplicate?: ScanResult["duplicate"] }) {
+  if (!duplicate || duplicate.status === "new") {
+    return <Badge variant="outline">New</Badge>;
+  }
+
+  const label = duplicate.status === "exact" ? "Duplicate" : "Probable duplicate";
+  const where = duplicate.source === "inbox" ? "in inbox" : "in library";
+  return (
+    <Badge
+      variant={duplicate.status === "exact" ? "destructive" : "secondary"}
+      title={duplicate.matchPath ? `Matches ${duplicate.matchPath}` : undefined}
+    >
+      {label} {where}
+    </Badge>
+  );
 }
 
 export function MusicTable({
@@ -32,9 +55,14 @@ export function MusicTable({
   onSelectionChange,
   renderRowAction,
   showPlaylistsColumn = false,
+  showDuplicateColumn = false,
+  onReorder,
 }: MusicTableProps) {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const variousArtists = useVariousArtistsName();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
   const {
     data: sortedData,
     searchQuery,
@@ -45,7 +73,16 @@ export function MusicTable({
     totalCount,
     filteredCount,
     filteredData,
-  } = useMusicTable(data);
+  } = useMusicTable(data, onReorder ? "position" : "title", variousArtists);
+
+  // Rows can only be dragged while they are shown in data order, unfiltered
+  const canReorder =
+    !!onReorder && sortField === "position" && sortDirection === "asc" && !searchQuery.trim();
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
 
   const getSortIcon = (field: SortField) => {
     if (sortField !== field) {
@@ -114,6 +151,19 @@ export function MusicTable({
         <Table>
           <TableHeader>
             <TableRow>
+              {onReorder && (
+                <TableHead className="w-[70px]">
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleSort("position")}
+                    className="h-8 px-2 hover:bg-transparent"
+                    title="Playlist order"
+                  >
+                    Order
+                    {getSortIcon("position")}
+                  </Button>
+                </TableHead>
+              )}
               {enableSelection && (
                 <TableHead className="w-[40px]">
                   <Checkbox
@@ -144,6 +194,16 @@ export function MusicTable({
                   {getSortIcon("artist")}
                 </Button>
               </TableHead>
+              <TableHead>
+                <Button
+                  variant="ghost"
+                  onClick={() => handleSort("albumArtist")}
+                  className="h-8 px-2 hover:bg-transparent"
+                >
+                  Album Artist
+                  {getSortIcon("albumArtist")}
+                </Button>
+              </TableHead>
               <TableHead>
                 <Button
                   variant="ghost"
@@ -154,6 +214,7 @@ export function MusicTable({
                   {getSortIcon("album")}
                 </Button>
               </TableHead>
+              <TableHead className="w-[60px]">#</TableHead>
               <TableHead className="w-[80px]">Year</TableHead>
               <TableHead>
                 <Button
@@ -169,6 +230,9 @@ export function MusicTable({
               {showPlaylistsColumn && (
                 <TableHead className="w-[200px]">Playlists</TableHead>
               )}
+              {showDuplicateColumn && (
+                <TableHead className="w-[160px]">Status</TableHead>
+              )}
               {renderRowAction && <TableHead className="w-[50px]"></TableHead>}
             </TableRow>
           </TableHeader>
@@ -177,13 +241,11 @@ export function MusicTable({
               <TableRow>
                 <TableCell
                   colSpan={
-                    enableSelection
-                      ? showPlaylistsColumn
-                        ? 9
-                        : 8
-                      : showPlaylistsColumn
-                        ? 8
-                        : 7
+                    9 +
+                    (onReorder ? 1 : 0) +
+                    (enableSelection ? 1 : 0) +
+                    (showPlaylistsColumn ? 1 : 0) +
+                    (showDuplicateColumn ? 1 : 0)
                   }
                   className="h-24 text-center"
                 >
@@ -193,7 +255,7 @@ export function MusicTable({
                 </TableCell>
               </TableRow>
             ) : (
-              sortedData.map((item) => {
+              sortedData.map((item, index) => {
                 console.log("===============");
                 console.log(item);
                 console.log("===============");
@@ -203,11 +265,42 @@ export function MusicTable({
                     data-state={
                       selectedTracks.has(item.file) ? "selected" : undefined
                     }
-                    className="cursor-pointer hover:bg-muted/50"
+                    className={`cursor-pointer hover:bg-muted/50 ${dragIndex === index ? "opacity-50" : ""} ${
+                      dropIndex === index && dragIndex !== null && dragIndex !== index
+                        ? dragIndex < index ? "border-b-2 border-b-primary" : "border-t-2 border-t-primary"
+                        : ""
+                    }`}
                     onClick={() =>
-                      navigate(`/track/${encodeURIComponent(item.file)}`)
+                      navigate(trackRoute({ id: item.metadata.id, path: item.file }))
                     }
+                    draggable={canReorder}
+                    onDragStart={(e) => {
+                      setDragIndex(index);
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    onDragOver={(e) => {
+                      if (dragIndex === null) return;
+                      e.preventDefault();
+                      setDropIndex(index);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragIndex !== null && dragIndex !== index) onReorder?.(dragIndex, index);
+                      endDrag();
+                    }}
+                    onDragEnd={endDrag}
                   >
+                    {onReorder && (
+                      <TableCell className="text-muted-foreground tabular-nums">
+                        <div className="flex items-center gap-1">
+                          <GripVertical
+                            className={`h-4 w-4 ${canReorder ? "cursor-grab" : "opacity-30"}`}
+                            aria-label={canReorder ? "Drag to reorder" : undefined}
+                          />
+                          {data.indexOf(item) + 1}
+                        </div>
+                      </TableCell>
+                    )}
                     {enableSelection && (
                       <TableCell>
                         <Checkbox
@@ -220,12 +313,16 @@ export function MusicTable({
                     )}
                     <TableCell>
                       <div className="min-w-64 flex items-center gap-3">
-                        <AlbumCover trackPath={item.file} size={isMobile ? "sm" : "md"} />
+                        <AlbumCover track={{ id: item.metadata.id, path: item.file }} size={isMobile ? "sm" : "md"} />
                         <span className="font-semibold line-clamp-1">{item.metadata.title}</span>
                       </div>
                     </TableCell>
                     <TableCell>{item.metadata.artist.split(";")}</TableCell>
+                    <TableCell>{getAlbumArtist(item.metadata, variousArtists)}</TableCell>
                     <TableCell>{item.metadata.album}</TableCell>
+                    <TableCell className="text-muted-foreground tabular-nums">
+                      {formatTrackPosition(item.metadata)}
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
                       {item.metadata.year || "-"}
                     </TableCell>
@@ -246,7 +343,12 @@ export function MusicTable({
                     </TableCell>
                     {showPlaylistsColumn && (
                       <TableCell>
-                        <TrackPlaylistsCell trackPath={item.file} />
+                        <TrackPlaylistsCell track={{ id: item.metadata.id, path: item.file }} />
+                      </TableCell>
+                    )}
+                    {showDuplicateColumn && (
+                      <TableCell>
+                        <DuplicateBadge duplicate={item.duplicate} />
                       </TableCell>
                     )}
                     {renderRowAction && (
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react"
+import { FileCode2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface NamingPreview {
+    source: string
+    proposedPath: string
+}
+
+interface NamingPreviewResponse {
+    errors: string[]
+    previews: NamingPreview[]
+}
+
+interface NamingTemplateResponse {
+    template: string
+    variousArtists: string
+    defaultTemplate: string
+    fields: string[]
+}
+
+interface NamingTemplateSettingsProps {
+    inboxPath: string
+    libraryPath: string
+}
+
+async function fetchPreview(template: string, variousArtists: string, libraryPath: string): Promise<NamingPreviewResponse> {
+    const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+    const response = await fetch(`${apiUrl}/api/naming/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template, variousArtists, libraryPath }),
+    })
+
+    if (!response.ok) throw new Error("Failed to preview template")
+
+    return response.json()
+}
+
+export function NamingTemplateSettings({ inboxPath, libraryPath }: NamingTemplateSettingsProps) {
+    const [template, setTemplate] = useState("")
+    const [variousArtists, setVariousArtists] = useState("")
+    const [defaultTemplate, setDefaultTemplate] = useState("")
+    const [fields, setFields] = useState<string[]>([])
+    const [previews, setPreviews] = useState<NamingPreview[]>([])
+    const [errors, setErrors] = useState<string[]>([])
+    const [isPreviewing, setIsPreviewing] = useState(false)
+    const [isSaving, setIsSaving] = useState(false)
+    const [savedMessage, setSavedMessage] = useState<string | null>(null)
+
+    const requestPreview = async (value: string) => {
+        setIsPreviewing(true)
+        try {
+            const data = await fetchPreview(value, variousArtists, libraryPath)
+            setErrors(data.errors)
+            setPreviews(data.previews)
+        } catch (err) {
+            console.error("Error previewing naming template:", err)
+            setErrors([err instanceof Error ? err.message : "Unknown error"])
+            setPreviews([])
+        } finally {
+            setIsPreviewing(false)
+        }
+    }
+
+    useEffect(() => {
+        // Load the stored template (or the default one) and preview it
+        const loadTemplate = async () => {
+            try {
+                const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+                const response = await fetch(`${apiUrl}/api/naming`)
+                if (!response.ok) throw new Error("Failed to load naming template")
+
+                const data: NamingTemplateResponse = await response.json()
+                setTemplate(data.template)
+                setVariousArtists(data.variousArtists)
+                setDefaultTemplate(data.defaultTemplate)
+                setFields(data.fields)
+
+                const preview = await fetchPreview(data.template, data.variousArtists, libraryPath)
+                setErrors(preview.errors)
+                setPreviews(preview.previews)
+            } catch (err) {
+                console.error("Error loading naming template:", err)
+            }
+        }
+
+        loadTemplate()
+    }, [libraryPath])
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setSavedMessage(null)
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/config`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    inboxPath,
+                    libraryPath,
+                    namingTemplate: template,
+                    variousArtistsName: variousArtists,
+                }),
+            })
+
+            const data = await response.json()
+            if (!response.ok) {
+                setErrors(data.details || [data.error])
+                return
+            }
+
+            setSavedMessage("Plantilla guardada. Se usará en el próximo escaneo.")
+        } catch (err) {
+            console.error("Error saving naming template:", err)
+            setErrors([err instanceof Error ? err.message : "Unknown error"])
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="w-full flex flex-col items-start justify-center gap-8 border-t dark:border-slate-800 pt-12">
+            <div className="flex flex-col items-start gap-2">
+                <h2 className="flex items-start gap-2 text-xl font-semibold">
+                    <FileCode2 />
+                    <span>Plantilla de nombres</span>
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                    Define cómo se organizan los archivos en la biblioteca. Usa <code>{"{campo}"}</code>,
+                    alternativas con <code>{"{campo1|campo2}"}</code> y segmentos opcionales entre <code>[ ]</code>.
+                </p>
+                {fields.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                        Campos disponibles: {fields.map((f) => `{${f}}`).join(", ")}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-4 w-full max-w-2xl">
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="naming-template">Plantilla</Label>
+                    <Input
+                        id="naming-template"
+                        value={template}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setTemplate(e.target.value)
+                            setErrors([])
+                            setSavedMessage(null)
+                        }}
+                        className="font-mono"
+                    />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="various-artists">Carpeta para compilaciones</Label>
+                    <Input
+                        id="various-artists"
+                        value={variousArtists}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setVariousArtists(e.target.value)
+                            setSavedMessage(null)
+                        }}
+                        className="max-w-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        Se usa como <code>{"{albumartist}"}</code> en álbumes marcados como compilación.
+                    </p>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => requestPreview(template)} disabled={isPreviewing}>
+                        {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Vista previa
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={() => {
+                            setTemplate(defaultTemplate)
+                            requestPreview(defaultTemplate)
+                        }}
+                        disabled={!defaultTemplate || template === defaultTemplate}
+                    >
+                        Restablecer
+                    </Button>
+                    <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+                        {isSaving ? "Guardando..." : "Guardar plantilla"}
+                    </Button>
+                </div>
+
+                {errors.length > 0 && (
+                    <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
+                        {errors.map((err) => (
+                            <p key={err} className="text-sm text-red-900 dark:text-red-100">{err}</p>
+                        ))}
+                    </div>
+                )}
+
+                {savedMessage && (
+                    <p className="text-sm text-green-700 dark:text-green-400">{savedMessage}</p>
+                )}
+
+                {previews.length > 0 && (
+                    <ul className="flex flex-col gap-2 rounded-md border p-3 bg-slate-50 dark:bg-slate-900/50">
+                        {previews.map((preview) => (
+                            <li key={preview.source} className="flex flex-col text-sm">
+                                <span className="text-xs text-muted-foreground truncate">{preview.source}</span>
+                                <span className="font-mono break-all">{preview.proposedPath}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    )
+}
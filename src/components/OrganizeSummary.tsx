@@ -0,0 +1,118 @@
+import { Loader2, Undo2, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type {
+  OrganizeAction,
+  OrganizeResult,
+  OrganizeFileReport,
+} from "@/server/services/OrganizerService"
+
+interface OrganizeSummaryProps {
+  result: OrganizeResult
+  isUndoing?: boolean
+  onUndo?: () => void
+  onDismiss: () => void
+}
+
+const ACTION_LABELS: Record<OrganizeAction, string> = {
+  moved: "Moved",
+  renamed: "Renamed",
+  replaced: "Replaced",
+  "skipped-duplicate": "Skipped (duplicate)",
+  failed: "Failed",
+}
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath
+
+function describeReport(report: OrganizeFileReport): string {
+  if (report.action === "failed") return report.error || "Unknown error"
+  if (report.action === "skipped-duplicate") return `Already in library: ${report.destination}`
+  return report.destination
+}
+
+export function OrganizeSummary({ result, isUndoing = false, onUndo, onDismiss }: OrganizeSummaryProps) {
+  const { summary, files } = result
+  const hasFailures = summary.failed > 0
+
+  // Only list files that need attention; moved files are covered by the counts
+  const notable = files.filter(
+    (report) =>
+      report.action !== "moved" ||
+      report.playlists?.some((p) => p.status === "failed"),
+  )
+  const playlistFailures = files.flatMap((report) =>
+    (report.playlists || [])
+      .filter((p) => p.status === "failed")
+      .map((p) => ({ file: report.file, ...p })),
+  )
+  const playlistsAdded = files.reduce(
+    (count, report) => count + (report.playlists || []).filter((p) => p.status === "added").length,
+    0,
+  )
+
+  return (
+    <div
+      className={`w-full max-w-6xl p-4 flex flex-col gap-3 rounded-md border ${
+        hasFailures
+          ? "bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800"
+          : "bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm font-medium">
+            {hasFailures ? "Organization finished with problems" : "Organization complete"}
+          </p>
+          {(Object.keys(ACTION_LABELS) as OrganizeAction[])
+            .filter((action) => summary[action] > 0)
+            .map((action) => (
+              <Badge key={action} variant={action === "failed" ? "destructive" : "secondary"}>
+                {ACTION_LABELS[action]}: {summary[action]}
+              </Badge>
+            ))}
+          {playlistsAdded > 0 && (
+            <Badge variant="outline">Playlist entries added: {playlistsAdded}</Badge>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onUndo && (
+            <Button variant="outline" size="sm" onClick={onUndo} disabled={isUndoing}>
+              {isUndoing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Undo2 className="mr-2 h-4 w-4" />
+              )}
+              Undo
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Dismiss</span>
+          </Button>
+        </div>
+      </div>
+
+      {notable.length > 0 && (
+        <ul className="flex flex-col gap-1 max-h-64 overflow-y-auto text-sm">
+          {notable.map((report) => (
+            <li key={report.file} className="flex items-baseline gap-2">
+              <span className="font-medium shrink-0">{ACTION_LABELS[report.action]}</span>
+              <span className="truncate">{fileName(report.file)}</span>
+              <span className="text-xs text-muted-foreground truncate">{describeReport(report)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {playlistFailures.length > 0 && (
+        <ul className="flex flex-col gap-1 text-sm text-red-900 dark:text-red-100">
+          {playlistFailures.map((failure) => (
+            <li key={`${failure.file}-${failure.name}`}>
+              Could not add {fileName(failure.file)} to {failure.name}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react"
+import { Gauge } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+// Mismos límites que CONCURRENCY_CONSTANTS en el servidor
+const DEFAULT_CONCURRENCY = 8
+const MIN_CONCURRENCY = 1
+const MAX_CONCURRENCY = 64
+
+interface PerformanceSettingsProps {
+    inboxPath: string
+    libraryPath: string
+}
+
+export function PerformanceSettings({ inboxPath, libraryPath }: PerformanceSettingsProps) {
+    const [concurrency, setConcurrency] = useState(String(DEFAULT_CONCURRENCY))
+    const [error, setError] = useState<string | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+    const [savedMessage, setSavedMessage] = useState<string | null>(null)
+
+    useEffect(() => {
+        const loadConfig = async () => {
+            try {
+                const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+                const response = await fetch(`${apiUrl}/api/config`)
+                if (!response.ok) throw new Error("Failed to load configuration")
+
+                const data = await response.json()
+                if (data.config?.concurrency) {
+                    setConcurrency(String(data.config.concurrency))
+                }
+            } catch (err) {
+                console.error("Error loading performance settings:", err)
+            }
+        }
+
+        loadConfig()
+    }, [])
+
+    const value = Number(concurrency)
+    const isValid = Number.isInteger(value) && value >= MIN_CONCURRENCY && value <= MAX_CONCURRENCY
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setError(null)
+        setSavedMessage(null)
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/config`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ inboxPath, libraryPath, concurrency: value }),
+            })
+
+            const data = await response.json()
+            if (!response.ok) {
+                setError(data.error)
+                return
+            }
+
+            setSavedMessage("Guardado. Se usará en el próximo escaneo o regeneración.")
+        } catch (err) {
+            console.error("Error saving performance settings:", err)
+            setError(err instanceof Error ? err.message : "Unknown error")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="w-full flex flex-col items-start justify-center gap-8 border-t dark:border-slate-800 pt-12">
+            <div className="flex flex-col items-start gap-2">
+                <h2 className="flex items-start gap-2 text-xl font-semibold">
+                    <Gauge />
+                    <span>Rendimiento</span>
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                    Cantidad de archivos que se leen en paralelo al escanear o regenerar la base de datos.
+                    En discos de red (NAS) un valor más alto suele ser más rápido.
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-4 w-full max-w-2xl">
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="concurrency">Archivos en paralelo</Label>
+                    <Input
+                        id="concurrency"
+                        type="number"
+                        min={MIN_CONCURRENCY}
+                        max={MAX_CONCURRENCY}
+                        value={concurrency}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setConcurrency(e.target.value)
+                            setError(null)
+                            setSavedMessage(null)
+                        }}
+                        className="max-w-[8rem]"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        Entre {MIN_CONCURRENCY} y {MAX_CONCURRENCY}. Por defecto: {DEFAULT_CONCURRENCY}.
+                    </p>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button onClick={handleSave} disabled={isSaving || !isValid}>
+                        {isSaving ? "Guardando..." : "Guardar"}
+                    </Button>
+                </div>
+
+                {error && (
+                    <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
+                        <p className="text-sm text-red-900 dark:text-red-100">{error}</p>
+                    </div>
+                )}
+
+                {savedMessage && (
+                    <p className="text-sm text-green-700 dark:text-green-400">{savedMessage}</p>
+                )}
+            </div>
+        </div>
+    )
+}
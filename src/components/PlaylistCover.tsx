@@ -0,0 +1,60 @@
+import { useState, type ReactNode } from "react"
+import { Music } from "lucide-react"
+
+interface PlaylistCoverProps {
+  libraryPath: string
+  name: string
+  version?: number // updatedAt of the playlist, so a new cover or collage is fetched
+  size?: "md" | "xl"
+  fallback?: ReactNode
+}
+
+/**
+ * The cover of a playlist: its own image, or the collage the server builds
+ * from the album art of its tracks. Shows the fallback icon when there is
+ * neither.
+ */
+export function PlaylistCover({ libraryPath, name, version, size = "md", fallback }: PlaylistCoverProps) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null)
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null)
+
+  const sizeClasses = {
+    md: "w-12 h-12",
+    xl: "w-40 h-40",
+  }
+
+  const iconSizes = {
+    md: "h-6 w-6",
+    xl: "h-16 w-16",
+  }
+
+  const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+  const coverUrl = `${apiUrl}/api/playlists/${encodeURIComponent(name)}/cover?libraryPath=${encodeURIComponent(libraryPath)}${version ? `&v=${version}` : ""}`
+  const icon = fallback ?? <Music className={iconSizes[size]} />
+
+  if (failedUrl === coverUrl) {
+    return (
+      <div className={`${sizeClasses[size]} rounded-md bg-primary/10 flex items-center justify-center text-primary shrink-0`}>
+        {icon}
+      </div>
+    )
+  }
+
+  const isLoading = loadedUrl !== coverUrl
+  return (
+    <div className={`${sizeClasses[size]} rounded-md overflow-hidden bg-primary/10 shrink-0 relative`}>
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center text-primary animate-pulse">
+          {icon}
+        </div>
+      )}
+      <img
+        src={coverUrl}
+        alt="Playlist cover"
+        className={`w-full h-full object-cover ${isLoading ? 'opacity-0' : 'opacity-100'} transition-opacity`}
+        onError={() => setFailedUrl(coverUrl)}
+        onLoad={() => setLoadedUrl(coverUrl)}
+      />
+    </div>
+  )
+}
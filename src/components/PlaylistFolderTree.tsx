@@ -0,0 +1,198 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  ChevronDown,
+  ChevronRight,
+  Disc,
+  Folder,
+  FolderOpen,
+  FolderInput,
+  Music,
+  Sparkles,
+  Trash2,
+} from "lucide-react"
+import { PlaylistCover } from "@/components/PlaylistCover"
+import type { PlaylistFolder, PlaylistSummary } from "@/server/services/OrganizerService"
+
+// Generated playlists live at the top of Playlists and cannot be moved
+const SYSTEM_PLAYLIST_PREFIXES = ["00_Master", "Smart_", "Genre_", "Artist_", "Decade_", "Format_", "Recent_"]
+
+const isSystemPlaylist = (name: string) =>
+  SYSTEM_PLAYLIST_PREFIXES.some(prefix => name.startsWith(prefix))
+
+const baseName = (name: string) => name.slice(name.lastIndexOf("/") + 1)
+
+interface PlaylistFolderTreeProps {
+  tree: PlaylistFolder
+  libraryPath: string
+  onOpen: (name: string) => void
+  onMove: (name: string, folder: string) => void
+  onDeleteFolder: (folder: string) => void
+}
+
+const listFolders = (folder: PlaylistFolder): string[] =>
+  folder.folders.flatMap(child => [child.relPath, ...listFolders(child)])
+
+/**
+ * The Playlists folder as a collapsible tree. Custom playlists can be
+ * dragged onto a folder (or the top level) or moved from their menu.
+ */
+export function PlaylistFolderTree({ tree, libraryPath, onOpen, onMove, onDeleteFolder }: PlaylistFolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const allFolders = listFolders(tree)
+
+  const toggle = (relPath: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(relPath)) {
+        next.delete(relPath)
+      } else {
+        next.add(relPath)
+      }
+      return next
+    })
+  }
+
+  // Drop handlers of a folder header (or the top level, relPath "")
+  const dropProps = (relPath: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes("application/x-playlist")) return
+      e.preventDefault()
+      e.stopPropagation()
+      setDropTarget(relPath)
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === relPath ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      setDropTarget(null)
+      const name = e.dataTransfer.getData("application/x-playlist")
+      if (name) onMove(name, relPath)
+    },
+  })
+
+  const renderPlaylist = (pl: PlaylistSummary, folder: string) => {
+    const movable = !isSystemPlaylist(pl.name)
+    return (
+      <div
+        key={pl.name}
+        draggable={movable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData("application/x-playlist", pl.name)
+          e.dataTransfer.effectAllowed = "move"
+        }}
+        className="group relative flex items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
+        onClick={() => onOpen(pl.name)}
+      >
+        <div className="group-hover:scale-105 transition-transform">
+          <PlaylistCover
+            libraryPath={libraryPath}
+            name={pl.name}
+            version={pl.updatedAt}
+            fallback={pl.name.startsWith('Smart_')
+              ? <Sparkles className="h-6 w-6" />
+              : pl.name.toLowerCase().includes('genre') ? <Disc className="h-6 w-6" /> : <Music className="h-6 w-6" />}
+          />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold truncate group-hover:text-primary transition-colors">{baseName(pl.name)}</h3>
+          {pl.description && (
+            <p className="text-sm text-muted-foreground truncate" title={pl.description}>{pl.description}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {pl.count} tracks · Updated {new Date(pl.updatedAt).toLocaleDateString()}
+          </p>
+        </div>
+        {movable && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0">
+                <FolderInput className="h-4 w-4" />
+                <span className="sr-only">Move to folder</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem disabled={folder === ""} onClick={() => onMove(pl.name, "")}>
+                Top level
+              </DropdownMenuItem>
+              {allFolders.map(target => (
+                <DropdownMenuItem
+                  key={target}
+                  disabled={target === folder}
+                  onClick={() => onMove(pl.name, target)}
+                >
+                  {target}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    )
+  }
+
+  const renderContents = (folder: PlaylistFolder) => (
+    <div className="flex flex-col gap-3">
+      {folder.folders.map(renderFolder)}
+      {folder.playlists.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {folder.playlists.map(pl => renderPlaylist(pl, folder.relPath))}
+        </div>
+      )}
+    </div>
+  )
+
+  const renderFolder = (folder: PlaylistFolder) => {
+    const isOpen = !collapsed.has(folder.relPath)
+    const isEmpty = folder.folders.length === 0 && folder.playlists.length === 0
+    return (
+      <div key={folder.relPath} className="flex flex-col gap-3">
+        <div
+          {...dropProps(folder.relPath)}
+          className={`flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer hover:bg-muted/50 ${dropTarget === folder.relPath ? "bg-primary/10 ring-1 ring-primary" : ""}`}
+          onClick={() => toggle(folder.relPath)}
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {isOpen ? <FolderOpen className="h-5 w-5 text-primary" /> : <Folder className="h-5 w-5 text-primary" />}
+          <span className="font-medium">{folder.name}</span>
+          <span className="text-sm text-muted-foreground">{folder.playlists.length}</span>
+          {isEmpty && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7 ml-auto"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDeleteFolder(folder.relPath)
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete folder</span>
+            </Button>
+          )}
+        </div>
+        {isOpen && !isEmpty && <div className="pl-6 border-l ml-4">{renderContents(folder)}</div>}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      {...dropProps("")}
+      className={`w-full flex flex-col gap-3 rounded-lg ${dropTarget === "" ? "ring-1 ring-primary" : ""}`}
+    >
+      {renderContents(tree)}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Loader2 } from "lucide-react"
+import type { RelinkProposal, RelinkReason } from "@/server/services/PlaylistRelinkService"
+
+interface RelinkPlaylistDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  playlistName: string
+  libraryPath: string
+  onSuccess: () => void
+}
+
+const SKIP = "skip"
+
+const REASON_LABELS: Record<RelinkReason, string> = {
+  mbid: "MusicBrainz ID",
+  tags: "Artist / title",
+  path: "Similar path",
+}
+
+const formatDuration = (seconds?: number) =>
+  seconds === undefined ? "" : `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`
+
+/**
+ * Proposes library tracks for the playlist entries whose file is gone and
+ * rewrites the entries the user confirms.
+ */
+export function RelinkPlaylistDialog({
+  open,
+  onOpenChange,
+  playlistName,
+  libraryPath,
+  onSuccess,
+}: RelinkPlaylistDialogProps) {
+  const [proposals, setProposals] = useState<RelinkProposal[]>([])
+  // Broken entry -> chosen track path (or SKIP)
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchProposals = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`${apiUrl}/api/playlists/${encodeURIComponent(playlistName)}/relink?libraryPath=${encodeURIComponent(libraryPath)}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to find replacements')
+        setProposals(data.proposals)
+        // Preselect the best candidate of each entry
+        setChoices(Object.fromEntries(
+          data.proposals.map((p: RelinkProposal) => [p.entry, p.candidates[0]?.path ?? SKIP]),
+        ))
+      } catch (err) {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to find replacements')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProposals()
+  }, [apiUrl, open, playlistName, libraryPath])
+
+  const relinks = proposals
+    .filter((p) => choices[p.entry] && choices[p.entry] !== SKIP)
+    .map((p) => ({ entry: p.entry, trackPath: choices[p.entry] }))
+
+  const handleConfirm = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/playlists/${encodeURIComponent(playlistName)}/relink`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ libraryPath, relinks }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to relink entries')
+      onSuccess()
+      onOpenChange(false)
+    } catch (err) {
+      console.error(err)
+      setError(err instanceof Error ? err.message : 'Failed to relink entries')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Relink Missing Tracks</DialogTitle>
+          <DialogDescription>
+            Pick the library track that replaces each missing entry of "{playlistName}".
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 max-h-[60vh] overflow-y-auto py-2">
+            {proposals.length === 0 && !error && (
+              <p className="text-sm text-muted-foreground">Every entry of this playlist points to an existing file.</p>
+            )}
+            {proposals.map((proposal, i) => (
+              <div key={proposal.entry} className="flex flex-col gap-2 p-3 border rounded-md">
+                <p className="text-sm font-medium truncate">{proposal.entry}</p>
+                <RadioGroup
+                  value={choices[proposal.entry] ?? SKIP}
+                  onValueChange={(value) => setChoices((prev) => ({ ...prev, [proposal.entry]: value }))}
+                >
+                  {proposal.candidates.map((candidate, j) => (
+                    <div key={candidate.path} className="flex items-start space-x-2">
+                      <RadioGroupItem value={candidate.path} id={`relink-${i}-${j}`} className="mt-1" />
+                      <Label htmlFor={`relink-${i}-${j}`} className="flex flex-col items-start gap-1 font-normal cursor-pointer">
+                        <span className="font-medium">
+                          {candidate.artist} - {candidate.title}
+                          <span className="ml-2 text-xs text-muted-foreground">{formatDuration(candidate.duration)}</span>
+                        </span>
+                        <span className="text-xs text-muted-foreground break-all">{candidate.path}</span>
+                        <span className="flex gap-1">
+                          {candidate.reasons.map((reason) => (
+                            <Badge key={reason} variant="secondary">{REASON_LABELS[reason]}</Badge>
+                          ))}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value={SKIP} id={`relink-${i}-skip`} />
+                    <Label htmlFor={`relink-${i}-skip`} className="font-normal text-muted-foreground">
+                      {proposal.candidates.length === 0 ? "No candidates found" : "Leave as is"}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={isLoading || isSaving || relinks.length === 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Relink {relinks.length} {relinks.length === 1 ? "entry" : "entries"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
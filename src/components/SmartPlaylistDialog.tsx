@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Loader2, Plus, X } from "lucide-react"
+import type {
+  SmartMatchMode,
+  SmartPlaylist,
+  SmartRule,
+} from "@/server/services/SmartPlaylistService"
+
+interface SmartPlaylistDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  libraryPath: string
+  playlist?: SmartPlaylist // Rule set to edit; a new one is created without it
+  onSaved: (playlist: SmartPlaylist) => void
+}
+
+type RuleField = SmartRule["field"]
+
+// Text fields of every rule while it is being edited
+interface RuleDraft {
+  field: RuleField
+  values: string
+  min: string
+  max: string
+  lossless: boolean
+  contains: string
+}
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  genre: "Genre is one of",
+  year: "Year between",
+  lossless: "Format is",
+  bitrate: "Bitrate at least",
+  artist: "Artist contains",
+}
+
+const emptyDraft = (field: RuleField): RuleDraft => ({
+  field,
+  values: "",
+  min: "",
+  max: "",
+  lossless: true,
+  contains: "",
+})
+
+const toDraft = (rule: SmartRule): RuleDraft => {
+  const draft = emptyDraft(rule.field)
+  switch (rule.field) {
+    case "genre":
+      return { ...draft, values: rule.values.join(", ") }
+    case "year":
+      return { ...draft, min: rule.min?.toString() ?? "", max: rule.max?.toString() ?? "" }
+    case "lossless":
+      return { ...draft, lossless: rule.value }
+    case "bitrate":
+      return { ...draft, min: rule.min.toString() }
+    case "artist":
+      return { ...draft, contains: rule.contains }
+  }
+}
+
+// The server validates the values and explains what is wrong with them
+const toRule = (draft: RuleDraft): SmartRule => {
+  const toNumber = (text: string) => (text.trim() === "" ? undefined : Number(text))
+  switch (draft.field) {
+    case "genre":
+      return { field: "genre", values: draft.values.split(",").map((g) => g.trim()).filter(Boolean) }
+    case "year":
+      return { field: "year", min: toNumber(draft.min), max: toNumber(draft.max) }
+    case "lossless":
+      return { field: "lossless", value: draft.lossless }
+    case "bitrate":
+      return { field: "bitrate", min: toNumber(draft.min) ?? 0 }
+    case "artist":
+      return { field: "artist", contains: draft.contains }
+  }
+}
+
+/**
+ * Creates or edits a smart playlist: a name, a set of rules and whether a
+ * track has to match all of them or any of them.
+ */
+export function SmartPlaylistDialog({
+  open,
+  onOpenChange,
+  libraryPath,
+  playlist,
+  onSaved,
+}: SmartPlaylistDialogProps) {
+  const [name, setName] = useState("")
+  const [match, setMatch] = useState<SmartMatchMode>("all")
+  const [rules, setRules] = useState<RuleDraft[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setName(playlist?.name ?? "")
+      setMatch(playlist?.match ?? "all")
+      setRules(playlist ? playlist.rules.map(toDraft) : [emptyDraft("genre")])
+      setError(null)
+    }
+  }, [open, playlist])
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+      const url = playlist
+        ? `${apiUrl}/api/smart-playlists/${encodeURIComponent(playlist.name)}`
+        : `${apiUrl}/api/smart-playlists`
+      const response = await fetch(url, {
+        method: playlist ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          libraryPath,
+          playlist: { name: name.trim(), match, rules: rules.map(toRule) },
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save smart playlist')
+
+      onSaved(data.playlist)
+      onOpenChange(false)
+    } catch (err) {
+      console.error(err)
+      setError(err instanceof Error ? err.message : 'Failed to save smart playlist')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderInputs = (rule: RuleDraft, index: number) => {
+    switch (rule.field) {
+      case "genre":
+        return (
+          <Input
+            placeholder="Rock, Blues"
+            value={rule.values}
+            onChange={(e) => updateRule(index, { values: e.target.value })}
+          />
+        )
+      case "year":
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              placeholder="From"
+              value={rule.min}
+              onChange={(e) => updateRule(index, { min: e.target.value })}
+            />
+            <span className="text-sm text-muted-foreground">and</span>
+            <Input
+              type="number"
+              placeholder="To"
+              value={rule.max}
+              onChange={(e) => updateRule(index, { max: e.target.value })}
+            />
+          </div>
+        )
+      case "lossless":
+        return (
+          <RadioGroup
+            className="flex gap-4"
+            value={rule.lossless ? "lossless" : "lossy"}
+            onValueChange={(v) => updateRule(index, { lossless: v === "lossless" })}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="lossless" id={`rule-${index}-lossless`} />
+              <Label htmlFor={`rule-${index}-lossless`}>Lossless</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="lossy" id={`rule-${index}-lossy`} />
+              <Label htmlFor={`rule-${index}-lossy`}>Lossy</Label>
+            </div>
+          </RadioGroup>
+        )
+      case "bitrate":
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              placeholder="320"
+              value={rule.min}
+              onChange={(e) => updateRule(index, { min: e.target.value })}
+            />
+            <span className="text-sm text-muted-foreground">kbps</span>
+          </div>
+        )
+      case "artist":
+        return (
+          <Input
+            placeholder="Artist or album artist"
+            value={rule.contains}
+            onChange={(e) => updateRule(index, { contains: e.target.value })}
+          />
+        )
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{playlist ? "Edit Smart Playlist" : "New Smart Playlist"}</DialogTitle>
+          <DialogDescription>
+            The playlist is rebuilt from these rules every time the library changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 py-2">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="smart-name">Name</Label>
+            <Input
+              id="smart-name"
+              placeholder="Lossless 70s Rock"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>Match</Label>
+            <RadioGroup
+              className="flex gap-4"
+              value={match}
+              onValueChange={(v) => setMatch(v as SmartMatchMode)}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="all" id="match-all" />
+                <Label htmlFor="match-all">All rules</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="any" id="match-any" />
+                <Label htmlFor="match-any">Any rule</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            {rules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-32 shrink-0 text-sm font-medium">{FIELD_LABELS[rule.field]}</span>
+                <div className="flex-1">{renderInputs(rule, index)}</div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">Remove rule</span>
+                </Button>
+              </div>
+            ))}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="self-start">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add rule
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {(Object.keys(FIELD_LABELS) as RuleField[]).map((field) => (
+                  <DropdownMenuItem
+                    key={field}
+                    onClick={() => setRules((prev) => [...prev, emptyDraft(field)])}
+                  >
+                    {FIELD_LABELS[field]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name.trim() || rules.length === 0 || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
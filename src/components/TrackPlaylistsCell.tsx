@@ -10,12 +10,13 @@ import {
 } from "@/components/ui/popover"
 import { Music, ChevronDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { trackApiUrl, type TrackRef } from "@/lib/tracks"
 
 interface TrackPlaylistsCellProps {
-  trackPath: string
+  track: TrackRef
 }
 
-export function TrackPlaylistsCell({ trackPath }: TrackPlaylistsCellProps) {
+export function TrackPlaylistsCell({ track: { id, path } }: TrackPlaylistsCellProps) {
   const { config } = useAppConfig()
   const navigate = useNavigate()
   const { refreshKey } = usePlaylistRefresh();
@@ -28,9 +29,8 @@ export function TrackPlaylistsCell({ trackPath }: TrackPlaylistsCellProps) {
 
       setIsLoading(true);
       try {
-        const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001";
         const response = await fetch(
-          `${apiUrl}/api/tracks/playlists?trackPath=${encodeURIComponent(trackPath)}&libraryPath=${encodeURIComponent(config.libraryPath)}`,
+          trackApiUrl({ id, path }, "playlists", { libraryPath: config.libraryPath }),
         );
 
         if (!response.ok) throw new Error("Failed to fetch playlists");
@@ -46,7 +46,7 @@ export function TrackPlaylistsCell({ trackPath }: TrackPlaylistsCellProps) {
     };
 
     fetchPlaylists();
-  }, [trackPath, config.libraryPath, refreshKey]);
+  }, [id, path, config.libraryPath, refreshKey]);
 
   const handlePlaylistClick = (playlistName: string) => {
     navigate(`/playlists/${encodeURIComponent(playlistName)}`)
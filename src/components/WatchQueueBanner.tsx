@@ -0,0 +1,65 @@
+import { Eye, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { WatchQueueItem } from "@/server/services/InboxWatcherService"
+
+interface WatchQueueBannerProps {
+  queue: WatchQueueItem[]
+  onReview: (items: WatchQueueItem[]) => void
+  onDismiss: (item: WatchQueueItem) => void
+}
+
+const folderName = (folderPath: string) => folderPath.split(/[\\/]/).pop() || folderPath
+
+function describeItem(item: WatchQueueItem): string {
+  if (item.status === "failed") return item.error || "Unknown error"
+  if (item.status === "organized" && item.organize) {
+    const { summary } = item.organize
+    const placed = summary.moved + summary.renamed + summary.replaced
+    return `Organized automatically: ${placed} file(s)${summary.failed > 0 ? `, ${summary.failed} failed` : ""}`
+  }
+  return item.reason || `${item.results.length} file(s) ready for review`
+}
+
+/**
+ * Folders picked up by the inbox watcher since the last visit.
+ */
+export function WatchQueueBanner({ queue, onReview, onDismiss }: WatchQueueBannerProps) {
+  if (queue.length === 0) return null
+
+  const pending = queue.filter((item) => item.status === "pending-review")
+
+  return (
+    <div className="w-full max-w-6xl p-4 flex flex-col gap-3 rounded-md border bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800">
+      <div className="flex items-center justify-between gap-4">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <Eye className="h-4 w-4" />
+          New inbox folders
+        </p>
+        {pending.length > 0 && (
+          <Button size="sm" onClick={() => onReview(pending)}>
+            Review {pending.length} folder(s)
+          </Button>
+        )}
+      </div>
+
+      <ul className="flex flex-col gap-1 text-sm">
+        {queue.map((item) => (
+          <li key={item.id} className="flex items-center gap-2">
+            <Badge variant={item.status === "failed" ? "destructive" : "secondary"}>
+              {item.status === "pending-review" ? "Review" : item.status === "organized" ? "Organized" : "Failed"}
+            </Badge>
+            <span className="font-medium truncate">{folderName(item.folder)}</span>
+            <span className="text-xs text-muted-foreground truncate">{describeItem(item)}</span>
+            {item.status !== "pending-review" && (
+              <Button variant="ghost" size="icon" className="ml-auto h-6 w-6" onClick={() => onDismiss(item)}>
+                <X className="h-3 w-3" />
+                <span className="sr-only">Dismiss</span>
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
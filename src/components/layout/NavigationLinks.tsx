@@ -1,10 +1,11 @@
 import { NavLink } from 'react-router-dom';
-import { Library, ListMusic, Settings } from "lucide-react";
+import { HeartPulse, Library, ListMusic, Settings } from "lucide-react";
 
 // Definimos nuestra lista de rutas una sola vez
 const NAV_ITEMS = [
     { name: "Biblioteca", path: "/", icon: Library },
     { name: "Playlists", path: "/playlists", icon: ListMusic },
+    { name: "Salud", path: "/health", icon: HeartPulse },
     { name: "Ajustes", path: "/settings", icon: Settings },
 ];
 
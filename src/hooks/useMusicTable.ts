@@ -1,18 +1,24 @@
-import type { SongMetadata } from "@/server/services/OrganizerService";
+import type { SongMetadata, DuplicateInfo } from "@/server/services/OrganizerService";
 import { useState, useMemo } from "react";
 
-export type { SongMetadata };
+export type { SongMetadata, DuplicateInfo };
 
 export interface ScanResult {
   file: string;
   metadata: SongMetadata;
   proposedPath: string;
   playlists: string[];
+  duplicate?: DuplicateInfo;
 }
 
-export type SortField = "title" | "artist" | "album" | "genre";
+// "position" keeps the order of the data (e.g. the playlist order)
+export type SortField = "position" | "title" | "artist" | "albumArtist" | "album" | "genre";
+
 export type SortDirection = "asc" | "desc";
 
+// Name compilations are filed under until the configured one is known
+export const DEFAULT_VARIOUS_ARTISTS = "Various Artists";
+
 /**
  * Normalize text for fuzzy search:
  * - Convert to lowercase
@@ -38,9 +44,43 @@ const fuzzyMatch = (text: string, query: string): boolean => {
   return normalizedText.includes(normalizedQuery);
 };
 
-export function useMusicTable(data: ScanResult[]) {
+/**
+ * Format the track position, prefixing the disc on multi-disc releases (e.g. "2-05")
+ */
+export const formatTrackPosition = (metadata: SongMetadata): string => {
+  const { discNo, discTotal, trackNo } = metadata;
+  const isMultiDisc = !!discNo && ((discTotal ?? 0) > 1 || discNo > 1);
+  return isMultiDisc ? `${discNo}-${trackNo}` : trackNo;
+};
+
+/**
+ * Resolve the artist an album is grouped under, in the order the naming
+ * template files it: compilation, then album artist, then track artist
+ */
+export const getAlbumArtist = (
+  metadata: SongMetadata,
+  variousArtists: string = DEFAULT_VARIOUS_ARTISTS,
+): string => {
+  if (metadata.compilation) return variousArtists;
+  return metadata.albumArtist || metadata.artist;
+};
+
+/**
+ * Compare two tracks of the same album by disc and then track number
+ */
+const compareAlbumPosition = (a: SongMetadata, b: SongMetadata): number => {
+  const discComparison = (a.discNo ?? 1) - (b.discNo ?? 1);
+  if (discComparison !== 0) return discComparison;
+  return (parseInt(a.trackNo, 10) || 0) - (parseInt(b.trackNo, 10) || 0);
+};
+
+export function useMusicTable(
+  data: ScanResult[],
+  initialSortField: SortField = "title",
+  variousArtists: string = DEFAULT_VARIOUS_ARTISTS,
+) {
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortField, setSortField] = useState<SortField>("title");
+  const [sortField, setSortField] = useState<SortField>(initialSortField);
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
 
   // Filter data based on search query
@@ -56,15 +96,19 @@ export function useMusicTable(data: ScanResult[]) {
       return (
         fuzzyMatch(title, searchQuery) ||
         fuzzyMatch(artist, searchQuery) ||
+        fuzzyMatch(getAlbumArtist(item.metadata, variousArtists), searchQuery) ||
         fuzzyMatch(album, searchQuery) ||
         genre.some((g) => fuzzyMatch(g, searchQuery))
       );
     });
-  }, [data, searchQuery]);
+  }, [data, searchQuery, variousArtists]);
 
   // Sort filtered data
   const sortedData = useMemo(() => {
     const sorted = [...filteredData];
+    if (sortField === "position") {
+      return sortDirection === "asc" ? sorted : sorted.reverse();
+    }
 
     sorted.sort((a, b) => {
       let aValue: string;
@@ -79,6 +123,10 @@ export function useMusicTable(data: ScanResult[]) {
           aValue = a.metadata.artist;
           bValue = b.metadata.artist;
           break;
+        case "albumArtist":
+          aValue = getAlbumArtist(a.metadata, variousArtists);
+          bValue = getAlbumArtist(b.metadata, variousArtists);
+          break;
         case "album":
           aValue = a.metadata.album;
           bValue = b.metadata.album;
@@ -91,12 +139,20 @@ export function useMusicTable(data: ScanResult[]) {
           return 0;
       }
 
-      const comparison = aValue.localeCompare(bValue);
+      let comparison = aValue.localeCompare(bValue);
+      if (comparison === 0 && sortField === "albumArtist") {
+        // Group whole albums together under their album artist
+        comparison = a.metadata.album.localeCompare(b.metadata.album);
+      }
+      if (comparison === 0 && (sortField === "album" || sortField === "albumArtist")) {
+        // Keep album tracks in disc/track order regardless of direction
+        return compareAlbumPosition(a.metadata, b.metadata);
+      }
       return sortDirection === "asc" ? comparison : -comparison;
     });
 
     return sorted;
-  }, [filteredData, sortField, sortDirection]);
+  }, [filteredData, sortField, sortDirection, variousArtists]);
 
   // Toggle sort direction or change field
   const handleSort = (field: SortField) => {
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react"
+import { DEFAULT_VARIOUS_ARTISTS } from "@/hooks/useMusicTable"
+
+// Loaded once per session; every table shows the same configured name
+let request: Promise<string> | null = null
+
+function fetchVariousArtistsName(): Promise<string> {
+    request ??= (async () => {
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/naming`)
+            if (!response.ok) throw new Error("Failed to load naming settings")
+            const data: { variousArtists?: string } = await response.json()
+            return data.variousArtists || DEFAULT_VARIOUS_ARTISTS
+        } catch (error) {
+            console.error("Error loading the various artists name:", error)
+            request = null // Try again on the next mount
+            return DEFAULT_VARIOUS_ARTISTS
+        }
+    })()
+    return request
+}
+
+/**
+ * The name compilations are filed under, as configured for the naming template
+ */
+export function useVariousArtistsName(): string {
+    const [name, setName] = useState(DEFAULT_VARIOUS_ARTISTS)
+
+    useEffect(() => {
+        let active = true
+        fetchVariousArtistsName().then((value) => {
+            if (active) setName(value)
+        })
+        return () => {
+            active = false
+        }
+    }, [])
+
+    return name
+}
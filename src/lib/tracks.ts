@@ -0,0 +1,41 @@
+/**
+ * A track as the client refers to it: by id when it is in the library
+ * database, by absolute path otherwise (inbox files, links from before ids).
+ */
+export interface TrackRef {
+  id?: string
+  path?: string
+}
+
+type TrackResource = "metadata" | "cover" | "playlists"
+
+const apiUrl = () => import.meta.env.VITE_API_URL || "http://localhost:3001"
+
+/**
+ * URL of a track resource: /api/tracks/:id/<resource> for library tracks,
+ * /api/tracks/<resource>?trackPath= otherwise.
+ */
+export function trackApiUrl(track: TrackRef, resource: TrackResource, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(params)
+  if (track.id) {
+    const search = query.toString()
+    return `${apiUrl()}/api/tracks/${encodeURIComponent(track.id)}/${resource}${search ? `?${search}` : ""}`
+  }
+  query.set("trackPath", track.path || "")
+  return `${apiUrl()}/api/tracks/${resource}?${query}`
+}
+
+/**
+ * Client route of the track detail page.
+ */
+export function trackRoute(track: TrackRef): string {
+  return `/track/${encodeURIComponent(track.id || track.path || "")}`
+}
+
+/**
+ * Reads the (already decoded) :trackRef route param. Ids never contain path
+ * separators, so anything that does is an absolute path.
+ */
+export function parseTrackRef(param: string): TrackRef {
+  return /[\\/]/.test(param) ? { path: param } : { id: param }
+}
@@ -0,0 +1,223 @@
+import { useAppConfig } from "@/hooks/useAppConfig"
+import { useCallback, useEffect, useState } from "react"
+import type { ReactNode } from "react"
+import { Link } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { TitleBar } from "@/components/layout/TitleBar"
+import { CheckCircle2, Loader2, RefreshCw, Wrench } from "lucide-react"
+import { trackRoute } from "@/lib/tracks"
+import type { HealthFix, HealthReport } from "@/server/services/LibraryHealthService"
+
+const PLACEHOLDER_LABELS = {
+    artist: "Unknown Artist",
+    genre: "Genre Otros",
+    trackNo: "Track 00",
+} as const
+
+interface HealthSectionProps {
+    title: string
+    description: string
+    count: number
+    fix?: { label: string; onClick: () => void; disabled: boolean }
+    children: ReactNode
+}
+
+function HealthSection({ title, description, count, fix, children }: HealthSectionProps) {
+    return (
+        <div className="w-full max-w-6xl flex flex-col gap-3 p-4 border rounded-lg">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex flex-col">
+                    <h2 className="flex items-center gap-2 font-semibold">
+                        {title}
+                        <Badge variant={count > 0 ? "destructive" : "secondary"}>{count}</Badge>
+                    </h2>
+                    <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                {fix && count > 0 && (
+                    <Button size="sm" variant="outline" onClick={fix.onClick} disabled={fix.disabled}>
+                        <Wrench className="h-4 w-4 mr-2" />
+                        {fix.label}
+                    </Button>
+                )}
+            </div>
+            {count === 0 ? (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                    <CheckCircle2 className="h-4 w-4" /> No problems found
+                </p>
+            ) : (
+                <ul className="flex flex-col gap-1 text-sm max-h-64 overflow-y-auto">{children}</ul>
+            )}
+        </div>
+    )
+}
+
+export function HealthPage() {
+    const { config } = useAppConfig()
+    const [report, setReport] = useState<HealthReport | null>(null)
+    const [isChecking, setIsChecking] = useState(false)
+    const [fixing, setFixing] = useState<HealthFix | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+
+    const runCheck = useCallback(async () => {
+        if (!config.libraryPath) return
+        setIsChecking(true)
+        setError(null)
+        try {
+            const response = await fetch(`${apiUrl}/api/library/health?libraryPath=${encodeURIComponent(config.libraryPath)}`)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to check library')
+            setReport(data)
+        } catch (err) {
+            console.error(err)
+            setError(err instanceof Error ? err.message : 'Failed to check library')
+        } finally {
+            setIsChecking(false)
+        }
+    }, [apiUrl, config.libraryPath])
+
+    useEffect(() => {
+        runCheck()
+    }, [runCheck])
+
+    const applyFix = async (fix: HealthFix) => {
+        setFixing(fix)
+        setError(null)
+        try {
+            const response = await fetch(`${apiUrl}/api/library/health/fix`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ libraryPath: config.libraryPath, fix }),
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Fix failed')
+            setReport(data)
+        } catch (err) {
+            console.error(err)
+            setError(err instanceof Error ? err.message : 'Fix failed')
+        } finally {
+            setFixing(null)
+        }
+    }
+
+    const fixButton = (fix: HealthFix, label: string) => ({
+        label,
+        onClick: () => applyFix(fix),
+        disabled: fixing !== null || isChecking,
+    })
+
+    return (
+        <section className="w-full flex flex-col justify-start items-center p-8 gap-6">
+
+            <TitleBar title="Library Health" />
+
+            <div className="w-full max-w-6xl flex items-center justify-between">
+                <div className="flex flex-col">
+                    <h1 className="text-3xl font-bold">Library Health</h1>
+                    <p className="text-muted-foreground">
+                        {report
+                            ? `${report.trackCount} tracks checked on ${new Date(report.checkedAt).toLocaleString()}`
+                            : "Checks the database against the files and playlists on disk"}
+                    </p>
+                </div>
+                <Button onClick={runCheck} disabled={isChecking || fixing !== null}>
+                    {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                    Run Check
+                </Button>
+            </div>
+
+            {error && (
+                <div className="w-full max-w-6xl text-red-500 bg-red-50 p-4 rounded-md border border-red-200">
+                    Error: {error}
+                </div>
+            )}
+
+            {!report && isChecking && (
+                <div className="w-full h-[30vh] flex flex-col justify-center items-center">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    <p className="text-muted-foreground mt-2">Checking library...</p>
+                </div>
+            )}
+
+            {report && (
+                <>
+                    <HealthSection
+                        title="Missing files"
+                        description="Tracks in the database whose file is gone"
+                        count={report.missingFiles.length}
+                        fix={fixButton("remove-missing", "Remove from database")}
+                    >
+                        {report.missingFiles.map((issue) => (
+                            <li key={issue.path} className="flex flex-col">
+                                <span className="font-medium">{issue.artist} - {issue.title}</span>
+                                <span className="text-xs text-muted-foreground truncate">{issue.path}</span>
+                            </li>
+                        ))}
+                    </HealthSection>
+
+                    <HealthSection
+                        title="Files not in the database"
+                        description="Audio files in the library folder that the database does not list"
+                        count={report.untrackedFiles.length}
+                        fix={fixButton("add-untracked", "Add to database")}
+                    >
+                        {report.untrackedFiles.map((filePath) => (
+                            <li key={filePath} className="truncate">{filePath}</li>
+                        ))}
+                    </HealthSection>
+
+                    <HealthSection
+                        title="Broken playlist entries"
+                        description="Playlist lines that do not point to an existing file"
+                        count={report.brokenPlaylistEntries.length}
+                        fix={fixButton("remove-broken-entries", "Remove entries")}
+                    >
+                        {report.brokenPlaylistEntries.map((issue) => (
+                            <li key={`${issue.playlist}:${issue.entry}`} className="flex items-center gap-2">
+                                <Link to={`/playlists/${encodeURIComponent(issue.playlist)}`}>
+                                    <Badge variant="secondary">{issue.playlist}</Badge>
+                                </Link>
+                                <span className="truncate">{issue.entry}</span>
+                            </li>
+                        ))}
+                    </HealthSection>
+
+                    <HealthSection
+                        title="Placeholder metadata"
+                        description="Tracks organized without artist, genre or track number tags. Open a track to edit its metadata."
+                        count={report.placeholderMetadata.length}
+                    >
+                        {report.placeholderMetadata.map((issue) => (
+                            <li key={issue.path} className="flex items-center gap-2">
+                                <Link
+                                    to={trackRoute({ id: issue.trackId, path: issue.path })}
+                                    className="font-medium truncate hover:underline"
+                                >
+                                    {issue.title}
+                                </Link>
+                                {issue.fields.map((field) => (
+                                    <Badge key={field} variant="outline">{PLACEHOLDER_LABELS[field]}</Badge>
+                                ))}
+                            </li>
+                        ))}
+                    </HealthSection>
+
+                    <HealthSection
+                        title="Unreadable files"
+                        description="Files whose tags could not be parsed. They may be damaged or incomplete."
+                        count={report.unreadableFiles.length}
+                    >
+                        {report.unreadableFiles.map((issue) => (
+                            <li key={issue.path} className="flex flex-col">
+                                <span className="truncate">{issue.path}</span>
+                                <span className="text-xs text-red-500">{issue.error}</span>
+                            </li>
+                        ))}
+                    </HealthSection>
+                </>
+            )}
+        </section>
+    )
+}
@@ -12,14 +12,19 @@ import {
   MoreVertical,
   HardDriveDownload,
   RefreshCw,
+  DatabaseZap,
   Music,
   Plus,
+  Trash2,
 } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { CreatePlaylistDialog } from "@/components/CreatePlaylistDialog"
@@ -28,6 +33,22 @@ import { ExportPlaylistDialog } from "@/components/ExportPlaylistDialog";
 import type { ScanResult, SongMetadata } from "@/hooks/useMusicTable"
 import { ToolbarAction } from "@/components/layout/ToolbarAction";
 import { TitleBar } from "@/components/layout/TitleBar";
+import { OrganizeSummary } from "@/components/OrganizeSummary";
+import type { ConflictPolicy, OrganizeResult } from "@/server/services/OrganizerService";
+import type { PlaylistFormat } from "@/server/services/PlaylistFormatService";
+import type { ExportProfile } from "@/server/services/TranscodeService";
+import { WatchQueueBanner } from "@/components/WatchQueueBanner";
+import type { WatchQueueItem } from "@/server/services/InboxWatcherService";
+
+// How often the inbox watcher queue is checked while this page is open
+const WATCH_REFRESH_MS = 15000;
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  skip: "Skip",
+  rename: "Keep both (rename)",
+  replace: "Replace",
+  "replace-if-better": "Replace if better quality",
+};
 
 export function LibraryPage() {
   const { config } = useAppConfig();
@@ -46,6 +67,10 @@ export function LibraryPage() {
   const [isSyncingAppleMusic, setIsSyncingAppleMusic] = useState(false);
 
   const [error, setError] = useState<string | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>("skip");
+  const [organizeResult, setOrganizeResult] = useState<OrganizeResult | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [watchQueue, setWatchQueue] = useState<WatchQueueItem[]>([]);
 
   // Add to Playlist State
   const [trackToAdd, setTrackToAdd] = useState<ScanResult | null>(null);
@@ -131,6 +156,21 @@ export function LibraryPage() {
     }
   };
 
+  const duplicateCount = scanResults.filter(
+    (item) => item.duplicate && item.duplicate.status !== "new",
+  ).length;
+
+  // Only removes files from the pending scan; nothing is deleted from disk
+  const handleDropFromScan = (file: string) => {
+    setScanResults((prev) => prev.filter((item) => item.file !== file));
+  };
+
+  const handleDropDuplicates = () => {
+    setScanResults((prev) =>
+      prev.filter((item) => !item.duplicate || item.duplicate.status === "new"),
+    );
+  };
+
   const handleOrganize = async () => {
     if (scanResults.length === 0 || !config.libraryPath) return;
 
@@ -143,12 +183,15 @@ export function LibraryPage() {
         body: JSON.stringify({
           results: scanResults,
           libraryPath: config.libraryPath,
+          policy: conflictPolicy,
         }),
       });
 
       if (!response.ok) throw new Error("Organization failed");
 
       // Success! Refresh library
+      const data: OrganizeResult = await response.json();
+      setOrganizeResult(data);
       setScanResults([]);
       await fetchLibrary();
     } catch (err) {
@@ -159,11 +202,87 @@ export function LibraryPage() {
     }
   };
 
+  const handleUndoOrganize = async () => {
+    if (!organizeResult || !config.libraryPath) return;
+
+    setIsUndoing(true);
+    try {
+      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001";
+      const response = await fetch(
+        `${apiUrl}/api/operations/${encodeURIComponent(organizeResult.operationId)}/undo`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ libraryPath: config.libraryPath }),
+        },
+      );
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Undo failed");
+      setOrganizeResult(null);
+      await scanInbox();
+
+      // Files are back in the inbox; report anything that could not be restored
+      if (data.failures?.length > 0) {
+        setError(`Undo finished with ${data.failures.length} problem(s): ${data.failures[0]}`);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
   useEffect(() => {
     // Auto-scan on mount
     scanInbox();
   }, [config.inboxPath, config.libraryPath]);
 
+  useEffect(() => {
+    // Pick up folders queued by the inbox watcher
+    const fetchWatchQueue = async () => {
+      try {
+        const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001";
+        const response = await fetch(`${apiUrl}/api/watch`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setWatchQueue(data.queue);
+      } catch (err) {
+        console.error("Error fetching watch queue:", err);
+      }
+    };
+
+    fetchWatchQueue();
+    const interval = setInterval(fetchWatchQueue, WATCH_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const dismissWatchItem = async (item: WatchQueueItem) => {
+    setWatchQueue((prev) => prev.filter((queued) => queued.id !== item.id));
+    try {
+      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001";
+      await fetch(`${apiUrl}/api/watch/queue/${encodeURIComponent(item.id)}`, {
+        method: "DELETE",
+      });
+    } catch (err) {
+      console.error("Error dismissing watch queue item:", err);
+    }
+  };
+
+  // Moves queued folders into the pending scan so they are organized as usual
+  const handleReviewWatched = async (items: WatchQueueItem[]) => {
+    setScanResults((prev) => {
+      const known = new Set(prev.map((item) => item.file));
+      const added = items
+        .flatMap((item) => item.results)
+        .filter((result) => !known.has(result.file));
+      return [...prev, ...added];
+    });
+    setViewMode("scan");
+    await Promise.all(items.map(dismissWatchItem));
+  };
+
   const handleTrackAction = (track: ScanResult) => {
     setTrackToAdd(track);
     setIsAddToPlaylistOpen(true);
@@ -194,6 +313,8 @@ export function LibraryPage() {
     destination: string,
     mode: "copy" | "move",
     preserveStructure: boolean,
+    _format?: PlaylistFormat,
+    profile?: ExportProfile,
   ) => {
     if (!config.libraryPath) return;
 
@@ -206,6 +327,7 @@ export function LibraryPage() {
         destination,
         mode,
         preserveStructure,
+        profile,
       }),
     });
 
@@ -219,7 +341,8 @@ export function LibraryPage() {
     }
   };
 
-  const handleRegenerateDatabase = async () => {
+  // Incremental by default; force re-parses every file
+  const handleRegenerateDatabase = async (force = false) => {
     if (!config.libraryPath) return;
 
     setIsRegenerating(true);
@@ -232,6 +355,7 @@ export function LibraryPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           libraryPath: config.libraryPath,
+          force,
         }),
       });
 
@@ -295,7 +419,13 @@ export function LibraryPage() {
           <ToolbarAction
             icon={isRegenerating ? Loader2 : RefreshCw}
             label={isRegenerating ? "Regenerating..." : "Regenerate Database"}
-            onClick={handleRegenerateDatabase}
+            onClick={() => handleRegenerateDatabase()}
+            disabled={isRegenerating}
+          />
+          <ToolbarAction
+            icon={DatabaseZap}
+            label="Full Rebuild"
+            onClick={() => handleRegenerateDatabase(true)}
             disabled={isRegenerating}
           />
 
@@ -350,6 +480,35 @@ export function LibraryPage() {
         </div>
 
         <div className="flex gap-2">
+          {viewMode === "scan" && duplicateCount > 0 && (
+            <Button variant="outline" onClick={handleDropDuplicates}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Drop Duplicates ({duplicateCount})
+            </Button>
+          )}
+          {viewMode === "scan" && scanResults.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  On conflict: {CONFLICT_POLICY_LABELS[conflictPolicy]}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>If the file already exists</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup
+                  value={conflictPolicy}
+                  onValueChange={(v) => setConflictPolicy(v as ConflictPolicy)}
+                >
+                  {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((policy) => (
+                    <DropdownMenuRadioItem key={policy} value={policy}>
+                      {CONFLICT_POLICY_LABELS[policy]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           {viewMode === "scan" && scanResults.length > 0 && (
             <Button
               onClick={handleOrganize}
@@ -424,6 +583,21 @@ export function LibraryPage() {
         </div>
       )}
 
+      <WatchQueueBanner
+        queue={watchQueue}
+        onReview={handleReviewWatched}
+        onDismiss={dismissWatchItem}
+      />
+
+      {organizeResult && (
+        <OrganizeSummary
+          result={organizeResult}
+          isUndoing={isUndoing}
+          onUndo={handleUndoOrganize}
+          onDismiss={() => setOrganizeResult(null)}
+        />
+      )}
+
       {error && (
         <div className="w-full max-w-6xl p-4 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
           <p className="text-sm font-medium text-red-900 dark:text-red-100">
@@ -470,7 +644,21 @@ export function LibraryPage() {
 
           {viewMode === "scan" ? (
             scanResults.length > 0 ? (
-              <MusicTable data={scanResults} />
+              <MusicTable
+                data={scanResults}
+                showDuplicateColumn={true}
+                renderRowAction={(track) => (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleDropFromScan(track.file)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove from scan</span>
+                  </Button>
+                )}
+              />
             ) : (
               <div className="text-center py-10 border rounded-md bg-slate-50 dark:bg-slate-900 border-dashed">
                 <p className="text-muted-foreground">Inbox is empty.</p>
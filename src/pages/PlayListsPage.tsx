@@ -2,22 +2,25 @@ import { useAppConfig } from "@/hooks/useAppConfig"
 import { useEffect, useState } from "react"
 import { useNavigate } from "react-router-dom"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Disc, Music, Loader2 } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Check, FolderPlus, Loader2, Upload, Sparkles, X } from "lucide-react"
 import { TitleBar } from "@/components/layout/TitleBar"
-
-interface Playlist {
-    name: string
-    count: number
-    path: string
-}
+import { ImportPlaylistDialog } from "@/components/ImportPlaylistDialog"
+import { SmartPlaylistDialog } from "@/components/SmartPlaylistDialog"
+import { PlaylistFolderTree } from "@/components/PlaylistFolderTree"
+import type { PlaylistFolder } from "@/server/services/OrganizerService"
 
 export function PlayListsPage() {
     const { config } = useAppConfig()
     const navigate = useNavigate()
 
-    const [playlists, setPlaylists] = useState<Playlist[]>([])
+    const [tree, setTree] = useState<PlaylistFolder | null>(null)
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    const [isImportOpen, setIsImportOpen] = useState(false)
+    const [isSmartOpen, setIsSmartOpen] = useState(false)
+    const [newFolder, setNewFolder] = useState<string | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
 
     // Fetch List of Playlists
     useEffect(() => {
@@ -29,7 +32,7 @@ export function PlayListsPage() {
                 const response = await fetch(`${apiUrl}/api/playlists?libraryPath=${encodeURIComponent(config.libraryPath)}`)
                 if (!response.ok) throw new Error('Failed to fetch playlists')
                 const data = await response.json()
-                setPlaylists(data.playlists)
+                setTree(data.tree)
             } catch (err) {
                 console.error(err)
                 setError('Failed to load playlists')
@@ -41,6 +44,55 @@ export function PlayListsPage() {
         fetchPlaylists()
     }, [config.libraryPath])
 
+    // Folder and move requests all answer with the updated tree
+    const updateTree = async (path: string, init: RequestInit, fallback: string) => {
+        setActionError(null)
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/${path}`, init)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || fallback)
+            setTree(data.tree)
+            return true
+        } catch (err) {
+            console.error(err)
+            setActionError(err instanceof Error ? err.message : fallback)
+            return false
+        }
+    }
+
+    const handleCreateFolder = async () => {
+        const folder = newFolder?.trim()
+        if (!folder) {
+            setNewFolder(null)
+            return
+        }
+        const created = await updateTree('playlist-folders', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ libraryPath: config.libraryPath, path: folder }),
+        }, 'Failed to create folder')
+        if (created) setNewFolder(null)
+    }
+
+    const handleMove = (name: string, folder: string) => {
+        const current = name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : ''
+        if (current === folder) return
+        updateTree(`playlists/${encodeURIComponent(name)}/move`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ libraryPath: config.libraryPath, folder }),
+        }, 'Failed to move playlist')
+    }
+
+    const handleDeleteFolder = (folder: string) => {
+        updateTree(
+            `playlist-folders?libraryPath=${encodeURIComponent(config.libraryPath)}&path=${encodeURIComponent(folder)}`,
+            { method: 'DELETE' },
+            'Failed to delete folder',
+        )
+    }
+
     if (isLoading) {
         return (
             <div className="w-full h-[50vh] flex flex-col justify-center items-center">
@@ -75,27 +127,79 @@ export function PlayListsPage() {
                         <p className="text-muted-foreground">Your curated collections</p>
                     </div>
                 </div>
+                <div className="flex gap-2">
+                    {newFolder === null ? (
+                        <Button variant="outline" onClick={() => setNewFolder("")}>
+                            <FolderPlus className="h-4 w-4 mr-2" />
+                            New Folder
+                        </Button>
+                    ) : (
+                        <form
+                            className="flex items-center gap-1"
+                            onSubmit={(e) => {
+                                e.preventDefault()
+                                handleCreateFolder()
+                            }}
+                        >
+                            <Input
+                                autoFocus
+                                value={newFolder}
+                                placeholder="Road Trips/Summer"
+                                onChange={(e) => setNewFolder(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Escape' && setNewFolder(null)}
+                                className="w-56"
+                                aria-label="Folder name"
+                            />
+                            <Button type="submit" size="icon" variant="ghost">
+                                <Check className="h-4 w-4" />
+                                <span className="sr-only">Create folder</span>
+                            </Button>
+                            <Button type="button" size="icon" variant="ghost" onClick={() => setNewFolder(null)}>
+                                <X className="h-4 w-4" />
+                                <span className="sr-only">Cancel</span>
+                            </Button>
+                        </form>
+                    )}
+                    <Button variant="outline" onClick={() => setIsSmartOpen(true)}>
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        New Smart Playlist
+                    </Button>
+                    <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import
+                    </Button>
+                </div>
             </div>
 
-            <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {playlists.map(pl => (
-                    <div
-                        key={pl.name}
-                        className="group relative flex items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
-                        onClick={() => navigate(`/playlists/${encodeURIComponent(pl.name)}`)}
-                    >
-                        <div className="h-12 w-12 rounded-md bg-primary/10 flex items-center justify-center text-primary group-hover:scale-105 transition-transform">
-                            {pl.name.toLowerCase().includes('genre') ? <Disc className="h-6 w-6" /> : <Music className="h-6 w-6" />}
-                        </div>
-                        <div className="flex-1">
-                            <h3 className="font-semibold group-hover:text-primary transition-colors">{pl.name}</h3>
-                            <p className="text-sm text-muted-foreground">{pl.count} tracks</p>
-                        </div>
-                    </div>
-                ))}
+            <ImportPlaylistDialog
+                open={isImportOpen}
+                onOpenChange={setIsImportOpen}
+                libraryPath={config.libraryPath}
+                onImported={(name) => navigate(`/playlists/${encodeURIComponent(name)}`)}
+            />
+
+            <SmartPlaylistDialog
+                open={isSmartOpen}
+                onOpenChange={setIsSmartOpen}
+                libraryPath={config.libraryPath}
+                onSaved={(playlist) => navigate(`/playlists/${encodeURIComponent(`Smart_${playlist.name}`)}`)}
+            />
+
+            {actionError && (
+                <div className="w-full max-w-6xl text-sm text-red-500">{actionError}</div>
+            )}
 
-                {playlists.length === 0 && (
-                    <div className="col-span-full text-center py-20 text-muted-foreground">
+            <div className="w-full max-w-6xl">
+                {tree && (tree.folders.length > 0 || tree.playlists.length > 0) ? (
+                    <PlaylistFolderTree
+                        tree={tree}
+                        libraryPath={config.libraryPath}
+                        onOpen={(name) => navigate(`/playlists/${encodeURIComponent(name)}`)}
+                        onMove={handleMove}
+                        onDeleteFolder={handleDeleteFolder}
+                    />
+                ) : (
+                    <div className="text-center py-20 text-muted-foreground">
                         No playlists found. Scan some music to generate them!
                     </div>
                 )}
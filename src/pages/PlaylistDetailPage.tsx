@@ -3,7 +3,8 @@ import { useEffect, useState } from "react"
 import { useParams, useNavigate } from "react-router-dom"
 import { MusicTable } from "@/components/MusicTable"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Loader2, MoreVertical, Trash2, ListPlus, MinusCircle, HardDriveDownload, FolderSearch } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Loader2, MoreVertical, Trash2, ListPlus, MinusCircle, HardDriveDownload, FolderSearch, Link2, Pencil, Check, X, Sparkles, ImagePlus } from "lucide-react"
 import type { ScanResult, SongMetadata } from "@/hooks/useMusicTable";
 import {
     DropdownMenu,
@@ -26,8 +27,18 @@ import {
 import { AddToPlaylistDialog } from "@/components/AddToPlaylistDialog"
 import { CreatePlaylistDialog } from "@/components/CreatePlaylistDialog"
 import { ExportPlaylistDialog } from "@/components/ExportPlaylistDialog"
+import { RelinkPlaylistDialog } from "@/components/RelinkPlaylistDialog"
+import { SmartPlaylistDialog } from "@/components/SmartPlaylistDialog"
+import { PlaylistCover } from "@/components/PlaylistCover"
+import type { SmartPlaylist } from "@/server/services/SmartPlaylistService"
+import type { PlaylistMetadata } from "@/server/services/PlaylistMetadataService"
+import type { ExportProfile } from "@/server/services/TranscodeService"
+import type { PlaylistFormat } from "@/server/services/PlaylistFormatService"
 import { TitleBar } from "@/components/layout/TitleBar"
 
+// Playlists generated from the library (same prefixes as PLAYLIST_CONSTANTS on the server)
+const AUTO_PLAYLIST_PREFIXES = ["Genre_", "Artist_", "Decade_", "Format_", "Recent_"]
+
 export function PlaylistDetailPage() {
     const { config } = useAppConfig()
     const { name } = useParams<{ name: string }>()
@@ -51,6 +62,31 @@ export function PlaylistDetailPage() {
     // Export Playlist State
     const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
 
+    // Relink State (entries whose file is gone)
+    const [isRelinkDialogOpen, setIsRelinkDialogOpen] = useState(false)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    // Rename State (system playlists are generated and keep their names)
+    const [isRenaming, setIsRenaming] = useState(false)
+    const [newName, setNewName] = useState("")
+    const [renameError, setRenameError] = useState<string | null>(null)
+    const isSmartPlaylist = !!name && name.startsWith("Smart_")
+    const isSystemPlaylist = !!name && (
+        name.startsWith("00_Master") ||
+        AUTO_PLAYLIST_PREFIXES.some(prefix => name.startsWith(prefix)) ||
+        isSmartPlaylist
+    )
+
+    // Description, dates and cover (only custom playlists can be edited)
+    const [metadata, setMetadata] = useState<PlaylistMetadata | null>(null)
+    const [isEditingDescription, setIsEditingDescription] = useState(false)
+    const [description, setDescription] = useState("")
+    const [metadataError, setMetadataError] = useState<string | null>(null)
+
+    // Smart Playlist State (generated from rules, edited through them)
+    const [smartPlaylist, setSmartPlaylist] = useState<SmartPlaylist | undefined>(undefined)
+    const [isSmartDialogOpen, setIsSmartDialogOpen] = useState(false)
+
     // Fetch Playlist Details
     useEffect(() => {
         if (!name) return
@@ -75,6 +111,7 @@ export function PlaylistDetailPage() {
                 );
 
                 setPlaylistTracks(adapted)
+                setMetadata(data.metadata ?? null)
             } catch (err) {
                 console.error(err)
                 setError('Failed to load playlist details')
@@ -84,9 +121,27 @@ export function PlaylistDetailPage() {
         }
 
         fetchDetails()
-    }, [config.libraryPath, name])
+    }, [config.libraryPath, name, reloadKey])
+
+    const missingCount = playlistTracks.filter(t => t.metadata.missing).length
+
+    const openSmartPlaylistEditor = async () => {
+        if (!name || !config.libraryPath) return
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/smart-playlists?libraryPath=${encodeURIComponent(config.libraryPath)}`)
+            if (!response.ok) throw new Error('Failed to fetch smart playlists')
+            const data = await response.json()
+            const ruleName = name.slice("Smart_".length)
+            setSmartPlaylist(data.playlists.find((p: SmartPlaylist) => p.name === ruleName))
+            setIsSmartDialogOpen(true)
+        } catch (err) {
+            console.error(err)
+        }
+    }
 
     const handleRemoveTrack = async (trackPath: string) => {
+        const trackId = playlistTracks.find(t => t.file === trackPath)?.metadata.id
         if (!name || !config.libraryPath) return
 
         try {
@@ -96,7 +151,8 @@ export function PlaylistDetailPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     libraryPath: config.libraryPath,
-                    trackPath: trackPath
+                    trackId,
+                    trackPath
                 }),
             })
 
@@ -110,6 +166,117 @@ export function PlaylistDetailPage() {
         }
     }
 
+    // Playlists in folders are named "Folder/Playlist"; a rename keeps the folder
+    const slash = name ? name.lastIndexOf('/') : -1
+    const folder = slash >= 0 ? name!.slice(0, slash) : ""
+    const baseName = slash >= 0 ? name!.slice(slash + 1) : name
+
+    const startRename = () => {
+        setNewName(baseName || "")
+        setRenameError(null)
+        setIsRenaming(true)
+    }
+
+    const handleRename = async () => {
+        if (!name || !config.libraryPath) return
+        const trimmed = newName.trim()
+        if (!trimmed || trimmed === baseName) {
+            setIsRenaming(false)
+            return
+        }
+
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/playlists/${encodeURIComponent(name)}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    libraryPath: config.libraryPath,
+                    newName: folder ? `${folder}/${trimmed}` : trimmed,
+                }),
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to rename playlist')
+
+            setIsRenaming(false)
+            navigate(`/playlists/${encodeURIComponent(data.name)}`, { replace: true })
+        } catch (err) {
+            console.error(err)
+            setRenameError(err instanceof Error ? err.message : 'Failed to rename playlist')
+        }
+    }
+
+    // Description and cover requests all answer with the updated metadata
+    const updateMetadata = async (path: string, init: RequestInit, fallback: string) => {
+        if (!name) return false
+        setMetadataError(null)
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/playlists/${encodeURIComponent(name)}/${path}`, init)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || fallback)
+            setMetadata(data.metadata)
+            return true
+        } catch (err) {
+            console.error(err)
+            setMetadataError(err instanceof Error ? err.message : fallback)
+            return false
+        }
+    }
+
+    const handleSaveDescription = async () => {
+        const saved = await updateMetadata('metadata', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ libraryPath: config.libraryPath, description }),
+        }, 'Failed to save description')
+        if (saved) setIsEditingDescription(false)
+    }
+
+    const handleCoverFile = (file: File | undefined) => {
+        if (!file) return
+        const reader = new FileReader()
+        reader.onload = () => {
+            updateMetadata('cover', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ libraryPath: config.libraryPath, image: reader.result }),
+            }, 'Failed to set cover')
+        }
+        reader.readAsDataURL(file)
+    }
+
+    const handleRemoveCover = () => {
+        updateMetadata(`cover?libraryPath=${encodeURIComponent(config.libraryPath)}`, {
+            method: 'DELETE',
+        }, 'Failed to remove cover')
+    }
+
+    const handleReorder = async (from: number, to: number) => {
+        if (!name || !config.libraryPath) return
+
+        // Optimistic update; the server order is reloaded if the move fails
+        setPlaylistTracks(prev => {
+            const next = [...prev]
+            const [moved] = next.splice(from, 1)
+            next.splice(to, 0, moved)
+            return next
+        })
+
+        try {
+            const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
+            const response = await fetch(`${apiUrl}/api/playlists/${encodeURIComponent(name)}/reorder`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ libraryPath: config.libraryPath, from, to }),
+            })
+            if (!response.ok) throw new Error('Failed to reorder playlist')
+        } catch (err) {
+            console.error(err)
+            setReloadKey(key => key + 1)
+        }
+    }
+
     const handleDeletePlaylist = async () => {
         if (!name || !config.libraryPath) return
         setIsDeleting(true)
@@ -131,7 +298,13 @@ export function PlaylistDetailPage() {
         }
     }
 
-    const handleExport = async (destination: string, mode: 'copy' | 'move', preserveStructure: boolean) => {
+    const handleExport = async (
+        destination: string,
+        mode: 'copy' | 'move',
+        preserveStructure: boolean,
+        format?: PlaylistFormat,
+        profile?: ExportProfile,
+    ) => {
         if (!name || !config.libraryPath) return
 
         const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
@@ -142,7 +315,9 @@ export function PlaylistDetailPage() {
                 libraryPath: config.libraryPath,
                 destination,
                 mode,
-                preserveStructure
+                preserveStructure,
+                format,
+                profile
             }),
         })
 
@@ -237,6 +412,25 @@ export function PlaylistDetailPage() {
                 onConfirm={handleExport}
             />
 
+            <RelinkPlaylistDialog
+                open={isRelinkDialogOpen}
+                onOpenChange={setIsRelinkDialogOpen}
+                playlistName={name || ''}
+                libraryPath={config.libraryPath}
+                onSuccess={() => setReloadKey(key => key + 1)}
+            />
+
+            <SmartPlaylistDialog
+                open={isSmartDialogOpen}
+                onOpenChange={setIsSmartDialogOpen}
+                libraryPath={config.libraryPath}
+                playlist={smartPlaylist}
+                onSaved={(playlist) => {
+                    navigate(`/playlists/${encodeURIComponent(`Smart_${playlist.name}`)}`, { replace: true })
+                    setReloadKey(key => key + 1)
+                }}
+            />
+
             <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
                 <AlertDialogContent>
                     <AlertDialogHeader>
@@ -267,12 +461,144 @@ export function PlaylistDetailPage() {
                     <Button variant="ghost" size="icon" onClick={() => navigate('/playlists')}>
                         <ArrowLeft className="h-5 w-5" />
                     </Button>
+                    {name && (
+                        <div className="flex flex-col items-center gap-1">
+                            <PlaylistCover
+                                libraryPath={config.libraryPath}
+                                name={name}
+                                version={metadata?.updatedAt}
+                                size="xl"
+                            />
+                            {!isSystemPlaylist && (
+                                <div className="flex gap-1">
+                                    <Button asChild size="sm" variant="ghost" className="h-7 px-2 text-xs cursor-pointer">
+                                        <label>
+                                            <ImagePlus className="mr-1 h-3 w-3" />
+                                            Change cover
+                                            <input
+                                                type="file"
+                                                accept="image/jpeg,image/png,image/webp"
+                                                className="hidden"
+                                                onChange={(e) => {
+                                                    handleCoverFile(e.target.files?.[0])
+                                                    e.target.value = ""
+                                                }}
+                                            />
+                                        </label>
+                                    </Button>
+                                    {metadata?.customCover && (
+                                        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={handleRemoveCover}>
+                                            <X className="mr-1 h-3 w-3" />
+                                            Use collage
+                                        </Button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
                     <div className="flex flex-col gap-1">
-                        <h1 className="text-3xl font-bold tracking-tight">{name}</h1>
-                        <p className="text-muted-foreground">{playlistTracks.length} tracks</p>
+                        {folder && <p className="text-sm text-muted-foreground">{folder}</p>}
+                        {isRenaming ? (
+                            <form
+                                className="flex items-center gap-2"
+                                onSubmit={(e) => {
+                                    e.preventDefault()
+                                    handleRename()
+                                }}
+                            >
+                                <Input
+                                    autoFocus
+                                    value={newName}
+                                    onChange={(e) => setNewName(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Escape' && setIsRenaming(false)}
+                                    className="text-2xl font-bold h-11 w-80"
+                                    aria-label="Playlist name"
+                                />
+                                <Button type="submit" size="icon" variant="ghost">
+                                    <Check className="h-5 w-5" />
+                                    <span className="sr-only">Save name</span>
+                                </Button>
+                                <Button type="button" size="icon" variant="ghost" onClick={() => setIsRenaming(false)}>
+                                    <X className="h-5 w-5" />
+                                    <span className="sr-only">Cancel rename</span>
+                                </Button>
+                            </form>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <h1 className="text-3xl font-bold tracking-tight">{baseName}</h1>
+                                {!isSystemPlaylist && (
+                                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={startRename}>
+                                        <Pencil className="h-4 w-4" />
+                                        <span className="sr-only">Rename playlist</span>
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                        {renameError && isRenaming && <p className="text-sm text-red-500">{renameError}</p>}
+                        {isEditingDescription ? (
+                            <div className="flex items-start gap-2">
+                                <textarea
+                                    autoFocus
+                                    value={description}
+                                    onChange={(e) => setDescription(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Escape' && setIsEditingDescription(false)}
+                                    rows={3}
+                                    className="w-96 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                    placeholder="What is this playlist for?"
+                                    aria-label="Playlist description"
+                                />
+                                <Button size="icon" variant="ghost" onClick={handleSaveDescription}>
+                                    <Check className="h-5 w-5" />
+                                    <span className="sr-only">Save description</span>
+                                </Button>
+                                <Button size="icon" variant="ghost" onClick={() => setIsEditingDescription(false)}>
+                                    <X className="h-5 w-5" />
+                                    <span className="sr-only">Cancel</span>
+                                </Button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2 max-w-xl">
+                                {metadata?.description ? (
+                                    <p className="text-sm whitespace-pre-line">{metadata.description}</p>
+                                ) : !isSystemPlaylist && (
+                                    <p className="text-sm text-muted-foreground italic">No description</p>
+                                )}
+                                {!isSystemPlaylist && (
+                                    <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        className="h-7 w-7 shrink-0"
+                                        onClick={() => {
+                                            setDescription(metadata?.description ?? "")
+                                            setMetadataError(null)
+                                            setIsEditingDescription(true)
+                                        }}
+                                    >
+                                        <Pencil className="h-3 w-3" />
+                                        <span className="sr-only">Edit description</span>
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                        {metadataError && <p className="text-sm text-red-500">{metadataError}</p>}
+                        <p className="text-muted-foreground">
+                            {playlistTracks.length} tracks
+                            {metadata && (
+                                <span className="text-sm">
+                                    {" · "}Created {new Date(metadata.createdAt).toLocaleDateString()}
+                                    {" · "}Updated {new Date(metadata.updatedAt).toLocaleDateString()}
+                                </span>
+                            )}
+                        </p>
                     </div>
                 </div>
                 <div className="flex gap-2">
+                    {isSmartPlaylist && (
+                        <Button variant="outline" onClick={openSmartPlaylistEditor}>
+                            <Sparkles className="mr-2 h-4 w-4" />
+                            Edit Rules
+                        </Button>
+                    )}
                     <Button
                         variant="secondary"
                         onClick={() => setIsExportDialogOpen(true)}
@@ -290,6 +616,18 @@ export function PlaylistDetailPage() {
                 </div>
             </div>
 
+            {missingCount > 0 && !isSmartPlaylist && (
+                <div className="w-full max-w-6xl p-4 flex items-center justify-between gap-4 rounded-md border bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800">
+                    <p className="text-sm">
+                        {missingCount} {missingCount === 1 ? "entry points" : "entries point"} to a file that no longer exists.
+                    </p>
+                    <Button size="sm" onClick={() => setIsRelinkDialogOpen(true)}>
+                        <Link2 className="mr-2 h-4 w-4" />
+                        Relink
+                    </Button>
+                </div>
+            )}
+
             <div className="w-full max-w-6xl">
                 {isLoading ? (
                     <div className="flex flex-col items-center py-10">
@@ -299,6 +637,7 @@ export function PlaylistDetailPage() {
                 ) : (
                     <MusicTable
                         data={playlistTracks}
+                        onReorder={isSystemPlaylist ? undefined : handleReorder}
                         renderRowAction={(track) => (
                             <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -320,14 +659,18 @@ export function PlaylistDetailPage() {
                                         <FolderSearch className="mr-2 h-4 w-4" />
                                         Show in Finder
                                     </DropdownMenuItem>
-                                    <DropdownMenuSeparator />
-                                    <DropdownMenuItem
-                                        className="text-red-600 focus:text-red-600"
-                                        onClick={() => handleRemoveTrack(track.file)}
-                                    >
-                                        <MinusCircle className="mr-2 h-4 w-4" />
-                                        Remove from playlist
-                                    </DropdownMenuItem>
+                                    {!isSmartPlaylist && (
+                                        <>
+                                            <DropdownMenuSeparator />
+                                            <DropdownMenuItem
+                                                className="text-red-600 focus:text-red-600"
+                                                onClick={() => handleRemoveTrack(track.file)}
+                                            >
+                                                <MinusCircle className="mr-2 h-4 w-4" />
+                                                Remove from playlist
+                                            </DropdownMenuItem>
+                                        </>
+                                    )}
                                 </DropdownMenuContent>
                             </DropdownMenu>
                         )}
@@ -9,6 +9,10 @@ import { Button } from "@/components/ui/button"
 import { useAppConfig } from "@/hooks/useAppConfig"
 import { useNavigate } from "react-router-dom"
 import { TitleBar } from "@/components/layout/TitleBar"
+import { NamingTemplateSettings } from "@/components/NamingTemplateSettings"
+import { PerformanceSettings } from "@/components/PerformanceSettings"
+import { InboxWatchSettings } from "@/components/InboxWatchSettings"
+import { AutoPlaylistSettings } from "@/components/AutoPlaylistSettings"
 
 export function SetupPage() {
     const { config, isLoaded, setInboxPath, setLibraryPath, clearConfig } = useAppConfig()
@@ -171,6 +175,34 @@ export function SetupPage() {
                     </div>
                 </div>
             )}
+            {/* Sección de Plantilla de nombres */}
+            {config.inboxPath && config.libraryPath && (
+                <NamingTemplateSettings
+                    inboxPath={config.inboxPath}
+                    libraryPath={config.libraryPath}
+                />
+            )}
+            {/* Sección de Vigilancia de descargas */}
+            {config.inboxPath && config.libraryPath && (
+                <InboxWatchSettings
+                    inboxPath={config.inboxPath}
+                    libraryPath={config.libraryPath}
+                />
+            )}
+            {/* Sección de Rendimiento */}
+            {config.inboxPath && config.libraryPath && (
+                <PerformanceSettings
+                    inboxPath={config.inboxPath}
+                    libraryPath={config.libraryPath}
+                />
+            )}
+            {/* Sección de Playlists automáticas */}
+            {config.inboxPath && config.libraryPath && (
+                <AutoPlaylistSettings
+                    inboxPath={config.inboxPath}
+                    libraryPath={config.libraryPath}
+                />
+            )}
             {/* Sección de Apariencia */}
             <div className="w-full flex flex-col items-start justify-center gap-8 border-t dark:border-slate-800 pt-12">
                 <div className="flex flex-col items-start gap-2">
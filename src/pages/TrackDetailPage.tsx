@@ -7,6 +7,7 @@ import { AlbumCover } from "@/components/AlbumCover"
 import { Badge } from "@/components/ui/badge"
 import { MusicBrainzSearchDialog, type SelectedMetadata } from "@/components/MusicBrainzSearchDialog"
 import { TitleBar } from "@/components/layout/TitleBar"
+import { parseTrackRef, trackApiUrl } from "@/lib/tracks"
 
 interface TrackMetadata {
   format?: {
@@ -62,10 +63,11 @@ interface EditableFields {
 }
 
 export function TrackDetailPage() {
-  const { trackPath } = useParams<{ trackPath: string }>()
+  const { trackRef } = useParams<{ trackRef: string }>()
   const navigate = useNavigate()
 
   const [metadata, setMetadata] = useState<TrackMetadata | null>(null)
+  const [filePath, setFilePath] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -78,27 +80,28 @@ export function TrackDetailPage() {
   // MusicBrainz dialog
   const [mbDialogOpen, setMbDialogOpen] = useState(false)
 
-  const decodedTrackPath = trackPath ? decodeURIComponent(trackPath) : null
+  // Library tracks are linked by id; inbox files and older links use the path
+  const track = trackRef ? parseTrackRef(trackRef) : null
+  const trackId = track?.id
+  const trackPath = track?.path
 
   const fetchMetadata = useCallback(async () => {
-    if (!decodedTrackPath) return
+    if (!trackId && !trackPath) return
     setIsLoading(true)
     setError(null)
     try {
-      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
-      const response = await fetch(
-        `${apiUrl}/api/tracks/metadata?trackPath=${encodeURIComponent(decodedTrackPath)}`
-      )
+      const response = await fetch(trackApiUrl({ id: trackId, path: trackPath }, "metadata"))
       if (!response.ok) throw new Error("Failed to fetch track metadata")
       const data = await response.json()
       setMetadata(data.metadata)
+      setFilePath(data.track?.absPath || trackPath || null)
     } catch (err) {
       console.error(err)
       setError("Failed to load track details")
     } finally {
       setIsLoading(false)
     }
-  }, [decodedTrackPath])
+  }, [trackId, trackPath])
 
   useEffect(() => {
     fetchMetadata()
@@ -138,18 +141,21 @@ export function TrackDetailPage() {
   }
 
   const handleSave = async () => {
-    if (!decodedTrackPath) return
+    if (!track) return
 
     setIsSaving(true)
     setSaveMessage(null)
 
     try {
       const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001"
-      const response = await fetch(`${apiUrl}/api/tracks/metadata`, {
+      const saveUrl = track.id
+        ? `${apiUrl}/api/tracks/${encodeURIComponent(track.id)}/metadata`
+        : `${apiUrl}/api/tracks/metadata`
+      const response = await fetch(saveUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          trackPath: decodedTrackPath,
+          trackPath: track.path,
           metadata: {
             title: editFields.title || undefined,
             artist: editFields.artist || undefined,
@@ -322,8 +328,8 @@ export function TrackDetailPage() {
           {/* Header Section with Album Art */}
           <div className="flex gap-6 items-start">
             <div className="shrink-0">
-              {decodedTrackPath ? (
-                <AlbumCover trackPath={decodedTrackPath} size="lg" />
+              {track ? (
+                <AlbumCover track={track} size="lg" />
               ) : (
                 <div className="w-24 h-24 rounded-md bg-muted flex items-center justify-center">
                   <Music className="h-12 w-12 text-muted-foreground" />
@@ -548,7 +554,7 @@ export function TrackDetailPage() {
             <h2 className="text-xl font-semibold mb-4">File Information</h2>
             <div>
               <p className="text-sm text-muted-foreground">File Path</p>
-              <p className="font-mono text-sm break-all">{decodedTrackPath}</p>
+              <p className="font-mono text-sm break-all">{filePath}</p>
             </div>
             {format?.tagTypes && format.tagTypes.length > 0 && (
               <div className="mt-3">
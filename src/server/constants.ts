@@ -8,8 +8,11 @@
  */
 export const FILE_CONSTANTS = {
   LIBRARY_DB_FILE: "library_db.json",
+  SMART_PLAYLISTS_FILE: "smart_playlists.json", // Reglas de las smart playlists, en la raíz de la biblioteca
   PLAYLISTS_DIR: "Playlists",
   TEMP_SYNC_SCRIPT: "temp_sync_script.js",
+  CONFIG_FILE: "config.json",
+  TEMP_FILE_SUFFIX: ".tmp", // Escrituras atómicas: se escribe aquí y se renombra
 } as const;
 
 /**
@@ -18,11 +21,15 @@ export const FILE_CONSTANTS = {
 export const FILE_EXTENSIONS = {
   PLAYLIST_PRIMARY: ".m3u8",
   PLAYLIST_LEGACY: ".m3u",
+  PLAYLIST_PLS: ".pls",
+  PLAYLIST_XSPF: ".xspf",
+  PLAYLIST_JSPF: ".jspf",
   FLAC: ".flac",
   MP3: ".mp3",
   M4A: ".m4a",
   WAV: ".wav",
   OGG: ".ogg",
+  OPUS: ".opus",
 } as const;
 
 /**
@@ -32,7 +39,17 @@ export const PLAYLIST_CONSTANTS = {
   MASTER_PLAYLIST_NAME: "00_Master_Library",
   MASTER_PLAYLIST_PREFIX: "00_Master",
   GENRE_PLAYLIST_PREFIX: "Genre_",
+  ARTIST_PLAYLIST_PREFIX: "Artist_",
+  DECADE_PLAYLIST_PREFIX: "Decade_",
+  FORMAT_PLAYLIST_PREFIX: "Format_",
+  RECENT_PLAYLIST_PREFIX: "Recent_",
+  SMART_PLAYLIST_PREFIX: "Smart_",
   PLAYLIST_HEADER: "#EXTM3U\n",
+  // Directivas de M3U extendido escritas antes de cada entrada
+  EXTINF: "#EXTINF:",
+  EXTART: "#EXTART:",
+  EXTALB: "#EXTALB:",
+  UNKNOWN_DURATION: -1,
 } as const;
 
 /**
@@ -42,10 +59,169 @@ export const METADATA_DEFAULTS = {
   UNKNOWN_ARTIST: "Unknown Artist",
   UNKNOWN_ALBUM: "Unknown Album",
   UNKNOWN: "Unknown",
+  VARIOUS_ARTISTS: "Various Artists",
   DEFAULT_GENRE: "Otros",
   DEFAULT_TRACK_NO: "00",
 } as const;
 
+/**
+ * Constantes relacionadas con las plantillas de nombres de la biblioteca
+ */
+export const NAMING_TEMPLATE_CONSTANTS = {
+  // Layout histórico: Artist/(Year) Album/NN - Title.ext
+  // Los álbumes multi-disco agregan el prefijo D-NN para evitar colisiones
+  // Se agrupa por artista del álbum para no dispersar compilaciones y colaboraciones
+  DEFAULT_TEMPLATE: "{albumartist}/[({year}) ]{album}/[{disc}-]{track} - {title}",
+  PREVIEW_SAMPLE_SIZE: 5,
+} as const;
+
+/**
+ * Constantes relacionadas con los conflictos al organizar
+ */
+export const CONFLICT_CONSTANTS = {
+  // Comportamiento histórico: si el destino existe se conserva el archivo de la biblioteca
+  DEFAULT_POLICY: "skip",
+  POLICIES: ["skip", "rename", "replace", "replace-if-better"],
+  // Formatos sin pérdida cuando music-metadata no informa "lossless"
+  LOSSLESS_FORMATS: [".flac", ".wav", ".aiff", ".aif", ".alac"],
+} as const;
+
+/**
+ * Constantes relacionadas con el registro de operaciones (deshacer)
+ */
+export const JOURNAL_CONSTANTS = {
+  // Carpeta oculta dentro de la biblioteca con una subcarpeta por operación
+  OPERATIONS_DIR: ".operations",
+  JOURNAL_FILE: "journal.json",
+  SNAPSHOTS_DIR: "snapshots",
+  BACKUPS_DIR: "backups",
+  // Cantidad de operaciones que se conservan; las más antiguas se eliminan
+  HISTORY_LIMIT: 20,
+} as const;
+
+/**
+ * Constantes relacionadas con la detección de duplicados
+ */
+export const DUPLICATE_CONSTANTS = {
+  // Diferencia máxima de duración (segundos) para considerar un posible duplicado
+  DURATION_TOLERANCE_SECONDS: 2,
+} as const;
+
+/**
+ * Constantes relacionadas con la reparación de entradas rotas de playlists
+ */
+export const RELINK_CONSTANTS = {
+  // Candidatos propuestos como máximo por cada entrada rota
+  MAX_CANDIDATES: 3,
+  // Similitud mínima (0-1) entre rutas relativas para proponer un candidato
+  MIN_PATH_SIMILARITY: 0.6,
+} as const;
+
+/**
+ * Constantes relacionadas con la importación y exportación de playlists en otros formatos
+ */
+export const PLAYLIST_FORMAT_CONSTANTS = {
+  FORMATS: ["m3u8", "pls", "xspf", "jspf"],
+  // Una playlist importada llega como texto dentro del cuerpo JSON
+  MAX_REQUEST_SIZE: "10mb",
+  // Segmentos finales (archivo y carpeta del álbum) que deben coincidir para aceptar una ruta de otro equipo
+  MIN_PATH_SUFFIX_SEGMENTS: 2,
+  XSPF_NAMESPACE: "http://xspf.org/ns/0/",
+} as const;
+
+/**
+ * Constantes relacionadas con las smart playlists (generadas a partir de reglas)
+ */
+export const SMART_PLAYLIST_CONSTANTS = {
+  FIELDS: ["genre", "year", "lossless", "bitrate", "artist"],
+  // Una smart playlist incluye las canciones que cumplen todas las reglas o alguna
+  MATCH_MODES: ["all", "any"],
+} as const;
+
+/**
+ * Constantes relacionadas con los perfiles de exportación que transcodifican las pistas
+ */
+export const TRANSCODE_CONSTANTS = {
+  PROFILES: ["mp3-v0", "mp3-320", "aac-256", "opus-160", "flac-16-44"],
+  // Caché de pistas transcodificadas, oculta dentro de la biblioteca (una subcarpeta por perfil)
+  CACHE_DIR: ".transcode-cache",
+  // Tamaño y fecha del original con los que se generó cada pista en caché (junto a ella)
+  SOURCE_STATE_SUFFIX: ".source.json",
+  // Etiqueta Vorbis con la que Opus guarda la portada (bloque PICTURE de FLAC en base64)
+  OPUS_PICTURE_TAG: "METADATA_BLOCK_PICTURE",
+  // Tipo de imagen "portada frontal" del bloque PICTURE
+  FRONT_COVER_PICTURE_TYPE: 3,
+} as const;
+
+/**
+ * Constantes relacionadas con los datos de cada playlist (descripción, fechas y portada)
+ */
+export const PLAYLIST_METADATA_CONSTANTS = {
+  // Archivo con la descripción y las fechas, junto al .m3u8 (Favoritos.meta.json)
+  SIDECAR_SUFFIX: ".meta.json",
+  // Portada elegida por el usuario, junto al .m3u8 (Favoritos.cover.jpg)
+  COVER_SUFFIX: ".cover",
+  COVER_MIME_TYPES: {
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/webp": ".webp",
+  },
+  MAX_COVER_BYTES: 5 * 1024 * 1024,
+  MAX_DESCRIPTION_LENGTH: 2000,
+  // Collages generados con las portadas de las canciones, en una carpeta oculta de Playlists
+  COLLAGE_DIR: ".covers",
+  COLLAGE_SIZE: 600, // px de lado; cada portada del collage ocupa un cuarto
+  COLLAGE_TILES: 4,
+  // Canciones que se revisan como mucho para encontrar portadas de álbumes distintos
+  MAX_COLLAGE_CANDIDATES: 40,
+} as const;
+
+/**
+ * Constantes relacionadas con las playlists automáticas (por género, artista, década, formato y recientes)
+ */
+export const AUTO_PLAYLIST_CONSTANTS = {
+  FAMILIES: ["genre", "artist", "decade", "format", "recent"],
+  // Sin configuración solo se generan las de género, como antes
+  DEFAULT_FAMILIES: ["genre"],
+  // Días que una canción cuenta como agregada recientemente
+  DEFAULT_RECENT_DAYS: 30,
+  MIN_RECENT_DAYS: 1,
+  MAX_RECENT_DAYS: 365,
+  // Caracteres no permitidos en nombres de archivo
+  INVALID_NAME_CHARS: /[/\\?%*:|"<>]/g,
+  INVALID_NAME_REPLACEMENT: "-",
+  // Lista oculta, dentro de Playlists, de los archivos que escribió el generador;
+  // solo esos se borran cuando dejan de generarse
+  MANIFEST_FILE: ".auto_playlists.json",
+} as const;
+
+/**
+ * Constantes relacionadas con el procesamiento en paralelo (escaneo y regeneración)
+ */
+export const CONCURRENCY_CONSTANTS = {
+  // Archivos leídos a la vez; en discos de red conviene un valor más alto
+  DEFAULT: 8,
+  MIN: 1,
+  MAX: 64,
+} as const;
+
+/**
+ * Constantes relacionadas con la vigilancia de la carpeta de descargas
+ */
+export const WATCH_CONSTANTS = {
+  // Cada cuánto se revisa la carpeta de descargas
+  POLL_INTERVAL_MS: 5000,
+  // Tiempo sin cambios antes de considerar que una carpeta terminó de copiarse
+  SETTLE_MS: 30000,
+  // Sin regla, los resultados quedan en cola para revisarlos en la biblioteca
+  DEFAULT_ACTION: "review",
+  ACTIONS: ["review", "organize"],
+  // Cantidad máxima de carpetas en cola; las más antiguas se descartan
+  QUEUE_LIMIT: 50,
+  // La biblioteca es mucho más grande, así que se revisa con menos frecuencia
+  LIBRARY_POLL_INTERVAL_MS: 30000,
+} as const;
+
 /**
  * Constantes relacionadas con Apple Music
  */
@@ -59,10 +235,48 @@ export const APPLE_MUSIC_CONSTANTS = {
  */
 export const ERROR_MESSAGES = {
   LIBRARY_DB_NOT_FOUND: "No se encontró library_db.json",
+  LIBRARY_DB_INVALID: "library_db.json is not a list of tracks",
   PLAYLIST_NOT_FOUND: (name: string) => `Playlist ${name} not found`,
   CANNOT_MODIFY_MASTER: "Cannot modify the Master Library playlist",
   CANNOT_DELETE_MASTER: "Cannot delete the Master Library playlist",
   CANNOT_EXPORT_MASTER: "Cannot export/move the Master Library playlist",
+  CANNOT_RENAME_SYSTEM_PLAYLIST: (name: string) =>
+    `${name} is a system playlist name and cannot be used in a rename`,
+  INVALID_PLAYLIST_NAME: (name: string) => `Invalid playlist name: "${name}"`,
+  PLAYLIST_ALREADY_EXISTS: (name: string) => `Playlist ${name} already exists`,
+  CANNOT_REORDER_SYSTEM_PLAYLIST: (name: string) =>
+    `${name} is generated from the library and cannot be reordered`,
+  INVALID_PLAYLIST_ORDER: "Invalid playlist order",
+  CANNOT_MODIFY_SMART_PLAYLIST: (name: string) =>
+    `${name} is a smart playlist; edit its rules instead`,
+  INVALID_SMART_PLAYLIST: (reason: string) => `Invalid smart playlist: ${reason}`,
+  SMART_PLAYLIST_NOT_FOUND: (name: string) => `Smart playlist ${name} not found`,
+  UNSUPPORTED_PLAYLIST_FORMAT: (format: string) =>
+    `Unsupported playlist format: ${format}`,
+  INVALID_PLAYLIST_FOLDER: (folder: string) => `Invalid playlist folder: "${folder}"`,
+  PLAYLIST_FOLDER_NOT_FOUND: (folder: string) => `Playlist folder ${folder} not found`,
+  PLAYLIST_FOLDER_ALREADY_EXISTS: (folder: string) =>
+    `Playlist folder ${folder} already exists`,
+  PLAYLIST_FOLDER_NOT_EMPTY: (folder: string) =>
+    `Playlist folder ${folder} is not empty`,
+  CANNOT_EDIT_SYSTEM_PLAYLIST: (name: string) =>
+    `${name} is generated from the library and its details cannot be edited`,
+  INVALID_PLAYLIST_COVER: (reason: string) => `Invalid playlist cover: ${reason}`,
+  INVALID_PLAYLIST_DESCRIPTION: (maxLength: number) =>
+    `Invalid playlist description: longer than ${maxLength} characters`,
+  UNSUPPORTED_EXPORT_PROFILE: (profile: string) =>
+    `Unsupported export profile: ${profile}`,
+  CANNOT_TRANSCODE_MOVE: "Transcoded exports can only copy; the originals stay in the library",
+  FFMPEG_NOT_AVAILABLE: "ffmpeg is not available",
+  INVALID_PLAYLIST_FILE: (fileName: string) =>
+    `${fileName} could not be read as a playlist`,
+  INVALID_NAMING_TEMPLATE: (errors: string[]) =>
+    `Invalid naming template: ${errors.join("; ")}`,
+  OPERATION_NOT_FOUND: (id: string) => `Operation ${id} not found`,
+  OPERATION_ALREADY_REVERTED: (id: string) =>
+    `Operation ${id} has already been undone or rolled back`,
+  OPERATION_NOT_LATEST: (id: string) =>
+    `Operation ${id} cannot be undone while newer operations on the library are still in effect; undo those first`,
 } as const;
 
 /**
@@ -1,12 +1,16 @@
 import express from 'express';
 import cors from 'cors';
 import apiRoutes from './routes/api.js';
+import { ConfigService } from './services/ConfigService.js';
+import { InboxWatcherService } from './services/InboxWatcherService.js';
+import { LibraryWatcherService } from './services/LibraryWatcherService.js';
+import { PLAYLIST_FORMAT_CONSTANTS } from './constants.js';
 
 const app = express();
 const PORT = 3001;
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: PLAYLIST_FORMAT_CONSTANTS.MAX_REQUEST_SIZE }));
 
 // Routes
 app.use('/api', apiRoutes);
@@ -17,4 +21,12 @@ app.get('/', (_req, res) => {
 
 app.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
+
+    // Resume the watchers that were enabled
+    ConfigService.getConfig()
+        .then((config) => {
+            InboxWatcherService.syncWithConfig(config);
+            LibraryWatcherService.syncWithConfig(config);
+        })
+        .catch((err) => console.error('Failed to start watchers:', err));
 });
@@ -1,8 +1,24 @@
 import { Router } from 'express';
 import { OrganizerService } from '../services/OrganizerService.js';
-import type { ScanResult } from '../services/OrganizerService.js';
+import type { ScanResult, SongMetadata, ConflictPolicy, PlaylistRelink, PlaylistReorder } from '../services/OrganizerService.js';
 import { AppleMusicSync } from "../services/AppleMusicSync.js";
 import { MusicBrainzService } from "../services/MusicBrainzService.js";
+import { ConfigService } from "../services/ConfigService.js";
+import { NamingTemplateService } from "../services/NamingTemplateService.js";
+import { JournalService } from "../services/JournalService.js";
+import { InboxWatcherService } from "../services/InboxWatcherService.js";
+import { LibraryWatcherService } from "../services/LibraryWatcherService.js";
+import { LibraryStore } from "../services/LibraryStore.js";
+import { LibraryHealthService } from "../services/LibraryHealthService.js";
+import type { HealthFix } from "../services/LibraryHealthService.js";
+import { PlaylistRelinkService } from "../services/PlaylistRelinkService.js";
+import { PlaylistImportService } from "../services/PlaylistImportService.js";
+import { PlaylistFormatService } from "../services/PlaylistFormatService.js";
+import { SmartPlaylistService } from "../services/SmartPlaylistService.js";
+import { AutoPlaylistService } from "../services/AutoPlaylistService.js";
+import { PlaylistMetadataService } from "../services/PlaylistMetadataService.js";
+import { TranscodeService } from "../services/TranscodeService.js";
+import { CONFLICT_CONSTANTS, CONCURRENCY_CONSTANTS, ERROR_MESSAGES } from "../constants.js";
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -12,11 +28,22 @@ const router = Router();
 interface ScanRequest {
     inboxPath: string;
     libraryPath: string;
+    namingTemplate?: string; // Overrides the template stored in config.json
 }
 
 interface OrganizeRequest {
     results: ScanResult[];
     libraryPath: string;
+    policy?: ConflictPolicy; // What to do when proposedPath already exists
+}
+
+// Finds a track by id in the given library, or in the configured one
+async function findTrack(id: string, libraryPath: unknown): Promise<SongMetadata | null> {
+    const library = typeof libraryPath === 'string' && libraryPath
+        ? libraryPath
+        : (await ConfigService.getConfig())?.libraryPath;
+    if (!library) return null;
+    return LibraryStore.getTrack(library, id);
 }
 
 // Routes
@@ -24,14 +51,22 @@ interface OrganizeRequest {
 // 1. Scan Inbox
 router.post('/scan', async (req, res): Promise<any> => {
     try {
-        const { inboxPath, libraryPath } = req.body as ScanRequest;
+        const { inboxPath, libraryPath, namingTemplate } = req.body as ScanRequest;
 
         if (!inboxPath || !libraryPath) {
             return res.status(400).json({ error: 'Missing inboxPath or libraryPath' });
         }
 
+        const config = await ConfigService.getConfig();
+        const naming = NamingTemplateService.withDefaults({
+            template: namingTemplate || config?.namingTemplate,
+            variousArtists: config?.variousArtistsName,
+        });
+
         console.log(`Scanning Inbox: ${inboxPath}`);
-        const results = await OrganizerService.scanInbox(inboxPath, libraryPath);
+        const results = await OrganizerService.scanInbox(inboxPath, libraryPath, naming, {
+            concurrency: config?.concurrency,
+        });
         res.json({ success: true, results });
 
     } catch (error: any) {
@@ -43,15 +78,24 @@ router.post('/scan', async (req, res): Promise<any> => {
 // 2. Organize (Execute Move)
 router.post('/organize', async (req, res): Promise<any> => {
     try {
-        const { results, libraryPath } = req.body as OrganizeRequest;
+        const { results, libraryPath, policy = CONFLICT_CONSTANTS.DEFAULT_POLICY } = req.body as OrganizeRequest;
 
         if (!results || !Array.isArray(results) || !libraryPath) {
             return res.status(400).json({ error: 'Invalid payload' });
         }
 
-        console.log(`Organizing ${results.length} files...`);
-        await OrganizerService.organize(results, libraryPath);
-        res.json({ success: true, message: 'Organization complete' });
+        if (!(CONFLICT_CONSTANTS.POLICIES as readonly string[]).includes(policy)) {
+            return res.status(400).json({
+                error: `Invalid conflict policy. Expected one of: ${CONFLICT_CONSTANTS.POLICIES.join(', ')}`,
+            });
+        }
+
+        console.log(`Organizing ${results.length} files (conflict policy: ${policy})...`);
+        const { operationId, summary, files } = await OrganizerService.organize(results, libraryPath, policy);
+        const message = summary.failed > 0
+            ? `Organization completed with ${summary.failed} failed file(s)`
+            : 'Organization complete';
+        res.json({ success: true, message, operationId, summary, files });
 
     } catch (error: any) {
         console.error('Organize Error:', error);
@@ -67,13 +111,9 @@ router.get('/library', async (req, res): Promise<any> => {
             return res.status(400).json({ error: 'libraryPath query param required' });
         }
 
-        const dbPath = path.join(libraryPath, 'library_db.json');
-        if (!await fs.pathExists(dbPath)) {
-            return res.json({ inventory: [] });
-        }
-
-        const inventory = await fs.readJson(dbPath);
-        res.json({ inventory });
+        await LibraryStore.ensureTrackIds(libraryPath);
+        const inventory = await LibraryStore.read(libraryPath);
+        res.json({ inventory: inventory ?? [] });
 
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -108,7 +148,8 @@ router.get('/playlists', async (req, res): Promise<any> => {
         }
 
         const playlists = await OrganizerService.listPlaylists(libraryPath);
-        res.json({ playlists });
+        const tree = await OrganizerService.getPlaylistTree(libraryPath, playlists);
+        res.json({ playlists, tree });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
@@ -125,21 +166,31 @@ router.get('/playlists/:name', async (req, res): Promise<any> => {
         }
 
         const tracks = await OrganizerService.getPlaylistDetails(name, libraryPath);
-        res.json({ tracks });
+        const metadata = await PlaylistMetadataService.get(libraryPath, name);
+        res.json({ tracks, metadata });
 
     } catch (error: any) {
         res.status(404).json({ error: error.message });
     }
 });
 
-// 6.1 Remove Track from Playlist
+// 6.1 Remove Track from Playlist (by trackId, or by trackPath for older clients)
 router.delete('/playlists/:name/tracks', async (req, res): Promise<any> => {
     try {
-        const { libraryPath, trackPath } = req.body;
+        const { libraryPath, trackId } = req.body;
+        let { trackPath } = req.body;
         const { name } = req.params;
 
-        if (!libraryPath || !name || !trackPath) {
-            return res.status(400).json({ error: 'libraryPath, name and trackPath required' });
+        if (!libraryPath || !name || (!trackPath && !trackId)) {
+            return res.status(400).json({ error: 'libraryPath, name and trackId or trackPath required' });
+        }
+
+        if (trackId) {
+            const track = await LibraryStore.getTrack(libraryPath, trackId);
+            if (!track) {
+                return res.status(404).json({ error: `Track ${trackId} not found` });
+            }
+            trackPath = track.absPath;
         }
 
         await OrganizerService.removeFromPlaylist(name, trackPath, libraryPath);
@@ -162,8 +213,8 @@ router.delete('/playlists/:name', async (req, res): Promise<any> => {
             return res.status(400).json({ error: 'libraryPath and name required' });
         }
 
-        await OrganizerService.deletePlaylist(name, libraryPath);
-        res.json({ success: true });
+        const operationId = await OrganizerService.deletePlaylist(name, libraryPath);
+        res.json({ success: true, operationId });
 
     } catch (error: any) {
         console.error('Delete Playlist Error:', error);
@@ -171,17 +222,32 @@ router.delete('/playlists/:name', async (req, res): Promise<any> => {
     }
 });
 
-// 6.3 Export/Move Playlist
+// Checks the optional export profile of a playlist or library export
+function exportProfileError(profile: unknown, mode: unknown): string | null {
+    if (profile === undefined) return null;
+    if (!TranscodeService.isProfile(profile)) return ERROR_MESSAGES.UNSUPPORTED_EXPORT_PROFILE(String(profile));
+    return mode === 'copy' ? null : ERROR_MESSAGES.CANNOT_TRANSCODE_MOVE;
+}
+
+// 6.3 Export/Move Playlist (format also writes a playlist file: m3u8, pls, xspf or jspf;
+// profile transcodes the copies: mp3-v0, mp3-320, aac-256, opus-160 or flac-16-44)
 router.post('/playlists/:name/export', async (req, res): Promise<any> => {
     try {
-        const { libraryPath, destination, mode, preserveStructure } = req.body;
+        const { libraryPath, destination, mode, preserveStructure, format, profile } = req.body;
         const { name } = req.params;
 
         if (!libraryPath || !name || !destination || !mode) {
             return res.status(400).json({ error: 'Missing required fields' });
         }
+        if (format !== undefined && !PlaylistFormatService.isFormat(format)) {
+            return res.status(400).json({ error: `Unsupported playlist format: ${format}` });
+        }
+        const profileError = exportProfileError(profile, mode);
+        if (profileError) {
+            return res.status(400).json({ error: profileError });
+        }
 
-        const result = await OrganizerService.exportPlaylist(name, destination, mode, preserveStructure, libraryPath);
+        const result = await OrganizerService.exportPlaylist(name, destination, mode, preserveStructure, libraryPath, format, profile);
         res.json({ success: true, ...result });
 
     } catch (error: any) {
@@ -226,21 +292,79 @@ router.get('/browse', async (req, res): Promise<any> => {
 // 8. Save Configuration
 router.post('/config', async (req, res): Promise<any> => {
     try {
-        const { inboxPath, libraryPath } = req.body;
+        const {
+            inboxPath,
+            libraryPath,
+            namingTemplate,
+            variousArtistsName,
+            concurrency,
+            watchInbox,
+            watchRules,
+            watchLibrary,
+            autoPlaylists,
+        } = req.body;
 
         if (!inboxPath || !libraryPath) {
             return res.status(400).json({ error: 'Both inboxPath and libraryPath are required' });
         }
 
-        const configPath = path.resolve(process.cwd(), 'config.json');
-        const config = {
+        if (namingTemplate !== undefined) {
+            const templateErrors = NamingTemplateService.validate(namingTemplate);
+            if (templateErrors.length > 0) {
+                return res.status(400).json({ error: 'Invalid naming template', details: templateErrors });
+            }
+        }
+
+        if (
+            concurrency !== undefined &&
+            (!Number.isInteger(concurrency) ||
+                concurrency < CONCURRENCY_CONSTANTS.MIN ||
+                concurrency > CONCURRENCY_CONSTANTS.MAX)
+        ) {
+            return res.status(400).json({
+                error: `concurrency must be an integer between ${CONCURRENCY_CONSTANTS.MIN} and ${CONCURRENCY_CONSTANTS.MAX}`,
+            });
+        }
+
+        if (watchInbox !== undefined && typeof watchInbox !== 'boolean') {
+            return res.status(400).json({ error: 'watchInbox must be a boolean' });
+        }
+
+        if (watchLibrary !== undefined && typeof watchLibrary !== 'boolean') {
+            return res.status(400).json({ error: 'watchLibrary must be a boolean' });
+        }
+
+        if (watchRules !== undefined) {
+            const ruleErrors = InboxWatcherService.validateRules(watchRules);
+            if (ruleErrors.length > 0) {
+                return res.status(400).json({ error: 'Invalid watch rules', details: ruleErrors });
+            }
+        }
+
+        if (autoPlaylists !== undefined) {
+            const autoPlaylistErrors = AutoPlaylistService.validateSettings(autoPlaylists);
+            if (autoPlaylistErrors.length > 0) {
+                return res.status(400).json({ error: 'Invalid auto playlist settings', details: autoPlaylistErrors });
+            }
+        }
+
+        const config = await ConfigService.saveConfig({
             inboxPath,
             libraryPath,
-            updatedAt: new Date().toISOString()
-        };
-
-        await fs.writeJson(configPath, config, { spaces: 2 });
+            ...(namingTemplate !== undefined && { namingTemplate }),
+            ...(variousArtistsName !== undefined && { variousArtistsName }),
+            ...(concurrency !== undefined && { concurrency }),
+            ...(watchInbox !== undefined && { watchInbox }),
+            ...(watchRules !== undefined && { watchRules }),
+            ...(watchLibrary !== undefined && { watchLibrary }),
+            ...(autoPlaylists !== undefined && { autoPlaylists }),
+        });
         console.log('Configuration saved:', config);
+        InboxWatcherService.syncWithConfig(config);
+        LibraryWatcherService.syncWithConfig(config);
+        if (autoPlaylists !== undefined) {
+            await AutoPlaylistService.regenerate(libraryPath);
+        }
 
         res.json({ success: true, message: 'Configuration saved successfully' });
     } catch (error: any) {
@@ -252,13 +376,7 @@ router.post('/config', async (req, res): Promise<any> => {
 // 9. Get Configuration
 router.get('/config', async (_req, res): Promise<any> => {
     try {
-        const configPath = path.resolve(process.cwd(), 'config.json');
-
-        if (!await fs.pathExists(configPath)) {
-            return res.json({ config: null });
-        }
-
-        const config = await fs.readJson(configPath);
+        const config = await ConfigService.getConfig();
         res.json({ config });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -323,13 +441,17 @@ router.get('/tracks/cover', async (req, res): Promise<any> => {
 // 12. Export/Move Entire Library
 router.post('/library/export', async (req, res): Promise<any> => {
     try {
-        const { libraryPath, destination, mode, preserveStructure } = req.body;
+        const { libraryPath, destination, mode, preserveStructure, profile } = req.body;
 
         if (!libraryPath || !destination || !mode) {
             return res.status(400).json({ error: 'Missing required fields' });
         }
+        const profileError = exportProfileError(profile, mode);
+        if (profileError) {
+            return res.status(400).json({ error: profileError });
+        }
 
-        const result = await OrganizerService.exportLibrary(destination, mode, preserveStructure, libraryPath);
+        const result = await OrganizerService.exportLibrary(destination, mode, preserveStructure, libraryPath, profile);
         res.json({ success: true, ...result });
 
     } catch (error: any) {
@@ -364,15 +486,19 @@ router.get('/tracks/metadata', async (req, res): Promise<any> => {
 // 14. Regenerate Library Database
 router.post('/library/regenerate', async (req, res): Promise<void> => {
     try {
-        const { libraryPath } = req.body;
+        const { libraryPath, force } = req.body;
 
         if (!libraryPath) {
             res.status(400).json({ error: 'libraryPath is required' });
             return;
         }
 
-        console.log(`Regenerating database for library: ${libraryPath}`);
-        const result = await OrganizerService.regenerateDatabase(libraryPath);
+        console.log(`Regenerating database for library: ${libraryPath}${force === true ? ' (full rebuild)' : ''}`);
+        const config = await ConfigService.getConfig();
+        const result = await OrganizerService.regenerateDatabase(libraryPath, {
+            force: force === true,
+            concurrency: config?.concurrency,
+        });
         
         res.json({ 
             success: true, 
@@ -483,4 +609,623 @@ router.get('/musicbrainz/lookup', async (req, res): Promise<void> => {
     }
 });
 
+// 19. Get Naming Template
+router.get('/naming', async (_req, res): Promise<void> => {
+    try {
+        const config = await ConfigService.getConfig();
+        const naming = NamingTemplateService.withDefaults({
+            template: config?.namingTemplate,
+            variousArtists: config?.variousArtistsName,
+        });
+        res.json({
+            template: naming.template,
+            variousArtists: naming.variousArtists,
+            defaultTemplate: NamingTemplateService.DEFAULT_TEMPLATE,
+            fields: NamingTemplateService.FIELDS,
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Naming Template Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 20. Preview Naming Template
+router.post('/naming/preview', async (req, res): Promise<void> => {
+    try {
+        const { template, libraryPath, variousArtists } = req.body;
+
+        if (typeof template !== 'string') {
+            res.status(400).json({ error: 'template is required' });
+            return;
+        }
+
+        // Preview against real tracks when a library database is available
+        let tracks: SongMetadata[] = [];
+        if (typeof libraryPath === 'string' && libraryPath) {
+            tracks = (await LibraryStore.read(libraryPath)) ?? [];
+        }
+
+        const naming = NamingTemplateService.withDefaults({ template, variousArtists });
+        const preview = NamingTemplateService.preview(template, tracks, naming.variousArtists);
+        res.json(preview);
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Naming Preview Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 21. List Journaled Operations (newest first)
+router.get('/operations', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string') {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const operations = await JournalService.list(libraryPath);
+        res.json({ operations });
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('List Operations Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 22. Undo a Journaled Operation
+router.post('/operations/:id/undo', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.body;
+        const { id } = req.params;
+
+        if (!libraryPath || !/^[\w-]+$/.test(id)) {
+            res.status(400).json({ error: 'libraryPath and a valid operation id are required' });
+            return;
+        }
+
+        const result = await JournalService.undo(libraryPath, id);
+        res.json({ success: result.failures.length === 0, ...result });
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Undo Operation Error:', errorMessage);
+        const status = errorMessage.includes('not found')
+            ? 404
+            : errorMessage.includes('undo those first')
+                ? 409
+                : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// 23. Watcher Status (inbox queue and last library changes)
+router.get('/watch', async (_req, res): Promise<void> => {
+    try {
+        res.json({
+            ...InboxWatcherService.getStatus(),
+            library: LibraryWatcherService.getStatus(),
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Watch Status Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 24. Dismiss a Queued Inbox Folder (reviewed or acknowledged)
+router.delete('/watch/queue/:id', async (req, res): Promise<void> => {
+    try {
+        if (!InboxWatcherService.dismiss(req.params.id)) {
+            res.status(404).json({ error: `Queue item ${req.params.id} not found` });
+            return;
+        }
+        res.json({ success: true });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Watch Dismiss Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 25. Get a Track by ID
+router.get('/tracks/:id', async (req, res): Promise<void> => {
+    try {
+        const track = await findTrack(req.params.id, req.query.libraryPath);
+        if (!track) {
+            res.status(404).json({ error: `Track ${req.params.id} not found` });
+            return;
+        }
+        res.json({ track });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Get Track Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 26. Get Complete Track Metadata by ID
+router.get('/tracks/:id/metadata', async (req, res): Promise<void> => {
+    try {
+        const track = await findTrack(req.params.id, req.query.libraryPath);
+        const metadata = track ? await OrganizerService.getTrackMetadata(track.absPath) : null;
+        if (!track || !metadata) {
+            res.status(404).json({ error: 'Track not found or metadata unavailable' });
+            return;
+        }
+        res.json({ track, metadata });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error getting track metadata:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 27. Update Track Metadata by ID
+router.post('/tracks/:id/metadata', async (req, res): Promise<void> => {
+    try {
+        const { metadata, libraryPath } = req.body;
+        if (!metadata) {
+            res.status(400).json({ error: 'metadata is required' });
+            return;
+        }
+
+        const track = await findTrack(req.params.id, libraryPath);
+        if (!track) {
+            res.status(404).json({ error: `Track ${req.params.id} not found` });
+            return;
+        }
+
+        await MusicBrainzService.updateMetadata(track.absPath, metadata);
+        res.json({ success: true, message: 'Metadata updated successfully' });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Update Metadata Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 28. Get Album Cover by Track ID
+router.get('/tracks/:id/cover', async (req, res): Promise<void> => {
+    try {
+        const track = await findTrack(req.params.id, req.query.libraryPath);
+        const cover = track ? await OrganizerService.getAlbumCover(track.absPath) : null;
+        if (!cover) {
+            res.status(404).json({ error: 'No album cover found' });
+            return;
+        }
+
+        res.setHeader('Content-Type', cover.mimeType);
+        res.setHeader('Cache-Control', 'public, max-age=86400');
+        res.send(cover.data);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error getting album cover:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 29. Get Playlists for a Track by ID
+router.get('/tracks/:id/playlists', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string') {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const track = await LibraryStore.getTrack(libraryPath, req.params.id);
+        if (!track) {
+            res.status(404).json({ error: `Track ${req.params.id} not found` });
+            return;
+        }
+
+        const playlists = await OrganizerService.getPlaylistsForTrack(track.absPath, libraryPath);
+        res.json({ playlists });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error getting playlists for track:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 30. Library Health Report
+router.get('/library/health', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string' || !libraryPath) {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const config = await ConfigService.getConfig();
+        const report = await LibraryHealthService.check(libraryPath, {
+            concurrency: config?.concurrency,
+        });
+        res.json(report);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Library Health Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 31. Apply a Library Health Fix (returns the updated report)
+router.post('/library/health/fix', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, fix } = req.body;
+        if (!libraryPath || !LibraryHealthService.FIXES.includes(fix)) {
+            res.status(400).json({
+                error: `libraryPath and fix (${LibraryHealthService.FIXES.join(', ')}) are required`,
+            });
+            return;
+        }
+
+        const config = await ConfigService.getConfig();
+        const report = await LibraryHealthService.fix(libraryPath, fix as HealthFix, {
+            concurrency: config?.concurrency,
+        });
+        res.json(report);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Library Health Fix Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 32. Find Replacements for Broken Playlist Entries
+router.get('/playlists/:name/relink', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string' || !libraryPath) {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const proposals = await PlaylistRelinkService.findCandidates(libraryPath, req.params.name);
+        res.json({ proposals });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Relink Candidates Error:', errorMessage);
+        const status = errorMessage.includes('not found') ? 404 : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// 33. Relink Broken Playlist Entries (confirmed replacements)
+router.post('/playlists/:name/relink', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, relinks } = req.body;
+        const valid = Array.isArray(relinks) && relinks.length > 0 && relinks.every(
+            (relink: Partial<PlaylistRelink>) =>
+                typeof relink?.entry === 'string' && typeof relink?.trackPath === 'string',
+        );
+        if (!libraryPath || !valid) {
+            res.status(400).json({ error: 'libraryPath and relinks ({ entry, trackPath }) are required' });
+            return;
+        }
+
+        const relinked = await OrganizerService.relinkPlaylistEntries(req.params.name, relinks, libraryPath);
+        res.json({ success: true, relinked });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Relink Playlist Error:', errorMessage);
+        const status = errorMessage.includes('not found') ? 404 : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// 34. Rename Playlist (journaled, returns an operationId that can be undone)
+router.patch('/playlists/:name', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, newName } = req.body;
+        if (!libraryPath || typeof newName !== 'string') {
+            res.status(400).json({ error: 'libraryPath and newName are required' });
+            return;
+        }
+
+        const { name, operationId } = await OrganizerService.renamePlaylist(req.params.name, newName, libraryPath);
+        res.json({ success: true, name, operationId });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Rename Playlist Error:', errorMessage);
+        const status = errorMessage.includes('not found')
+            ? 404
+            : errorMessage.includes('already exists')
+                ? 409
+                : errorMessage.includes('system playlist') || errorMessage.startsWith('Invalid playlist name')
+                    ? 400
+                    : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// 35. Reorder Playlist Entries (move one entry, or set the full order)
+router.post('/playlists/:name/reorder', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, from, to, order } = req.body;
+        const reorder: PlaylistReorder | null = Array.isArray(order)
+            ? { order }
+            : typeof from === 'number' && typeof to === 'number'
+                ? { from, to }
+                : null;
+        if (!libraryPath || !reorder) {
+            res.status(400).json({ error: 'libraryPath and either from and to, or order are required' });
+            return;
+        }
+
+        await OrganizerService.reorderPlaylist(req.params.name, reorder, libraryPath);
+        const tracks = await OrganizerService.getPlaylistDetails(req.params.name, libraryPath);
+        res.json({ success: true, tracks });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Reorder Playlist Error:', errorMessage);
+        const status = errorMessage.includes('not found')
+            ? 404
+            : errorMessage.includes('cannot be reordered') || errorMessage.startsWith('Invalid playlist order')
+                ? 400
+                : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// 36. Import a Playlist File (PLS, XSPF, JSPF or M3U content, matched against the library)
+router.post('/playlists/import', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, fileName, content, name } = req.body;
+        if (!libraryPath || typeof fileName !== 'string' || typeof content !== 'string') {
+            res.status(400).json({ error: 'libraryPath, fileName and content are required' });
+            return;
+        }
+
+        const result = await PlaylistImportService.importPlaylist(libraryPath, {
+            fileName,
+            content,
+            name: typeof name === 'string' ? name : undefined,
+        });
+        res.json({ success: true, ...result });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Import Playlist Error:', errorMessage);
+        const status = errorMessage.includes('already exists')
+            ? 409
+            : errorMessage.startsWith('Unsupported playlist format') ||
+                errorMessage.startsWith('Invalid playlist name') ||
+                errorMessage.includes('could not be read as a playlist')
+                ? 400
+                : 500;
+        res.status(status).json({ error: errorMessage });
+    }
+});
+
+// Maps smart playlist errors to their HTTP status
+function smartPlaylistStatus(errorMessage: string): number {
+    return errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('already exists')
+            ? 409
+            : errorMessage.startsWith('Invalid smart playlist') || errorMessage.startsWith('Invalid playlist name')
+                ? 400
+                : 500;
+}
+
+// 37. List Smart Playlists (rule sets)
+router.get('/smart-playlists', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string' || !libraryPath) {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const playlists = await SmartPlaylistService.list(libraryPath);
+        res.json({ playlists });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('List Smart Playlists Error:', errorMessage);
+        res.status(500).json({ error: errorMessage });
+    }
+});
+
+// 38. Create a Smart Playlist (its playlist file is written right away)
+router.post('/smart-playlists', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, playlist } = req.body;
+        if (!libraryPath || !playlist) {
+            res.status(400).json({ error: 'libraryPath and playlist are required' });
+            return;
+        }
+
+        const saved = await SmartPlaylistService.save(libraryPath, playlist);
+        res.json({ success: true, playlist: saved });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Create Smart Playlist Error:', errorMessage);
+        res.status(smartPlaylistStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 39. Update a Smart Playlist (rules, match mode or name)
+router.put('/smart-playlists/:name', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, playlist } = req.body;
+        if (!libraryPath || !playlist) {
+            res.status(400).json({ error: 'libraryPath and playlist are required' });
+            return;
+        }
+
+        const saved = await SmartPlaylistService.save(libraryPath, playlist, req.params.name);
+        res.json({ success: true, playlist: saved });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Update Smart Playlist Error:', errorMessage);
+        res.status(smartPlaylistStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// Maps playlist folder errors to their HTTP status
+function playlistFolderStatus(errorMessage: string): number {
+    return errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('already exists') || errorMessage.includes('is not empty')
+            ? 409
+            : errorMessage.includes('system playlist') ||
+                errorMessage.startsWith('Invalid playlist name') ||
+                errorMessage.startsWith('Invalid playlist folder')
+                ? 400
+                : 500;
+}
+
+// 40. Move a Playlist to Another Folder (empty folder is the top of Playlists; journaled)
+router.post('/playlists/:name/move', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, folder } = req.body;
+        if (!libraryPath || typeof folder !== 'string') {
+            res.status(400).json({ error: 'libraryPath and folder are required' });
+            return;
+        }
+
+        const operationId = await OrganizerService.movePlaylist(req.params.name, folder, libraryPath);
+        const tree = await OrganizerService.getPlaylistTree(libraryPath);
+        res.json({ success: true, operationId, tree });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Move Playlist Error:', errorMessage);
+        res.status(playlistFolderStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 41. Create a Playlist Folder (path below Playlists, e.g. "Road Trips/Summer")
+router.post('/playlist-folders', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, path: folder } = req.body;
+        if (!libraryPath || typeof folder !== 'string') {
+            res.status(400).json({ error: 'libraryPath and path are required' });
+            return;
+        }
+
+        await OrganizerService.createPlaylistFolder(folder, libraryPath);
+        const tree = await OrganizerService.getPlaylistTree(libraryPath);
+        res.json({ success: true, tree });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Create Playlist Folder Error:', errorMessage);
+        res.status(playlistFolderStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 42. Delete an Empty Playlist Folder
+router.delete('/playlist-folders', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, path: folder } = req.query;
+        if (typeof libraryPath !== 'string' || typeof folder !== 'string') {
+            res.status(400).json({ error: 'libraryPath and path query params required' });
+            return;
+        }
+
+        await OrganizerService.deletePlaylistFolder(folder, libraryPath);
+        const tree = await OrganizerService.getPlaylistTree(libraryPath);
+        res.json({ success: true, tree });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Delete Playlist Folder Error:', errorMessage);
+        res.status(playlistFolderStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// Maps playlist description and cover errors to their HTTP status
+function playlistMetadataStatus(errorMessage: string): number {
+    return errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('cannot be edited') ||
+            errorMessage.startsWith('Invalid playlist cover') ||
+            errorMessage.startsWith('Invalid playlist description')
+            ? 400
+            : 500;
+}
+
+// 43. Get a Playlist Cover (its own image, or a collage of the tracks' album art)
+router.get('/playlists/:name/cover', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string') {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        const cover = await PlaylistMetadataService.getCover(libraryPath, req.params.name);
+        if (!cover) {
+            res.status(404).json({ error: 'No playlist cover found' });
+            return;
+        }
+
+        res.setHeader('Content-Type', cover.mimeType);
+        res.setHeader('Cache-Control', 'no-cache');
+        res.send(cover.data);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Playlist Cover Error:', errorMessage);
+        res.status(playlistMetadataStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 44. Update a Playlist Description (stored next to the playlist file)
+router.patch('/playlists/:name/metadata', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, description } = req.body;
+        if (!libraryPath || typeof description !== 'string') {
+            res.status(400).json({ error: 'libraryPath and description are required' });
+            return;
+        }
+
+        const metadata = await PlaylistMetadataService.update(libraryPath, req.params.name, { description });
+        res.json({ success: true, metadata });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Update Playlist Metadata Error:', errorMessage);
+        res.status(playlistMetadataStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 45. Set a Playlist Cover (image as a data URL: JPEG, PNG or WebP)
+router.put('/playlists/:name/cover', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath, image } = req.body;
+        if (!libraryPath || typeof image !== 'string') {
+            res.status(400).json({ error: 'libraryPath and image are required' });
+            return;
+        }
+
+        await PlaylistMetadataService.setCover(libraryPath, req.params.name, image);
+        const metadata = await PlaylistMetadataService.get(libraryPath, req.params.name);
+        res.json({ success: true, metadata });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Set Playlist Cover Error:', errorMessage);
+        res.status(playlistMetadataStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
+// 46. Remove a Playlist Cover (the collage is shown again)
+router.delete('/playlists/:name/cover', async (req, res): Promise<void> => {
+    try {
+        const { libraryPath } = req.query;
+        if (typeof libraryPath !== 'string') {
+            res.status(400).json({ error: 'libraryPath query param required' });
+            return;
+        }
+
+        await PlaylistMetadataService.removeCover(libraryPath, req.params.name);
+        const metadata = await PlaylistMetadataService.get(libraryPath, req.params.name);
+        res.json({ success: true, metadata });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Remove Playlist Cover Error:', errorMessage);
+        res.status(playlistMetadataStatus(errorMessage)).json({ error: errorMessage });
+    }
+});
+
 export default router;
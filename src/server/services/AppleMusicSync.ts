@@ -1,7 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { exec } from 'child_process';
-import type { SongMetadata } from './OrganizerService';
+import { LibraryStore } from './LibraryStore';
 import {
   FILE_CONSTANTS,
   APPLE_MUSIC_CONSTANTS,
@@ -27,14 +27,12 @@ export class AppleMusicSync {
    * NO importa archivos, solo organiza lo que YA existe en Música.
    */
   static async syncPlaylists(libraryPath: string) {
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
+    const inventory = await LibraryStore.read(libraryPath);
 
-    if (!(await fs.pathExists(dbPath))) {
+    if (!inventory) {
       throw new Error(ERROR_MESSAGES.LIBRARY_DB_NOT_FOUND);
     }
 
-    const inventory: SongMetadata[] = await fs.readJson(dbPath);
-
     // 1. Filtramos solo canciones que deben estar en alguna playlist
     const tracksToSync = inventory.filter((song) => song.playlists && song.playlists.length > 0);
 
@@ -0,0 +1,231 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  PLAYLIST_CONSTANTS,
+  AUTO_PLAYLIST_CONSTANTS,
+} from "../constants";
+import type { SongMetadata } from "./OrganizerService";
+import { JournalService } from "./JournalService";
+import type { OperationJournal } from "./JournalService";
+import { ConfigService } from "./ConfigService";
+import { LibraryStore } from "./LibraryStore";
+import { M3uService } from "./M3uService";
+import type { M3uTrack } from "./M3uService";
+
+export type AutoPlaylistFamily = (typeof AUTO_PLAYLIST_CONSTANTS.FAMILIES)[number];
+
+export interface AutoPlaylistSettings {
+  families?: AutoPlaylistFamily[]; // Families that are generated (default: genre only)
+  excludedGenres?: string[]; // Genres without a playlist, case-insensitive
+  recentDays?: number; // Age of the tracks in the recently added playlist
+}
+
+const PREFIXES: Record<AutoPlaylistFamily, string> = {
+  genre: PLAYLIST_CONSTANTS.GENRE_PLAYLIST_PREFIX,
+  artist: PLAYLIST_CONSTANTS.ARTIST_PLAYLIST_PREFIX,
+  decade: PLAYLIST_CONSTANTS.DECADE_PLAYLIST_PREFIX,
+  format: PLAYLIST_CONSTANTS.FORMAT_PLAYLIST_PREFIX,
+  recent: PLAYLIST_CONSTANTS.RECENT_PLAYLIST_PREFIX,
+};
+
+/**
+ * Playlists generated from the inventory, one per genre, album artist,
+ * decade or format, plus the recently added tracks. Which families are
+ * generated is set in config.json; files of a family that is turned off, or
+ * of a group that no longer has tracks, are removed. Only files listed in
+ * the manifest of the last run are removed, so user playlists that happen to
+ * share a prefix are left alone.
+ */
+export class AutoPlaylistService {
+  static isAutoPlaylist(playlistName: string): boolean {
+    return Object.values(PREFIXES).some((prefix) => playlistName.startsWith(prefix));
+  }
+
+  static async generate(
+    inventory: SongMetadata[],
+    libraryPath: string,
+    journal?: OperationJournal,
+  ): Promise<void> {
+    const settings = (await ConfigService.getConfig())?.autoPlaylists;
+    const families = settings?.families ?? AUTO_PLAYLIST_CONSTANTS.DEFAULT_FAMILIES;
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+
+    const written = new Set<string>();
+    for (const family of families) {
+      const groups = this.group(inventory, family, settings, playlistDir);
+      for (const [name, tracks] of groups) {
+        const fileName = `${PREFIXES[family]}${this.cleanName(name)}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`;
+        const filePath = path.join(playlistDir, fileName);
+        await journal?.capture(filePath);
+        await fs.outputFile(filePath, M3uService.build(tracks));
+        written.add(fileName);
+      }
+    }
+
+    await this.removeStale(playlistDir, written, journal);
+
+    const manifestPath = path.join(playlistDir, AUTO_PLAYLIST_CONSTANTS.MANIFEST_FILE);
+    await journal?.capture(manifestPath);
+    await fs.outputJson(manifestPath, [...written].sort(), { spaces: 2 });
+  }
+
+  /**
+   * Regenerates the playlists from the saved database, after the settings
+   * changed, as an operation that can be undone. Does nothing when the
+   * library has no database.
+   */
+  static async regenerate(libraryPath: string): Promise<void> {
+    await LibraryStore.withLock(libraryPath, async () => {
+      const inventory = await LibraryStore.read(libraryPath);
+      if (!inventory) return;
+
+      await JournalService.run(
+        "auto-playlists",
+        libraryPath,
+        "Regenerate automatic playlists",
+        (journal) => this.generate(inventory, libraryPath, journal),
+      );
+    });
+  }
+
+  /**
+   * Checks the autoPlaylists value of a config update. Returns one message
+   * per problem.
+   */
+  static validateSettings(value: unknown): string[] {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return ["autoPlaylists must be an object"];
+    }
+
+    const settings = value as Record<string, unknown>;
+    const errors: string[] = [];
+    const families: readonly unknown[] = AUTO_PLAYLIST_CONSTANTS.FAMILIES;
+    if (
+      settings.families !== undefined &&
+      (!Array.isArray(settings.families) ||
+        settings.families.some((family) => !families.includes(family)))
+    ) {
+      errors.push(`families must be a list of ${families.join(", ")}`);
+    }
+    if (
+      settings.excludedGenres !== undefined &&
+      (!Array.isArray(settings.excludedGenres) ||
+        settings.excludedGenres.some((genre) => typeof genre !== "string"))
+    ) {
+      errors.push("excludedGenres must be a list of genres");
+    }
+    if (
+      settings.recentDays !== undefined &&
+      (!Number.isInteger(settings.recentDays) ||
+        (settings.recentDays as number) < AUTO_PLAYLIST_CONSTANTS.MIN_RECENT_DAYS ||
+        (settings.recentDays as number) > AUTO_PLAYLIST_CONSTANTS.MAX_RECENT_DAYS)
+    ) {
+      errors.push(
+        `recentDays must be an integer between ${AUTO_PLAYLIST_CONSTANTS.MIN_RECENT_DAYS} and ${AUTO_PLAYLIST_CONSTANTS.MAX_RECENT_DAYS}`,
+      );
+    }
+    return errors;
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Playlist name (without prefix) -> tracks, for one family.
+   */
+  private static group(
+    inventory: SongMetadata[],
+    family: AutoPlaylistFamily,
+    settings: AutoPlaylistSettings | undefined,
+    playlistDir: string,
+  ): Map<string, M3uTrack[]> {
+    const groups = new Map<string, M3uTrack[]>();
+    const add = (name: string, song: SongMetadata) => {
+      if (!groups.has(name)) groups.set(name, []);
+      const rel = path.relative(playlistDir, song.absPath).split(path.sep).join("/");
+      groups.get(name)!.push({ path: rel, song });
+    };
+
+    if (family === "recent") {
+      const days = settings?.recentDays ?? AUTO_PLAYLIST_CONSTANTS.DEFAULT_RECENT_DAYS;
+      const since = Date.now() - days * 24 * 60 * 60 * 1000;
+      inventory
+        .filter((song) => song.addedAt !== undefined && song.addedAt >= since)
+        .sort((a, b) => b.addedAt! - a.addedAt!)
+        .forEach((song) => add(`Last_${days}_Days`, song));
+      return groups;
+    }
+
+    const excluded = new Set(
+      (settings?.excludedGenres ?? []).map((genre) => genre.trim().toLowerCase()),
+    );
+    for (const song of inventory) {
+      switch (family) {
+        case "genre":
+          song.genre
+            .map((g) => g.trim())
+            .filter((g) => !excluded.has(g.toLowerCase()))
+            .forEach((g) => add(g, song));
+          break;
+        case "artist":
+          add((song.albumArtist || song.artist).trim(), song);
+          break;
+        case "decade":
+          if (song.year) add(`${Math.floor(song.year / 10) * 10}s`, song);
+          break;
+        case "format":
+          add(song.codec || song.format.replace(/^\./, "").toUpperCase(), song);
+          break;
+      }
+    }
+    return groups;
+  }
+
+  private static cleanName(name: string): string {
+    return name.replace(
+      AUTO_PLAYLIST_CONSTANTS.INVALID_NAME_CHARS,
+      AUTO_PLAYLIST_CONSTANTS.INVALID_NAME_REPLACEMENT,
+    );
+  }
+
+  /**
+   * Removes the files the previous run wrote that this run did not.
+   */
+  private static async removeStale(
+    playlistDir: string,
+    written: Set<string>,
+    journal?: OperationJournal,
+  ): Promise<void> {
+    for (const file of await this.readManifest(playlistDir)) {
+      const filePath = path.join(playlistDir, file);
+      if (written.has(file) || !(await fs.pathExists(filePath))) continue;
+
+      await journal?.capture(filePath);
+      await fs.remove(filePath);
+    }
+  }
+
+  /**
+   * Files written by the last run; an unreadable or missing manifest lists
+   * none, so nothing is removed.
+   */
+  private static async readManifest(playlistDir: string): Promise<string[]> {
+    const manifestPath = path.join(playlistDir, AUTO_PLAYLIST_CONSTANTS.MANIFEST_FILE);
+    if (!(await fs.pathExists(manifestPath))) return [];
+    try {
+      const files: unknown = await fs.readJson(manifestPath);
+      if (!Array.isArray(files)) return [];
+      // Only plain generated file names, never a path out of Playlists
+      return files.filter(
+        (file): file is string =>
+          typeof file === "string" &&
+          path.basename(file) === file &&
+          file.endsWith(FILE_EXTENSIONS.PLAYLIST_PRIMARY) &&
+          this.isAutoPlaylist(file),
+      );
+    } catch {
+      return [];
+    }
+  }
+}
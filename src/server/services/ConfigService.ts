@@ -0,0 +1,53 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { FILE_CONSTANTS } from "../constants";
+import type { WatchRule } from "./InboxWatcherService";
+import type { AutoPlaylistSettings } from "./AutoPlaylistService";
+
+export interface AppConfig {
+  inboxPath: string;
+  libraryPath: string;
+  namingTemplate?: string; // Template used to compute proposedPath on scan
+  variousArtistsName?: string; // Album artist folder used for compilations
+  concurrency?: number; // Files read in parallel when scanning/regenerating
+  watchInbox?: boolean; // Scan new inbox folders automatically
+  watchRules?: WatchRule[]; // Per-folder actions for the inbox watcher
+  watchLibrary?: boolean; // Apply file changes made outside the app to the database
+  autoPlaylists?: AutoPlaylistSettings; // Playlist families generated from the inventory
+  updatedAt?: string;
+}
+
+/**
+ * Reads and writes the server side config.json stored in the working directory.
+ */
+export class ConfigService {
+  static getConfigPath(): string {
+    return path.resolve(process.cwd(), FILE_CONSTANTS.CONFIG_FILE);
+  }
+
+  static async getConfig(): Promise<AppConfig | null> {
+    const configPath = this.getConfigPath();
+    if (!(await fs.pathExists(configPath))) {
+      return null;
+    }
+    return fs.readJson(configPath);
+  }
+
+  /**
+   * Merges the given values into the stored config so that saving one
+   * setting does not wipe the others.
+   */
+  static async saveConfig(
+    values: Partial<AppConfig> & Pick<AppConfig, "inboxPath" | "libraryPath">,
+  ): Promise<AppConfig> {
+    const existing = await this.getConfig();
+    const config: AppConfig = {
+      ...(existing || {}),
+      ...values,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await fs.writeJson(this.getConfigPath(), config, { spaces: 2 });
+    return config;
+  }
+}
@@ -0,0 +1,251 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import * as mm from 'music-metadata';
+import type { ScanResult, SongMetadata, DuplicateInfo } from './OrganizerService';
+import { DUPLICATE_CONSTANTS, FILE_EXTENSIONS } from "../constants";
+import { LibraryStore } from "./LibraryStore";
+
+/**
+ * Detects inbox files that are already in the library (or repeated in the inbox).
+ *
+ * - "exact": same audio stream hash. Tags are excluded from the hash, so
+ *   re-tagged copies of the same rip still match.
+ * - "probable": same artist/title and (when known) the same duration.
+ */
+export class DuplicateDetectionService {
+  /**
+   * Flags every scan result in place and returns the same array.
+   * Library tracks without a stored hash are only hashed when their tags match.
+   */
+  static async flagDuplicates(
+    results: ScanResult[],
+    libraryPath: string,
+  ): Promise<ScanResult[]> {
+    const inventory = await this.loadInventory(libraryPath);
+
+    const hashIndex = new Map<string, SongMetadata>();
+    const tagIndex = new Map<string, SongMetadata[]>();
+    inventory.forEach((track) => {
+      if (track.audioHash && !hashIndex.has(track.audioHash)) {
+        hashIndex.set(track.audioHash, track);
+      }
+      const key = this.getTrackKey(track);
+      if (!tagIndex.has(key)) tagIndex.set(key, []);
+      tagIndex.get(key)!.push(track);
+    });
+
+    const seenInbox: SongMetadata[] = [];
+
+    for (const result of results) {
+      const song = result.metadata;
+      if (!song.audioHash) {
+        song.audioHash = (await this.computeAudioHash(result.file)) ?? undefined;
+      }
+
+      result.duplicate =
+        (await this.findInLibrary(song, hashIndex, tagIndex)) ??
+        this.findInInbox(song, seenInbox) ?? { status: "new" };
+
+      seenInbox.push({ ...song, absPath: result.file });
+    }
+
+    return results;
+  }
+
+  /**
+   * Hashes the audio payload of a file, skipping ID3v2/ID3v1/APE tags and
+   * FLAC metadata blocks. FLAC files with a STREAMINFO MD5 use it directly;
+   * when the caller has not parsed the file, STREAMINFO is read here so every
+   * FLAC gets the same kind of hash. Returns null when the file cannot be read.
+   */
+  static async computeAudioHash(
+    filePath: string,
+    audioMD5?: Uint8Array,
+  ): Promise<string | null> {
+    try {
+      if (!audioMD5 && path.extname(filePath).toLowerCase() === FILE_EXTENSIONS.FLAC) {
+        ({ audioMD5 } = (await mm.parseFile(filePath, { skipCovers: true })).format);
+      }
+      if (audioMD5 && audioMD5.some((b) => b !== 0)) {
+        return `md5:${Buffer.from(audioMD5).toString("hex")}`;
+      }
+
+      const { start, end } = await this.getAudioRange(filePath);
+      if (end <= start) return null;
+
+      const hash = crypto.createHash("sha1");
+      await new Promise<void>((resolve, reject) => {
+        fs.createReadStream(filePath, { start, end: end - 1 })
+          .on("data", (chunk) => hash.update(chunk))
+          .on("end", () => resolve())
+          .on("error", reject);
+      });
+      return `sha1:${hash.digest("hex")}`;
+    } catch (err) {
+      console.error(`[DuplicateDetection] Failed to hash ${filePath}`, err);
+      return null;
+    }
+  }
+
+  // --- Helpers ---
+
+  /**
+   * An unreadable database only means library duplicates are not detected.
+   */
+  private static async loadInventory(
+    libraryPath: string,
+  ): Promise<SongMetadata[]> {
+    try {
+      return (await LibraryStore.read(libraryPath)) ?? [];
+    } catch (err) {
+      console.warn(`[DuplicateDetection] Could not read the library database`, err);
+      return [];
+    }
+  }
+
+  private static async findInLibrary(
+    song: SongMetadata,
+    hashIndex: Map<string, SongMetadata>,
+    tagIndex: Map<string, SongMetadata[]>,
+  ): Promise<DuplicateInfo | null> {
+    const hashMatch = song.audioHash ? hashIndex.get(song.audioHash) : undefined;
+    if (hashMatch) {
+      return { status: "exact", source: "library", matchPath: hashMatch.absPath };
+    }
+
+    const candidates = tagIndex.get(this.getTrackKey(song)) || [];
+    for (const track of candidates) {
+      // Older entries have no stored hash: hash them on demand
+      if (song.audioHash && !track.audioHash && (await fs.pathExists(track.absPath))) {
+        track.audioHash = (await this.computeAudioHash(track.absPath)) ?? undefined;
+        if (track.audioHash === song.audioHash) {
+          return { status: "exact", source: "library", matchPath: track.absPath };
+        }
+      }
+    }
+
+    const probable = candidates.find((track) => this.isSameDuration(song, track));
+    if (probable) {
+      return { status: "probable", source: "library", matchPath: probable.absPath };
+    }
+
+    return null;
+  }
+
+  private static findInInbox(
+    song: SongMetadata,
+    seen: SongMetadata[],
+  ): DuplicateInfo | null {
+    const exact = song.audioHash
+      ? seen.find((other) => other.audioHash === song.audioHash)
+      : undefined;
+    if (exact) {
+      return { status: "exact", source: "inbox", matchPath: exact.absPath };
+    }
+
+    const probable = seen.find(
+      (other) => this.isSameTrack(song, other) && this.isSameDuration(song, other),
+    );
+    if (probable) {
+      return { status: "probable", source: "inbox", matchPath: probable.absPath };
+    }
+
+    return null;
+  }
+
+  private static getTrackKey(song: SongMetadata): string {
+    return `${this.normalize(song.artist)}|${this.normalize(song.title)}`;
+  }
+
+  private static isSameTrack(a: SongMetadata, b: SongMetadata): boolean {
+    return this.getTrackKey(a) === this.getTrackKey(b);
+  }
+
+  /**
+   * Durations within the tolerance match. Missing durations count as a match
+   * so tag-only comparisons still work for files without duration info.
+   */
+  private static isSameDuration(a: SongMetadata, b: SongMetadata): boolean {
+    if (a.duration === undefined || b.duration === undefined) return true;
+    return (
+      Math.abs(a.duration - b.duration) <=
+      DUPLICATE_CONSTANTS.DURATION_TOLERANCE_SECONDS
+    );
+  }
+
+  /**
+   * Lowercase letters and digits only, without accents, for comparing tags.
+   */
+  static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "") // Remove accents
+      .replace(/[^a-z0-9]/g, "");
+  }
+
+  private static async getAudioRange(
+    filePath: string,
+  ): Promise<{ start: number; end: number }> {
+    const { size } = await fs.stat(filePath);
+    const fd = await fs.open(filePath, "r");
+
+    try {
+      const readAt = async (position: number, length: number) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await fs.read(fd, buffer, 0, length, position);
+        return buffer.subarray(0, bytesRead);
+      };
+
+      let start = 0;
+      let end = size;
+
+      // Leading ID3v2 tag (10 byte header + syncsafe size + optional footer)
+      const head = await readAt(0, 10);
+      if (head.length === 10 && head.toString("latin1", 0, 3) === "ID3") {
+        const tagSize =
+          ((head[6] & 0x7f) << 21) |
+          ((head[7] & 0x7f) << 14) |
+          ((head[8] & 0x7f) << 7) |
+          (head[9] & 0x7f);
+        const hasFooter = (head[5] & 0x10) !== 0;
+        start = 10 + tagSize + (hasFooter ? 10 : 0);
+      }
+
+      // FLAC metadata blocks precede the audio frames
+      const marker = await readAt(start, 4);
+      if (marker.toString("latin1") === "fLaC") {
+        let position = start + 4;
+        let isLast = false;
+        while (!isLast && position < size) {
+          const blockHeader = await readAt(position, 4);
+          if (blockHeader.length < 4) break;
+          isLast = (blockHeader[0] & 0x80) !== 0;
+          position += 4 + blockHeader.readUIntBE(1, 3);
+        }
+        start = position;
+      }
+
+      // Trailing ID3v1 tag
+      if (end - start >= 128) {
+        const tail = await readAt(end - 128, 3);
+        if (tail.toString("latin1") === "TAG") end -= 128;
+      }
+
+      // Trailing APEv2 tag (32 byte footer, size excludes the optional header)
+      if (end - start >= 32) {
+        const footer = await readAt(end - 32, 32);
+        if (footer.toString("latin1", 0, 8) === "APETAGEX") {
+          const tagSize = footer.readUInt32LE(12);
+          const hasHeader = (footer.readUInt32LE(20) & 0x80000000) !== 0;
+          end -= tagSize + (hasHeader ? 32 : 0);
+        }
+      }
+
+      return { start, end };
+    } finally {
+      await fs.close(fd);
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { WATCH_CONSTANTS, CONFLICT_CONSTANTS } from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type {
+  ScanResult,
+  ConflictPolicy,
+  OrganizeSummary,
+} from "./OrganizerService";
+import { ConfigService } from "./ConfigService";
+import type { AppConfig } from "./ConfigService";
+
+export type WatchAction = (typeof WATCH_CONSTANTS.ACTIONS)[number];
+
+/**
+ * What to do with a new inbox folder whose name matches `folder`
+ * ("*" matches any characters, case-insensitive).
+ */
+export interface WatchRule {
+  folder: string;
+  action: WatchAction;
+  policy?: ConflictPolicy; // Conflict policy used when organizing automatically
+}
+
+export interface WatchQueueItem {
+  id: string;
+  folder: string; // Absolute path of the inbox folder
+  action: WatchAction; // Action the matching rule asked for
+  status: "pending-review" | "organized" | "failed";
+  detectedAt: string;
+  results: ScanResult[]; // Scan results waiting for review (empty once organized)
+  reason?: string; // Why an auto-organize folder was left for review
+  organize?: { operationId: string; summary: OrganizeSummary };
+  error?: string;
+}
+
+export interface WatchStatus {
+  running: boolean;
+  inboxPath: string | null;
+  lastPollAt: string | null;
+  queue: WatchQueueItem[];
+}
+
+interface FolderState {
+  fingerprint: string;
+  changedAt: number; // Last time the fingerprint changed
+  handled: boolean; // Already scanned (or present when the watcher started)
+}
+
+/**
+ * Polls the configured inbox for new album folders. A folder is scanned once
+ * its files have stopped changing for WATCH_CONSTANTS.SETTLE_MS; the results
+ * are queued for review or organized right away when a rule says so.
+ *
+ * Polling (instead of fs.watch) also works on network shares.
+ */
+export class InboxWatcherService {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static inboxPath: string | null = null;
+  private static folders = new Map<string, FolderState>();
+  private static queue: WatchQueueItem[] = [];
+  private static isFirstPoll = true;
+  private static polling = false;
+  private static lastPollAt: string | null = null;
+
+  /**
+   * Starts or stops the watcher to match the saved config.
+   */
+  static syncWithConfig(config: AppConfig | null): void {
+    if (config?.watchInbox && config.inboxPath) {
+      this.start(config.inboxPath);
+    } else {
+      this.stop();
+    }
+  }
+
+  static start(
+    inboxPath: string,
+    intervalMs: number = WATCH_CONSTANTS.POLL_INTERVAL_MS,
+  ): void {
+    if (this.timer && this.inboxPath === inboxPath) return;
+    this.stop();
+
+    console.log(`[InboxWatcher] Watching ${inboxPath}`);
+    this.inboxPath = inboxPath;
+    this.isFirstPoll = true;
+    this.timer = setInterval(() => {
+      this.poll().catch((err) =>
+        console.error("[InboxWatcher] Poll failed", err),
+      );
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      console.log(`[InboxWatcher] Stopped watching ${this.inboxPath}`);
+    }
+    this.timer = null;
+    this.inboxPath = null;
+    this.folders.clear();
+  }
+
+  static getStatus(): WatchStatus {
+    return {
+      running: this.timer !== null,
+      inboxPath: this.inboxPath,
+      lastPollAt: this.lastPollAt,
+      queue: [...this.queue],
+    };
+  }
+
+  /**
+   * Removes an item from the queue (reviewed or acknowledged by the user).
+   */
+  static dismiss(id: string): boolean {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((item) => item.id !== id);
+    return this.queue.length !== before;
+  }
+
+  /**
+   * Checks the inbox once. Folders that were already there on the first poll
+   * are left for a manual scan; only folders that appear later are handled.
+   */
+  static async poll(now: number = Date.now()): Promise<void> {
+    const inboxPath = this.inboxPath;
+    if (this.polling || !inboxPath) return;
+
+    this.polling = true;
+    try {
+      if (!(await fs.pathExists(inboxPath))) return;
+
+      const entries = await fs.readdir(inboxPath, { withFileTypes: true });
+      const seen = new Set<string>();
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+
+        const folderPath = path.join(inboxPath, entry.name);
+        seen.add(folderPath);
+
+        const state = this.folders.get(folderPath);
+        let fingerprint: string;
+        let audioFiles: number;
+        try {
+          ({ fingerprint, audioFiles } = await this.getFingerprint(folderPath));
+        } catch (err) {
+          // Moved or unreadable while polling: let it settle again
+          console.error(`[InboxWatcher] Failed to read ${folderPath}`, err);
+          this.folders.set(folderPath, {
+            fingerprint: "",
+            changedAt: now,
+            handled: this.isFirstPoll,
+          });
+          continue;
+        }
+
+        if (!state || state.fingerprint !== fingerprint) {
+          this.folders.set(folderPath, {
+            fingerprint,
+            changedAt: now,
+            handled: this.isFirstPoll,
+          });
+          continue;
+        }
+
+        if (
+          state.handled ||
+          audioFiles === 0 ||
+          now - state.changedAt < WATCH_CONSTANTS.SETTLE_MS
+        ) {
+          continue;
+        }
+
+        state.handled = true;
+        await this.processFolder(folderPath);
+      }
+
+      // Forget folders that left the inbox
+      for (const folderPath of [...this.folders.keys()]) {
+        if (!seen.has(folderPath)) this.folders.delete(folderPath);
+      }
+    } finally {
+      this.isFirstPoll = false;
+      this.polling = false;
+      this.lastPollAt = new Date(now).toISOString();
+    }
+  }
+
+  /**
+   * First rule whose folder pattern matches the folder name.
+   */
+  static matchRule(
+    folderName: string,
+    rules: WatchRule[],
+  ): WatchRule | undefined {
+    return rules.find((rule) => {
+      const pattern = rule.folder
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+      return new RegExp(`^${pattern}$`, "i").test(folderName);
+    });
+  }
+
+  /**
+   * Returns a list of problems with the given rules (empty if valid).
+   */
+  static validateRules(rules: unknown): string[] {
+    if (!Array.isArray(rules)) return ["watchRules must be an array"];
+
+    const errors: string[] = [];
+    rules.forEach((rule, i) => {
+      if (typeof rule?.folder !== "string" || rule.folder.trim() === "") {
+        errors.push(`Rule ${i + 1}: folder is required`);
+      }
+      if (!(WATCH_CONSTANTS.ACTIONS as readonly string[]).includes(rule?.action)) {
+        errors.push(`Rule ${i + 1}: action must be one of ${WATCH_CONSTANTS.ACTIONS.join(", ")}`);
+      }
+      if (
+        rule?.policy !== undefined &&
+        !(CONFLICT_CONSTANTS.POLICIES as readonly string[]).includes(rule.policy)
+      ) {
+        errors.push(`Rule ${i + 1}: policy must be one of ${CONFLICT_CONSTANTS.POLICIES.join(", ")}`);
+      }
+    });
+    return errors;
+  }
+
+  // --- Helpers ---
+
+  private static async processFolder(folderPath: string): Promise<void> {
+    const config = await ConfigService.getConfig();
+    if (!config?.libraryPath) return;
+
+    const rule = this.matchRule(path.basename(folderPath), config.watchRules || []);
+    const item: WatchQueueItem = {
+      id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+      folder: folderPath,
+      action: rule?.action ?? WATCH_CONSTANTS.DEFAULT_ACTION,
+      status: "pending-review",
+      detectedAt: new Date().toISOString(),
+      results: [],
+    };
+
+    console.log(`[InboxWatcher] New folder ready: ${folderPath} (${item.action})`);
+
+    try {
+      item.results = await OrganizerService.scanFolder(
+        folderPath,
+        config.libraryPath,
+        {
+          template: config.namingTemplate,
+          variousArtists: config.variousArtistsName,
+        },
+        { concurrency: config.concurrency },
+      );
+
+      if (item.action === "organize") {
+        const duplicates = item.results.filter(
+          (result) => result.duplicate && result.duplicate.status !== "new",
+        ).length;
+
+        // Possible duplicates are never organized without a look from the user
+        if (duplicates > 0) {
+          item.reason = `${duplicates} possible duplicate(s) need review`;
+        } else {
+          const outcome = await OrganizerService.organize(
+            item.results,
+            config.libraryPath,
+            rule?.policy ?? CONFLICT_CONSTANTS.DEFAULT_POLICY,
+          );
+          item.status = "organized";
+          item.organize = {
+            operationId: outcome.operationId,
+            summary: outcome.summary,
+          };
+          item.results = [];
+        }
+      }
+    } catch (err) {
+      console.error(`[InboxWatcher] Failed to process ${folderPath}`, err);
+      item.status = "failed";
+      item.error = err instanceof Error ? err.message : String(err);
+    }
+
+    this.enqueue(item);
+  }
+
+  private static enqueue(item: WatchQueueItem): void {
+    // A folder that changed again replaces its previous pending entry
+    this.queue = this.queue.filter(
+      (queued) => !(queued.folder === item.folder && queued.status === "pending-review"),
+    );
+    this.queue.push(item);
+    this.queue = this.queue.slice(-WATCH_CONSTANTS.QUEUE_LIMIT);
+  }
+
+  /**
+   * Path, size and mtime of every file under dir. It changes while files are
+   * still being copied into the folder.
+   */
+  private static async getFingerprint(
+    dir: string,
+  ): Promise<{ fingerprint: string; audioFiles: number }> {
+    const parts: string[] = [];
+    let audioFiles = 0;
+
+    const walk = async (current: string) => {
+      const entries = await fs.readdir(current, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const stats = await fs.stat(fullPath);
+          parts.push(`${path.relative(dir, fullPath)}:${stats.size}:${stats.mtimeMs}`);
+          if (OrganizerService.isSupportedFormat(fullPath)) audioFiles++;
+        }
+      }
+    };
+    await walk(dir);
+
+    return { fingerprint: parts.sort().join("|"), audioFiles };
+  }
+
+  /**
+   * Clears all state. Only meant for tests.
+   */
+  static reset(): void {
+    this.stop();
+    this.queue = [];
+    this.lastPollAt = null;
+  }
+}
@@ -0,0 +1,349 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  JOURNAL_CONSTANTS,
+  ERROR_MESSAGES,
+} from "../constants";
+import { PlaylistIndexService } from "./PlaylistIndexService";
+import { LibraryStore } from "./LibraryStore";
+
+export type OperationType =
+  | "organize"
+  | "export-move"
+  | "playlist-delete"
+  | "playlist-rename"
+  | "auto-playlists";
+
+export type OperationStatus =
+  | "running" // Started and not finished (or the process died mid-run)
+  | "completed"
+  | "rolled-back" // Failed mid-run and was reverted automatically
+  | "undone"; // Reverted on request
+
+export interface JournalMove {
+  from: string;
+  to: string;
+}
+
+export interface JournalSnapshot {
+  path: string; // Absolute path of the DB/playlist file
+  copy: string | null; // Copy inside the journal folder; null if the file did not exist
+}
+
+export interface JournalEntry {
+  id: string;
+  type: OperationType;
+  libraryPath: string;
+  description: string;
+  status: OperationStatus;
+  createdAt: string;
+  finishedAt?: string;
+  error?: string; // Error that triggered an automatic rollback
+  moves: JournalMove[]; // File moves in the order they happened
+  snapshots: JournalSnapshot[]; // Files as they were before the operation wrote them
+}
+
+export interface UndoResult {
+  operation: JournalEntry;
+  restoredFiles: number;
+  failures: string[]; // Moves that could not be reverted (e.g. file missing)
+}
+
+/**
+ * A single journaled operation. Every file move and every DB/playlist write
+ * is recorded before it happens, so the operation can be reverted later.
+ */
+export class OperationJournal {
+  private entry: JournalEntry;
+
+  constructor(entry: JournalEntry) {
+    this.entry = entry;
+  }
+
+  get id(): string {
+    return this.entry.id;
+  }
+
+  /**
+   * Moves a file and records it. Use instead of fs.move inside an operation.
+   */
+  async move(from: string, to: string, options?: fs.MoveOptions): Promise<void> {
+    await fs.ensureDir(path.dirname(to));
+    if (options) {
+      await fs.move(from, to, options);
+    } else {
+      await fs.move(from, to);
+    }
+    this.entry.moves.push({ from, to });
+    await this.save();
+  }
+
+  /**
+   * Moves a library file that is about to be overwritten into the journal
+   * folder so undo can put it back.
+   */
+  async backup(filePath: string): Promise<void> {
+    const backupPath = path.join(
+      JournalService.getOperationDir(this.entry.libraryPath, this.id),
+      JOURNAL_CONSTANTS.BACKUPS_DIR,
+      `${this.entry.moves.length}${path.extname(filePath)}`,
+    );
+    await this.move(filePath, backupPath);
+  }
+
+  /**
+   * Saves a copy of a text file (DB or playlist) before it is first written.
+   * Files that do not exist yet are recorded so undo removes them.
+   */
+  async capture(filePath: string): Promise<void> {
+    if (this.entry.snapshots.some((s) => s.path === filePath)) return;
+
+    let copy: string | null = null;
+    if (await fs.pathExists(filePath)) {
+      copy = path.join(
+        JournalService.getOperationDir(this.entry.libraryPath, this.id),
+        JOURNAL_CONSTANTS.SNAPSHOTS_DIR,
+        `${this.entry.snapshots.length}${path.extname(filePath)}`,
+      );
+      await fs.copy(filePath, copy);
+    }
+
+    this.entry.snapshots.push({ path: filePath, copy });
+    await this.save();
+  }
+
+  async complete(): Promise<void> {
+    this.entry.status = "completed";
+    this.entry.finishedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  /**
+   * Reverts everything recorded so far after a failure.
+   */
+  async rollback(error: unknown): Promise<void> {
+    this.entry.error = error instanceof Error ? error.message : String(error);
+    await JournalService.revert(this.entry, "rolled-back");
+  }
+
+  async save(): Promise<void> {
+    await JournalService.saveEntry(this.entry);
+  }
+}
+
+/**
+ * Stores journaled operations under <library>/.operations and reverts them.
+ */
+export class JournalService {
+  static getOperationsDir(libraryPath: string): string {
+    return path.join(libraryPath, JOURNAL_CONSTANTS.OPERATIONS_DIR);
+  }
+
+  static getOperationDir(libraryPath: string, id: string): string {
+    return path.join(this.getOperationsDir(libraryPath), id);
+  }
+
+  /**
+   * Runs work as a journaled operation, holding the library lock. If it
+   * throws, everything it recorded is rolled back and the error is rethrown.
+   */
+  static async run<T>(
+    type: OperationType,
+    libraryPath: string,
+    description: string,
+    work: (journal: OperationJournal) => Promise<T>,
+  ): Promise<T> {
+    return LibraryStore.withLock(libraryPath, async () => {
+      const journal = await this.begin(type, libraryPath, description);
+      try {
+        const result = await work(journal);
+        await journal.complete();
+        return result;
+      } catch (err) {
+        console.error(`[Journal] Operation ${journal.id} failed, rolling back`, err);
+        await journal.rollback(err);
+        throw err;
+      }
+    });
+  }
+
+  static async begin(
+    type: OperationType,
+    libraryPath: string,
+    description: string,
+  ): Promise<OperationJournal> {
+    const entry: JournalEntry = {
+      id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+      type,
+      libraryPath,
+      description,
+      status: "running",
+      createdAt: new Date().toISOString(),
+      moves: [],
+      snapshots: [],
+    };
+
+    const journal = new OperationJournal(entry);
+    await journal.save();
+    await this.prune(libraryPath);
+    return journal;
+  }
+
+  /**
+   * Lists operations, newest first.
+   */
+  static async list(libraryPath: string): Promise<JournalEntry[]> {
+    const dir = this.getOperationsDir(libraryPath);
+    if (!(await fs.pathExists(dir))) return [];
+
+    const ids = (await fs.readdir(dir)).sort().reverse();
+    const entries: JournalEntry[] = [];
+    for (const id of ids) {
+      const entry = await this.getEntry(libraryPath, id);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  static async getEntry(
+    libraryPath: string,
+    id: string,
+  ): Promise<JournalEntry | null> {
+    const journalPath = path.join(
+      this.getOperationDir(libraryPath, id),
+      JOURNAL_CONSTANTS.JOURNAL_FILE,
+    );
+    if (!(await fs.pathExists(journalPath))) return null;
+    return fs.readJson(journalPath);
+  }
+
+  static async saveEntry(entry: JournalEntry): Promise<void> {
+    const dir = this.getOperationDir(entry.libraryPath, entry.id);
+    await fs.ensureDir(dir);
+    await fs.writeJson(path.join(dir, JOURNAL_CONSTANTS.JOURNAL_FILE), entry, {
+      spaces: 2,
+    });
+  }
+
+  /**
+   * Undoes a completed (or interrupted) operation: moves files back and
+   * restores the DB and playlist files it changed. Snapshots are whole
+   * files, so only the newest operation that is still in effect can be
+   * undone; restoring an older one would drop what the newer ones wrote.
+   */
+  static async undo(libraryPath: string, id: string): Promise<UndoResult> {
+    return LibraryStore.withLock(libraryPath, async () => {
+      const entry = await this.getEntry(libraryPath, id);
+      if (!entry) {
+        throw new Error(ERROR_MESSAGES.OPERATION_NOT_FOUND(id));
+      }
+      if (this.isReverted(entry)) {
+        throw new Error(ERROR_MESSAGES.OPERATION_ALREADY_REVERTED(id));
+      }
+
+      const operations = await this.list(libraryPath);
+      if (operations.some((other) => other.id > entry.id && !this.isReverted(other))) {
+        throw new Error(ERROR_MESSAGES.OPERATION_NOT_LATEST(id));
+      }
+
+      return this.revertEntry(entry, "undone");
+    });
+  }
+
+  static async revert(
+    entry: JournalEntry,
+    status: "undone" | "rolled-back",
+  ): Promise<UndoResult> {
+    return LibraryStore.withLock(entry.libraryPath, () =>
+      this.revertEntry(entry, status),
+    );
+  }
+
+  // --- Helpers ---
+
+  private static isReverted(entry: JournalEntry): boolean {
+    return entry.status === "undone" || entry.status === "rolled-back";
+  }
+
+  private static async revertEntry(
+    entry: JournalEntry,
+    status: "undone" | "rolled-back",
+  ): Promise<UndoResult> {
+    const failures: string[] = [];
+    let restoredFiles = 0;
+
+    // 1. Move files back, newest first
+    for (const move of [...entry.moves].reverse()) {
+      try {
+        if (!(await fs.pathExists(move.to))) {
+          failures.push(`Missing ${move.to}`);
+          continue;
+        }
+        if (await fs.pathExists(move.from)) {
+          failures.push(`Cannot restore ${move.from}: a file already exists there`);
+          continue;
+        }
+        await fs.ensureDir(path.dirname(move.from));
+        await fs.move(move.to, move.from);
+        await this.removeEmptyParents(move.to, [
+          entry.libraryPath,
+          this.getOperationsDir(entry.libraryPath),
+        ]);
+        restoredFiles++;
+      } catch (err) {
+        failures.push(
+          `Failed to restore ${move.from}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+
+    // 2. Restore DB and playlist files
+    for (const snapshot of entry.snapshots) {
+      if (snapshot.copy) {
+        await fs.copy(snapshot.copy, snapshot.path, { overwrite: true });
+      } else if (await fs.pathExists(snapshot.path)) {
+        await fs.remove(snapshot.path);
+      }
+    }
+    PlaylistIndexService.invalidate(entry.libraryPath);
+    LibraryStore.invalidate(entry.libraryPath);
+
+    entry.status = status;
+    entry.finishedAt = new Date().toISOString();
+    await this.saveEntry(entry);
+
+    return { operation: entry, restoredFiles, failures };
+  }
+
+  /**
+   * Removes directories left empty by undo, stopping at any of the roots.
+   */
+  private static async removeEmptyParents(
+    filePath: string,
+    roots: string[],
+  ): Promise<void> {
+    let dir = path.dirname(filePath);
+    while (
+      !roots.includes(dir) &&
+      dir !== path.dirname(dir) &&
+      (await fs.pathExists(dir)) &&
+      (await fs.readdir(dir)).length === 0
+    ) {
+      await fs.rmdir(dir);
+      dir = path.dirname(dir);
+    }
+  }
+
+  /**
+   * Keeps only the most recent operations (and their backups) on disk.
+   */
+  private static async prune(libraryPath: string): Promise<void> {
+    const dir = this.getOperationsDir(libraryPath);
+    const ids = (await fs.readdir(dir)).sort();
+    const excess = ids.slice(0, Math.max(0, ids.length - JOURNAL_CONSTANTS.HISTORY_LIMIT));
+    for (const id of excess) {
+      await fs.remove(path.join(dir, id));
+    }
+  }
+}
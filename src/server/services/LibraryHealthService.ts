@@ -0,0 +1,289 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as mm from 'music-metadata';
+import { FILE_CONSTANTS, METADATA_DEFAULTS } from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type { SongMetadata } from "./OrganizerService";
+import { LibraryStore } from "./LibraryStore";
+import { PlaylistIndexService } from "./PlaylistIndexService";
+import { M3uService } from "./M3uService";
+import { WorkerPool } from "./WorkerPool";
+
+export interface MissingFileIssue {
+  trackId?: string;
+  path: string;
+  title: string;
+  artist: string;
+}
+
+export interface BrokenPlaylistEntry {
+  playlist: string;
+  entry: string; // As written in the playlist, forward slashes
+  resolvedPath: string;
+}
+
+export type PlaceholderField = "artist" | "genre" | "trackNo";
+
+export interface PlaceholderIssue {
+  trackId?: string;
+  path: string;
+  title: string;
+  fields: PlaceholderField[];
+}
+
+export interface UnreadableFile {
+  path: string;
+  error: string;
+}
+
+export interface HealthReport {
+  libraryPath: string;
+  checkedAt: string;
+  trackCount: number;
+  missingFiles: MissingFileIssue[]; // In the database, not on disk
+  untrackedFiles: string[]; // On disk, not in the database
+  brokenPlaylistEntries: BrokenPlaylistEntry[];
+  placeholderMetadata: PlaceholderIssue[];
+  unreadableFiles: UnreadableFile[];
+}
+
+export type HealthFix =
+  | "remove-missing"
+  | "add-untracked"
+  | "remove-broken-entries";
+
+export interface HealthCheckOptions {
+  concurrency?: number;
+}
+
+/**
+ * Integrity check of a library: compares library_db.json with the audio
+ * files on disk and the custom playlists, and flags tracks that still carry
+ * the placeholder metadata the organizer writes when tags are missing.
+ *
+ * The check only reads. Fixes are limited to the issues with an obvious
+ * remedy; placeholder metadata has to be edited track by track.
+ */
+export class LibraryHealthService {
+  static readonly FIXES: HealthFix[] = [
+    "remove-missing",
+    "add-untracked",
+    "remove-broken-entries",
+  ];
+
+  static async check(
+    libraryPath: string,
+    options: HealthCheckOptions = {},
+  ): Promise<HealthReport> {
+    const concurrency = WorkerPool.normalizeConcurrency(options.concurrency);
+    const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+    const onDisk = await this.listAudioFiles(libraryPath);
+    const byPath = new Map(inventory.map((song) => [song.absPath, song]));
+
+    // 1. Database entries without a file
+    const missingFiles: MissingFileIssue[] = inventory
+      .filter((song) => !onDisk.has(song.absPath))
+      .map((song) => ({
+        trackId: song.id,
+        path: song.absPath,
+        title: song.title,
+        artist: song.artist,
+      }));
+
+    // 2. Files the database does not know about, or that changed since they
+    // were indexed, are parsed to find the unreadable ones
+    const toParse = [...onDisk.keys()].filter((filePath) => {
+      const song = byPath.get(filePath);
+      const state = onDisk.get(filePath);
+      return (
+        !song ||
+        (song.fileSize !== undefined &&
+          state !== undefined &&
+          (song.fileSize !== state.size || song.modifiedAt !== state.mtimeMs))
+      );
+    });
+    const parseErrors = await WorkerPool.map(toParse, concurrency, (filePath) =>
+      this.tryParse(filePath),
+    );
+
+    const untrackedFiles: string[] = [];
+    const unreadableFiles: UnreadableFile[] = [];
+    toParse.forEach((filePath, i) => {
+      const error = parseErrors[i];
+      if (error !== null) {
+        unreadableFiles.push({ path: filePath, error });
+      } else if (!byPath.has(filePath)) {
+        untrackedFiles.push(filePath);
+      }
+    });
+
+    // 3. Placeholder metadata of tracks that are still there
+    const placeholderMetadata: PlaceholderIssue[] = [];
+    for (const song of inventory) {
+      if (!onDisk.has(song.absPath)) continue;
+      const fields = this.getPlaceholderFields(song);
+      if (fields.length > 0) {
+        placeholderMetadata.push({
+          trackId: song.id,
+          path: song.absPath,
+          title: song.title,
+          fields,
+        });
+      }
+    }
+
+    return {
+      libraryPath,
+      checkedAt: new Date().toISOString(),
+      trackCount: inventory.length,
+      missingFiles,
+      untrackedFiles: untrackedFiles.sort(),
+      brokenPlaylistEntries: await this.findBrokenPlaylistEntries(
+        libraryPath,
+        onDisk,
+      ),
+      placeholderMetadata,
+      unreadableFiles: unreadableFiles.sort((a, b) =>
+        a.path.localeCompare(b.path),
+      ),
+    };
+  }
+
+  /**
+   * Applies one fix to the issues found by a fresh check and returns the
+   * report after the fix. Runs under the library lock so nothing changes
+   * between the check and the fix.
+   */
+  static async fix(
+    libraryPath: string,
+    fix: HealthFix,
+    options: HealthCheckOptions = {},
+  ): Promise<HealthReport> {
+    return LibraryStore.withLock(libraryPath, async () => {
+      const report = await this.check(libraryPath, options);
+
+      switch (fix) {
+        case "remove-missing":
+          await OrganizerService.applyLibraryChanges(
+            libraryPath,
+            {
+              added: [],
+              removed: report.missingFiles.map((issue) => issue.path),
+              modified: [],
+              renamed: [],
+            },
+            options,
+          );
+          break;
+        case "add-untracked":
+          await OrganizerService.applyLibraryChanges(
+            libraryPath,
+            {
+              added: report.untrackedFiles,
+              removed: [],
+              modified: [],
+              renamed: [],
+            },
+            options,
+          );
+          break;
+        case "remove-broken-entries": {
+          // Entries of playlists in subfolders are relative to their folder
+          const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+          await OrganizerService.removePlaylistEntries(libraryPath, [
+            ...new Set(
+              report.brokenPlaylistEntries.map((issue) =>
+                path.relative(playlistDir, issue.resolvedPath).split(path.sep).join("/"),
+              ),
+            ),
+          ]);
+          break;
+        }
+      }
+
+      return this.check(libraryPath, options);
+    });
+  }
+
+  // --- Helpers ---
+
+  private static getPlaceholderFields(song: SongMetadata): PlaceholderField[] {
+    const fields: PlaceholderField[] = [];
+    if (song.artist === METADATA_DEFAULTS.UNKNOWN_ARTIST) fields.push("artist");
+    if (song.genre?.includes(METADATA_DEFAULTS.DEFAULT_GENRE)) fields.push("genre");
+    if (song.trackNo === METADATA_DEFAULTS.DEFAULT_TRACK_NO) fields.push("trackNo");
+    return fields;
+  }
+
+  /**
+   * Returns null when the file parses, the error message otherwise.
+   */
+  private static async tryParse(filePath: string): Promise<string | null> {
+    try {
+      await mm.parseFile(filePath);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  private static async findBrokenPlaylistEntries(
+    libraryPath: string,
+    onDisk: Map<string, { size: number; mtimeMs: number }>,
+  ): Promise<BrokenPlaylistEntry[]> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const files = await PlaylistIndexService.listCustomPlaylists(playlistDir);
+    const broken: BrokenPlaylistEntry[] = [];
+
+    for (const file of files) {
+      const playlistPath = path.join(playlistDir, file);
+      const content = await fs.readFile(playlistPath, "utf-8");
+      const entries = content
+        .split("\n")
+        .filter((line) => line.trim().length > 0 && !line.startsWith("#"))
+        .map((line) => line.trim().replace(/\\/g, "/"));
+
+      for (const entry of entries) {
+        const resolvedPath = M3uService.resolveEntry(playlistPath, entry);
+        // Entries outside the scanned folders (e.g. on another drive) still count when they exist
+        if (onDisk.has(resolvedPath) || (await fs.pathExists(resolvedPath))) {
+          continue;
+        }
+        broken.push({
+          playlist: PlaylistIndexService.getPlaylistName(file),
+          entry,
+          resolvedPath,
+        });
+      }
+    }
+    return broken;
+  }
+
+  /**
+   * Size and mtime of every supported audio file in the library, skipping
+   * the Playlists folder and the app's own folders (operation backups).
+   */
+  private static async listAudioFiles(
+    libraryPath: string,
+  ): Promise<Map<string, { size: number; mtimeMs: number }>> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const files = new Map<string, { size: number; mtimeMs: number }>();
+
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (OrganizerService.isInternalEntry(entry.name)) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (fullPath !== playlistDir) await walk(fullPath);
+        } else if (entry.isFile() && OrganizerService.isSupportedFormat(fullPath)) {
+          const stats = await fs.stat(fullPath);
+          files.set(fullPath, { size: stats.size, mtimeMs: stats.mtimeMs });
+        }
+      }
+    };
+    if (await fs.pathExists(libraryPath)) await walk(libraryPath);
+
+    return files;
+  }
+}
@@ -0,0 +1,237 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { FILE_CONSTANTS, ERROR_MESSAGES } from "../constants";
+import type { SongMetadata } from "./OrganizerService";
+import type { OperationJournal } from "./JournalService";
+
+interface CachedDatabase {
+  inventory: SongMetadata[];
+  byId: Map<string, SongMetadata>;
+}
+
+/**
+ * The only module that reads and writes library_db.json.
+ *
+ * Work that changes the database or the playlist files runs through
+ * withLock, which serializes it per library. The lock is reentrant, so a
+ * locked operation can call other locked operations. Saves go to a temp
+ * file that is renamed over the database, and the parsed database is cached
+ * while the file keeps the size and mtime of the last read or write.
+ *
+ * Every saved track gets a persistent id; databases saved before ids existed
+ * get theirs through ensureTrackIds.
+ */
+export class LibraryStore {
+  private static cache = new Map<
+    string,
+    CachedDatabase & { signature: string }
+  >();
+  private static queues = new Map<string, Promise<void>>();
+  // Libraries locked by the current async call chain
+  private static held = new AsyncLocalStorage<Set<string>>();
+
+  static getDbPath(libraryPath: string): string {
+    return path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
+  }
+
+  static async exists(libraryPath: string): Promise<boolean> {
+    return fs.pathExists(this.getDbPath(libraryPath));
+  }
+
+  /**
+   * Returns a copy of the database, or null when the library has none yet.
+   * Callers that write the result back should hold the lock.
+   */
+  static async read(libraryPath: string): Promise<SongMetadata[] | null> {
+    const database = await this.readShared(libraryPath);
+    return database && structuredClone(database.inventory);
+  }
+
+  /**
+   * Saves the database once if some tracks have no id yet (databases written
+   * before track ids existed).
+   */
+  static async ensureTrackIds(libraryPath: string): Promise<void> {
+    await this.withLock(libraryPath, async () => {
+      const inventory = await this.read(libraryPath);
+      if (inventory?.some((song) => !song.id)) {
+        await this.write(libraryPath, inventory);
+      }
+    });
+  }
+
+  /**
+   * Finds a track by its id. Returns null when it is not in the database.
+   */
+  static async getTrack(
+    libraryPath: string,
+    id: string,
+  ): Promise<SongMetadata | null> {
+    // Only the track is copied; covers ask for one track per table row
+    const song = (await this.readShared(libraryPath))?.byId.get(id);
+    return song ? structuredClone(song) : null;
+  }
+
+  /**
+   * Saves the whole database atomically, giving new tracks an id and an
+   * addedAt date. A journal, when given, keeps a copy of the previous file so
+   * the operation can be undone.
+   */
+  static async write(
+    libraryPath: string,
+    inventory: SongMetadata[],
+    journal?: OperationJournal,
+  ): Promise<void> {
+    await this.withLock(libraryPath, async () => {
+      const dbPath = this.getDbPath(libraryPath);
+      await journal?.capture(dbPath);
+
+      const now = Date.now();
+      for (const song of inventory) {
+        song.id ??= this.createTrackId();
+        // Tracks saved before addedAt existed count from their file date
+        song.addedAt ??= song.modifiedAt ?? now;
+      }
+      const tempPath = `${dbPath}.${process.pid}${FILE_CONSTANTS.TEMP_FILE_SUFFIX}`;
+      await fs.outputJson(tempPath, inventory, { spaces: 2 });
+      await fs.rename(tempPath, dbPath);
+
+      this.remember(
+        this.getKey(libraryPath),
+        await this.getSignature(dbPath),
+        structuredClone(inventory),
+      );
+    });
+  }
+
+  /**
+   * Reads the database, lets mutate change it in place and saves it, all
+   * under the lock. Does nothing when the library has no database.
+   */
+  static async update(
+    libraryPath: string,
+    mutate: (inventory: SongMetadata[]) => void | Promise<void>,
+    journal?: OperationJournal,
+  ): Promise<SongMetadata[] | null> {
+    return this.withLock(libraryPath, async () => {
+      const inventory = await this.read(libraryPath);
+      if (!inventory) return null;
+      await mutate(inventory);
+      await this.write(libraryPath, inventory, journal);
+      return inventory;
+    });
+  }
+
+  /**
+   * Runs work once every earlier locked work on the library has finished.
+   */
+  static async withLock<T>(
+    libraryPath: string,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    const key = this.getKey(libraryPath);
+    const held = this.held.getStore();
+    if (held?.has(key)) return work();
+
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const run = previous.then(() =>
+      this.held.run(new Set([...(held ?? []), key]), work),
+    );
+    const tail = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queues.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    }
+  }
+
+  /**
+   * Drops the cached database of a library (or of every library), e.g.
+   * after the file was restored from a journal snapshot.
+   */
+  static invalidate(libraryPath?: string): void {
+    if (libraryPath) {
+      this.cache.delete(this.getKey(libraryPath));
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  // --- Helpers ---
+
+  /**
+   * The cached database itself (refreshed when the file changed), which
+   * must not be handed out or modified.
+   */
+  private static async readShared(
+    libraryPath: string,
+  ): Promise<CachedDatabase | null> {
+    const dbPath = this.getDbPath(libraryPath);
+    const key = this.getKey(libraryPath);
+    if (!(await fs.pathExists(dbPath))) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    const signature = await this.getSignature(dbPath);
+    const cached = this.cache.get(key);
+    if (signature !== null && cached?.signature === signature) {
+      return cached;
+    }
+
+    return this.remember(key, signature, await this.load(dbPath));
+  }
+
+  private static createTrackId(): string {
+    return crypto.randomBytes(8).toString("hex");
+  }
+
+  private static async load(dbPath: string): Promise<SongMetadata[]> {
+    const inventory = await fs.readJson(dbPath);
+    if (!Array.isArray(inventory)) {
+      throw new Error(ERROR_MESSAGES.LIBRARY_DB_INVALID);
+    }
+    return inventory;
+  }
+
+  private static getKey(libraryPath: string): string {
+    return path.resolve(libraryPath);
+  }
+
+  private static remember(
+    key: string,
+    signature: string | null,
+    inventory: SongMetadata[],
+  ): CachedDatabase {
+    const byId = new Map<string, SongMetadata>();
+    for (const song of inventory) {
+      if (song.id) byId.set(song.id, song);
+    }
+    if (signature !== null) {
+      this.cache.set(key, { signature, inventory, byId });
+    } else {
+      this.cache.delete(key);
+    }
+    return { inventory, byId };
+  }
+
+  /**
+   * Size and mtime of the database file; null when it cannot be read.
+   */
+  private static async getSignature(dbPath: string): Promise<string | null> {
+    try {
+      const stats = await fs.stat(dbPath);
+      if (typeof stats?.size !== "number") return null;
+      return `${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  WATCH_CONSTANTS,
+  CONCURRENCY_CONSTANTS,
+} from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type { LibraryChanges } from "./OrganizerService";
+import type { AppConfig } from "./ConfigService";
+import { WorkerPool } from "./WorkerPool";
+
+export interface LibraryWatchStatus {
+  running: boolean;
+  libraryPath: string | null;
+  lastPollAt: string | null;
+  lastChanges: (LibraryChanges & { appliedAt: string }) | null;
+}
+
+interface FileState {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+}
+
+/**
+ * Polls the library (excluding Playlists/ and the app's own folders) and applies
+ * files added, removed, renamed or modified outside the app to the database.
+ *
+ * A change is only applied once it was seen on two polls in a row, so files
+ * that are still being copied are not parsed and a rename (old path gone,
+ * new path with the same inode/size) can be paired up.
+ */
+export class LibraryWatcherService {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static libraryPath: string | null = null;
+  private static concurrency: number = CONCURRENCY_CONSTANTS.DEFAULT;
+  private static known: Map<string, FileState> | null = null; // State already in the database
+  private static candidates = new Map<string, FileState>(); // Changed on the last poll
+  private static missing = new Set<string>(); // Gone on the last poll
+  private static polling = false;
+  private static lastPollAt: string | null = null;
+  private static lastChanges: LibraryWatchStatus["lastChanges"] = null;
+
+  /**
+   * Starts or stops the watcher to match the saved config.
+   */
+  static syncWithConfig(config: AppConfig | null): void {
+    this.concurrency = WorkerPool.normalizeConcurrency(config?.concurrency);
+    if (config?.watchLibrary && config.libraryPath) {
+      this.start(config.libraryPath);
+    } else {
+      this.stop();
+    }
+  }
+
+  static start(
+    libraryPath: string,
+    intervalMs: number = WATCH_CONSTANTS.LIBRARY_POLL_INTERVAL_MS,
+  ): void {
+    if (this.timer && this.libraryPath === libraryPath) return;
+    this.stop();
+
+    console.log(`[LibraryWatcher] Watching ${libraryPath}`);
+    this.libraryPath = libraryPath;
+    this.timer = setInterval(() => {
+      this.poll().catch((err) =>
+        console.error("[LibraryWatcher] Poll failed", err),
+      );
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      console.log(`[LibraryWatcher] Stopped watching ${this.libraryPath}`);
+    }
+    this.timer = null;
+    this.libraryPath = null;
+    this.known = null;
+    this.candidates.clear();
+    this.missing.clear();
+  }
+
+  static getStatus(): LibraryWatchStatus {
+    return {
+      running: this.timer !== null,
+      libraryPath: this.libraryPath,
+      lastPollAt: this.lastPollAt,
+      lastChanges: this.lastChanges,
+    };
+  }
+
+  /**
+   * Checks the library once and applies stable changes. The first poll only
+   * records the current files. Returns the applied changes, if any.
+   */
+  static async poll(): Promise<LibraryChanges | null> {
+    const libraryPath = this.libraryPath;
+    if (this.polling || !libraryPath) return null;
+
+    this.polling = true;
+    try {
+      if (!(await fs.pathExists(libraryPath))) return null;
+
+      const current = await this.snapshot(libraryPath);
+      if (!this.known) {
+        this.known = current;
+        return null;
+      }
+      const known = this.known;
+
+      // Files that are new or different and looked the same on the last poll
+      const stableChanges = new Map<string, FileState>();
+      for (const [filePath, state] of current) {
+        const previous = known.get(filePath);
+        if (previous && this.isSameState(previous, state)) {
+          this.candidates.delete(filePath);
+          continue;
+        }
+        const candidate = this.candidates.get(filePath);
+        if (candidate && this.isSameState(candidate, state)) {
+          stableChanges.set(filePath, state);
+        } else {
+          this.candidates.set(filePath, state);
+        }
+      }
+      for (const filePath of [...this.candidates.keys()]) {
+        if (!current.has(filePath)) this.candidates.delete(filePath);
+      }
+
+      // Files that were missing on the last poll too
+      const removed = new Map<string, FileState>();
+      for (const [filePath, state] of known) {
+        if (current.has(filePath)) {
+          this.missing.delete(filePath);
+        } else if (this.missing.has(filePath)) {
+          removed.set(filePath, state);
+        } else {
+          this.missing.add(filePath);
+        }
+      }
+
+      const changes = this.classify(known, stableChanges, removed);
+      if (
+        changes.added.length +
+          changes.removed.length +
+          changes.modified.length +
+          changes.renamed.length ===
+        0
+      ) {
+        return null;
+      }
+
+      await OrganizerService.applyLibraryChanges(libraryPath, changes, {
+        concurrency: this.concurrency,
+      });
+
+      // Only remember the new state once it is in the database
+      for (const filePath of removed.keys()) {
+        known.delete(filePath);
+        this.missing.delete(filePath);
+      }
+      for (const [filePath, state] of stableChanges) {
+        known.set(filePath, state);
+        this.candidates.delete(filePath);
+      }
+      this.lastChanges = { ...changes, appliedAt: new Date().toISOString() };
+      return changes;
+    } finally {
+      this.polling = false;
+      this.lastPollAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Clears all state. Only meant for tests.
+   */
+  static reset(): void {
+    this.stop();
+    this.concurrency = CONCURRENCY_CONSTANTS.DEFAULT;
+    this.lastPollAt = null;
+    this.lastChanges = null;
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Splits stable changes into added/modified and pairs removed files with
+   * added files that have the same identity (inode, or size and mtime).
+   */
+  private static classify(
+    known: Map<string, FileState>,
+    stableChanges: Map<string, FileState>,
+    removed: Map<string, FileState>,
+  ): LibraryChanges {
+    const changes: LibraryChanges = {
+      added: [],
+      removed: [],
+      modified: [],
+      renamed: [],
+    };
+
+    const removedByIdentity = new Map<string, string[]>();
+    for (const [filePath, state] of removed) {
+      const key = this.getIdentity(state);
+      removedByIdentity.set(key, [...(removedByIdentity.get(key) || []), filePath]);
+    }
+
+    const addedByIdentity = new Map<string, string[]>();
+    for (const [filePath, state] of stableChanges) {
+      if (known.has(filePath)) {
+        changes.modified.push(filePath);
+        continue;
+      }
+      const key = this.getIdentity(state);
+      addedByIdentity.set(key, [...(addedByIdentity.get(key) || []), filePath]);
+    }
+
+    // Only unambiguous pairs are treated as renames
+    const renamedFrom = new Set<string>();
+    for (const [key, addedPaths] of addedByIdentity) {
+      const removedPaths = removedByIdentity.get(key) || [];
+      if (addedPaths.length === 1 && removedPaths.length === 1) {
+        changes.renamed.push({ from: removedPaths[0], to: addedPaths[0] });
+        renamedFrom.add(removedPaths[0]);
+      } else {
+        changes.added.push(...addedPaths);
+      }
+    }
+    changes.removed = [...removed.keys()].filter((p) => !renamedFrom.has(p));
+
+    return changes;
+  }
+
+  private static getIdentity(state: FileState): string {
+    return state.ino > 0
+      ? `${state.ino}:${state.size}`
+      : `${state.size}:${state.mtimeMs}`;
+  }
+
+  private static isSameState(a: FileState, b: FileState): boolean {
+    return a.size === b.size && a.mtimeMs === b.mtimeMs && a.ino === b.ino;
+  }
+
+  /**
+   * Size, mtime and inode of every supported audio file in the library.
+   */
+  private static async snapshot(
+    libraryPath: string,
+  ): Promise<Map<string, FileState>> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const files = new Map<string, FileState>();
+
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      const subdirs: string[] = [];
+      const audioFiles: string[] = [];
+
+      for (const entry of entries) {
+        if (OrganizerService.isInternalEntry(entry.name)) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (fullPath !== playlistDir) subdirs.push(fullPath);
+        } else if (entry.isFile() && OrganizerService.isSupportedFormat(fullPath)) {
+          audioFiles.push(fullPath);
+        }
+      }
+
+      const states = await WorkerPool.map(
+        audioFiles,
+        this.concurrency,
+        async (filePath): Promise<FileState | null> => {
+          try {
+            const stats = await fs.stat(filePath);
+            return { size: stats.size, mtimeMs: stats.mtimeMs, ino: stats.ino };
+          } catch {
+            return null; // Removed while walking; seen as missing
+          }
+        },
+      );
+      audioFiles.forEach((filePath, i) => {
+        const state = states[i];
+        if (state) files.set(filePath, state);
+      });
+
+      for (const subdir of subdirs) {
+        await walk(subdir);
+      }
+    };
+    await walk(libraryPath);
+
+    return files;
+  }
+}
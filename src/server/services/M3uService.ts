@@ -0,0 +1,203 @@
+import path from 'path';
+import { PLAYLIST_CONSTANTS, METADATA_DEFAULTS } from "../constants";
+import type { SongMetadata } from "./OrganizerService";
+
+/**
+ * One playlist entry with the directive and comment lines written right
+ * above it (#EXTINF and friends), so they move and go away together.
+ */
+export interface M3uBlock {
+  entry: string; // Path as written, trimmed, forward slashes
+  lines: string[];
+}
+
+export interface M3uDocument {
+  blocks: M3uBlock[];
+  trailing: string[]; // Lines after the last entry
+}
+
+export interface M3uTrack {
+  path: string; // Relative to the folder of the playlist file, forward slashes
+  song?: SongMetadata;
+}
+
+export interface M3uInfo {
+  duration?: number;
+  artist?: string;
+  title: string;
+}
+
+/**
+ * Reads and writes extended M3U playlists. Entries are written with an
+ * #EXTINF line and, when the tags are known, #EXTART (album artist) and
+ * #EXTALB lines. Plain playlists (bare paths after #EXTM3U) parse the same
+ * way, their blocks just have no directives.
+ */
+export class M3uService {
+  static normalizeEntry(line: string): string {
+    return line.trim().replace(/\\/g, "/");
+  }
+
+  static isEntry(line: string): boolean {
+    return line.trim().length > 0 && !line.startsWith("#");
+  }
+
+  /**
+   * Absolute path of an entry. Entries are relative to the folder of their
+   * playlist file, which may be a subfolder of Playlists.
+   */
+  static resolveEntry(playlistPath: string, entry: string): string {
+    return path.resolve(path.dirname(playlistPath), entry);
+  }
+
+  /**
+   * Entry that points at trackPath from the given playlist file.
+   */
+  static toEntry(playlistPath: string, trackPath: string): string {
+    return path
+      .relative(path.dirname(playlistPath), trackPath)
+      .split(path.sep)
+      .join("/");
+  }
+
+  /**
+   * Splits a playlist into entry blocks. The #EXTM3U header is dropped;
+   * serialize writes it back.
+   */
+  static parse(content: string): M3uDocument {
+    const lines = content.split("\n");
+    if (lines[0]?.startsWith(PLAYLIST_CONSTANTS.PLAYLIST_HEADER.trim())) {
+      lines.shift();
+    }
+
+    const blocks: M3uBlock[] = [];
+    let pending: string[] = [];
+    for (const line of lines) {
+      pending.push(line);
+      if (this.isEntry(line)) {
+        blocks.push({ entry: this.normalizeEntry(line), lines: pending });
+        pending = [];
+      }
+    }
+    return { blocks, trailing: pending };
+  }
+
+  static serialize(document: M3uDocument): string {
+    return (
+      PLAYLIST_CONSTANTS.PLAYLIST_HEADER +
+      [...document.blocks.flatMap((block) => block.lines), ...document.trailing].join("\n")
+    );
+  }
+
+  /**
+   * Full playlist content for the given tracks, as the generated master and
+   * genre playlists are written.
+   */
+  static build(tracks: M3uTrack[]): string {
+    return this.serialize({
+      blocks: tracks.map((track) => this.createBlock(track)),
+      trailing: [],
+    });
+  }
+
+  /**
+   * Adds the tracks the playlist does not list yet after its current
+   * entries, which keep their own directives. Returns the new content and
+   * the entries the playlist already had.
+   */
+  static append(
+    content: string | undefined,
+    tracks: M3uTrack[],
+  ): { content: string; existing: Set<string> } {
+    const document = this.parse(content ?? "");
+    const existing = new Set(document.blocks.map((block) => block.entry));
+    // Blank lines after the last entry would end up between entries
+    const trailing = document.trailing.filter((line) => line.trim().length > 0);
+
+    const seen = new Set(existing);
+    const added: M3uBlock[] = [];
+    for (const track of tracks) {
+      const entry = this.normalizeEntry(track.path);
+      if (seen.has(entry)) continue;
+      seen.add(entry);
+      added.push(this.createBlock({ ...track, path: entry }));
+    }
+
+    return {
+      content: this.serialize({
+        blocks: [...document.blocks, ...added],
+        trailing,
+      }),
+      existing,
+    };
+  }
+
+  static createBlock({ path, song }: M3uTrack): M3uBlock {
+    return {
+      entry: this.normalizeEntry(path),
+      lines: [...(song ? this.describe(song) : []), path],
+    };
+  }
+
+  /**
+   * Directive lines for a track. Placeholder album/artist values are left
+   * out rather than written as if they were tags.
+   */
+  static describe(song: SongMetadata): string[] {
+    const clean = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+    const duration =
+      song.duration !== undefined
+        ? Math.round(song.duration)
+        : PLAYLIST_CONSTANTS.UNKNOWN_DURATION;
+    const lines = [
+      `${PLAYLIST_CONSTANTS.EXTINF}${duration},${clean(song.artist)} - ${clean(song.title)}`,
+    ];
+
+    const albumArtist = song.albumArtist && clean(song.albumArtist);
+    if (albumArtist && albumArtist !== METADATA_DEFAULTS.UNKNOWN_ARTIST) {
+      lines.push(`${PLAYLIST_CONSTANTS.EXTART}${albumArtist}`);
+    }
+    const album = clean(song.album);
+    if (
+      album &&
+      album !== METADATA_DEFAULTS.UNKNOWN_ALBUM &&
+      album !== METADATA_DEFAULTS.UNKNOWN
+    ) {
+      lines.push(`${PLAYLIST_CONSTANTS.EXTALB}${album}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Duration, artist and title of a block's #EXTINF line, if it has one.
+   */
+  static readInfo(block: M3uBlock): M3uInfo | undefined {
+    const line = block.lines.find((l) => l.startsWith(PLAYLIST_CONSTANTS.EXTINF));
+    if (!line) return undefined;
+
+    const directive = line.slice(PLAYLIST_CONSTANTS.EXTINF.length).trim();
+    const comma = directive.indexOf(",");
+    if (comma === -1) return undefined;
+
+    const seconds = Number.parseFloat(directive.slice(0, comma));
+    return {
+      duration: Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined,
+      ...this.splitDisplay(directive.slice(comma + 1)),
+    };
+  }
+
+  /**
+   * Artist and title of an "Artist - Title" display text. Text without the
+   * separator is taken as the title.
+   */
+  static splitDisplay(display: string): { artist?: string; title: string } {
+    const text = display.trim();
+    const separator = text.indexOf(" - ");
+    return separator > 0
+      ? {
+          artist: text.slice(0, separator).trim(),
+          title: text.slice(separator + 3).trim(),
+        }
+      : { title: text };
+  }
+}
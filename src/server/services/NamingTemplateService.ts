@@ -0,0 +1,305 @@
+import path from 'path';
+import type { SongMetadata } from './OrganizerService';
+import {
+  NAMING_TEMPLATE_CONSTANTS,
+  METADATA_DEFAULTS,
+} from "../constants";
+
+/**
+ * Values a template placeholder can resolve to, keyed by field name.
+ * Empty strings are treated as "missing" for fallbacks and conditional segments.
+ */
+type TemplateValues = Record<string, string>;
+
+export interface NamingOptions {
+  template: string;
+  variousArtists: string; // Folder name used for compilations
+}
+
+export interface NamingPreview {
+  source: string; // Title/relative path of the sample track
+  proposedPath: string; // Rendered path relative to the library root
+}
+
+/**
+ * Renders library paths from user-defined naming templates.
+ *
+ * Syntax:
+ * - `{field}` inserts a metadata field (see FIELDS).
+ * - `{field1|field2|Text}` uses the first non-empty field; a name that is not
+ *   a known field is inserted literally, so it works as a final fallback.
+ * - `[ ... ]` is a conditional segment: it is dropped entirely if any
+ *   placeholder inside it resolves to an empty value.
+ * - `/` separates folders. The file extension is appended automatically.
+ *
+ * `{disc}` is only set for multi-disc releases, so `[{disc}-]{track}` gives
+ * `2-05` prefixes and `[Disc {disc}/]` gives disc subfolders.
+ * `{albumartist}` falls back to the track artist and resolves to the
+ * configured "Various Artists" name for compilations.
+ */
+export class NamingTemplateService {
+  static readonly DEFAULT_TEMPLATE: string =
+    NAMING_TEMPLATE_CONSTANTS.DEFAULT_TEMPLATE;
+
+  static readonly FIELDS = [
+    "artist",
+    "albumartist",
+    "album",
+    "title",
+    "year",
+    "track",
+    "disc",
+    "disctotal",
+    "genre",
+    "format",
+  ] as const;
+
+  static readonly DEFAULT_VARIOUS_ARTISTS: string =
+    METADATA_DEFAULTS.VARIOUS_ARTISTS;
+
+  private static PLACEHOLDER = /\{([^{}]*)\}/g;
+  private static CONDITIONAL = /\[([^[\]]*)\]/g;
+
+  private static SAMPLE_TRACKS: SongMetadata[] = [
+    {
+      title: "So What",
+      artist: "Miles Davis",
+      album: "Kind of Blue",
+      year: 1959,
+      trackNo: "01",
+      genre: ["Jazz"],
+      format: ".flac",
+      absPath: "/sample/so-what.flac",
+      playlists: [],
+    },
+    {
+      title: "Blackbird",
+      artist: "The Beatles",
+      album: "The Beatles",
+      year: 1968,
+      trackNo: "11",
+      discNo: 1,
+      discTotal: 2,
+      genre: ["Rock"],
+      format: ".flac",
+      absPath: "/sample/blackbird.flac",
+      playlists: [],
+    },
+    {
+      title: "Feel Good Inc.",
+      artist: "Gorillaz",
+      albumArtist: "Various Artists",
+      album: "Now That's What I Call Music! 61",
+      year: 2005,
+      trackNo: "04",
+      compilation: true,
+      genre: ["Pop"],
+      format: ".mp3",
+      absPath: "/sample/feel-good-inc.mp3",
+      playlists: [],
+    },
+    {
+      title: "Untitled",
+      artist: METADATA_DEFAULTS.UNKNOWN_ARTIST,
+      album: METADATA_DEFAULTS.UNKNOWN_ALBUM,
+      trackNo: METADATA_DEFAULTS.DEFAULT_TRACK_NO,
+      genre: [METADATA_DEFAULTS.DEFAULT_GENRE],
+      format: ".mp3",
+      absPath: "/sample/untitled.mp3",
+      playlists: [],
+    },
+  ];
+
+  /**
+   * Returns a list of human readable problems with the template.
+   * An empty array means the template can be used.
+   */
+  static validate(template: string): string[] {
+    const errors: string[] = [];
+
+    if (!template || !template.trim()) {
+      return ["Template cannot be empty"];
+    }
+
+    let braceDepth = 0;
+    let bracketDepth = 0;
+    for (const char of template) {
+      if (char === "{") braceDepth++;
+      if (char === "}") braceDepth--;
+      if (char === "[") bracketDepth++;
+      if (char === "]") bracketDepth--;
+      if (braceDepth < 0 || braceDepth > 1) {
+        errors.push("Unbalanced or nested braces");
+        break;
+      }
+      if (bracketDepth < 0 || bracketDepth > 1) {
+        errors.push("Unbalanced or nested conditional brackets");
+        break;
+      }
+    }
+    if (errors.length === 0 && braceDepth !== 0) {
+      errors.push("Unbalanced or nested braces");
+    }
+    if (errors.length === 0 && bracketDepth !== 0) {
+      errors.push("Unbalanced or nested conditional brackets");
+    }
+
+    for (const match of template.matchAll(this.PLACEHOLDER)) {
+      const [first] = match[1].split("|").map((f) => f.trim());
+      if (!this.isField(first)) {
+        errors.push(`Unknown field "${first}"`);
+      }
+    }
+
+    const segments = template.split("/").map((s) => s.trim());
+    if (segments[segments.length - 1].length === 0) {
+      errors.push("Template must end with a file name segment");
+    }
+    if (segments.some((segment) => this.isDotSegment(segment))) {
+      errors.push('Template cannot contain "." or ".." folders');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fills in defaults for any naming option that is not configured.
+   */
+  static withDefaults(options: Partial<NamingOptions> = {}): NamingOptions {
+    return {
+      template: options.template || this.DEFAULT_TEMPLATE,
+      variousArtists:
+        options.variousArtists?.trim() || this.DEFAULT_VARIOUS_ARTISTS,
+    };
+  }
+
+  /**
+   * Renders the template for a song and returns the path relative to the
+   * library root, including the file extension.
+   */
+  static render(
+    template: string,
+    song: SongMetadata,
+    variousArtists: string = this.DEFAULT_VARIOUS_ARTISTS,
+  ): string {
+    const values = this.getValues(song, variousArtists);
+
+    const withConditionals = template.replace(
+      this.CONDITIONAL,
+      (_match, inner: string) => {
+        let missing = false;
+        const rendered = inner.replace(this.PLACEHOLDER, (_m, expr: string) => {
+          const value = this.resolve(expr, values);
+          if (!value) missing = true;
+          return value;
+        });
+        return missing ? "" : rendered;
+      },
+    );
+
+    const rendered = withConditionals.replace(
+      this.PLACEHOLDER,
+      (_m, expr: string) => this.resolve(expr, values),
+    );
+
+    // "." and ".." (e.g. from a tag of just "..") would leave the library
+    const segments = rendered
+      .split("/")
+      .map((s) => s.replace(/\s+/g, " ").trim())
+      .filter((s) => s.length > 0 && !this.isDotSegment(s));
+
+    const fileName = segments.pop() || this.clean(song.title);
+    return [...segments, `${fileName}${song.format}`].join("/");
+  }
+
+  /**
+   * Renders the template and resolves it against the library root.
+   * Callers are expected to have validated the template beforehand.
+   */
+  static buildPath(
+    libraryPath: string,
+    template: string,
+    song: SongMetadata,
+    variousArtists: string = this.DEFAULT_VARIOUS_ARTISTS,
+  ): string {
+    return path.join(
+      libraryPath,
+      ...this.render(template, song, variousArtists).split("/"),
+    );
+  }
+
+  /**
+   * Renders the template against sample tracks so it can be reviewed before
+   * being applied. Falls back to built-in samples when none are given.
+   */
+  static preview(
+    template: string,
+    tracks: SongMetadata[] = [],
+    variousArtists: string = this.DEFAULT_VARIOUS_ARTISTS,
+  ): { errors: string[]; previews: NamingPreview[] } {
+    const errors = this.validate(template);
+    if (errors.length > 0) {
+      return { errors, previews: [] };
+    }
+
+    const samples = (tracks.length > 0 ? tracks : this.SAMPLE_TRACKS).slice(
+      0,
+      NAMING_TEMPLATE_CONSTANTS.PREVIEW_SAMPLE_SIZE,
+    );
+
+    return {
+      errors,
+      previews: samples.map((song) => ({
+        source: song.relPath || song.title,
+        proposedPath: this.render(template, song, variousArtists),
+      })),
+    };
+  }
+
+  // --- Helpers ---
+
+  private static isField(name: string): boolean {
+    return (this.FIELDS as readonly string[]).includes(name);
+  }
+
+  private static getValues(
+    song: SongMetadata,
+    variousArtists: string,
+  ): TemplateValues {
+    return {
+      artist: this.clean(song.artist),
+      albumartist: this.clean(
+        song.compilation ? variousArtists : song.albumArtist || song.artist,
+      ),
+      album: this.clean(song.album),
+      title: this.clean(song.title),
+      year: song.year ? song.year.toString() : "",
+      track: song.trackNo,
+      disc: this.isMultiDisc(song) ? song.discNo!.toString() : "",
+      disctotal: this.isMultiDisc(song) ? song.discTotal?.toString() || "" : "",
+      genre: this.clean(song.genre[0] || ""),
+      format: song.format.replace(".", ""),
+    };
+  }
+
+  private static isDotSegment(segment: string): boolean {
+    return segment === "." || segment === "..";
+  }
+
+  private static isMultiDisc(song: SongMetadata): boolean {
+    if (!song.discNo) return false;
+    return (song.discTotal ?? 0) > 1 || song.discNo > 1;
+  }
+
+  private static resolve(expr: string, values: TemplateValues): string {
+    for (const alternative of expr.split("|").map((a) => a.trim())) {
+      if (!this.isField(alternative)) return this.clean(alternative);
+      if (values[alternative]) return values[alternative];
+    }
+    return "";
+  }
+
+  private static clean(s: string): string {
+    return s.replace(/[/\\?%*:|"<>]/g, "-").trim();
+  }
+}
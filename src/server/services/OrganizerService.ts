@@ -8,14 +8,42 @@ import {
   PLAYLIST_CONSTANTS,
   METADATA_DEFAULTS,
   ERROR_MESSAGES,
+  CONFLICT_CONSTANTS,
+  CONCURRENCY_CONSTANTS,
+  JOURNAL_CONSTANTS,
+  TRANSCODE_CONSTANTS,
 } from "../constants";
+import { NamingTemplateService } from "./NamingTemplateService";
+import type { NamingOptions } from "./NamingTemplateService";
+import { DuplicateDetectionService } from "./DuplicateDetectionService";
+import { JournalService } from "./JournalService";
+import type { OperationJournal } from "./JournalService";
+import { PlaylistMetadataService } from "./PlaylistMetadataService";
+import type { PlaylistMetadata } from "./PlaylistMetadataService";
+import { WorkerPool } from "./WorkerPool";
+import { PlaylistIndexService } from "./PlaylistIndexService";
+import type { PlaylistIndex } from "./PlaylistIndexService";
+import { LibraryStore } from "./LibraryStore";
+import { M3uService } from "./M3uService";
+import type { M3uBlock, M3uTrack } from "./M3uService";
+import { PlaylistFormatService } from "./PlaylistFormatService";
+import type { PlaylistFormat } from "./PlaylistFormatService";
+import { SmartPlaylistService } from "./SmartPlaylistService";
+import { AutoPlaylistService } from "./AutoPlaylistService";
+import { TranscodeService } from "./TranscodeService";
+import type { ExportProfile } from "./TranscodeService";
 
 export interface SongMetadata {
+  id?: string; // Persistent track id, kept across renames and library moves (set by LibraryStore)
   title: string;
   artist: string;
+  albumArtist?: string; // Album-level artist, used to keep albums together
   album: string;
   year?: number;
   trackNo: string;
+  discNo?: number; // Disc number within a multi-disc release
+  discTotal?: number; // Total number of discs in the release
+  compilation?: boolean; // Part of a various-artists compilation
   genre: string[];
   format: string;
   absPath: string; // Current or Destination path depending on context
@@ -25,6 +53,52 @@ export interface SongMetadata {
   duration?: number; // Duration in seconds
   codec?: string; // Audio codec (e.g., "FLAC", "MP3", "AAC")
   sampleRate?: number; // Sample rate in Hz
+  bitsPerSample?: number; // Bit depth, only reported for PCM/lossless formats
+  lossless?: boolean; // True for lossless codecs (FLAC, ALAC, WAV...)
+  audioHash?: string; // Hash of the audio stream (tags excluded), used for duplicate detection
+  mbid?: string; // MusicBrainz recording id from the tags, used to relink playlist entries
+  fileSize?: number; // Size in bytes when the metadata was read, used by incremental regeneration
+  modifiedAt?: number; // File mtime (ms) when the metadata was read, used by incremental regeneration
+  addedAt?: number; // When the track entered the database (ms), set by LibraryStore
+  missing?: boolean; // Playlist entry whose file does not exist (playlist details only)
+}
+
+export interface PlaylistRelink {
+  entry: string; // Broken line as written in the playlist
+  trackPath: string; // Absolute path of the replacement track
+}
+
+/**
+ * New order of a playlist: move one entry, or list every current position
+ * (0-based, comments excluded) in the new order.
+ */
+export type PlaylistReorder = { from: number; to: number } | { order: number[] };
+
+export interface PlaylistSummary extends PlaylistMetadata {
+  name: string; // Path below Playlists without extension, e.g. "Road Trips/Summer"
+  count: number;
+  path: string; // Absolute path of the playlist file
+}
+
+export interface PlaylistRenameResult {
+  name: string; // New path below Playlists, each segment trimmed
+  operationId: string;
+}
+
+/**
+ * A folder of the Playlists tree. The root has an empty name and relPath.
+ */
+export interface PlaylistFolder {
+  name: string;
+  relPath: string; // Below Playlists, forward slashes
+  folders: PlaylistFolder[];
+  playlists: PlaylistSummary[];
+}
+
+export interface DuplicateInfo {
+    status: "new" | "exact" | "probable";
+    source?: "library" | "inbox"; // Where the matching track was found
+    matchPath?: string; // Absolute path of the matching track
 }
 
 export interface ScanResult {
@@ -32,24 +106,140 @@ export interface ScanResult {
     metadata: SongMetadata;
     proposedPath: string; // Where it SHOULD go
     playlists: string[]; // Names of playlists this track belongs to (from folder tags)
+    duplicate?: DuplicateInfo; // Duplicate status against the library and the rest of the inbox
+}
+
+/**
+ * What to do when a proposedPath already exists in the library:
+ * - skip: keep the library file and leave the inbox file where it is
+ * - rename: move the inbox file next to it with a " (n)" suffix
+ * - replace: overwrite the library file
+ * - replace-if-better: overwrite only if the inbox file has higher quality
+ */
+export type ConflictPolicy = (typeof CONFLICT_CONSTANTS.POLICIES)[number];
+
+type AudioQuality = Pick<
+  SongMetadata,
+  "format" | "bitrate" | "sampleRate" | "bitsPerSample" | "lossless"
+>;
+
+export type OrganizeAction =
+    | "moved"
+    | "renamed"
+    | "replaced"
+    | "skipped-duplicate" // Destination already existed and was kept
+    | "failed";
+
+export interface PlaylistAssignment {
+    name: string;
+    status: "added" | "already-present" | "not-assigned" | "failed";
+    error?: string;
+}
+
+export interface OrganizeFileReport {
+    file: string; // Source absolute path
+    destination: string; // Final library path (the existing file when skipped, proposedPath when failed)
+    action: OrganizeAction;
+    policy?: ConflictPolicy; // Set only when the destination already existed
+    error?: string; // Set when action is "failed"
+    playlists?: PlaylistAssignment[]; // Outcome for each playlist from the folder tags
+}
+
+export type OrganizeSummary = Record<OrganizeAction, number>;
+
+export interface ExportResult {
+    SuccessCount: number;
+    FailCount: number;
+    operationId?: string; // Only set for journaled moves
+    playlistFile?: string; // Only set when a playlist format was requested
+}
+
+export interface ScanOptions {
+  concurrency?: number; // Files parsed at the same time
+}
+
+export interface RegenerateOptions extends ScanOptions {
+  force?: boolean; // Re-parse every file instead of reusing unchanged entries
+}
+
+export interface RegenerateResult {
+  totalFiles: number;
+  successCount: number;
+  failCount: number;
+  reusedCount: number; // Unchanged files whose existing entry was kept
+  parsedCount: number; // New or changed files that were re-parsed
+  removedCount: number; // Entries dropped because the file no longer exists
+  mode: "incremental" | "full";
+}
+
+/**
+ * Changes made to library files outside the app, as seen by the library watcher.
+ */
+export interface LibraryChanges {
+  added: string[];
+  removed: string[];
+  modified: string[]; // Same path, different size or mtime (e.g. re-tagged)
+  renamed: { from: string; to: string }[];
+}
+
+export interface OrganizeResult {
+    operationId: string; // Journal id, used to undo the run
+    summary: OrganizeSummary; // Number of files per action
+    files: OrganizeFileReport[];
+}
+
+// An inbox file waiting to be parsed, with the playlist tags of its folder
+interface PendingFile {
+  file: string;
+  tags: string[];
 }
 
 export class OrganizerService {
   private static SUPPORTED_FORMATS = /\.(flac|mp3|m4a|wav|ogg)$/i;
 
+  static isSupportedFormat(filePath: string): boolean {
+    return this.SUPPORTED_FORMATS.test(filePath);
+  }
+
+  /**
+   * Whether a file or folder name is one the app keeps inside the library
+   * (operation journal, transcode cache) or an AppleDouble file, none of
+   * which hold tracks. Other names starting with a dot (".38 Special") are
+   * regular folders.
+   */
+  static isInternalEntry(name: string): boolean {
+    return (
+      name === JOURNAL_CONSTANTS.OPERATIONS_DIR ||
+      name === TRANSCODE_CONSTANTS.CACHE_DIR ||
+      name.startsWith("._")
+    );
+  }
+
   /**
    * Scans the Inbox directory and returns a preview of what would happen.
-   * Does NOT move files.
+   * Does NOT move files. proposedPath is computed from the naming template
+   * and every result is flagged as new, exact or probable duplicate.
    */
   static async scanInbox(
     inboxPath: string,
     libraryPath: string,
+    naming: Partial<NamingOptions> = {},
+    options: ScanOptions = {},
   ): Promise<ScanResult[]> {
+    const namingOptions = NamingTemplateService.withDefaults(naming);
+    const templateErrors = NamingTemplateService.validate(
+      namingOptions.template,
+    );
+    if (templateErrors.length > 0) {
+      throw new Error(ERROR_MESSAGES.INVALID_NAMING_TEMPLATE(templateErrors));
+    }
+
     if (!(await fs.pathExists(inboxPath))) {
       throw new Error(`Inbox path does not exist: ${inboxPath}`);
     }
 
-    const results: ScanResult[] = [];
+    const concurrency = WorkerPool.normalizeConcurrency(options.concurrency);
+    const pending: PendingFile[] = [];
     const entries = await fs.readdir(inboxPath, { withFileTypes: true });
 
     for (const entry of entries) {
@@ -57,45 +247,130 @@ export class OrganizerService {
 
       if (entry.isDirectory()) {
         const folderTags = this.extractTags(entry.name);
-        const files = await this.getFilesRecursive(fullPath);
-
-        for (const file of files) {
-          const result = await this.analyzeFile(file, libraryPath, folderTags);
-          if (result) results.push(result);
-        }
+        const files = await this.getFilesRecursive(fullPath, concurrency);
+        files.forEach((file) => pending.push({ file, tags: folderTags }));
       } else if (entry.isFile() && this.SUPPORTED_FORMATS.test(entry.name)) {
-        const result = await this.analyzeFile(fullPath, libraryPath, []);
-        if (result) results.push(result);
+        pending.push({ file: fullPath, tags: [] });
       }
     }
 
-    return results;
+    return this.analyzePending(pending, libraryPath, namingOptions, concurrency);
+  }
+
+  /**
+   * Scans a single inbox folder (and its subfolders). The folder name is
+   * read for playlist tags like scanInbox does.
+   */
+  static async scanFolder(
+    folderPath: string,
+    libraryPath: string,
+    naming: Partial<NamingOptions> = {},
+    options: ScanOptions = {},
+  ): Promise<ScanResult[]> {
+    const namingOptions = NamingTemplateService.withDefaults(naming);
+    const templateErrors = NamingTemplateService.validate(
+      namingOptions.template,
+    );
+    if (templateErrors.length > 0) {
+      throw new Error(ERROR_MESSAGES.INVALID_NAMING_TEMPLATE(templateErrors));
+    }
+
+    const concurrency = WorkerPool.normalizeConcurrency(options.concurrency);
+    const tags = this.extractTags(path.basename(folderPath));
+    const files = await this.getFilesRecursive(folderPath, concurrency);
+
+    return this.analyzePending(
+      files.map((file) => ({ file, tags })),
+      libraryPath,
+      namingOptions,
+      concurrency,
+    );
+  }
+
+  /**
+   * Parses files in parallel (results keep the input order) and flags duplicates.
+   */
+  private static async analyzePending(
+    pending: PendingFile[],
+    libraryPath: string,
+    naming: NamingOptions,
+    concurrency: number,
+  ): Promise<ScanResult[]> {
+    const analyzed = await WorkerPool.map(pending, concurrency, ({ file, tags }) =>
+      this.analyzeFile(file, libraryPath, tags, naming),
+    );
+    const results = analyzed.filter(
+      (result): result is ScanResult => result !== null,
+    );
+
+    return DuplicateDetectionService.flagDuplicates(results, libraryPath);
   }
 
   /**
    * Executes the organization based on the scan results.
+   * Collisions with existing library files are resolved with the given policy.
+   * A file that cannot be moved is reported as failed and the run continues;
+   * any other error rolls back the whole (journaled) run. It can be undone later.
    */
   static async organize(
     results: ScanResult[],
     libraryPath: string,
-  ): Promise<void> {
+    policy: ConflictPolicy = CONFLICT_CONSTANTS.DEFAULT_POLICY,
+  ): Promise<OrganizeResult> {
+    return JournalService.run(
+      "organize",
+      libraryPath,
+      `Organize ${results.length} files`,
+      async (journal) => {
+        const files = await this.organizeFiles(results, libraryPath, policy, journal);
+        const summary: OrganizeSummary = {
+          moved: 0,
+          renamed: 0,
+          replaced: 0,
+          "skipped-duplicate": 0,
+          failed: 0,
+        };
+        files.forEach((report) => summary[report.action]++);
+        return { operationId: journal.id, summary, files };
+      },
+    );
+  }
+
+  private static async organizeFiles(
+    results: ScanResult[],
+    libraryPath: string,
+    policy: ConflictPolicy,
+    journal: OperationJournal,
+  ): Promise<OrganizeFileReport[]> {
     await fs.ensureDir(libraryPath);
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
     await fs.ensureDir(playlistDir);
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
 
     // 1. Load existing inventory
-    let inventory: SongMetadata[] = [];
-    if (await fs.pathExists(dbPath)) {
-      inventory = await fs.readJson(dbPath);
-    }
+    const inventory: SongMetadata[] =
+      (await LibraryStore.read(libraryPath)) ?? [];
 
     // 2. Process Moves and Update Inventory
     const customPlaylists = new Map<string, Set<string>>();
+    const reports: OrganizeFileReport[] = [];
 
     for (const item of results) {
-      // Move File
-      const finalPath = await this.safeMove(item.file, item.proposedPath);
+      // Move File (a missing or locked source only fails this file)
+      let report: OrganizeFileReport;
+      try {
+        report = await this.placeFile(item, policy, inventory, journal);
+      } catch (err) {
+        console.error(`Failed to organize ${item.file}`, err);
+        reports.push({
+          file: item.file,
+          destination: item.proposedPath,
+          action: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+      reports.push(report);
+      const finalPath = report.destination;
 
       // Update Metadata with final path
       const relPath = path
@@ -108,8 +383,18 @@ export class OrganizerService {
         relPath: relPath,
       };
 
-      // Add to Inventory
-      inventory.push(updatedSong);
+      // Add to Inventory (a skipped file keeps the existing entry)
+      const existingIndex = inventory.findIndex((s) => s.absPath === finalPath);
+      if (existingIndex === -1 && report.action === "skipped-duplicate") {
+        // The file already there is not the inbox one: describe it from disk
+        const existing = await this.extractCompleteMetadata(finalPath, libraryPath);
+        if (existing) inventory.push(existing);
+      } else if (existingIndex === -1) {
+        inventory.push(updatedSong);
+      } else if (report.action !== "skipped-duplicate") {
+        // A replaced file keeps the id of the track it replaces
+        inventory[existingIndex] = { ...updatedSong, id: inventory[existingIndex].id };
+      }
 
       // Verify/Prepare Custom Playlists
       item.playlists.forEach((pl) => {
@@ -124,16 +409,48 @@ export class OrganizerService {
     }
 
     // 3. Save Inventory
-    await fs.outputJson(dbPath, inventory, { spaces: 2 });
+    await LibraryStore.write(libraryPath, inventory, journal);
 
     // 4. Regenerate ALL Playlists
-    await this.generateMasterPlaylist(inventory, libraryPath);
-    await this.generateGenrePlaylists(inventory, libraryPath); // Assumes we rebuild from full inventory
-    await this.appendCustomPlaylists(customPlaylists, playlistDir);
+    await this.generateMasterPlaylist(inventory, libraryPath, journal);
+    await AutoPlaylistService.generate(inventory, libraryPath, journal); // Assumes we rebuild from full inventory
+    await SmartPlaylistService.generate(inventory, libraryPath, journal);
+    const playlistOutcomes = await this.appendCustomPlaylists(
+      customPlaylists,
+      playlistDir,
+      inventory,
+      journal,
+    );
 
     // 5. Sync playlists field in database for all moved tracks
-    const movedTrackPaths = results.map((item) => item.proposedPath);
+    const organized = reports.filter((report) => report.action !== "failed");
+    const movedTrackPaths = organized.map((report) => report.destination);
     await this.updateTrackPlaylistsInDatabase(movedTrackPaths, libraryPath);
+
+    // 6. Report playlist assignments per file
+    results.forEach((item, i) => {
+      const report = reports[i];
+      const relToPl = path
+        .relative(playlistDir, report.destination)
+        .split(path.sep)
+        .join("/");
+
+      report.playlists = item.playlists.map((name): PlaylistAssignment => {
+        const outcome = playlistOutcomes.get(name);
+        if (report.action === "failed" || !outcome) {
+          return { name, status: "not-assigned" };
+        }
+        if (outcome.error) {
+          return { name, status: "failed", error: outcome.error };
+        }
+        return {
+          name,
+          status: outcome.existing.has(relToPl) ? "already-present" : "added",
+        };
+      });
+    });
+
+    return reports;
   }
 
   static async addToPlaylist(
@@ -141,6 +458,20 @@ export class OrganizerService {
     tracks: string[],
     libraryPath: string,
   ): Promise<void> {
+    return LibraryStore.withLock(libraryPath, () =>
+      this.appendToPlaylistFile(name, tracks, libraryPath),
+    );
+  }
+
+  private static async appendToPlaylistFile(
+    name: string,
+    tracks: string[],
+    libraryPath: string,
+  ): Promise<void> {
+    if (SmartPlaylistService.isSmartPlaylist(name.trim())) {
+      throw new Error(ERROR_MESSAGES.CANNOT_MODIFY_SMART_PLAYLIST(name.trim()));
+    }
+
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
     await fs.ensureDir(playlistDir);
     const filePath = path.join(
@@ -148,23 +479,24 @@ export class OrganizerService {
       `${name.trim()}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
     );
 
-    let existingLines: string[] = [];
-    if (await fs.pathExists(filePath)) {
-      const content = await fs.readFile(filePath, "utf-8");
-      existingLines = content
-        .split("\n")
-        .filter((l) => l && !l.startsWith("#"));
-    }
+    const existingContent = (await fs.pathExists(filePath))
+      ? await fs.readFile(filePath, "utf-8")
+      : undefined;
+
+    // Database entries give the #EXTINF line of each new track
+    const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+    const songsByPath = new Map(
+      inventory.map((song) => [path.resolve(song.absPath), song]),
+    );
 
     // tracks are absolute paths? or relative?
-    // The UI likely sends absolute paths. We need relative to playlist dir.
-    const newRelativePaths = tracks.map((trackPath) => {
-      return path.relative(playlistDir, trackPath).split(path.sep).join("/");
-    });
+    // The UI likely sends absolute paths. We need relative to the playlist file.
+    const newTracks = tracks.map((trackPath) => ({
+      path: M3uService.toEntry(filePath, trackPath),
+      song: songsByPath.get(path.resolve(trackPath)),
+    }));
 
-    const allTracks = new Set([...existingLines, ...newRelativePaths]);
-    const content =
-      PLAYLIST_CONSTANTS.PLAYLIST_HEADER + Array.from(allTracks).join("\n");
+    const { content } = M3uService.append(existingContent, newTracks);
     await fs.outputFile(filePath, content);
 
     // Sync playlists field in database for added tracks
@@ -175,10 +507,23 @@ export class OrganizerService {
     name: string,
     trackPath: string,
     libraryPath: string,
+  ): Promise<void> {
+    return LibraryStore.withLock(libraryPath, () =>
+      this.removeFromPlaylistFile(name, trackPath, libraryPath),
+    );
+  }
+
+  private static async removeFromPlaylistFile(
+    name: string,
+    trackPath: string,
+    libraryPath: string,
   ): Promise<void> {
     if (name.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) {
       throw new Error(ERROR_MESSAGES.CANNOT_MODIFY_MASTER);
     }
+    if (SmartPlaylistService.isSmartPlaylist(name)) {
+      throw new Error(ERROR_MESSAGES.CANNOT_MODIFY_SMART_PLAYLIST(name));
+    }
 
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
     const filePath = path.join(
@@ -205,122 +550,466 @@ export class OrganizerService {
     }
 
     const content = await fs.readFile(filePath, "utf-8");
-    const lines = content
-      .split("\n")
-      .filter((l) => l.trim().length > 0 && !l.startsWith("#"));
+    const playlist = M3uService.parse(content);
 
     // Calculate relative path of the track to remove
     // Normalize:
     // 1. Get relative path
     // 2. Replace backslashes with forward slashes
-    const relPathToRemove = path
-      .relative(playlistDir, trackPath)
-      .split(path.sep)
-      .join("/");
+    const relPathToRemove = M3uService.toEntry(filePath, trackPath);
 
     console.log(
       `[OrganizerService] Relative path to remove: ${relPathToRemove}`,
     );
 
-    // Filter out the track
-    // We compare normalized paths
-    // We also try to match partials if strictly relative doesn't work?
-    // No, strict relative should work if written correctly.
-    // Let's also check if the line in file uses backslashes for some reason.
-
-    const newLines = lines.filter((line) => {
-      const cleanLine = line.trim().replace(/\\/g, "/"); // Force forward slashes for comparison
-      const cleanTarget = relPathToRemove.replace(/\\/g, "/");
-
-      if (cleanLine === cleanTarget) {
-        console.log(`[OrganizerService] Matched and removed: ${line}`);
+    // Filter out the track, along with its #EXTINF lines
+    // Entries are compared normalized (trimmed, forward slashes)
+    const cleanTarget = M3uService.normalizeEntry(relPathToRemove);
+    const blocks = playlist.blocks.filter((block) => {
+      if (block.entry === cleanTarget) {
+        console.log(`[OrganizerService] Matched and removed: ${block.entry}`);
         return false;
       }
       return true;
     });
 
-    if (newLines.length === lines.length) {
+    if (blocks.length === playlist.blocks.length) {
       console.warn(
         `[OrganizerService] No track matched for removal. Target: ${relPathToRemove}`,
       );
       // Log first few lines to debug
-      console.log("Sample lines from file:", lines.slice(0, 3));
+      console.log(
+        "Sample lines from file:",
+        playlist.blocks.slice(0, 3).map((block) => block.entry),
+      );
     }
 
-    const newContent = PLAYLIST_CONSTANTS.PLAYLIST_HEADER + newLines.join("\n");
+    // Blank lines are dropped as before
+    const newContent = M3uService.serialize({
+      blocks: blocks.map((block) => ({
+        ...block,
+        lines: block.lines.filter((line) => line.trim().length > 0),
+      })),
+      trailing: [],
+    });
     await fs.outputFile(filePath, newContent);
 
     // Sync playlists field in database for removed track
     await this.updateTrackPlaylistsInDatabase([trackPath], libraryPath);
   }
 
+  /**
+   * Deletes a playlist file as a journaled operation (or as part of the
+   * given one) and returns the operation id so it can be undone.
+   */
   static async deletePlaylist(
     name: string,
     libraryPath: string,
-  ): Promise<void> {
+    journal?: OperationJournal,
+  ): Promise<string> {
     if (name.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) {
       throw new Error(ERROR_MESSAGES.CANNOT_DELETE_MASTER);
     }
 
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
-    const filePath = path.join(
+    let filePath = path.join(
       playlistDir,
       `${name}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
     );
 
-    if (await fs.pathExists(filePath)) {
+    if (!(await fs.pathExists(filePath))) {
+      filePath = path.join(
+        playlistDir,
+        `${name}${FILE_EXTENSIONS.PLAYLIST_LEGACY}`,
+      );
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(name));
+      }
+    }
+
+    const remove = async (op: OperationJournal) => {
+      await op.capture(filePath);
       await fs.remove(filePath);
-    } else {
-      const legacyPath = path.join(
+      await PlaylistMetadataService.remove(libraryPath, name, op);
+      // Otherwise the next inventory change would write it again
+      if (SmartPlaylistService.isSmartPlaylist(name)) {
+        await SmartPlaylistService.remove(
+          libraryPath,
+          name.slice(PLAYLIST_CONSTANTS.SMART_PLAYLIST_PREFIX.length),
+          op,
+        );
+      }
+      PlaylistIndexService.invalidate(libraryPath);
+      return op.id;
+    };
+
+    if (journal) return remove(journal);
+    return JournalService.run(
+      "playlist-delete",
+      libraryPath,
+      `Delete playlist ${name}`,
+      remove,
+    );
+  }
+
+  /**
+   * Whether a (trimmed) name can be used as a playlist file name.
+   */
+  static isValidPlaylistName(name: string): boolean {
+    return !!name && !name.startsWith(".") && !/[\\/:*?"<>|]/.test(name);
+  }
+
+  /**
+   * Whether a playlist or folder path below Playlists ("Folder/Name") is
+   * made of valid names.
+   */
+  static isValidPlaylistPath(playlistPath: string): boolean {
+    return playlistPath.split("/").every((name) => this.isValidPlaylistName(name));
+  }
+
+  /**
+   * Whether a name is one of the playlists generated from the library.
+   */
+  static isSystemPlaylistName(name: string): boolean {
+    return (
+      name.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) ||
+      AutoPlaylistService.isAutoPlaylist(name) ||
+      SmartPlaylistService.isSmartPlaylist(name)
+    );
+  }
+
+  /**
+   * Renames a custom playlist file (keeping its extension) and the playlist
+   * name in every track of library_db.json, as one journaled operation.
+   * Master and genre playlist names can be neither source nor target.
+   * A target in another folder ("Folder/Name") moves the file there and
+   * rewrites its entries, which are relative to the file.
+   * Returns the name the playlist was given and the operationId.
+   */
+  static async renamePlaylist(
+    name: string,
+    newName: string,
+    libraryPath: string,
+  ): Promise<PlaylistRenameResult> {
+    const target = newName
+      .split("/")
+      .map((segment) => segment.trim())
+      .join("/");
+    for (const playlistName of [name, target]) {
+      if (this.isSystemPlaylistName(playlistName)) {
+        throw new Error(ERROR_MESSAGES.CANNOT_RENAME_SYSTEM_PLAYLIST(playlistName));
+      }
+    }
+    if (!this.isValidPlaylistPath(target)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_NAME(newName));
+    }
+
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    let filePath = path.join(
+      playlistDir,
+      `${name}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
+    );
+    if (!(await fs.pathExists(filePath))) {
+      filePath = path.join(
         playlistDir,
         `${name}${FILE_EXTENSIONS.PLAYLIST_LEGACY}`,
       );
-      if (await fs.pathExists(legacyPath)) {
-        await fs.remove(legacyPath);
-      } else {
+      if (!(await fs.pathExists(filePath))) {
         throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(name));
       }
     }
+
+    // A case-only rename finds the source itself on case-insensitive disks
+    const caseOnly = target.toLowerCase() === name.toLowerCase();
+    for (const extension of [
+      FILE_EXTENSIONS.PLAYLIST_PRIMARY,
+      FILE_EXTENSIONS.PLAYLIST_LEGACY,
+    ]) {
+      if (
+        !caseOnly &&
+        (await fs.pathExists(path.join(playlistDir, `${target}${extension}`)))
+      ) {
+        throw new Error(ERROR_MESSAGES.PLAYLIST_ALREADY_EXISTS(target));
+      }
+    }
+
+    const targetPath = path.join(playlistDir, `${target}${path.extname(filePath)}`);
+    const targetFolder = path.posix.dirname(target);
+    if (
+      targetFolder !== "." &&
+      !(await fs.pathExists(path.join(playlistDir, targetFolder)))
+    ) {
+      throw new Error(ERROR_MESSAGES.PLAYLIST_FOLDER_NOT_FOUND(targetFolder));
+    }
+
+    return JournalService.run(
+      "playlist-rename",
+      libraryPath,
+      `Rename playlist ${name} to ${target}`,
+      async (journal) => {
+        if (path.dirname(targetPath) === path.dirname(filePath)) {
+          await journal.move(filePath, targetPath);
+        } else {
+          await this.moveBetweenFolders(filePath, targetPath, journal);
+        }
+        await PlaylistMetadataService.move(libraryPath, name, target, journal);
+        PlaylistIndexService.invalidate(libraryPath);
+
+        await LibraryStore.update(
+          libraryPath,
+          (inventory) => {
+            for (const song of inventory) {
+              song.playlists = song.playlists.map((playlist) =>
+                playlist === name ? target : playlist,
+              );
+            }
+          },
+          journal,
+        );
+        return { name: target, operationId: journal.id };
+      },
+    );
   }
 
-  static async listPlaylists(
+  /**
+   * Moves a custom playlist into another folder of the Playlists tree
+   * (an empty folder is the top), keeping its name.
+   */
+  static async movePlaylist(
+    name: string,
+    folder: string,
     libraryPath: string,
-  ): Promise<{ name: string; count: number; path: string }[]> {
+  ): Promise<string> {
+    const target = folder.trim().replace(/^\/+|\/+$/g, "");
+    if (target && !this.isValidPlaylistPath(target)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FOLDER(folder));
+    }
+    const baseName = path.posix.basename(name);
+    const { operationId } = await this.renamePlaylist(
+      name,
+      target ? `${target}/${baseName}` : baseName,
+      libraryPath,
+    );
+    return operationId;
+  }
+
+  /**
+   * Writes a playlist file in another folder with its relative entries
+   * pointing at the same tracks, then removes the original.
+   */
+  private static async moveBetweenFolders(
+    filePath: string,
+    targetPath: string,
+    journal: OperationJournal,
+  ): Promise<void> {
+    const playlist = M3uService.parse(await fs.readFile(filePath, "utf-8"));
+    const blocks = playlist.blocks.map((block) => {
+      if (path.isAbsolute(block.entry)) return block;
+      const entry = M3uService.toEntry(
+        targetPath,
+        M3uService.resolveEntry(filePath, block.entry),
+      );
+      return { entry, lines: [...block.lines.slice(0, -1), entry] };
+    });
+
+    await journal.capture(targetPath);
+    await fs.outputFile(targetPath, M3uService.serialize({ ...playlist, blocks }));
+    await journal.capture(filePath);
+    await fs.remove(filePath);
+  }
+
+  /**
+   * Creates an empty folder below Playlists.
+   */
+  static async createPlaylistFolder(
+    folder: string,
+    libraryPath: string,
+  ): Promise<void> {
+    const target = folder.trim();
+    if (!this.isValidPlaylistPath(target) || this.isSystemPlaylistName(target)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FOLDER(folder));
+    }
+
+    const folderPath = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR, target);
+    if (await fs.pathExists(folderPath)) {
+      throw new Error(ERROR_MESSAGES.PLAYLIST_FOLDER_ALREADY_EXISTS(target));
+    }
+    await fs.ensureDir(folderPath);
+  }
+
+  /**
+   * Removes a folder below Playlists. Only empty folders can be removed, so
+   * playlists are never deleted along with their folder.
+   */
+  static async deletePlaylistFolder(
+    folder: string,
+    libraryPath: string,
+  ): Promise<void> {
+    if (!this.isValidPlaylistPath(folder)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FOLDER(folder));
+    }
+
+    const folderPath = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR, folder);
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(ERROR_MESSAGES.PLAYLIST_FOLDER_NOT_FOUND(folder));
+    }
+    const entries: string[] = await fs.readdir(folderPath);
+    if (entries.some((entry) => !entry.startsWith("."))) {
+      throw new Error(ERROR_MESSAGES.PLAYLIST_FOLDER_NOT_EMPTY(folder));
+    }
+    await fs.remove(folderPath);
+  }
+
+  /**
+   * Changes the order of the entries of a custom playlist. Comment lines
+   * (#EXTINF and the like) move with the entry that follows them; the
+   * #EXTM3U header and trailing comments stay in place.
+   */
+  static async reorderPlaylist(
+    name: string,
+    reorder: PlaylistReorder,
+    libraryPath: string,
+  ): Promise<void> {
+    return LibraryStore.withLock(libraryPath, () =>
+      this.reorderPlaylistFile(name, reorder, libraryPath),
+    );
+  }
+
+  private static async reorderPlaylistFile(
+    name: string,
+    reorder: PlaylistReorder,
+    libraryPath: string,
+  ): Promise<void> {
+    if (
+      name.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) ||
+      AutoPlaylistService.isAutoPlaylist(name) ||
+      SmartPlaylistService.isSmartPlaylist(name)
+    ) {
+      throw new Error(ERROR_MESSAGES.CANNOT_REORDER_SYSTEM_PLAYLIST(name));
+    }
+
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
-    if (!(await fs.pathExists(playlistDir))) return [];
+    let filePath = path.join(
+      playlistDir,
+      `${name}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
+    );
+    if (!(await fs.pathExists(filePath))) {
+      filePath = path.join(
+        playlistDir,
+        `${name}${FILE_EXTENSIONS.PLAYLIST_LEGACY}`,
+      );
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(name));
+      }
+    }
 
-    const files = await fs.readdir(playlistDir);
-    const playlists = [];
+    // Each entry with the comment lines right above it
+    const playlist = M3uService.parse(await fs.readFile(filePath, "utf-8"));
+    const { blocks } = playlist;
 
-    for (const file of files) {
-      if (file.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) continue;
+    const isPosition = (value: unknown) =>
+      Number.isInteger(value) &&
+      (value as number) >= 0 &&
+      (value as number) < blocks.length;
 
+    let reordered: typeof blocks;
+    if ("order" in reorder) {
+      const { order } = reorder;
       if (
-        file.endsWith(FILE_EXTENSIONS.PLAYLIST_PRIMARY) ||
-        file.endsWith(FILE_EXTENSIONS.PLAYLIST_LEGACY)
+        order.length !== blocks.length ||
+        !order.every(isPosition) ||
+        new Set(order).size !== order.length
       ) {
-        const filePath = path.join(playlistDir, file);
-        const content = await fs.readFile(filePath, "utf-8");
-        const lineCount = content
-          .split("\n")
-          .filter((l) => l.trim().length > 0 && !l.startsWith("#")).length;
-
-        playlists.push({
-          name: path.parse(file).name,
-          count: lineCount,
-          path: filePath,
-        });
+        throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_ORDER);
       }
+      reordered = order.map((position) => blocks[position]);
+    } else {
+      if (!isPosition(reorder.from) || !isPosition(reorder.to)) {
+        throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_ORDER);
+      }
+      reordered = [...blocks];
+      const [moved] = reordered.splice(reorder.from, 1);
+      reordered.splice(reorder.to, 0, moved);
+    }
+
+    await fs.writeFile(
+      filePath,
+      M3uService.serialize({ ...playlist, blocks: reordered }),
+    );
+    PlaylistIndexService.invalidate(libraryPath);
+  }
+
+  static async listPlaylists(libraryPath: string): Promise<PlaylistSummary[]> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const { files } = await PlaylistIndexService.listPlaylistFiles(playlistDir);
+    const playlists: PlaylistSummary[] = [];
+
+    for (const file of files) {
+      if (file.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) continue;
+
+      const filePath = path.join(playlistDir, file);
+      const content = await fs.readFile(filePath, "utf-8");
+      const lineCount = content
+        .split("\n")
+        .filter((l) => l.trim().length > 0 && !l.startsWith("#")).length;
+      const name = PlaylistIndexService.getPlaylistName(file);
+
+      playlists.push({
+        name,
+        count: lineCount,
+        path: filePath,
+        ...(await PlaylistMetadataService.get(libraryPath, name)),
+      });
     }
     return playlists;
   }
 
+  /**
+   * The playlists grouped by the folders below Playlists, empty folders
+   * included. Folders and playlists are sorted by name. Pass the result of
+   * listPlaylists when the caller already has it, so it isn't read twice.
+   */
+  static async getPlaylistTree(
+    libraryPath: string,
+    playlists?: PlaylistSummary[],
+  ): Promise<PlaylistFolder> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const { folders } = await PlaylistIndexService.listPlaylistFiles(playlistDir);
+    playlists ??= await this.listPlaylists(libraryPath);
+
+    const root: PlaylistFolder = { name: "", relPath: "", folders: [], playlists: [] };
+    const byPath = new Map([["", root]]);
+    // Parents are listed before their subfolders
+    for (const relPath of [...folders].sort()) {
+      const folder: PlaylistFolder = {
+        name: path.posix.basename(relPath),
+        relPath,
+        folders: [],
+        playlists: [],
+      };
+      byPath.set(relPath, folder);
+      byPath.get(path.posix.dirname(relPath).replace(/^\.$/, ""))?.folders.push(folder);
+    }
+    for (const playlist of playlists) {
+      byPath
+        .get(path.posix.dirname(playlist.name).replace(/^\.$/, ""))
+        ?.playlists.push(playlist);
+    }
+
+    const sort = (folder: PlaylistFolder) => {
+      folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+      folder.playlists.sort((a, b) => a.name.localeCompare(b.name));
+      folder.folders.forEach(sort);
+    };
+    sort(root);
+    return root;
+  }
+
   static async getPlaylistDetails(
     name: string,
     libraryPath: string,
   ): Promise<SongMetadata[]> {
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
 
     // Find existing file (check .m3u8 and .m3u)
     let filePath = path.join(
@@ -338,10 +1027,8 @@ export class OrganizerService {
     }
 
     // Load Inventory for Metadata Lookup
-    let inventory: SongMetadata[] = [];
-    if (await fs.pathExists(dbPath)) {
-      inventory = await fs.readJson(dbPath);
-    }
+    const inventory: SongMetadata[] =
+      (await LibraryStore.read(libraryPath)) ?? [];
 
     // Create lookup map directly by absolute path for O(1) access
     // Normalize paths to handle potential OS differences or inconsistencies
@@ -351,15 +1038,13 @@ export class OrganizerService {
     });
 
     const content = await fs.readFile(filePath, "utf-8");
-    const lines = content
-      .split("\n")
-      .filter((l) => l.trim().length > 0 && !l.startsWith("#"));
+    const { blocks } = M3uService.parse(content);
 
     const playlistTracks: SongMetadata[] = [];
 
-    for (const line of lines) {
-      // Lines are relative to playlistDir
-      const absPath = path.resolve(playlistDir, line.trim());
+    for (const block of blocks) {
+      // Lines are relative to the folder of the playlist file
+      const absPath = M3uService.resolveEntry(filePath, block.entry);
 
       // Try to find metadata in inventory
       const metadata = inventoryMap.get(absPath);
@@ -367,16 +1052,22 @@ export class OrganizerService {
       if (metadata) {
         playlistTracks.push(metadata);
       } else {
-        // If not in inventory, construct basic metadata from file path
+        // If not in inventory, construct basic metadata from the #EXTINF
+        // line or the file path.
+        // Entries whose file is gone are flagged so they can be relinked.
+        const missing = !(await fs.pathExists(absPath));
+        const info = M3uService.readInfo(block);
         playlistTracks.push({
-          title: path.parse(absPath).name,
-          artist: METADATA_DEFAULTS.UNKNOWN,
+          title: info?.title || path.parse(absPath).name,
+          artist: info?.artist || METADATA_DEFAULTS.UNKNOWN,
           album: METADATA_DEFAULTS.UNKNOWN,
           trackNo: METADATA_DEFAULTS.DEFAULT_TRACK_NO,
           genre: [],
           format: path.extname(absPath),
           absPath: absPath,
           playlists: [],
+          ...(info?.duration !== undefined && { duration: info.duration }),
+          ...(missing && { missing }),
         });
       }
     }
@@ -384,6 +1075,81 @@ export class OrganizerService {
     return playlistTracks;
   }
 
+  /**
+   * Points broken entries of a custom playlist at the tracks chosen as their
+   * replacement. Returns the number of lines rewritten.
+   */
+  static async relinkPlaylistEntries(
+    name: string,
+    relinks: PlaylistRelink[],
+    libraryPath: string,
+  ): Promise<number> {
+    return LibraryStore.withLock(libraryPath, () =>
+      this.relinkPlaylistFile(name, relinks, libraryPath),
+    );
+  }
+
+  private static async relinkPlaylistFile(
+    name: string,
+    relinks: PlaylistRelink[],
+    libraryPath: string,
+  ): Promise<number> {
+    if (name.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) {
+      throw new Error(ERROR_MESSAGES.CANNOT_MODIFY_MASTER);
+    }
+    if (SmartPlaylistService.isSmartPlaylist(name)) {
+      throw new Error(ERROR_MESSAGES.CANNOT_MODIFY_SMART_PLAYLIST(name));
+    }
+
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    let filePath = path.join(playlistDir, `${name}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`);
+    if (!(await fs.pathExists(filePath))) {
+      filePath = path.join(playlistDir, `${name}${FILE_EXTENSIONS.PLAYLIST_LEGACY}`);
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(name));
+      }
+    }
+
+    const replacements = new Map(
+      relinks.map(({ entry, trackPath }) => [M3uService.normalizeEntry(entry), trackPath]),
+    );
+    const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+    const byPath = new Map(inventory.map((song) => [song.absPath, song]));
+    const trackInfo = [
+      PLAYLIST_CONSTANTS.EXTINF,
+      PLAYLIST_CONSTANTS.EXTART,
+      PLAYLIST_CONSTANTS.EXTALB,
+    ];
+
+    let relinked = 0;
+    const playlist = M3uService.parse(await fs.readFile(filePath, "utf-8"));
+    const blocks = playlist.blocks.map((block): M3uBlock => {
+      const trackPath = replacements.get(block.entry);
+      if (!trackPath) return block;
+      relinked++;
+      // The info lines described the old track; other comments stay
+      const comments = block.lines
+        .slice(0, -1)
+        .filter((line) => !trackInfo.some((prefix) => line.startsWith(prefix)));
+      const relinkedBlock = M3uService.createBlock({
+        path: M3uService.toEntry(filePath, trackPath),
+        song: byPath.get(trackPath),
+      });
+      return { ...relinkedBlock, lines: [...comments, ...relinkedBlock.lines] };
+    });
+
+    if (relinked > 0) {
+      await fs.writeFile(filePath, M3uService.serialize({ ...playlist, blocks }));
+      PlaylistIndexService.invalidate(libraryPath);
+      await this.updateTrackPlaylistsInDatabase(
+        relinks.map((relink) => relink.trackPath),
+        libraryPath,
+      );
+    }
+    console.log(`[OrganizerService] Relinked ${relinked} entries in ${name}`);
+    return relinked;
+  }
+
   // --- Helpers ---
 
   private static extractTags(folderName: string): string[] {
@@ -394,14 +1160,28 @@ export class OrganizerService {
     );
   }
 
-  private static async getFilesRecursive(dir: string): Promise<string[]> {
+  /**
+   * Lists supported audio files under dir. Entries of a folder are stat'ed in
+   * parallel; subfolders are walked one after another so the number of
+   * pending stat calls never exceeds the concurrency. The journal, the
+   * transcode cache and AppleDouble files are skipped.
+   */
+  private static async getFilesRecursive(
+    dir: string,
+    concurrency: number = CONCURRENCY_CONSTANTS.DEFAULT,
+  ): Promise<string[]> {
     let results: string[] = [];
-    const list = await fs.readdir(dir);
-    for (const file of list) {
+    const list = (await fs.readdir(dir)).filter((file) => !this.isInternalEntry(file));
+    const entries = await WorkerPool.map(list, concurrency, async (file) => {
       const fullPath = path.join(dir, file);
       const stat = await fs.stat(fullPath);
-      if (stat.isDirectory()) {
-        results = results.concat(await this.getFilesRecursive(fullPath));
+      return { fullPath, isDirectory: stat.isDirectory() };
+    });
+    for (const { fullPath, isDirectory } of entries) {
+      if (isDirectory) {
+        results = results.concat(
+          await this.getFilesRecursive(fullPath, concurrency),
+        );
       } else if (this.SUPPORTED_FORMATS.test(fullPath)) {
         results.push(fullPath);
       }
@@ -409,70 +1189,179 @@ export class OrganizerService {
     return results;
   }
 
+  private static isInsideDir(filePath: string, dir: string): boolean {
+    const relative = path.relative(dir, filePath);
+    return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+  }
+
   private static async analyzeFile(
     sourcePath: string,
     libraryPath: string,
     tags: string[],
+    naming: NamingOptions = NamingTemplateService.withDefaults(),
   ): Promise<ScanResult | null> {
     try {
       const metadata = await mm.parseFile(sourcePath);
       const common = metadata.common;
+      const format = metadata.format;
 
       const song: SongMetadata = {
         title: common.title || path.parse(sourcePath).name,
         artist: common.artist || METADATA_DEFAULTS.UNKNOWN_ARTIST,
+        albumArtist: common.albumartist || undefined,
         album: common.album || METADATA_DEFAULTS.UNKNOWN_ALBUM,
         year: common.year,
         trackNo:
           common.track.no?.toString().padStart(2, "0") ||
           METADATA_DEFAULTS.DEFAULT_TRACK_NO,
+        discNo: common.disk?.no ?? undefined,
+        discTotal: common.disk?.of ?? undefined,
+        compilation: common.compilation || undefined,
         genre: common.genre || [METADATA_DEFAULTS.DEFAULT_GENRE],
         format: path.extname(sourcePath).toLowerCase(),
         absPath: sourcePath,
         playlists: [],
+        bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : undefined,
+        duration: format.duration,
+        codec: format.codec,
+        sampleRate: format.sampleRate,
+        bitsPerSample: format.bitsPerSample,
+        lossless: format.lossless,
+        mbid: common.musicbrainz_recordingid || undefined,
+        audioHash:
+          (await DuplicateDetectionService.computeAudioHash(
+            sourcePath,
+            format.audioMD5,
+          )) ?? undefined,
       };
 
-      const clean = (s: string) => s.replace(/[/\\?%*:|"<>]/g, "-").trim();
-      const artistDir = clean(song.artist);
-      const albumDir = song.year
-        ? `(${song.year}) ${clean(song.album)}`
-        : clean(song.album);
-      const fileName = `${song.trackNo} - ${clean(song.title)}${song.format}`;
+      const proposedPath = NamingTemplateService.buildPath(
+        libraryPath,
+        naming.template,
+        song,
+        naming.variousArtists,
+      );
+
+      return {
+        file: sourcePath,
+        metadata: song,
+        proposedPath: proposedPath,
+        playlists: tags,
+      };
+    } catch (err) {
+      console.error(`Failed to parse ${sourcePath}`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Moves a scanned file to its proposedPath, applying the conflict policy
+   * when the destination already exists.
+   */
+  private static async placeFile(
+    item: ScanResult,
+    policy: ConflictPolicy,
+    inventory: SongMetadata[],
+    journal: OperationJournal,
+  ): Promise<OrganizeFileReport> {
+    const source = item.file;
+    const dest = item.proposedPath;
+
+    if (!(await fs.pathExists(dest))) {
+      await journal.move(source, dest);
+      return { file: source, destination: dest, action: "moved" };
+    }
 
-      const proposedPath = path.join(
-        libraryPath,
-        artistDir,
-        albumDir,
-        fileName,
-      );
+    switch (policy) {
+      case "rename": {
+        const renamed = await this.getAvailablePath(dest);
+        await journal.move(source, renamed);
+        return { file: source, destination: renamed, action: "renamed", policy };
+      }
+      case "replace":
+        // The replaced file is kept in the journal so undo can restore it
+        await journal.backup(dest);
+        await journal.move(source, dest);
+        return { file: source, destination: dest, action: "replaced", policy };
+      case "replace-if-better": {
+        const existing = await this.getExistingMetadata(dest, inventory);
+        if (existing && this.isBetterQuality(item.metadata, existing)) {
+          await journal.backup(dest);
+          await journal.move(source, dest);
+          return { file: source, destination: dest, action: "replaced", policy };
+        }
+        return { file: source, destination: dest, action: "skipped-duplicate", policy };
+      }
+      default:
+        // skip: the inbox file stays where it is
+        return { file: source, destination: dest, action: "skipped-duplicate", policy };
+    }
+  }
+
+  /**
+   * Returns "name (1).ext", "name (2).ext"... for the first free path.
+   */
+  private static async getAvailablePath(dest: string): Promise<string> {
+    const { dir, name, ext } = path.parse(dest);
+    for (let i = 1; ; i++) {
+      const candidate = path.join(dir, `${name} (${i})${ext}`);
+      if (!(await fs.pathExists(candidate))) return candidate;
+    }
+  }
 
+  /**
+   * Reads quality info for an existing library file, preferring the
+   * database entry and falling back to parsing the file.
+   */
+  private static async getExistingMetadata(
+    filePath: string,
+    inventory: SongMetadata[],
+  ): Promise<AudioQuality | null> {
+    const entry = inventory.find((s) => s.absPath === filePath);
+    if (entry && entry.sampleRate !== undefined) return entry;
+
+    try {
+      const { format } = await mm.parseFile(filePath);
       return {
-        file: sourcePath,
-        metadata: song,
-        proposedPath: proposedPath,
-        playlists: tags,
+        format: path.extname(filePath).toLowerCase(),
+        bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : undefined,
+        sampleRate: format.sampleRate,
+        bitsPerSample: format.bitsPerSample,
+        lossless: format.lossless,
       };
     } catch (err) {
-      console.error(`Failed to parse ${sourcePath}`, err);
+      console.error(`Failed to read quality of ${filePath}`, err);
       return null;
     }
   }
 
-  private static async safeMove(source: string, dest: string): Promise<string> {
-    if (await fs.pathExists(dest)) {
-      // If exists, don't overwrite, just return dest (assuming duplicate content)
-      // Or maybe rename? User prompt logic implies we just skip/append.
-      // Replicating script logic: "Si el archivo ya existe... devolvemos la ruta existente"
-      return dest;
+  /**
+   * Lossless beats lossy; then higher bit depth, sample rate and bitrate win.
+   * Equal quality is not "better", so the library file is kept.
+   */
+  static isBetterQuality(incoming: AudioQuality, existing: AudioQuality): boolean {
+    const isLossless = (song: AudioQuality) =>
+      song.lossless ??
+      (CONFLICT_CONSTANTS.LOSSLESS_FORMATS as readonly string[]).includes(song.format);
+
+    const comparisons: [number, number][] = [
+      [isLossless(incoming) ? 1 : 0, isLossless(existing) ? 1 : 0],
+      [incoming.bitsPerSample ?? 0, existing.bitsPerSample ?? 0],
+      [incoming.sampleRate ?? 0, existing.sampleRate ?? 0],
+      [incoming.bitrate ?? 0, existing.bitrate ?? 0],
+    ];
+
+    for (const [a, b] of comparisons) {
+      if (a !== b) return a > b;
     }
-    await fs.ensureDir(path.dirname(dest));
-    await fs.move(source, dest);
-    return dest;
+    return false;
   }
 
+
   private static async generateMasterPlaylist(
     inventory: SongMetadata[],
     libraryPath: string,
+    journal?: OperationJournal,
   ) {
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
     await fs.ensureDir(playlistDir);
@@ -482,78 +1371,81 @@ export class OrganizerService {
     // Music File: /Music/Artist/Album/Song.mp3
     // Relative: ../Artist/Album/Song.mp3
 
-    const lines = inventory.map((song) => {
-      return path.relative(playlistDir, song.absPath).split(path.sep).join("/");
-    });
-
-    const content = PLAYLIST_CONSTANTS.PLAYLIST_HEADER + lines.join("\n");
-    await fs.outputFile(
-      path.join(
-        playlistDir,
-        `${PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
-      ),
-      content,
+    const content = M3uService.build(
+      inventory.map((song) => ({
+        path: path.relative(playlistDir, song.absPath).split(path.sep).join("/"),
+        song,
+      })),
     );
+    const masterPath = path.join(
+      playlistDir,
+      `${PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
+    );
+    await journal?.capture(masterPath);
+    await fs.outputFile(masterPath, content);
   }
 
-  private static async generateGenrePlaylists(
-    inventory: SongMetadata[],
-    libraryPath: string,
-  ) {
-    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
-    const genreMap = new Map<string, string[]>();
-
-    inventory.forEach((song) => {
-      song.genre.forEach((g) => {
-        const cleanG = g.trim();
-        if (!genreMap.has(cleanG)) genreMap.set(cleanG, []);
-        const rel = path
-          .relative(playlistDir, song.absPath)
-          .split(path.sep)
-          .join("/");
-        genreMap.get(cleanG)!.push(rel);
-      });
-    });
-
-    for (const [genre, tracks] of genreMap) {
-      const cleanGenre = genre.replace(/[/\\?%*:|"<>]/g, "-");
-      const content = PLAYLIST_CONSTANTS.PLAYLIST_HEADER + tracks.join("\n");
-      await fs.outputFile(
-        path.join(
-          playlistDir,
-          `${PLAYLIST_CONSTANTS.GENRE_PLAYLIST_PREFIX}${cleanGenre}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
-        ),
-        content,
-      );
-    }
-  }
-
+  /**
+   * Appends tracks to custom playlists. Returns, per playlist, the tracks it
+   * already had (to tell new assignments apart) or the error that prevented
+   * writing it; one failing playlist does not stop the others.
+   */
   private static async appendCustomPlaylists(
     newPlaylists: Map<string, Set<string>>,
     playlistDir: string,
-  ) {
+    inventory: SongMetadata[],
+    journal?: OperationJournal,
+  ): Promise<Map<string, { existing: Set<string>; error?: string }>> {
+    const outcomes = new Map<string, { existing: Set<string>; error?: string }>();
+    const songsByPath = new Map(
+      inventory.map((song) => [path.resolve(song.absPath), song]),
+    );
+
     for (const [name, tracks] of newPlaylists) {
+      if (SmartPlaylistService.isSmartPlaylist(name.trim())) {
+        outcomes.set(name, {
+          existing: new Set(),
+          error: ERROR_MESSAGES.CANNOT_MODIFY_SMART_PLAYLIST(name.trim()),
+        });
+        continue;
+      }
+
       const filePath = path.join(
         playlistDir,
         `${name.trim()}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
       );
 
-      let existingLines: string[] = [];
-      if (await fs.pathExists(filePath)) {
-        const content = await fs.readFile(filePath, "utf-8");
-        existingLines = content
-          .split("\n")
-          .filter((l) => l && !l.startsWith("#"));
+      let existing = new Set<string>();
+      try {
+        const existingContent = (await fs.pathExists(filePath))
+          ? await fs.readFile(filePath, "utf-8")
+          : undefined;
+
+        // Merge existing and new, avoid dupes
+        const merged = M3uService.append(
+          existingContent,
+          [...tracks].map((rel) => ({
+            path: rel,
+            song: songsByPath.get(path.resolve(playlistDir, rel)),
+          })),
+        );
+        existing = merged.existing;
+        await journal?.capture(filePath);
+        await fs.outputFile(filePath, merged.content);
+        outcomes.set(name, { existing });
+      } catch (err) {
+        console.error(`Failed to update playlist ${name}`, err);
+        outcomes.set(name, {
+          existing,
+          error: err instanceof Error ? err.message : String(err),
+        });
       }
-
-      // Merge existing and new, avoid dupes
-      const allTracks = new Set([...existingLines, ...tracks]);
-      const content =
-        PLAYLIST_CONSTANTS.PLAYLIST_HEADER + Array.from(allTracks).join("\n");
-      await fs.outputFile(filePath, content);
     }
+
+    return outcomes;
   }
 
+
   /**
    * Updates the playlists field for specific tracks in library_db.json
    * This ensures the JSON is always in sync with the actual .m3u8 files
@@ -562,33 +1454,32 @@ export class OrganizerService {
     trackPaths: string[],
     libraryPath: string,
   ): Promise<void> {
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
-
-    // Load current inventory
-    if (!(await fs.pathExists(dbPath))) {
-      return; // No database to update
-    }
-
-    const inventory: SongMetadata[] = await fs.readJson(dbPath);
-
-    // Update playlists for each track
-    for (const trackPath of trackPaths) {
-      const track = inventory.find((song) => song.absPath === trackPath);
-      if (track) {
-        // Get current playlists for this track (always an array, empty if none)
-        track.playlists = await this.getPlaylistsForTrack(
-          trackPath,
-          libraryPath,
-        );
+    // Playlists were just written; the cached index is stale
+    PlaylistIndexService.invalidate(libraryPath);
+
+    // Does nothing when there is no database to update
+    await LibraryStore.update(libraryPath, async (inventory) => {
+      // Read the playlists once for all tracks
+      let index: PlaylistIndex | undefined;
+
+      // Update playlists for each track
+      for (const trackPath of trackPaths) {
+        const track = inventory.find((song) => song.absPath === trackPath);
+        if (track) {
+          index ??= await PlaylistIndexService.get(libraryPath);
+          // Get current playlists for this track (always an array, empty if none)
+          track.playlists = await this.getPlaylistsForTrack(
+            trackPath,
+            libraryPath,
+            index,
+          );
+        }
       }
-    }
-
-    // Save updated inventory
-    await fs.outputJson(dbPath, inventory, { spaces: 2 });
+    });
   }
 
-  private static async cleanupEmptyDirs(startDir: string) {
-    if (!(await fs.pathExists(startDir))) return;
+  private static async cleanupEmptyDirs(startDir: string, keep?: string) {
+    if (!(await fs.pathExists(startDir)) || startDir === keep) return;
 
     // Read directory contents
     const files = await fs.readdir(startDir);
@@ -599,7 +1490,7 @@ export class OrganizerService {
         const fullPath = path.join(startDir, file);
         const stat = await fs.stat(fullPath);
         if (stat.isDirectory()) {
-          await this.cleanupEmptyDirs(fullPath);
+          await this.cleanupEmptyDirs(fullPath, keep);
         }
       }
     }
@@ -611,25 +1502,77 @@ export class OrganizerService {
     }
   }
 
+  /**
+   * Copies or moves the tracks of a playlist to a destination folder.
+   * Moves are journaled and return an operationId that can be undone.
+   * Copies can be transcoded with an export profile.
+   */
   static async exportPlaylist(
     name: string,
     destination: string,
     mode: "copy" | "move",
     preserveStructure: boolean,
     libraryPath: string,
-  ): Promise<{ SuccessCount: number; FailCount: number }> {
+    format?: PlaylistFormat,
+    profile?: ExportProfile,
+  ): Promise<ExportResult> {
     if (name.includes(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_NAME)) {
       throw new Error(ERROR_MESSAGES.CANNOT_EXPORT_MASTER);
     }
+    if (profile && mode !== "copy") {
+      throw new Error(ERROR_MESSAGES.CANNOT_TRANSCODE_MOVE);
+    }
+
+    if (mode === "copy") {
+      return this.exportPlaylistFiles(
+        name,
+        destination,
+        mode,
+        preserveStructure,
+        libraryPath,
+        format,
+        undefined,
+        profile,
+      );
+    }
 
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
+    return JournalService.run(
+      "export-move",
+      libraryPath,
+      `Move playlist ${name} to ${destination}`,
+      async (journal) => ({
+        ...(await this.exportPlaylistFiles(
+          name,
+          destination,
+          mode,
+          preserveStructure,
+          libraryPath,
+          format,
+          journal,
+        )),
+        operationId: journal.id,
+      }),
+    );
+  }
 
+  private static async exportPlaylistFiles(
+    name: string,
+    destination: string,
+    mode: "copy" | "move",
+    preserveStructure: boolean,
+    libraryPath: string,
+    format: PlaylistFormat | undefined,
+    journal?: OperationJournal,
+    profile?: ExportProfile,
+  ): Promise<ExportResult> {
     // 1. Get Tracks
     // We use getPlaylistDetails to ensure we have paths and metadata
     const tracks = await this.getPlaylistDetails(name, libraryPath);
 
     let successCount = 0;
     let failCount = 0;
+    // Exported tracks, relative to the destination, for the playlist file
+    const exported: M3uTrack[] = [];
 
     await fs.ensureDir(destination);
 
@@ -655,41 +1598,76 @@ export class OrganizerService {
           // For now, let's just use filename.
           destPath = path.join(destination, path.basename(track.absPath));
         }
+        if (profile) {
+          destPath = TranscodeService.withExtension(destPath, profile);
+        }
 
         await fs.ensureDir(path.dirname(destPath));
 
-        if (mode === "copy") {
+        if (profile) {
+          const transcoded = await TranscodeService.transcode(track.absPath, profile, libraryPath);
+          await fs.copy(transcoded, destPath, { overwrite: false });
+        } else if (mode === "copy") {
           await fs.copy(track.absPath, destPath, { overwrite: false });
+        } else if (journal) {
+          await journal.move(track.absPath, destPath, { overwrite: false });
+          tracksToRemove.add(track.absPath);
         } else {
           await fs.move(track.absPath, destPath, { overwrite: false });
           tracksToRemove.add(track.absPath);
         }
 
         successCount++;
+        exported.push({
+          path: path.relative(destination, destPath).split(path.sep).join("/"),
+          song: track,
+        });
       } catch (err) {
         console.error(`Failed to ${mode} ${track.absPath}`, err);
         failCount++;
       }
     }
 
+    // Drop cached conversions of tracks that were moved or deleted since
+    if (profile) {
+      const inventory = await LibraryStore.read(libraryPath);
+      if (inventory) {
+        await TranscodeService.prune(libraryPath, inventory.map((song) => song.absPath));
+      }
+    }
+
+    // 2.1 Playlist file next to the exported tracks
+    let playlistFile: string | undefined;
+    if (format) {
+      // Playlists in folders are written next to the tracks all the same
+      const title = path.basename(name);
+      playlistFile = path.join(
+        destination,
+        `${title}${PlaylistFormatService.getExtension(format)}`,
+      );
+      await fs.outputFile(
+        playlistFile,
+        PlaylistFormatService.serialize(format, title, exported),
+      );
+    }
+
     // 3. Cleanup logic for MOVE
     if (mode === "move" && tracksToRemove.size > 0) {
       // Remove from DB
-      if (await fs.pathExists(dbPath)) {
-        let inventory: SongMetadata[] = await fs.readJson(dbPath);
-        const initialLen = inventory.length;
-
+      const current = await LibraryStore.read(libraryPath);
+      if (current) {
         // Filter out moved tracks
-        inventory = inventory.filter(
+        const inventory = current.filter(
           (song) => !tracksToRemove.has(song.absPath),
         );
 
-        if (inventory.length !== initialLen) {
-          await fs.outputJson(dbPath, inventory, { spaces: 2 });
+        if (inventory.length !== current.length) {
+          await LibraryStore.write(libraryPath, inventory, journal);
 
           // Regenerate System Playlists to reflect changes
-          await this.generateMasterPlaylist(inventory, libraryPath);
-          await this.generateGenrePlaylists(inventory, libraryPath);
+          await this.generateMasterPlaylist(inventory, libraryPath, journal);
+          await AutoPlaylistService.generate(inventory, libraryPath, journal);
+          await SmartPlaylistService.generate(inventory, libraryPath, journal);
 
           // Note: Custom playlists might still reference these moved files.
           // Ideally we should scan all playlists and remove these entries to avoid "missing file" errors.
@@ -698,7 +1676,7 @@ export class OrganizerService {
       }
 
       // DELETE the source playlist
-      await this.deletePlaylist(name, libraryPath);
+      await this.deletePlaylist(name, libraryPath, journal);
 
       // Clean up empty directories in the library if we moved files out
       // We can try to clean up from the "Artists" or root level,
@@ -706,11 +1684,18 @@ export class OrganizerService {
       // However, sweeping the WHOLE library might be expensive.
       // A targeted approach based on `tracksToRemove` might be better,
       // but `cleanupEmptyDirs` on the whole library is safer ensuring we catch everything.
-      // Let's sweep the library path.
-      await this.cleanupEmptyDirs(libraryPath);
+      // Let's sweep the library path. Empty playlist folders are kept.
+      await this.cleanupEmptyDirs(
+        libraryPath,
+        path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR),
+      );
     }
 
-    return { SuccessCount: successCount, FailCount: failCount };
+    return {
+      SuccessCount: successCount,
+      FailCount: failCount,
+      ...(playlistFile && { playlistFile }),
+    };
   }
 
   static async revealInFileExplorer(filePath: string): Promise<void> {
@@ -732,54 +1717,17 @@ export class OrganizerService {
     });
   }
 
+  /**
+   * Custom playlists containing the track. Pass an index when looking up many
+   * tracks; otherwise the cached index of the library is used.
+   */
   static async getPlaylistsForTrack(
     trackPath: string,
     libraryPath: string,
+    index?: PlaylistIndex,
   ): Promise<string[]> {
-    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
-    if (!(await fs.pathExists(playlistDir))) return [];
-
-    const files = await fs.readdir(playlistDir);
-    const playlistsContainingTrack: string[] = [];
-
-    for (const file of files) {
-      if (
-        file.endsWith(FILE_EXTENSIONS.PLAYLIST_PRIMARY) ||
-        file.endsWith(FILE_EXTENSIONS.PLAYLIST_LEGACY)
-      ) {
-        const playlistName = path.parse(file).name;
-
-        if (
-          playlistName.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) ||
-          playlistName.startsWith(PLAYLIST_CONSTANTS.GENRE_PLAYLIST_PREFIX)
-        ) {
-          continue;
-        }
-
-        const filePath = path.join(playlistDir, file);
-        const content = await fs.readFile(filePath, "utf-8");
-        const lines = content
-          .split("\n")
-          .filter((l) => l.trim().length > 0 && !l.startsWith("#"));
-
-        const relPathToCheck = path
-          .relative(playlistDir, trackPath)
-          .split(path.sep)
-          .join("/");
-
-        for (const line of lines) {
-          const cleanLine = line.trim().replace(/\\/g, "/");
-          const cleanTarget = relPathToCheck.replace(/\\/g, "/");
-
-          if (cleanLine === cleanTarget) {
-            playlistsContainingTrack.push(playlistName);
-            break;
-          }
-        }
-      }
-    }
-
-    return playlistsContainingTrack;
+    const playlistIndex = index ?? (await PlaylistIndexService.get(libraryPath));
+    return playlistIndex.playlistsFor(trackPath);
   }
 
   static async getAlbumCover(
@@ -825,7 +1773,9 @@ export class OrganizerService {
 
   /**
    * Extracts complete metadata from an audio file for database regeneration.
-   * Returns SongMetadata with all available fields populated.
+   * Returns SongMetadata with all available fields populated, except the
+   * audio hash: reading whole files would slow regeneration down, so
+   * duplicate detection hashes library tracks when their tags match.
    */
   private static async extractCompleteMetadata(
     trackPath: string,
@@ -843,11 +1793,15 @@ export class OrganizerService {
       const song: SongMetadata = {
         title: common.title || path.parse(trackPath).name,
         artist: common.artist || METADATA_DEFAULTS.UNKNOWN_ARTIST,
+        albumArtist: common.albumartist || undefined,
         album: common.album || METADATA_DEFAULTS.UNKNOWN_ALBUM,
         year: common.year,
         trackNo:
           common.track.no?.toString().padStart(2, "0") ||
           METADATA_DEFAULTS.DEFAULT_TRACK_NO,
+        discNo: common.disk?.no ?? undefined,
+        discTotal: common.disk?.of ?? undefined,
+        compilation: common.compilation || undefined,
         genre: common.genre || [METADATA_DEFAULTS.DEFAULT_GENRE],
         format: path.extname(trackPath).toLowerCase(),
         absPath: trackPath,
@@ -860,6 +1814,9 @@ export class OrganizerService {
         duration: format.duration,
         codec: format.codec,
         sampleRate: format.sampleRate,
+        bitsPerSample: format.bitsPerSample,
+        lossless: format.lossless,
+        mbid: common.musicbrainz_recordingid || undefined,
       };
 
       return song;
@@ -872,66 +1829,157 @@ export class OrganizerService {
     }
   }
 
+  /**
+   * Size and mtime of a file, or null if it cannot be read.
+   */
+  private static async getFileState(
+    filePath: string,
+  ): Promise<{ size: number; mtimeMs: number } | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats || typeof stats.size !== "number") return null;
+      return { size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Regenerates the library database by scanning all audio files in libraryPath.
-   * Extracts complete metadata (bitrate, duration, codec, etc.) and cross-references with playlists.
-   * Overwrites library_db.json with fresh, complete information.
+   * By default only new or changed files (by size and mtime) are re-parsed;
+   * unchanged tracks keep their existing entry and vanished tracks are dropped.
+   * Pass force to re-parse every file. Other library writes wait until the
+   * new database is saved.
    */
   static async regenerateDatabase(
     libraryPath: string,
-  ): Promise<{ totalFiles: number; successCount: number; failCount: number }> {
+    options: RegenerateOptions = {},
+  ): Promise<RegenerateResult> {
+    return LibraryStore.withLock(libraryPath, () =>
+      this.rebuildDatabase(libraryPath, options),
+    );
+  }
+
+  private static async rebuildDatabase(
+    libraryPath: string,
+    options: RegenerateOptions,
+  ): Promise<RegenerateResult> {
+    const force = options.force === true;
+    const concurrency = WorkerPool.normalizeConcurrency(options.concurrency);
     console.log(
-      `[OrganizerService] Starting database regeneration for: ${libraryPath}`,
+      `[OrganizerService] Starting ${force ? "full" : "incremental"} database regeneration for: ${libraryPath}`,
     );
 
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
     const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
 
-    // 1. Scan all audio files in libraryPath (excluding Playlists directory)
-    const allFiles = await this.getFilesRecursive(libraryPath);
+    // 1. Scan all audio files in libraryPath (excluding Playlists; the
+    // journal backups and the transcode cache are never walked)
+    const allFiles = await this.getFilesRecursive(libraryPath, concurrency);
     const audioFiles = allFiles.filter(
       (file) =>
-        !file.includes(playlistDir) && this.SUPPORTED_FORMATS.test(file),
+        !this.isInsideDir(file, playlistDir) && this.SUPPORTED_FORMATS.test(file),
     );
 
     console.log(
       `[OrganizerService] Found ${audioFiles.length} audio files to process`,
     );
 
+    // 2. Load the current database as the file-state cache. A full rebuild
+    // still reads it to keep track ids; entries are also matched by relative
+    // path so ids survive moving the library folder.
+    const cached = new Map<string, SongMetadata>();
+    const cachedByRelPath = new Map<string, SongMetadata>();
+    try {
+      for (const song of (await LibraryStore.read(libraryPath)) ?? []) {
+        cached.set(song.absPath, song);
+        if (song.relPath) cachedByRelPath.set(song.relPath, song);
+      }
+    } catch (err) {
+      console.warn(
+        `[OrganizerService] Could not read existing database, doing a full rebuild`,
+        err,
+      );
+    }
+
     let successCount = 0;
     let failCount = 0;
+    let reusedCount = 0;
+    let parsedCount = 0;
     const inventory: SongMetadata[] = [];
+    const matched = new Set<SongMetadata>();
+
+    // 3. Reuse unchanged entries, extract complete metadata for the rest (in parallel)
+    const processed = await WorkerPool.map(
+      audioFiles,
+      concurrency,
+      async (filePath) => {
+        try {
+          const stats = await this.getFileState(filePath);
+          const relPath = path
+            .relative(libraryPath, filePath)
+            .split(path.sep)
+            .join("/");
+          const previous = cached.get(filePath) ?? cachedByRelPath.get(relPath);
+          if (previous) matched.add(previous);
+          if (
+            !force &&
+            previous?.fileSize !== undefined &&
+            stats &&
+            previous.fileSize === stats.size &&
+            previous.modifiedAt === stats.mtimeMs
+          ) {
+            return { song: { ...previous, absPath: filePath, relPath }, reused: true };
+          }
 
-    // 2. Extract complete metadata for each file
-    for (const filePath of audioFiles) {
-      try {
-        const metadata = await this.extractCompleteMetadata(
-          filePath,
-          libraryPath,
-        );
-        if (metadata) {
-          inventory.push(metadata);
-          successCount++;
-        } else {
-          failCount++;
+          const metadata = await this.extractCompleteMetadata(
+            filePath,
+            libraryPath,
+          );
+          if (metadata && stats) {
+            metadata.fileSize = stats.size;
+            metadata.modifiedAt = stats.mtimeMs;
+          }
+          if (metadata) {
+            metadata.id = previous?.id;
+            metadata.addedAt = previous?.addedAt;
+          }
+          return { song: metadata, reused: false };
+        } catch (err) {
+          console.error(`[OrganizerService] Failed to process ${filePath}`, err);
+          return { song: null, reused: false };
         }
-      } catch (err) {
-        console.error(`[OrganizerService] Failed to process ${filePath}`, err);
+      },
+    );
+
+    for (const { song, reused } of processed) {
+      if (reused) reusedCount++;
+      else parsedCount++;
+      if (song) {
+        inventory.push(song);
+        successCount++;
+      } else {
         failCount++;
       }
     }
 
+    // Tracks in the old database that were not found on disk are dropped
+    const removedCount = [...cached.values()].filter(
+      (song) => !matched.has(song),
+    ).length;
+
     console.log(
-      `[OrganizerService] Extracted metadata for ${successCount} files`,
+      `[OrganizerService] Parsed ${parsedCount} files, reused ${reusedCount}, removed ${removedCount}`,
     );
 
-    // 3. Cross-reference with playlists
+    // 4. Cross-reference with playlists (index built once for all tracks)
     console.log(`[OrganizerService] Cross-referencing with playlists...`);
+    const playlistIndex = await PlaylistIndexService.get(libraryPath);
     for (const song of inventory) {
       try {
         song.playlists = await this.getPlaylistsForTrack(
           song.absPath,
           libraryPath,
+          playlistIndex,
         );
       } catch (err) {
         console.error(
@@ -942,32 +1990,257 @@ export class OrganizerService {
       }
     }
 
-    // 4. Save to database
-    await fs.outputJson(dbPath, inventory, { spaces: 2 });
+    // 5. Save to database
+    await LibraryStore.write(libraryPath, inventory);
     console.log(
       `[OrganizerService] Database regenerated successfully. Total tracks: ${inventory.length}`,
     );
 
+    // 6. Smart playlists follow the regenerated inventory
+    await SmartPlaylistService.generate(inventory, libraryPath);
+
     return {
       totalFiles: audioFiles.length,
       successCount,
       failCount,
+      reusedCount,
+      parsedCount,
+      removedCount,
+      mode: force ? "full" : "incremental",
     };
   }
 
+  /**
+   * Applies external file changes to library_db.json without a full
+   * regeneration: renamed tracks keep their metadata and their entries in
+   * custom playlists are rewritten, removed tracks are dropped and new or
+   * modified files are parsed. System playlists are regenerated.
+   */
+  static async applyLibraryChanges(
+    libraryPath: string,
+    changes: LibraryChanges,
+    options: ScanOptions = {},
+  ): Promise<void> {
+    const concurrency = WorkerPool.normalizeConcurrency(options.concurrency);
+    return LibraryStore.withLock(libraryPath, () =>
+      this.applyChangesToDatabase(libraryPath, changes, concurrency),
+    );
+  }
+
+  private static async applyChangesToDatabase(
+    libraryPath: string,
+    changes: LibraryChanges,
+    concurrency: number,
+  ): Promise<void> {
+    const inventory = await LibraryStore.read(libraryPath);
+    // Without a database there is nothing to keep in sync; regenerate builds it
+    if (!inventory) return;
+
+    const byPath = new Map(inventory.map((song) => [song.absPath, song]));
+    const added = new Set(changes.added);
+    const toParse = new Set([...changes.added, ...changes.modified]);
+
+    // 1. Renames keep the metadata; only the paths change
+    const playlistRenames = new Map<string, string>();
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const toPlaylistEntry = (filePath: string) =>
+      path.relative(playlistDir, filePath).split(path.sep).join("/");
+
+    for (const { from, to } of changes.renamed) {
+      const song = byPath.get(from);
+      byPath.delete(from);
+      playlistRenames.set(toPlaylistEntry(from), toPlaylistEntry(to));
+      if (!song) {
+        toParse.add(to);
+        continue;
+      }
+      song.absPath = to;
+      song.relPath = path.relative(libraryPath, to).split(path.sep).join("/");
+      byPath.set(to, song);
+    }
+
+    // 2. Removals
+    for (const filePath of changes.removed) {
+      byPath.delete(filePath);
+    }
+
+    // 3. New and modified files
+    const parsed = await WorkerPool.map(
+      [...toParse],
+      concurrency,
+      async (filePath) => {
+        const stats = await this.getFileState(filePath);
+        const existing = byPath.get(filePath);
+        // Files the app placed itself (organize) are already in the database
+        if (existing && existing.fileSize === undefined && added.has(filePath)) {
+          return { ...existing, ...(stats && { fileSize: stats.size, modifiedAt: stats.mtimeMs }) };
+        }
+        const metadata = await this.extractCompleteMetadata(filePath, libraryPath);
+        if (metadata && stats) {
+          metadata.fileSize = stats.size;
+          metadata.modifiedAt = stats.mtimeMs;
+        }
+        // A modified file is still the same track
+        if (metadata) {
+          metadata.id = existing?.id;
+          metadata.addedAt = existing?.addedAt;
+        }
+        return metadata;
+      },
+    );
+
+    // 4. Rewrite custom playlist entries of renamed tracks
+    if (playlistRenames.size > 0) {
+      await this.rewritePlaylistEntries(libraryPath, playlistRenames);
+    }
+
+    const playlistIndex = await PlaylistIndexService.get(libraryPath);
+    for (const song of parsed) {
+      if (!song) continue;
+      song.playlists = await this.getPlaylistsForTrack(
+        song.absPath,
+        libraryPath,
+        playlistIndex,
+      );
+      byPath.set(song.absPath, song);
+    }
+
+    // 5. Save and refresh the system playlists
+    const updated = [...byPath.values()];
+    await LibraryStore.write(libraryPath, updated);
+    await this.generateMasterPlaylist(updated, libraryPath);
+    await AutoPlaylistService.generate(updated, libraryPath);
+    await SmartPlaylistService.generate(updated, libraryPath);
+
+    console.log(
+      `[OrganizerService] Applied library changes: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.renamed.length} renamed, ${changes.modified.length} modified`,
+    );
+  }
+
+  /**
+   * Removes entries (relative to the Playlists folder, forward slashes) from
+   * every custom playlist, e.g. lines pointing at files that no longer exist.
+   */
+  static async removePlaylistEntries(
+    libraryPath: string,
+    entries: string[],
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    await LibraryStore.withLock(libraryPath, () =>
+      this.rewritePlaylistEntries(
+        libraryPath,
+        new Map(entries.map((entry) => [entry, null])),
+      ),
+    );
+  }
+
+  /**
+   * Replaces playlist entries (relative to the Playlists folder) in every
+   * custom playlist; entries mapped to null are removed. Entries are matched
+   * by the file they resolve to, so playlists in subfolders and absolute
+   * entries match too. Files without a matching entry are left untouched.
+   */
+  private static async rewritePlaylistEntries(
+    libraryPath: string,
+    renames: Map<string, string | null>,
+  ): Promise<void> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const files = await PlaylistIndexService.listCustomPlaylists(playlistDir);
+    for (const file of files) {
+      const playlistPath = path.join(playlistDir, file);
+      // Files in subfolders have their own relative entries
+      const fromRoot = (entry: string) =>
+        path
+          .relative(playlistDir, M3uService.resolveEntry(playlistPath, entry))
+          .split(path.sep)
+          .join("/");
+      const playlist = M3uService.parse(await fs.readFile(playlistPath, "utf-8"));
+      let changed = false;
+      const blocks: M3uBlock[] = [];
+      for (const block of playlist.blocks) {
+        const key = fromRoot(block.entry);
+        if (!renames.has(key)) {
+          blocks.push(block);
+          continue;
+        }
+        changed = true;
+        // A removed entry takes its #EXTINF lines with it
+        const renamed = renames.get(key);
+        if (renamed) {
+          const entry = M3uService.toEntry(playlistPath, path.resolve(playlistDir, renamed));
+          blocks.push({
+            entry,
+            lines: [...block.lines.slice(0, -1), entry],
+          });
+        }
+      }
+
+      if (changed) {
+        await fs.writeFile(
+          playlistPath,
+          M3uService.serialize({ ...playlist, blocks }),
+        );
+      }
+    }
+    PlaylistIndexService.invalidate(libraryPath);
+  }
+
+  /**
+   * Copies or moves the whole library to a destination folder.
+   * Moves are journaled and return an operationId that can be undone.
+   * Copies can be transcoded with an export profile.
+   */
   static async exportLibrary(
     destination: string,
     mode: "copy" | "move",
     preserveStructure: boolean,
     libraryPath: string,
-  ): Promise<{ SuccessCount: number; FailCount: number }> {
-    const dbPath = path.join(libraryPath, FILE_CONSTANTS.LIBRARY_DB_FILE);
+    profile?: ExportProfile,
+  ): Promise<ExportResult> {
+    if (profile && mode !== "copy") {
+      throw new Error(ERROR_MESSAGES.CANNOT_TRANSCODE_MOVE);
+    }
 
-    if (!(await fs.pathExists(dbPath))) {
-      throw new Error("Library database not found");
+    if (mode === "copy") {
+      return this.exportLibraryFiles(
+        destination,
+        mode,
+        preserveStructure,
+        libraryPath,
+        undefined,
+        profile,
+      );
     }
 
-    const inventory: SongMetadata[] = await fs.readJson(dbPath);
+    return JournalService.run(
+      "export-move",
+      libraryPath,
+      `Move library to ${destination}`,
+      async (journal) => ({
+        ...(await this.exportLibraryFiles(
+          destination,
+          mode,
+          preserveStructure,
+          libraryPath,
+          journal,
+        )),
+        operationId: journal.id,
+      }),
+    );
+  }
+
+  private static async exportLibraryFiles(
+    destination: string,
+    mode: "copy" | "move",
+    preserveStructure: boolean,
+    libraryPath: string,
+    journal?: OperationJournal,
+    profile?: ExportProfile,
+  ): Promise<ExportResult> {
+    const inventory = await LibraryStore.read(libraryPath);
+    if (!inventory) {
+      throw new Error("Library database not found");
+    }
 
     let successCount = 0;
     let failCount = 0;
@@ -990,11 +2263,20 @@ export class OrganizerService {
         } else {
           destPath = path.join(destination, path.basename(track.absPath));
         }
+        if (profile) {
+          destPath = TranscodeService.withExtension(destPath, profile);
+        }
 
         await fs.ensureDir(path.dirname(destPath));
 
-        if (mode === "copy") {
+        if (profile) {
+          const transcoded = await TranscodeService.transcode(track.absPath, profile, libraryPath);
+          await fs.copy(transcoded, destPath, { overwrite: false });
+        } else if (mode === "copy") {
           await fs.copy(track.absPath, destPath, { overwrite: false });
+        } else if (journal) {
+          await journal.move(track.absPath, destPath, { overwrite: false });
+          tracksToRemove.add(track.absPath);
         } else {
           await fs.move(track.absPath, destPath, { overwrite: false });
           tracksToRemove.add(track.absPath);
@@ -1007,39 +2289,43 @@ export class OrganizerService {
       }
     }
 
+    // Drop cached conversions of tracks that were moved or deleted since
+    if (profile) {
+      await TranscodeService.prune(libraryPath, inventory.map((song) => song.absPath));
+    }
+
     if (mode === "move" && tracksToRemove.size > 0) {
       const updatedInventory = inventory.filter(
         (song) => !tracksToRemove.has(song.absPath),
       );
 
-      await fs.outputJson(dbPath, updatedInventory, { spaces: 2 });
+      await LibraryStore.write(libraryPath, updatedInventory, journal);
 
-      await this.generateMasterPlaylist(updatedInventory, libraryPath);
-      await this.generateGenrePlaylists(updatedInventory, libraryPath);
+      await this.generateMasterPlaylist(updatedInventory, libraryPath, journal);
+      await AutoPlaylistService.generate(updatedInventory, libraryPath, journal);
+      await SmartPlaylistService.generate(updatedInventory, libraryPath, journal);
 
       const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
       if (await fs.pathExists(playlistDir)) {
-        const files = await fs.readdir(playlistDir);
+        const files = await PlaylistIndexService.listCustomPlaylists(playlistDir);
         for (const file of files) {
-          if (
-            (file.endsWith(FILE_EXTENSIONS.PLAYLIST_PRIMARY) ||
-              file.endsWith(FILE_EXTENSIONS.PLAYLIST_LEGACY)) &&
-            !file.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) &&
-            !file.startsWith(PLAYLIST_CONSTANTS.GENRE_PLAYLIST_PREFIX)
-          ) {
-            const playlistPath = path.join(playlistDir, file);
-            const content = await fs.readFile(playlistPath, "utf-8");
-            const lines = content.split("\n");
-
-            const updatedLines = lines.filter((line) => {
-              if (line.startsWith("#") || line.trim().length === 0) return true;
-              const absPath = path.join(playlistDir, line.trim());
-              return !tracksToRemove.has(absPath);
-            });
-
-            await fs.writeFile(playlistPath, updatedLines.join("\n"));
-          }
+          const playlistPath = path.join(playlistDir, file);
+          const playlist = M3uService.parse(
+            await fs.readFile(playlistPath, "utf-8"),
+          );
+
+          const blocks = playlist.blocks.filter(
+            (block) =>
+              !tracksToRemove.has(M3uService.resolveEntry(playlistPath, block.entry)),
+          );
+
+          await journal?.capture(playlistPath);
+          await fs.writeFile(
+            playlistPath,
+            M3uService.serialize({ ...playlist, blocks }),
+          );
         }
+        PlaylistIndexService.invalidate(libraryPath);
       }
     }
 
@@ -0,0 +1,336 @@
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  FILE_EXTENSIONS,
+  ERROR_MESSAGES,
+  PLAYLIST_FORMAT_CONSTANTS,
+} from "../constants";
+import { M3uService } from "./M3uService";
+import type { M3uTrack } from "./M3uService";
+
+export type PlaylistFormat = (typeof PLAYLIST_FORMAT_CONSTANTS.FORMATS)[number];
+
+/**
+ * One entry of a playlist file as far as the file describes it. Locations
+ * are file paths (decoded from file:// URIs); other URIs are kept as is.
+ */
+export interface PlaylistFileEntry {
+  location?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // Seconds
+}
+
+export interface PlaylistFile {
+  title?: string;
+  entries: PlaylistFileEntry[];
+}
+
+interface JspfTrack {
+  location?: string | string[];
+  title?: string;
+  creator?: string;
+  album?: string;
+  duration?: number;
+}
+
+const EXTENSIONS: Record<PlaylistFormat, string> = {
+  m3u8: FILE_EXTENSIONS.PLAYLIST_PRIMARY,
+  pls: FILE_EXTENSIONS.PLAYLIST_PLS,
+  xspf: FILE_EXTENSIONS.PLAYLIST_XSPF,
+  jspf: FILE_EXTENSIONS.PLAYLIST_JSPF,
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Reads and writes playlists in the formats other players exchange: PLS,
+ * XSPF, JSPF and extended M3U. Only the parts the vault uses are read
+ * (location, title, artist, album and duration of each track).
+ */
+export class PlaylistFormatService {
+  static isFormat(value: unknown): value is PlaylistFormat {
+    return (PLAYLIST_FORMAT_CONSTANTS.FORMATS as readonly unknown[]).includes(value);
+  }
+
+  static getExtension(format: PlaylistFormat): string {
+    return EXTENSIONS[format];
+  }
+
+  /**
+   * Format of a playlist file by its extension (.m3u counts as M3U).
+   */
+  static detectFormat(fileName: string): PlaylistFormat | null {
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === FILE_EXTENSIONS.PLAYLIST_LEGACY) return "m3u8";
+    const format = PLAYLIST_FORMAT_CONSTANTS.FORMATS.find(
+      (candidate) => EXTENSIONS[candidate] === extension,
+    );
+    return format ?? null;
+  }
+
+  static parse(content: string, format: PlaylistFormat): PlaylistFile {
+    switch (format) {
+      case "m3u8":
+        return this.parseM3u(content);
+      case "pls":
+        return this.parsePls(content);
+      case "xspf":
+        return this.parseXspf(content);
+      case "jspf":
+        return this.parseJspf(content);
+    }
+  }
+
+  /**
+   * Playlist file content for the tracks. Paths are written as given
+   * (relative paths stay relative); the tags come from each track's song.
+   */
+  static serialize(
+    format: PlaylistFormat,
+    title: string,
+    tracks: M3uTrack[],
+  ): string {
+    switch (format) {
+      case "m3u8":
+        return M3uService.build(tracks);
+      case "pls":
+        return this.serializePls(tracks);
+      case "xspf":
+        return this.serializeXspf(title, tracks);
+      case "jspf":
+        return this.serializeJspf(title, tracks);
+    }
+  }
+
+  // --- M3U ---
+
+  private static parseM3u(content: string): PlaylistFile {
+    return {
+      entries: M3uService.parse(content).blocks.map((block) => {
+        const info = M3uService.readInfo(block);
+        return {
+          location: block.entry,
+          ...(info && {
+            title: info.title || undefined,
+            artist: info.artist,
+            duration: info.duration,
+          }),
+        };
+      }),
+    };
+  }
+
+  // --- PLS ---
+
+  private static parsePls(content: string): PlaylistFile {
+    // FileN / TitleN / LengthN keys, N starting at 1
+    const fields = new Map<number, Record<string, string>>();
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^\s*(File|Title|Length)(\d+)\s*=(.*)$/i);
+      if (!match) continue;
+      const index = Number(match[2]);
+      if (!fields.has(index)) fields.set(index, {});
+      fields.get(index)![match[1].toLowerCase()] = match[3].trim();
+    }
+    if (fields.size === 0 && !/^\s*\[playlist\]/im.test(content)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FILE("PLS"));
+    }
+
+    const entries = [...fields.entries()]
+      .sort(([a], [b]) => a - b)
+      .filter(([, entry]) => entry.file)
+      .map(([, entry]) => {
+        const seconds = Number.parseFloat(entry.length ?? "");
+        return {
+          location: this.decodeLocation(entry.file, false),
+          ...(entry.title && M3uService.splitDisplay(entry.title)),
+          duration: Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined,
+        };
+      });
+    return { entries };
+  }
+
+  private static serializePls(tracks: M3uTrack[]): string {
+    const lines = ["[playlist]"];
+    tracks.forEach(({ path: location, song }, i) => {
+      lines.push(`File${i + 1}=${location}`);
+      if (song) {
+        lines.push(`Title${i + 1}=${this.describe(song.artist, song.title)}`);
+        lines.push(
+          `Length${i + 1}=${song.duration !== undefined ? Math.round(song.duration) : -1}`,
+        );
+      }
+    });
+    lines.push(`NumberOfEntries=${tracks.length}`, "Version=2", "");
+    return lines.join("\n");
+  }
+
+  // --- XSPF ---
+
+  private static parseXspf(content: string): PlaylistFile {
+    if (!/<playlist\b/i.test(content)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FILE("XSPF"));
+    }
+
+    const readElement = (xml: string, name: string) => {
+      const match = xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, "i"));
+      return match ? this.decodeXml(match[1]).trim() || undefined : undefined;
+    };
+
+    // The playlist title comes before the track list
+    const head = content.split(/<trackList\b/i)[0];
+    const entries = [...content.matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/gi)].map(
+      ([, xml]) => {
+        const location = readElement(xml, "location");
+        const milliseconds = Number.parseFloat(readElement(xml, "duration") ?? "");
+        return {
+          location: location && this.decodeLocation(location, true),
+          title: readElement(xml, "title"),
+          artist: readElement(xml, "creator"),
+          album: readElement(xml, "album"),
+          duration: Number.isFinite(milliseconds) ? milliseconds / 1000 : undefined,
+        };
+      },
+    );
+    return { title: readElement(head, "title"), entries };
+  }
+
+  private static serializeXspf(title: string, tracks: M3uTrack[]): string {
+    const element = (name: string, value: string | number | undefined) =>
+      value === undefined ? [] : [`      <${name}>${this.encodeXml(String(value))}</${name}>`];
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<playlist version="1" xmlns="${PLAYLIST_FORMAT_CONSTANTS.XSPF_NAMESPACE}">`,
+      `  <title>${this.encodeXml(title)}</title>`,
+      "  <trackList>",
+    ];
+    for (const { path: location, song } of tracks) {
+      lines.push(
+        "    <track>",
+        ...element("location", this.encodeLocation(location)),
+        ...element("title", song?.title),
+        ...element("creator", song?.artist),
+        ...element("album", song?.album),
+        ...element(
+          "duration",
+          song?.duration !== undefined ? Math.round(song.duration * 1000) : undefined,
+        ),
+        "    </track>",
+      );
+    }
+    lines.push("  </trackList>", "</playlist>", "");
+    return lines.join("\n");
+  }
+
+  // --- JSPF ---
+
+  private static parseJspf(content: string): PlaylistFile {
+    let playlist: { title?: unknown; track?: unknown } | undefined;
+    try {
+      playlist = JSON.parse(content)?.playlist;
+    } catch {
+      playlist = undefined;
+    }
+    if (!playlist || typeof playlist !== "object") {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_FILE("JSPF"));
+    }
+
+    const text = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value.trim() : undefined;
+    const tracks: JspfTrack[] = Array.isArray(playlist.track) ? playlist.track : [];
+    const entries = tracks.map((track) => {
+      const location = text(
+        Array.isArray(track.location) ? track.location[0] : track.location,
+      );
+      return {
+        location: location && this.decodeLocation(location, true),
+        title: text(track.title),
+        artist: text(track.creator),
+        album: text(track.album),
+        duration:
+          typeof track.duration === "number" ? track.duration / 1000 : undefined,
+      };
+    });
+    return { title: text(playlist.title), entries };
+  }
+
+  private static serializeJspf(title: string, tracks: M3uTrack[]): string {
+    const playlist = {
+      title,
+      track: tracks.map(({ path: location, song }) => ({
+        location: [this.encodeLocation(location)],
+        ...(song && {
+          title: song.title,
+          creator: song.artist,
+          album: song.album,
+          ...(song.duration !== undefined && {
+            duration: Math.round(song.duration * 1000),
+          }),
+        }),
+      })),
+    };
+    return JSON.stringify({ playlist }, null, 2);
+  }
+
+  // --- Helpers ---
+
+  private static describe(artist: string, title: string): string {
+    return `${artist} - ${title}`.replace(/[\r\n]+/g, " ");
+  }
+
+  /**
+   * XSPF and JSPF locations are URIs: absolute paths become file:// URIs,
+   * relative paths are percent-encoded segment by segment.
+   */
+  private static encodeLocation(location: string): string {
+    if (path.isAbsolute(location)) return pathToFileURL(location).href;
+    return location.split("/").map(encodeURIComponent).join("/");
+  }
+
+  /**
+   * File path of a location. URIs (XSPF, JSPF) are percent-decoded; PLS
+   * files may hold either a plain path or a file:// URI.
+   */
+  private static decodeLocation(location: string, isUri: boolean): string {
+    try {
+      if (/^file:/i.test(location)) return fileURLToPath(location);
+      // http://, smb://... cannot be resolved, but are reported as written
+      if (/^[a-z][a-z0-9+.-]+:\/\//i.test(location)) return location;
+      return isUri ? decodeURIComponent(location) : location;
+    } catch {
+      return location;
+    }
+  }
+
+  private static decodeXml(value: string): string {
+    return value
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+      .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === "#") {
+          const point =
+            code[1].toLowerCase() === "x"
+              ? Number.parseInt(code.slice(2), 16)
+              : Number.parseInt(code.slice(1), 10);
+          return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return XML_ENTITIES[code.toLowerCase()] ?? entity;
+      });
+  }
+
+  private static encodeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,179 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  ERROR_MESSAGES,
+  PLAYLIST_CONSTANTS,
+  PLAYLIST_FORMAT_CONSTANTS,
+  DUPLICATE_CONSTANTS,
+} from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type { SongMetadata } from "./OrganizerService";
+import { LibraryStore } from "./LibraryStore";
+import { DuplicateDetectionService } from "./DuplicateDetectionService";
+import { PlaylistFormatService } from "./PlaylistFormatService";
+import { AutoPlaylistService } from "./AutoPlaylistService";
+import type { PlaylistFileEntry } from "./PlaylistFormatService";
+
+export interface PlaylistImportRequest {
+  fileName: string; // Gives the format, and the name when the file has no title
+  content: string;
+  name?: string;
+}
+
+export interface PlaylistImportResult {
+  name: string;
+  matched: number;
+  unmatched: PlaylistFileEntry[];
+}
+
+/**
+ * Creates a custom playlist from a PLS, XSPF, JSPF or M3U file written by
+ * another player. Entries are matched to library tracks by path (as
+ * written, relative to the library or the Playlists folder, or by their
+ * trailing folders when the file comes from another machine), then by
+ * title, artist and duration. Entries without a match are reported.
+ */
+export class PlaylistImportService {
+  static async importPlaylist(
+    libraryPath: string,
+    request: PlaylistImportRequest,
+  ): Promise<PlaylistImportResult> {
+    const format = PlaylistFormatService.detectFormat(request.fileName);
+    if (!format) {
+      throw new Error(
+        ERROR_MESSAGES.UNSUPPORTED_PLAYLIST_FORMAT(
+          path.extname(request.fileName) || request.fileName,
+        ),
+      );
+    }
+
+    const file = PlaylistFormatService.parse(request.content, format);
+    const name = (
+      request.name?.trim() ||
+      file.title ||
+      path.parse(request.fileName).name
+    ).trim();
+    if (
+      !OrganizerService.isValidPlaylistName(name) ||
+      name.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) ||
+      AutoPlaylistService.isAutoPlaylist(name) ||
+      name.startsWith(PLAYLIST_CONSTANTS.SMART_PLAYLIST_PREFIX)
+    ) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_NAME(name));
+    }
+
+    return LibraryStore.withLock(libraryPath, async () => {
+      const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+      for (const extension of [
+        FILE_EXTENSIONS.PLAYLIST_PRIMARY,
+        FILE_EXTENSIONS.PLAYLIST_LEGACY,
+      ]) {
+        if (await fs.pathExists(path.join(playlistDir, `${name}${extension}`))) {
+          throw new Error(ERROR_MESSAGES.PLAYLIST_ALREADY_EXISTS(name));
+        }
+      }
+
+      const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+      const matched: string[] = [];
+      const unmatched: PlaylistFileEntry[] = [];
+      for (const entry of file.entries) {
+        const song =
+          this.matchByPath(libraryPath, inventory, entry.location) ??
+          this.matchByTags(inventory, entry);
+        if (song) {
+          matched.push(song.absPath);
+        } else {
+          unmatched.push(entry);
+        }
+      }
+
+      if (matched.length > 0) {
+        await OrganizerService.addToPlaylist(name, matched, libraryPath);
+      }
+      console.log(
+        `[PlaylistImportService] Imported ${matched.length}/${file.entries.length} entries into ${name}`,
+      );
+      return { name, matched: matched.length, unmatched };
+    });
+  }
+
+  // --- Helpers ---
+
+  private static matchByPath(
+    libraryPath: string,
+    inventory: SongMetadata[],
+    location: string | undefined,
+  ): SongMetadata | undefined {
+    if (!location) return undefined;
+    const normalized = location.trim().replace(/\\/g, "/");
+
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const candidates = path.isAbsolute(normalized)
+      ? [path.resolve(normalized)]
+      : [path.resolve(playlistDir, normalized), path.resolve(libraryPath, normalized)];
+    for (const candidate of candidates) {
+      const song = inventory.find((s) => path.resolve(s.absPath) === candidate);
+      if (song) return song;
+    }
+
+    // Another machine: compare the trailing folders, longest first, and
+    // stop as soon as they are ambiguous
+    const segments = normalized
+      .split("/")
+      .filter((segment) => segment && segment !== "." && segment !== "..");
+    const comparable = inventory.map((song) => ({
+      song,
+      relPath: path
+        .relative(libraryPath, song.absPath)
+        .split(path.sep)
+        .join("/")
+        .toLowerCase(),
+    }));
+    for (
+      let count = segments.length;
+      count >= PLAYLIST_FORMAT_CONSTANTS.MIN_PATH_SUFFIX_SEGMENTS;
+      count--
+    ) {
+      const suffix = segments.slice(-count).join("/").toLowerCase();
+      const matches = comparable.filter(
+        ({ relPath }) => relPath === suffix || relPath.endsWith(`/${suffix}`),
+      );
+      if (matches.length === 1) return matches[0].song;
+      if (matches.length > 1) return undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Same title and artist (or album artist); the closest duration wins
+   * when the entry has one.
+   */
+  private static matchByTags(
+    inventory: SongMetadata[],
+    entry: PlaylistFileEntry,
+  ): SongMetadata | undefined {
+    if (!entry.title || !entry.artist) return undefined;
+    const normalize = DuplicateDetectionService.normalize;
+    const title = normalize(entry.title);
+    const artist = normalize(entry.artist);
+
+    const distance = (song: SongMetadata) =>
+      entry.duration === undefined || song.duration === undefined
+        ? 0
+        : Math.abs(entry.duration - song.duration);
+    return inventory
+      .filter(
+        (song) =>
+          normalize(song.title) === title &&
+          [song.artist, song.albumArtist].some(
+            (name) => !!name && normalize(name) === artist,
+          ),
+      )
+      .filter(
+        (song) => distance(song) <= DUPLICATE_CONSTANTS.DURATION_TOLERANCE_SECONDS,
+      )
+      .sort((a, b) => distance(a) - distance(b))[0];
+  }
+}
@@ -0,0 +1,201 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  PLAYLIST_CONSTANTS,
+  CONCURRENCY_CONSTANTS,
+} from "../constants";
+import { WorkerPool } from "./WorkerPool";
+import { AutoPlaylistService } from "./AutoPlaylistService";
+import { M3uService } from "./M3uService";
+
+/**
+ * Custom playlist membership for every track of a library, built from a
+ * single read of the Playlists folder and its subfolders. Master, automatic
+ * and smart playlists are generated from the database and are not indexed.
+ */
+export class PlaylistIndex {
+  private playlistDir: string;
+  // Playlist entry (relative to Playlists, forward slashes) -> playlist names
+  private byEntry: Map<string, string[]>;
+
+  constructor(playlistDir: string, byEntry: Map<string, string[]>) {
+    this.playlistDir = playlistDir;
+    this.byEntry = byEntry;
+  }
+
+  /**
+   * Names of the playlists containing the track, in playlist folder order.
+   */
+  playlistsFor(trackPath: string): string[] {
+    const entry = path
+      .relative(this.playlistDir, trackPath)
+      .split(path.sep)
+      .join("/");
+    return [...(this.byEntry.get(entry) || [])];
+  }
+}
+
+/**
+ * Builds playlist indexes and caches one per library. A cached index is
+ * reused while no playlist file changed (same names, sizes and mtimes);
+ * playlist writes also drop it explicitly through invalidate.
+ */
+export class PlaylistIndexService {
+  private static cache = new Map<
+    string,
+    { signature: string; index: PlaylistIndex }
+  >();
+
+  static async get(libraryPath: string): Promise<PlaylistIndex> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const files = await this.listCustomPlaylists(playlistDir);
+    const signature = await this.getSignature(playlistDir, files);
+
+    const cached = this.cache.get(libraryPath);
+    if (signature !== null && cached?.signature === signature) {
+      return cached.index;
+    }
+
+    const index = await this.build(playlistDir, files);
+    if (signature !== null) {
+      this.cache.set(libraryPath, { signature, index });
+    } else {
+      this.cache.delete(libraryPath);
+    }
+    return index;
+  }
+
+  /**
+   * Drops the cached index of a library (or of every library).
+   */
+  static invalidate(libraryPath?: string): void {
+    if (libraryPath) {
+      this.cache.delete(libraryPath);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Playlist files (paths relative to the Playlists folder, forward
+   * slashes) and the folders below it, walking every subfolder. Hidden
+   * entries are skipped.
+   */
+  static async listPlaylistFiles(
+    playlistDir: string,
+  ): Promise<{ files: string[]; folders: string[] }> {
+    const files: string[] = [];
+    const folders: string[] = [];
+    if (!(await fs.pathExists(playlistDir))) return { files, folders };
+
+    const walk = async (relDir: string) => {
+      const entries = await fs.readdir(path.join(playlistDir, relDir), {
+        withFileTypes: true,
+      });
+      for (const entry of entries) {
+        if (entry.name.startsWith(".")) continue;
+        const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          folders.push(relPath);
+          await walk(relPath);
+        } else if (
+          entry.name.endsWith(FILE_EXTENSIONS.PLAYLIST_PRIMARY) ||
+          entry.name.endsWith(FILE_EXTENSIONS.PLAYLIST_LEGACY)
+        ) {
+          files.push(relPath);
+        }
+      }
+    };
+    await walk("");
+    return { files, folders };
+  }
+
+  /**
+   * Relative paths of the custom playlist files. Generated playlists only
+   * live at the top of the Playlists folder; everything in a subfolder is
+   * custom.
+   */
+  static async listCustomPlaylists(
+    playlistDir: string,
+  ): Promise<string[]> {
+    const { files } = await this.listPlaylistFiles(playlistDir);
+    return files.filter((file) => {
+      if (file.includes("/")) return true;
+      const name = this.getPlaylistName(file);
+      return (
+        !name.startsWith(PLAYLIST_CONSTANTS.MASTER_PLAYLIST_PREFIX) &&
+        !AutoPlaylistService.isAutoPlaylist(name) &&
+        !name.startsWith(PLAYLIST_CONSTANTS.SMART_PLAYLIST_PREFIX)
+      );
+    });
+  }
+
+  /**
+   * Playlist name of a file listed by listPlaylistFiles: its path without
+   * the extension, so playlists in folders are named "Folder/Playlist".
+   */
+  static getPlaylistName(file: string): string {
+    return file.slice(0, -path.extname(file).length);
+  }
+
+  // --- Helpers ---
+
+  private static async build(
+    playlistDir: string,
+    files: string[],
+  ): Promise<PlaylistIndex> {
+    const contents = await WorkerPool.map(
+      files,
+      CONCURRENCY_CONSTANTS.DEFAULT,
+      (file) => fs.readFile(path.join(playlistDir, file), "utf-8"),
+    );
+
+    const byEntry = new Map<string, string[]>();
+    files.forEach((file, i) => {
+      const playlistName = this.getPlaylistName(file);
+      const playlistPath = path.join(playlistDir, file);
+      const lines = contents[i]
+        .split("\n")
+        .filter((l) => l.trim().length > 0 && !l.startsWith("#"));
+
+      for (const line of lines) {
+        // Keyed from the Playlists folder, whatever folder the file is in
+        const entry = path
+          .relative(
+            playlistDir,
+            M3uService.resolveEntry(playlistPath, M3uService.normalizeEntry(line)),
+          )
+          .split(path.sep)
+          .join("/");
+        const names = byEntry.get(entry) || [];
+        if (!names.includes(playlistName)) names.push(playlistName);
+        byEntry.set(entry, names);
+      }
+    });
+
+    return new PlaylistIndex(playlistDir, byEntry);
+  }
+
+  /**
+   * Fingerprint of the playlist files, or null if it cannot be computed
+   * (in which case the index is not cached).
+   */
+  private static async getSignature(
+    playlistDir: string,
+    files: string[],
+  ): Promise<string | null> {
+    const parts: string[] = [];
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(path.join(playlistDir, file));
+        if (!stats || typeof stats.mtimeMs !== "number") return null;
+        parts.push(`${file}:${stats.size}:${stats.mtimeMs}`);
+      } catch {
+        return null;
+      }
+    }
+    return parts.join("|");
+  }
+}
@@ -0,0 +1,393 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  ERROR_MESSAGES,
+  PLAYLIST_METADATA_CONSTANTS,
+} from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type { OperationJournal } from "./JournalService";
+import { LibraryStore } from "./LibraryStore";
+import { M3uService } from "./M3uService";
+
+export interface PlaylistMetadata {
+  description?: string;
+  createdAt: number; // ms
+  updatedAt: number; // ms, last change of the entries or of the details
+  customCover: boolean; // Otherwise the cover is a collage of the tracks' art
+}
+
+export interface PlaylistCover {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Stored in <name>.meta.json; the dates of the file fill what is missing
+interface PlaylistSidecar {
+  description?: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+type CoverMimeType = keyof typeof PLAYLIST_METADATA_CONSTANTS.COVER_MIME_TYPES;
+
+/**
+ * Description, dates and cover of a playlist, kept in files next to its
+ * .m3u8 so they move with it. Without a cover of its own a playlist shows a
+ * 2×2 collage of the album art of its first tracks, cached in a hidden
+ * folder of Playlists until the playlist changes.
+ */
+export class PlaylistMetadataService {
+  static async get(libraryPath: string, name: string): Promise<PlaylistMetadata> {
+    const filePath = await this.findPlaylistFile(libraryPath, name);
+    const sidecar = await this.readSidecar(libraryPath, name);
+    const stat = await fs.stat(filePath);
+
+    return {
+      description: sidecar.description,
+      createdAt: sidecar.createdAt ?? (stat.birthtimeMs || stat.mtimeMs),
+      updatedAt: Math.max(sidecar.updatedAt ?? 0, stat.mtimeMs),
+      customCover: (await this.findCustomCover(libraryPath, name)) !== null,
+    };
+  }
+
+  /**
+   * Saves the description of a custom playlist. An empty description
+   * removes it.
+   */
+  static async update(
+    libraryPath: string,
+    name: string,
+    changes: { description?: string },
+  ): Promise<PlaylistMetadata> {
+    this.assertEditable(name);
+    const description = changes.description?.trim();
+    if (
+      description &&
+      description.length > PLAYLIST_METADATA_CONSTANTS.MAX_DESCRIPTION_LENGTH
+    ) {
+      throw new Error(
+        ERROR_MESSAGES.INVALID_PLAYLIST_DESCRIPTION(
+          PLAYLIST_METADATA_CONSTANTS.MAX_DESCRIPTION_LENGTH,
+        ),
+      );
+    }
+
+    await LibraryStore.withLock(libraryPath, async () => {
+      await this.findPlaylistFile(libraryPath, name);
+      await this.writeSidecar(libraryPath, name, { description: description || undefined });
+    });
+    return this.get(libraryPath, name);
+  }
+
+  /**
+   * Replaces the cover of a custom playlist with an image sent as a data
+   * URL (JPEG, PNG or WebP).
+   */
+  static async setCover(libraryPath: string, name: string, dataUrl: string): Promise<void> {
+    this.assertEditable(name);
+    const match = /^data:([\w/+.-]+);base64,(.*)$/s.exec(dataUrl);
+    if (!match || !(match[1] in PLAYLIST_METADATA_CONSTANTS.COVER_MIME_TYPES)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_COVER("expected a JPEG, PNG or WebP image"));
+    }
+    const data = Buffer.from(match[2], "base64");
+    if (data.length === 0 || data.length > PLAYLIST_METADATA_CONSTANTS.MAX_COVER_BYTES) {
+      throw new Error(
+        ERROR_MESSAGES.INVALID_PLAYLIST_COVER(
+          `the image must be at most ${PLAYLIST_METADATA_CONSTANTS.MAX_COVER_BYTES / 1024 / 1024} MB`,
+        ),
+      );
+    }
+
+    await LibraryStore.withLock(libraryPath, async () => {
+      await this.findPlaylistFile(libraryPath, name);
+      await this.removeCustomCover(libraryPath, name);
+      const extension = PLAYLIST_METADATA_CONSTANTS.COVER_MIME_TYPES[match[1] as CoverMimeType];
+      await fs.outputFile(this.getCoverPath(libraryPath, name, extension), data);
+      await this.writeSidecar(libraryPath, name, {});
+    });
+  }
+
+  /**
+   * Drops the cover of a custom playlist; the collage is shown again.
+   */
+  static async removeCover(libraryPath: string, name: string): Promise<void> {
+    this.assertEditable(name);
+    await LibraryStore.withLock(libraryPath, async () => {
+      await this.findPlaylistFile(libraryPath, name);
+      await this.removeCustomCover(libraryPath, name);
+      await this.writeSidecar(libraryPath, name, {});
+    });
+  }
+
+  /**
+   * The cover of the playlist, or the collage of its tracks' art. Null when
+   * none of the tracks has embedded art.
+   */
+  static async getCover(libraryPath: string, name: string): Promise<PlaylistCover | null> {
+    const filePath = await this.findPlaylistFile(libraryPath, name);
+
+    const custom = await this.findCustomCover(libraryPath, name);
+    if (custom) return { data: await fs.readFile(custom.path), mimeType: custom.mimeType };
+
+    const collagePath = this.getCollagePath(libraryPath, name);
+    if (await fs.pathExists(collagePath)) {
+      const [collage, playlist] = await Promise.all([fs.stat(collagePath), fs.stat(filePath)]);
+      if (collage.mtimeMs >= playlist.mtimeMs) {
+        return { data: await fs.readFile(collagePath), mimeType: "image/jpeg" };
+      }
+    }
+
+    const covers = await this.collectCovers(libraryPath, filePath);
+    if (covers.length === 0) return null;
+    try {
+      await this.buildCollage(covers, collagePath);
+      return { data: await fs.readFile(collagePath), mimeType: "image/jpeg" };
+    } catch (err) {
+      console.error(`[PlaylistMetadataService] Failed to build the collage of ${name}`, err);
+      return covers[0];
+    }
+  }
+
+  /**
+   * Moves the files that belong to a playlist along with a rename.
+   */
+  static async move(
+    libraryPath: string,
+    name: string,
+    newName: string,
+    journal: OperationJournal,
+  ): Promise<void> {
+    const sidecarPath = this.getSidecarPath(libraryPath, name);
+    if (await fs.pathExists(sidecarPath)) {
+      await journal.move(sidecarPath, this.getSidecarPath(libraryPath, newName));
+    }
+    const custom = await this.findCustomCover(libraryPath, name);
+    if (custom) {
+      await journal.move(
+        custom.path,
+        this.getCoverPath(libraryPath, newName, path.extname(custom.path)),
+      );
+    }
+    await fs.remove(this.getCollagePath(libraryPath, name));
+  }
+
+  /**
+   * Removes the files that belong to a deleted playlist; undo brings them
+   * back with it.
+   */
+  static async remove(
+    libraryPath: string,
+    name: string,
+    journal: OperationJournal,
+  ): Promise<void> {
+    const sidecarPath = this.getSidecarPath(libraryPath, name);
+    if (await fs.pathExists(sidecarPath)) {
+      await journal.capture(sidecarPath);
+      await fs.remove(sidecarPath);
+    }
+    const custom = await this.findCustomCover(libraryPath, name);
+    if (custom) {
+      await journal.capture(custom.path);
+      await fs.remove(custom.path);
+    }
+    await fs.remove(this.getCollagePath(libraryPath, name));
+  }
+
+  // --- Helpers ---
+
+  private static assertEditable(name: string): void {
+    if (OrganizerService.isSystemPlaylistName(name)) {
+      throw new Error(ERROR_MESSAGES.CANNOT_EDIT_SYSTEM_PLAYLIST(name));
+    }
+  }
+
+  private static getPlaylistDir(libraryPath: string): string {
+    return path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+  }
+
+  private static getSidecarPath(libraryPath: string, name: string): string {
+    return path.join(
+      this.getPlaylistDir(libraryPath),
+      `${name}${PLAYLIST_METADATA_CONSTANTS.SIDECAR_SUFFIX}`,
+    );
+  }
+
+  private static getCoverPath(libraryPath: string, name: string, extension: string): string {
+    return path.join(
+      this.getPlaylistDir(libraryPath),
+      `${name}${PLAYLIST_METADATA_CONSTANTS.COVER_SUFFIX}${extension}`,
+    );
+  }
+
+  private static getCollagePath(libraryPath: string, name: string): string {
+    return path.join(
+      this.getPlaylistDir(libraryPath),
+      PLAYLIST_METADATA_CONSTANTS.COLLAGE_DIR,
+      `${name}.jpg`,
+    );
+  }
+
+  private static async findPlaylistFile(libraryPath: string, name: string): Promise<string> {
+    for (const extension of [
+      FILE_EXTENSIONS.PLAYLIST_PRIMARY,
+      FILE_EXTENSIONS.PLAYLIST_LEGACY,
+    ]) {
+      const filePath = path.join(this.getPlaylistDir(libraryPath), `${name}${extension}`);
+      if (await fs.pathExists(filePath)) return filePath;
+    }
+    throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(name));
+  }
+
+  private static async findCustomCover(
+    libraryPath: string,
+    name: string,
+  ): Promise<{ path: string; mimeType: string } | null> {
+    for (const [mimeType, extension] of Object.entries(
+      PLAYLIST_METADATA_CONSTANTS.COVER_MIME_TYPES,
+    )) {
+      const coverPath = this.getCoverPath(libraryPath, name, extension);
+      if (await fs.pathExists(coverPath)) return { path: coverPath, mimeType };
+    }
+    return null;
+  }
+
+  private static async removeCustomCover(libraryPath: string, name: string): Promise<void> {
+    const custom = await this.findCustomCover(libraryPath, name);
+    if (custom) await fs.remove(custom.path);
+  }
+
+  /**
+   * Sidecar contents; a missing or unreadable file is an empty one.
+   */
+  private static async readSidecar(libraryPath: string, name: string): Promise<PlaylistSidecar> {
+    const sidecarPath = this.getSidecarPath(libraryPath, name);
+    if (!(await fs.pathExists(sidecarPath))) return {};
+    try {
+      const stored: unknown = await fs.readJson(sidecarPath);
+      if (typeof stored !== "object" || stored === null) return {};
+      const { description, createdAt, updatedAt } = stored as Record<string, unknown>;
+      return {
+        description: typeof description === "string" ? description : undefined,
+        createdAt: typeof createdAt === "number" ? createdAt : undefined,
+        updatedAt: typeof updatedAt === "number" ? updatedAt : undefined,
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Writes the sidecar with the given changes and a new update date. The
+   * creation date is fixed the first time, from the playlist file.
+   */
+  private static async writeSidecar(
+    libraryPath: string,
+    name: string,
+    changes: Pick<PlaylistSidecar, "description">,
+  ): Promise<void> {
+    const current = await this.readSidecar(libraryPath, name);
+    let { createdAt } = current;
+    if (createdAt === undefined) {
+      const stat = await fs.stat(await this.findPlaylistFile(libraryPath, name));
+      createdAt = stat.birthtimeMs || stat.mtimeMs;
+    }
+
+    const sidecar: PlaylistSidecar = {
+      description: "description" in changes ? changes.description : current.description,
+      createdAt,
+      updatedAt: Date.now(),
+    };
+    await fs.outputJson(this.getSidecarPath(libraryPath, name), sidecar, { spaces: 2 });
+  }
+
+  /**
+   * Embedded art of the first tracks, one per album, up to the collage size.
+   */
+  private static async collectCovers(
+    libraryPath: string,
+    filePath: string,
+  ): Promise<PlaylistCover[]> {
+    const playlist = M3uService.parse(await fs.readFile(filePath, "utf-8"));
+    const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+    const songsByPath = new Map(
+      inventory.map((song) => [path.resolve(song.absPath), song]),
+    );
+
+    const covers: PlaylistCover[] = [];
+    const albums = new Set<string>();
+    const candidates = playlist.blocks.slice(0, PLAYLIST_METADATA_CONSTANTS.MAX_COLLAGE_CANDIDATES);
+    for (const block of candidates) {
+      if (covers.length >= PLAYLIST_METADATA_CONSTANTS.COLLAGE_TILES) break;
+
+      const trackPath = M3uService.resolveEntry(filePath, block.entry);
+      const song = songsByPath.get(trackPath);
+      // Tracks outside the database are grouped by their folder
+      const album = song
+        ? `${(song.albumArtist || song.artist).toLowerCase()}\u0000${song.album.toLowerCase()}`
+        : path.dirname(trackPath);
+      if (albums.has(album)) continue;
+
+      const cover = await OrganizerService.getAlbumCover(trackPath);
+      if (cover) {
+        albums.add(album);
+        covers.push(cover);
+      }
+    }
+    return covers;
+  }
+
+  /**
+   * Writes a square JPEG: the only cover, or four tiles (two or three
+   * covers are repeated diagonally to fill them).
+   */
+  private static async buildCollage(covers: PlaylistCover[], outputPath: string): Promise<void> {
+    const ffmpegPath = ffmpegStatic;
+    if (!ffmpegPath) throw new Error(ERROR_MESSAGES.FFMPEG_NOT_AVAILABLE);
+
+    const size = PLAYLIST_METADATA_CONSTANTS.COLLAGE_SIZE;
+    const tiles =
+      covers.length === 1
+        ? covers
+        : covers.length === 2
+          ? [covers[0], covers[1], covers[1], covers[0]]
+          : covers.length === 3
+            ? [...covers, covers[0]]
+            : covers;
+    const tileSize = tiles.length === 1 ? size : size / 2;
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "playlist-cover-"));
+    try {
+      const inputs: string[] = [];
+      for (const [i, tile] of tiles.entries()) {
+        const inputPath = path.join(tempDir, `${i}`);
+        await fs.writeFile(inputPath, tile.data);
+        inputs.push("-i", inputPath);
+      }
+
+      const scaled = tiles.map(
+        (_, i) =>
+          `[${i}:v]scale=${tileSize}:${tileSize}:force_original_aspect_ratio=increase,crop=${tileSize}:${tileSize},setsar=1[t${i}]`,
+      );
+      const filter =
+        tiles.length === 1
+          ? `${scaled[0]};[t0]null[out]`
+          : `${scaled.join(";")};[t0][t1][t2][t3]xstack=inputs=4:layout=0_0|w0_0|0_h0|w0_h0[out]`;
+
+      await fs.ensureDir(path.dirname(outputPath));
+      await new Promise<void>((resolve, reject) => {
+        execFile(
+          ffmpegPath,
+          ["-y", ...inputs, "-filter_complex", filter, "-map", "[out]", "-frames:v", "1", outputPath],
+          (error) => (error ? reject(error) : resolve()),
+        );
+      });
+    } finally {
+      await fs.remove(tempDir);
+    }
+  }
+}
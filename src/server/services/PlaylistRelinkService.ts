@@ -0,0 +1,223 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  ERROR_MESSAGES,
+  RELINK_CONSTANTS,
+  DUPLICATE_CONSTANTS,
+} from "../constants";
+import type { SongMetadata } from "./OrganizerService";
+import { LibraryStore } from "./LibraryStore";
+import { PlaylistIndexService } from "./PlaylistIndexService";
+import { M3uService } from "./M3uService";
+import { DuplicateDetectionService } from "./DuplicateDetectionService";
+
+export type RelinkReason = "mbid" | "tags" | "path";
+
+export interface RelinkCandidate {
+  trackId?: string;
+  path: string;
+  title: string;
+  artist: string;
+  album: string;
+  duration?: number;
+  score: number; // 0-1, best candidates first
+  reasons: RelinkReason[];
+}
+
+export interface RelinkProposal {
+  playlist: string;
+  entry: string; // Broken line as written in the playlist, forward slashes
+  resolvedPath: string;
+  candidates: RelinkCandidate[];
+}
+
+/**
+ * Finds replacements in library_db.json for custom playlist entries whose
+ * file no longer exists. Candidates are only proposed; the playlist is
+ * rewritten by OrganizerService.relinkPlaylistEntries once the user picks one.
+ *
+ * A track matches by MusicBrainz recording id or by artist/title/duration
+ * when the database still has the entry of the old path, by title and
+ * artist read from the old path otherwise, and by relative path similarity.
+ */
+export class PlaylistRelinkService {
+  static async findCandidates(
+    libraryPath: string,
+    playlistName: string,
+  ): Promise<RelinkProposal[]> {
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    const file = (await PlaylistIndexService.listCustomPlaylists(playlistDir)).find(
+      (name) => PlaylistIndexService.getPlaylistName(name) === playlistName,
+    );
+    if (!file) {
+      throw new Error(ERROR_MESSAGES.PLAYLIST_NOT_FOUND(playlistName));
+    }
+
+    const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+    const byPath = new Map(
+      inventory.map((song) => [path.resolve(song.absPath), song]),
+    );
+
+    const playlistPath = path.join(playlistDir, file);
+    const content = await fs.readFile(playlistPath, "utf-8");
+    const entries = new Set(
+      content
+        .split("\n")
+        .filter((line) => line.trim().length > 0 && !line.startsWith("#"))
+        .map((line) => line.trim().replace(/\\/g, "/")),
+    );
+
+    const proposals: RelinkProposal[] = [];
+    for (const entry of entries) {
+      const resolvedPath = M3uService.resolveEntry(playlistPath, entry);
+      if (await fs.pathExists(resolvedPath)) continue;
+
+      // The database may still list the old path (not regenerated since)
+      const previous = byPath.get(resolvedPath);
+      const ranked = inventory
+        .filter((song) => path.resolve(song.absPath) !== resolvedPath)
+        .map((song) => this.scoreCandidate(libraryPath, resolvedPath, previous, song))
+        .filter((candidate) => candidate.score > 0)
+        .sort((a, b) => b.score - a.score);
+
+      const candidates: RelinkCandidate[] = [];
+      for (const candidate of ranked) {
+        if (candidates.length >= RELINK_CONSTANTS.MAX_CANDIDATES) break;
+        if (await fs.pathExists(candidate.path)) candidates.push(candidate);
+      }
+
+      proposals.push({
+        playlist: playlistName,
+        entry,
+        resolvedPath,
+        candidates,
+      });
+    }
+
+    return proposals;
+  }
+
+  // --- Helpers ---
+
+  private static scoreCandidate(
+    libraryPath: string,
+    resolvedPath: string,
+    previous: SongMetadata | undefined,
+    song: SongMetadata,
+  ): RelinkCandidate {
+    const reasons: RelinkReason[] = [];
+    let score = 0;
+
+    if (previous?.mbid && previous.mbid === song.mbid) {
+      reasons.push("mbid");
+      score = 1;
+    }
+
+    if (
+      previous
+        ? this.isSameTrack(previous, song)
+        : this.matchesPathTags(libraryPath, resolvedPath, song)
+    ) {
+      reasons.push("tags");
+      score = Math.max(score, previous ? 0.95 : 0.85);
+    }
+
+    const similarity = this.getSimilarity(
+      this.getComparablePath(libraryPath, resolvedPath),
+      this.getComparablePath(libraryPath, song.absPath),
+    );
+    if (similarity >= RELINK_CONSTANTS.MIN_PATH_SIMILARITY) {
+      reasons.push("path");
+      score = Math.max(score, 0.8 * similarity);
+    }
+
+    return {
+      trackId: song.id,
+      path: song.absPath,
+      title: song.title,
+      artist: song.artist,
+      album: song.album,
+      duration: song.duration,
+      score: Math.round(score * 100) / 100,
+      reasons,
+    };
+  }
+
+  /**
+   * Same artist and title, and the same duration when both are known.
+   */
+  private static isSameTrack(a: SongMetadata, b: SongMetadata): boolean {
+    const normalize = DuplicateDetectionService.normalize;
+    if (
+      normalize(a.artist) !== normalize(b.artist) ||
+      normalize(a.title) !== normalize(b.title)
+    ) {
+      return false;
+    }
+    if (a.duration === undefined || b.duration === undefined) return true;
+    return (
+      Math.abs(a.duration - b.duration) <=
+      DUPLICATE_CONSTANTS.DURATION_TOLERANCE_SECONDS
+    );
+  }
+
+  /**
+   * The old file name (without its track number) is the track title and
+   * one of its folders is the artist, as the naming templates write them.
+   */
+  private static matchesPathTags(
+    libraryPath: string,
+    resolvedPath: string,
+    song: SongMetadata,
+  ): boolean {
+    const normalize = DuplicateDetectionService.normalize;
+    const title = path.parse(resolvedPath).name.replace(/^\d+\s*[-.]?\s*/, "");
+    if (!title || normalize(title) !== normalize(song.title)) return false;
+
+    const folders = path
+      .relative(libraryPath, path.dirname(resolvedPath))
+      .split(path.sep)
+      .map(normalize);
+    return [song.artist, song.albumArtist]
+      .filter((artist): artist is string => !!artist)
+      .some((artist) => folders.includes(normalize(artist)));
+  }
+
+  /**
+   * Path relative to the library without extension, each folder normalized,
+   * so a re-encoded file or a renamed album folder still looks alike.
+   */
+  private static getComparablePath(libraryPath: string, filePath: string): string {
+    const { dir, name } = path.parse(path.relative(libraryPath, filePath));
+    return [...dir.split(path.sep), name]
+      .map(DuplicateDetectionService.normalize)
+      .filter(Boolean)
+      .join("/");
+  }
+
+  /**
+   * Dice coefficient of the character bigrams of both strings.
+   */
+  private static getSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = bigrams.get(bigram) ?? 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+}
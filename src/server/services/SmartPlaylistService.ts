@@ -0,0 +1,304 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  ERROR_MESSAGES,
+  PLAYLIST_CONSTANTS,
+  SMART_PLAYLIST_CONSTANTS,
+  CONFLICT_CONSTANTS,
+} from "../constants";
+import { OrganizerService } from "./OrganizerService";
+import type { SongMetadata } from "./OrganizerService";
+import type { OperationJournal } from "./JournalService";
+import { LibraryStore } from "./LibraryStore";
+import { M3uService } from "./M3uService";
+
+export type SmartMatchMode = (typeof SMART_PLAYLIST_CONSTANTS.MATCH_MODES)[number];
+
+export type SmartRule =
+  | { field: "genre"; values: string[] } // Any of the genres, case-insensitive
+  | { field: "year"; min?: number; max?: number } // Inclusive, one bound may be left open
+  | { field: "lossless"; value: boolean }
+  | { field: "bitrate"; min: number } // kbps
+  | { field: "artist"; contains: string }; // Artist or album artist, case-insensitive
+
+export interface SmartPlaylist {
+  name: string; // Without the Smart_ prefix of its playlist file
+  match: SmartMatchMode;
+  rules: SmartRule[];
+}
+
+/**
+ * User-defined playlists generated from rules. The rule sets are stored in
+ * smart_playlists.json at the library root and each one is written to
+ * Playlists/Smart_<name>.m3u8 whenever the inventory changes, the same way
+ * the master and genre playlists are; the files are never edited by hand.
+ */
+export class SmartPlaylistService {
+  static getPlaylistName(name: string): string {
+    return `${PLAYLIST_CONSTANTS.SMART_PLAYLIST_PREFIX}${name}`;
+  }
+
+  static isSmartPlaylist(playlistName: string): boolean {
+    return playlistName.startsWith(PLAYLIST_CONSTANTS.SMART_PLAYLIST_PREFIX);
+  }
+
+  /**
+   * Stored rule sets. Entries that are not valid rule sets (a hand-edited
+   * file) are skipped.
+   */
+  static async list(libraryPath: string): Promise<SmartPlaylist[]> {
+    const filePath = this.getRulesPath(libraryPath);
+    if (!(await fs.pathExists(filePath))) return [];
+
+    try {
+      const stored: unknown = await fs.readJson(filePath);
+      if (!Array.isArray(stored)) return [];
+      return stored.flatMap((value) => {
+        try {
+          return [this.validate(value)];
+        } catch {
+          return [];
+        }
+      });
+    } catch (err) {
+      console.warn(`[SmartPlaylistService] Could not read ${filePath}`, err);
+      return [];
+    }
+  }
+
+  /**
+   * Creates a smart playlist, or replaces the one named previousName (which
+   * may be renamed), and writes its playlist file right away.
+   */
+  static async save(
+    libraryPath: string,
+    value: unknown,
+    previousName?: string,
+  ): Promise<SmartPlaylist> {
+    const playlist = this.validate(value);
+
+    return LibraryStore.withLock(libraryPath, async () => {
+      const playlists = await this.list(libraryPath);
+      const index =
+        previousName === undefined
+          ? -1
+          : playlists.findIndex((p) => p.name === previousName);
+      if (previousName !== undefined && index === -1) {
+        throw new Error(ERROR_MESSAGES.SMART_PLAYLIST_NOT_FOUND(previousName));
+      }
+      if (
+        playlists.some(
+          (p, i) =>
+            i !== index && p.name.toLowerCase() === playlist.name.toLowerCase(),
+        )
+      ) {
+        throw new Error(ERROR_MESSAGES.PLAYLIST_ALREADY_EXISTS(playlist.name));
+      }
+
+      if (index === -1) playlists.push(playlist);
+      else playlists[index] = playlist;
+      await this.writeRules(libraryPath, playlists);
+
+      const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+      if (previousName !== undefined && previousName !== playlist.name) {
+        await fs.remove(this.getFilePath(playlistDir, previousName));
+      }
+      const inventory = (await LibraryStore.read(libraryPath)) ?? [];
+      await this.writePlaylist(playlist, inventory, playlistDir);
+      return playlist;
+    });
+  }
+
+  /**
+   * Drops the rule set of a smart playlist. Its playlist file is deleted by
+   * OrganizerService.deletePlaylist, which calls this within its journal.
+   */
+  static async remove(
+    libraryPath: string,
+    name: string,
+    journal?: OperationJournal,
+  ): Promise<void> {
+    const playlists = await this.list(libraryPath);
+    const remaining = playlists.filter((p) => p.name !== name);
+    if (remaining.length === playlists.length) return;
+
+    await journal?.capture(this.getRulesPath(libraryPath));
+    await this.writeRules(libraryPath, remaining);
+  }
+
+  /**
+   * Writes the playlist file of every smart playlist from the inventory.
+   */
+  static async generate(
+    inventory: SongMetadata[],
+    libraryPath: string,
+    journal?: OperationJournal,
+  ): Promise<void> {
+    const playlists = await this.list(libraryPath);
+    const playlistDir = path.join(libraryPath, FILE_CONSTANTS.PLAYLISTS_DIR);
+    for (const playlist of playlists) {
+      await this.writePlaylist(playlist, inventory, playlistDir, journal);
+    }
+  }
+
+  static matches(song: SongMetadata, playlist: SmartPlaylist): boolean {
+    const test = (rule: SmartRule) => this.matchesRule(song, rule);
+    return playlist.match === "all"
+      ? playlist.rules.every(test)
+      : playlist.rules.some(test);
+  }
+
+  /**
+   * Checks a rule set sent by a client and returns a clean copy of it.
+   */
+  static validate(value: unknown): SmartPlaylist {
+    const input = (value ?? {}) as Partial<Record<keyof SmartPlaylist, unknown>>;
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!OrganizerService.isValidPlaylistName(name)) {
+      throw new Error(ERROR_MESSAGES.INVALID_PLAYLIST_NAME(name));
+    }
+
+    const modes: readonly unknown[] = SMART_PLAYLIST_CONSTANTS.MATCH_MODES;
+    if (!modes.includes(input.match)) {
+      throw new Error(
+        ERROR_MESSAGES.INVALID_SMART_PLAYLIST(`match must be ${modes.join(" or ")}`),
+      );
+    }
+    if (!Array.isArray(input.rules) || input.rules.length === 0) {
+      throw new Error(
+        ERROR_MESSAGES.INVALID_SMART_PLAYLIST("at least one rule is required"),
+      );
+    }
+
+    return {
+      name,
+      match: input.match as SmartMatchMode,
+      rules: input.rules.map((rule) => this.validateRule(rule)),
+    };
+  }
+
+  // --- Helpers ---
+
+  private static getRulesPath(libraryPath: string): string {
+    return path.join(libraryPath, FILE_CONSTANTS.SMART_PLAYLISTS_FILE);
+  }
+
+  private static getFilePath(playlistDir: string, name: string): string {
+    return path.join(
+      playlistDir,
+      `${this.getPlaylistName(name)}${FILE_EXTENSIONS.PLAYLIST_PRIMARY}`,
+    );
+  }
+
+  private static async writeRules(
+    libraryPath: string,
+    playlists: SmartPlaylist[],
+  ): Promise<void> {
+    await fs.writeJson(this.getRulesPath(libraryPath), playlists, { spaces: 2 });
+  }
+
+  private static async writePlaylist(
+    playlist: SmartPlaylist,
+    inventory: SongMetadata[],
+    playlistDir: string,
+    journal?: OperationJournal,
+  ): Promise<void> {
+    const content = M3uService.build(
+      inventory
+        .filter((song) => this.matches(song, playlist))
+        .map((song) => ({
+          path: path.relative(playlistDir, song.absPath).split(path.sep).join("/"),
+          song,
+        })),
+    );
+    const filePath = this.getFilePath(playlistDir, playlist.name);
+    await journal?.capture(filePath);
+    await fs.outputFile(filePath, content);
+  }
+
+  private static matchesRule(song: SongMetadata, rule: SmartRule): boolean {
+    switch (rule.field) {
+      case "genre": {
+        const genres = rule.values.map((g) => g.toLowerCase());
+        return song.genre.some((g) => genres.includes(g.trim().toLowerCase()));
+      }
+      case "year":
+        return (
+          song.year !== undefined &&
+          (rule.min === undefined || song.year >= rule.min) &&
+          (rule.max === undefined || song.year <= rule.max)
+        );
+      case "lossless": {
+        const lossless =
+          song.lossless ??
+          (CONFLICT_CONSTANTS.LOSSLESS_FORMATS as readonly string[]).includes(
+            song.format.toLowerCase(),
+          );
+        return lossless === rule.value;
+      }
+      case "bitrate":
+        return song.bitrate !== undefined && song.bitrate >= rule.min;
+      case "artist": {
+        const text = rule.contains.toLowerCase();
+        return [song.artist, song.albumArtist].some(
+          (artist) => !!artist && artist.toLowerCase().includes(text),
+        );
+      }
+    }
+  }
+
+  private static validateRule(value: unknown): SmartRule {
+    const rule = (value ?? {}) as Record<string, unknown>;
+    const isNumber = (n: unknown): n is number =>
+      typeof n === "number" && Number.isFinite(n);
+    const invalid = (reason: string) =>
+      new Error(ERROR_MESSAGES.INVALID_SMART_PLAYLIST(reason));
+
+    switch (rule.field) {
+      case "genre": {
+        const values = Array.isArray(rule.values)
+          ? rule.values
+              .filter((g): g is string => typeof g === "string")
+              .map((g) => g.trim())
+              .filter(Boolean)
+          : [];
+        if (values.length === 0) throw invalid("genre needs at least one value");
+        return { field: "genre", values };
+      }
+      case "year": {
+        const min = isNumber(rule.min) ? Math.trunc(rule.min) : undefined;
+        const max = isNumber(rule.max) ? Math.trunc(rule.max) : undefined;
+        if (min === undefined && max === undefined) {
+          throw invalid("year needs a minimum or a maximum");
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+          throw invalid("year minimum is after its maximum");
+        }
+        return {
+          field: "year",
+          ...(min !== undefined && { min }),
+          ...(max !== undefined && { max }),
+        };
+      }
+      case "lossless":
+        if (typeof rule.value !== "boolean") throw invalid("lossless needs true or false");
+        return { field: "lossless", value: rule.value };
+      case "bitrate":
+        if (!isNumber(rule.min) || rule.min <= 0) {
+          throw invalid("bitrate needs a positive minimum");
+        }
+        return { field: "bitrate", min: rule.min };
+      case "artist": {
+        const contains = typeof rule.contains === "string" ? rule.contains.trim() : "";
+        if (!contains) throw invalid("artist needs some text to match");
+        return { field: "artist", contains };
+      }
+      default:
+        throw invalid(
+          `unknown field ${String(rule.field)} (expected ${SMART_PLAYLIST_CONSTANTS.FIELDS.join(", ")})`,
+        );
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import {
+  FILE_CONSTANTS,
+  FILE_EXTENSIONS,
+  ERROR_MESSAGES,
+  TRANSCODE_CONSTANTS,
+} from "../constants";
+import { OrganizerService } from "./OrganizerService";
+
+export type ExportProfile = (typeof TRANSCODE_CONSTANTS.PROFILES)[number];
+
+interface ProfileSettings {
+  extension: string;
+  muxer: string; // ffmpeg output format, as the file is written under a temporary name
+  codec: string[];
+  pictureStream: boolean; // The container keeps the cover as an attached picture
+}
+
+const PROFILES: Record<ExportProfile, ProfileSettings> = {
+  "mp3-v0": {
+    extension: FILE_EXTENSIONS.MP3,
+    muxer: "mp3",
+    codec: ["-c:a", "libmp3lame", "-q:a", "0", "-id3v2_version", "3"],
+    pictureStream: true,
+  },
+  "mp3-320": {
+    extension: FILE_EXTENSIONS.MP3,
+    muxer: "mp3",
+    codec: ["-c:a", "libmp3lame", "-b:a", "320k", "-id3v2_version", "3"],
+    pictureStream: true,
+  },
+  "aac-256": {
+    extension: FILE_EXTENSIONS.M4A,
+    muxer: "ipod",
+    codec: ["-c:a", "aac", "-b:a", "256k"],
+    pictureStream: true,
+  },
+  "opus-160": {
+    extension: FILE_EXTENSIONS.OPUS,
+    muxer: "opus",
+    codec: ["-c:a", "libopus", "-b:a", "160k"],
+    pictureStream: false,
+  },
+  "flac-16-44": {
+    extension: FILE_EXTENSIONS.FLAC,
+    muxer: "flac",
+    codec: ["-c:a", "flac", "-sample_fmt", "s16", "-ar", "44100"],
+    pictureStream: true,
+  },
+};
+
+interface SourceState {
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Converts tracks for exports to portable players with the bundled ffmpeg.
+ * Tags and the cover are carried over. Converted tracks are cached in a
+ * hidden folder of the library, one folder per profile, and reused while
+ * the original keeps the size and mtime it was converted from.
+ */
+export class TranscodeService {
+  static isProfile(value: unknown): value is ExportProfile {
+    return (TRANSCODE_CONSTANTS.PROFILES as readonly unknown[]).includes(value);
+  }
+
+  /**
+   * The path with the extension of the files the profile writes.
+   */
+  static withExtension(filePath: string, profile: ExportProfile): string {
+    const { dir, name } = path.parse(filePath);
+    return path.join(dir, `${name}${PROFILES[profile].extension}`);
+  }
+
+  /**
+   * Path of the track converted with the profile. Converts it when the cache
+   * has no copy, or one made from a different file at the same path (a
+   * replaced track may well have an older mtime).
+   */
+  static async transcode(
+    trackPath: string,
+    profile: ExportProfile,
+    libraryPath: string,
+  ): Promise<string> {
+    const cachePath = this.getCachePath(trackPath, profile, libraryPath);
+    const statePath = `${cachePath}${TRANSCODE_CONSTANTS.SOURCE_STATE_SUFFIX}`;
+    const { size, mtimeMs } = await fs.stat(trackPath);
+    const source: SourceState = { size, mtimeMs };
+    if (await fs.pathExists(cachePath)) {
+      const cached = await this.readSourceState(statePath);
+      if (cached && cached.size === source.size && cached.mtimeMs === source.mtimeMs) {
+        return cachePath;
+      }
+    }
+
+    // Written aside and renamed, so an interrupted run leaves no partial file
+    const tempPath = `${cachePath}${FILE_CONSTANTS.TEMP_FILE_SUFFIX}`;
+    const metadataPath = `${cachePath}.ffmetadata`;
+    await fs.ensureDir(path.dirname(cachePath));
+    try {
+      const args = await this.buildArgs(trackPath, profile, tempPath, metadataPath);
+      await this.runFfmpeg(args);
+      await fs.move(tempPath, cachePath, { overwrite: true });
+      await fs.outputJson(statePath, source);
+    } finally {
+      await fs.remove(tempPath);
+      await fs.remove(metadataPath);
+    }
+    return cachePath;
+  }
+
+  /**
+   * Removes cached copies of tracks that are no longer at any of the given
+   * paths (moved or deleted), across every profile.
+   */
+  static async prune(libraryPath: string, trackPaths: string[]): Promise<void> {
+    const cacheDir = path.join(libraryPath, TRANSCODE_CONSTANTS.CACHE_DIR);
+    if (!(await fs.pathExists(cacheDir))) return;
+
+    const keys = new Set(trackPaths.map((trackPath) => this.getCacheKey(trackPath)));
+    for (const profile of TRANSCODE_CONSTANTS.PROFILES) {
+      const profileDir = path.join(cacheDir, profile);
+      if (!(await fs.pathExists(profileDir))) continue;
+      for (const file of await fs.readdir(profileDir)) {
+        // The converted track and its source state share the key
+        if (!keys.has(file.split(".")[0])) {
+          await fs.remove(path.join(profileDir, file));
+        }
+      }
+    }
+  }
+
+  // --- Helpers ---
+
+  private static getCacheKey(trackPath: string): string {
+    return crypto.createHash("sha1").update(path.resolve(trackPath)).digest("hex");
+  }
+
+  private static getCachePath(
+    trackPath: string,
+    profile: ExportProfile,
+    libraryPath: string,
+  ): string {
+    const key = this.getCacheKey(trackPath);
+    return path.join(
+      libraryPath,
+      TRANSCODE_CONSTANTS.CACHE_DIR,
+      profile,
+      `${key}${PROFILES[profile].extension}`,
+    );
+  }
+
+  /**
+   * Size and mtime the cached copy was converted from, or null for copies
+   * without a readable record.
+   */
+  private static async readSourceState(statePath: string): Promise<SourceState | null> {
+    try {
+      const state = await fs.readJson(statePath);
+      return typeof state?.size === "number" && typeof state?.mtimeMs === "number"
+        ? state
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ffmpeg arguments for one track. Opus in Ogg cannot hold a picture
+   * stream, so the cover goes in a METADATA_BLOCK_PICTURE tag read from an
+   * ffmetadata file (the tag is too long for the command line).
+   */
+  private static async buildArgs(
+    trackPath: string,
+    profile: ExportProfile,
+    outputPath: string,
+    metadataPath: string,
+  ): Promise<string[]> {
+    const settings = PROFILES[profile];
+    const inputs = ["-i", trackPath];
+    const mapping = ["-map", "0:a:0", "-map_metadata", "0"];
+
+    if (settings.pictureStream) {
+      mapping.push("-map", "0:v?", "-c:v", "copy", "-disposition:v", "attached_pic");
+    } else {
+      const cover = await OrganizerService.getAlbumCover(trackPath);
+      if (cover) {
+        await fs.outputFile(
+          metadataPath,
+          `;FFMETADATA1\n${TRANSCODE_CONSTANTS.OPUS_PICTURE_TAG}=${this.escapeMetadata(this.pictureBlock(cover))}\n`,
+        );
+        inputs.push("-i", metadataPath);
+        mapping.push("-map_metadata:s:a:0", "1");
+      }
+    }
+
+    return [
+      "-y",
+      "-v",
+      "error",
+      ...inputs,
+      ...mapping,
+      ...settings.codec,
+      "-f",
+      settings.muxer,
+      outputPath,
+    ];
+  }
+
+  /**
+   * FLAC PICTURE block of a front cover, base64-encoded as Vorbis comments
+   * carry it. Dimensions are left at 0 (unknown), which players accept.
+   */
+  private static pictureBlock(cover: { data: Buffer; mimeType: string }): string {
+    const uint32 = (value: number) => {
+      const buffer = Buffer.alloc(4);
+      buffer.writeUInt32BE(value);
+      return buffer;
+    };
+    const mimeType = Buffer.from(cover.mimeType, "ascii");
+    return Buffer.concat([
+      uint32(TRANSCODE_CONSTANTS.FRONT_COVER_PICTURE_TYPE),
+      uint32(mimeType.length),
+      mimeType,
+      uint32(0), // Description
+      uint32(0), // Width
+      uint32(0), // Height
+      uint32(0), // Color depth
+      uint32(0), // Indexed colors
+      uint32(cover.data.length),
+      cover.data,
+    ]).toString("base64");
+  }
+
+  private static escapeMetadata(value: string): string {
+    return value.replace(/[=;#\\\n]/g, "\\$&");
+  }
+
+  private static runFfmpeg(args: string[]): Promise<void> {
+    const ffmpegPath = ffmpegStatic;
+    if (!ffmpegPath) return Promise.reject(new Error(ERROR_MESSAGES.FFMPEG_NOT_AVAILABLE));
+
+    return new Promise<void>((resolve, reject) => {
+      execFile(ffmpegPath, args, (error, _stdout, stderr) =>
+        error ? reject(new Error(`ffmpeg failed: ${stderr || error.message}`)) : resolve(),
+      );
+    });
+  }
+}
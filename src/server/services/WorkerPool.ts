@@ -0,0 +1,94 @@
+import { CONCURRENCY_CONSTANTS } from "../constants";
+
+export interface PoolResult<T, R> {
+  item: T;
+  index: number; // Position of the item in the input
+  result: R;
+}
+
+type Settled<T, R> =
+  | { id: number; ok: true; value: PoolResult<T, R> }
+  | { id: number; ok: false; error: unknown };
+
+/**
+ * Runs async work (parseFile, stat...) over many items with a bounded number
+ * of tasks in flight, so large inboxes and libraries on slow (NAS) storage
+ * are processed in parallel without opening every file at once.
+ */
+export class WorkerPool {
+  /**
+   * Clamps a configured value to a usable concurrency; invalid values fall
+   * back to the default.
+   */
+  static normalizeConcurrency(value?: unknown): number {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return CONCURRENCY_CONSTANTS.DEFAULT;
+    }
+    return Math.min(
+      CONCURRENCY_CONSTANTS.MAX,
+      Math.max(CONCURRENCY_CONSTANTS.MIN, value),
+    );
+  }
+
+  /**
+   * Yields results as soon as each task finishes (completion order).
+   * Items are pulled from the input lazily, so at most `concurrency` items
+   * and results are held at a time. The first error stops the stream.
+   */
+  static async *stream<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+  ): AsyncGenerator<PoolResult<T, R>> {
+    const limit = this.normalizeConcurrency(concurrency);
+    const iterator =
+      Symbol.asyncIterator in items
+        ? items[Symbol.asyncIterator]()
+        : items[Symbol.iterator]();
+    const inFlight = new Map<number, Promise<Settled<T, R>>>();
+    let nextIndex = 0;
+    let exhausted = false;
+
+    while (true) {
+      while (!exhausted && inFlight.size < limit) {
+        const next = await iterator.next();
+        if (next.done) {
+          exhausted = true;
+          break;
+        }
+        const item = next.value;
+        const index = nextIndex++;
+        inFlight.set(
+          index,
+          worker(item, index).then(
+            (result): Settled<T, R> => ({ id: index, ok: true, value: { item, index, result } }),
+            (error: unknown): Settled<T, R> => ({ id: index, ok: false, error }),
+          ),
+        );
+      }
+
+      if (inFlight.size === 0) return;
+
+      const settled = await Promise.race(inFlight.values());
+      inFlight.delete(settled.id);
+      if (!settled.ok) throw settled.error;
+      yield settled.value;
+    }
+  }
+
+  /**
+   * Maps every item with bounded concurrency and returns the results in
+   * input order.
+   */
+  static async map<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = [];
+    for await (const { index, result } of this.stream(items, concurrency, worker)) {
+      results[index] = result;
+    }
+    return results;
+  }
+}
@@ -0,0 +1,30 @@
+import { vi } from 'vitest'
+import type { SongMetadata } from '../server/services/OrganizerService'
+
+/**
+ * A track of the '/library' test library, identified by its relative path.
+ */
+export const librarySong = (relPath: string, overrides: Partial<SongMetadata> = {}): SongMetadata => ({
+  id: relPath,
+  title: 'Song',
+  artist: 'Artist',
+  album: 'Album',
+  trackNo: '01',
+  genre: ['Rock'],
+  format: '.flac',
+  absPath: `/library/${relPath}`,
+  relPath,
+  playlists: [],
+  ...overrides,
+})
+
+/**
+ * LibraryStore module mock: read is a vi.fn, withLock runs the work at once.
+ * Use as vi.mock('../server/services/LibraryStore', () => import('../test/library').then((m) => m.mockLibraryStore())).
+ */
+export const mockLibraryStore = () => ({
+  LibraryStore: {
+    read: vi.fn(),
+    withLock: (_libraryPath: string, work: () => Promise<unknown>) => work(),
+  },
+})